@@ -0,0 +1,304 @@
+// Vercel serverless function for linking bank accounts through a connector (lib/aurora/banking).
+//
+//   GET    /api/bank-connections                 → { connectors, accounts } the caller's accounts
+//   GET    /api/bank-connections?search=<text>   → { institutions } from every enabled connector
+//   POST   /api/bank-connections { action: 'link', connector, institutionId }
+//                                               → LinkSession for the connector's consent flow
+//   POST   /api/bank-connections { action: 'exchange', connector, publicToken, institution }
+//                                               → { accounts } after storing the new connection
+//                                                 and running its first sync
+//   DELETE /api/bank-connections { connectionId }  → 204; unlinks upstream and drops its accounts
+//
+// Reads run with the caller's token under RLS. Connections, their access tokens and the
+// accounts they bring in are written with SUPABASE_SERVICE_ROLE_KEY, so a browser can never
+// see or forge a connector token.
+
+import { authenticateRequest, createServiceRoleClient, type AuthenticatedCaller } from '../lib/aurora/auth.js';
+import {
+  BankConnectorError,
+  createBankConnectorsFromEnv,
+  createSyncEngine,
+  syncIntervalMsFromEnv,
+  type BankConnector,
+  type ConnectorAccount,
+  type LinkedAccount,
+} from '../lib/aurora/banking/index.js';
+
+const ACCOUNT_COLUMNS =
+  'id, connection_id, name, institution, type, mask, balance, available_balance, currency, country, nickname, ' +
+  'visible, notifications, is_primary, ' +
+  'bank_connections (connector, status, last_synced_at, last_error_message, next_sync_at)';
+
+let connectors: Map<string, BankConnector> | undefined;
+
+function getConnectors(): Map<string, BankConnector> {
+  if (!connectors) {
+    connectors = createBankConnectorsFromEnv();
+  }
+  return connectors;
+}
+
+function readBody(req: any): any {
+  return typeof req.body === 'string' && req.body ? JSON.parse(req.body) : req.body ?? {};
+}
+
+function toLinkedAccount(row: any): LinkedAccount {
+  const connection = row.bank_connections ?? null;
+  return {
+    id: String(row.id),
+    connectionId: row.connection_id ?? null,
+    connector: connection?.connector ?? null,
+    institution: row.institution ?? 'Manual account',
+    name: row.name ?? 'Account',
+    kind: row.type ?? 'other',
+    mask: row.mask ?? null,
+    balance: Number(row.balance) || 0,
+    availableBalance: row.available_balance == null ? null : Number(row.available_balance),
+    currency: row.currency ?? 'USD',
+    country: row.country ?? null,
+    nickname: row.nickname ?? null,
+    visible: row.visible !== false,
+    notifications: row.notifications ?? 'important',
+    primary: Boolean(row.is_primary),
+    status: connection?.status ?? 'healthy',
+    lastSyncedAt: connection?.last_synced_at ?? null,
+    syncError: connection && connection.status !== 'healthy' ? connection.last_error_message ?? null : null,
+    nextSyncAt: connection?.next_sync_at ?? null,
+  };
+}
+
+async function listAccounts(caller: AuthenticatedCaller): Promise<LinkedAccount[]> {
+  const { data, error } = await caller.client
+    .from('accounts')
+    .select(ACCOUNT_COLUMNS)
+    .eq('user_id', caller.userId)
+    .order('is_primary', { ascending: false })
+    .order('created_at', { ascending: true });
+  if (error) throw new Error(error.message);
+  return (data ?? []).map(toLinkedAccount);
+}
+
+async function searchInstitutions(query: string) {
+  const settled = await Promise.allSettled(
+    Array.from(getConnectors().values(), (connector) => connector.listInstitutions(query)),
+  );
+  return settled.flatMap((result) => {
+    if (result.status === 'fulfilled') return result.value;
+    console.error('Aurora /api/bank-connections institution search failed', result.reason);
+    return [];
+  });
+}
+
+async function storeConnection(
+  admin: any,
+  caller: AuthenticatedCaller,
+  connector: BankConnector,
+  institution: { id: string; name: string; country: string | null },
+  item: { accessToken: string; itemId: string },
+  accounts: ConnectorAccount[],
+): Promise<string> {
+  const { data: connection, error } = await admin
+    .from('bank_connections')
+    .insert({
+      user_id: caller.userId,
+      connector: connector.name,
+      item_id: item.itemId,
+      institution_id: institution.id,
+      institution_name: institution.name,
+      institution_country: institution.country,
+    })
+    .select('id')
+    .single();
+  if (error) throw new Error(error.message);
+
+  const { error: tokenError } = await admin
+    .from('bank_connection_tokens')
+    .insert({ connection_id: connection.id, access_token: item.accessToken });
+  if (tokenError) {
+    await admin.from('bank_connections').delete().eq('id', connection.id);
+    throw new Error(tokenError.message);
+  }
+
+  // The first account a user ever links becomes their primary one.
+  const { count } = await admin
+    .from('accounts')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', caller.userId);
+
+  const { error: accountsError } = await admin.from('accounts').upsert(
+    accounts.map((account, index) => ({
+      user_id: caller.userId,
+      connection_id: connection.id,
+      external_id: account.externalId,
+      name: account.name,
+      institution: institution.name,
+      type: account.kind,
+      mask: account.mask,
+      balance: account.balance,
+      available_balance: account.availableBalance,
+      currency: account.currency,
+      country: institution.country,
+      is_primary: !count && index === 0,
+      updated_at: new Date().toISOString(),
+    })),
+    { onConflict: 'connection_id,external_id' },
+  );
+  if (accountsError) {
+    await admin.from('bank_connections').delete().eq('id', connection.id);
+    throw new Error(accountsError.message);
+  }
+  return connection.id;
+}
+
+async function unlinkConnection(admin: any, caller: AuthenticatedCaller, connectionId: string): Promise<boolean> {
+  const { data: connection, error } = await admin
+    .from('bank_connections')
+    .select('id, connector, bank_connection_tokens (access_token)')
+    .eq('id', connectionId)
+    .eq('user_id', caller.userId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!connection) return false;
+
+  const connector = getConnectors().get(connection.connector);
+  const accessToken = connection.bank_connection_tokens?.access_token;
+  if (connector && accessToken) {
+    try {
+      await connector.unlink(accessToken);
+    } catch (err) {
+      // The user asked to disconnect; a failed upstream revoke must not keep the data here.
+      console.error('Aurora /api/bank-connections upstream unlink failed; removing locally', err);
+    }
+  }
+
+  const { error: deleteError } = await admin.from('bank_connections').delete().eq('id', connection.id);
+  if (deleteError) throw new Error(deleteError.message);
+  return true;
+}
+
+function sendConnectorError(res: any, err: BankConnectorError) {
+  switch (err.code) {
+    case 'invalid-request':
+      return res.status(400).json({ error: 'The institution rejected this request', code: err.code });
+    case 'reauth-required':
+      return res.status(409).json({ error: 'The institution needs you to sign in again', code: err.code });
+    case 'rate-limited': {
+      const retryAfterSeconds = Math.max(1, Math.ceil((err.retryAfterMs ?? 60_000) / 1000));
+      res.setHeader('Retry-After', String(retryAfterSeconds));
+      return res.status(429).json({ error: 'The bank connector is busy. Try again shortly.', code: err.code });
+    }
+    case 'institution-down':
+      return res.status(503).json({ error: 'The institution is not responding right now', code: err.code });
+    default:
+      return res.status(502).json({ error: 'The bank connector failed. Please try again.', code: err.code });
+  }
+}
+
+export default async function handler(req: any, res: any) {
+  if (req.method !== 'GET' && req.method !== 'POST' && req.method !== 'DELETE') {
+    res.setHeader('Allow', 'GET, POST, DELETE');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  const auth = await authenticateRequest(req);
+  if (auth.status === 'anonymous' || auth.status === 'invalid') {
+    res.setHeader('WWW-Authenticate', 'Bearer error="invalid_token"');
+    return res.status(401).json({ error: 'Sign in to manage linked accounts' });
+  }
+  if (auth.status === 'unavailable') {
+    return res.status(503).json({ error: 'Authentication is temporarily unavailable' });
+  }
+  if (auth.status === 'mfa-required') {
+    return res.status(403).json({ error: 'Verify with your authenticator app to continue' });
+  }
+  const { caller } = auth;
+
+  try {
+    if (req.method === 'GET') {
+      if (typeof req.query?.search === 'string') {
+        return res.status(200).json({ institutions: await searchInstitutions(req.query.search) });
+      }
+      return res.status(200).json({
+        connectors: Array.from(getConnectors().values(), (connector) => ({
+          name: connector.name,
+          label: connector.label,
+        })),
+        accounts: await listAccounts(caller),
+      });
+    }
+
+    const admin = createServiceRoleClient();
+    if (!admin) {
+      return res.status(503).json({ error: 'Bank linking is not configured on this deployment' });
+    }
+    const body = readBody(req);
+
+    if (req.method === 'DELETE') {
+      const connectionId = typeof body?.connectionId === 'string' ? body.connectionId : '';
+      if (!connectionId) {
+        return res.status(400).json({ error: 'Missing connectionId' });
+      }
+      if (!(await unlinkConnection(admin, caller, connectionId))) {
+        return res.status(404).json({ error: 'Connection not found' });
+      }
+      return res.status(204).end();
+    }
+
+    const connector = getConnectors().get(String(body?.connector ?? ''));
+    if (!connector) {
+      return res.status(400).json({ error: 'Unknown bank connector' });
+    }
+
+    if (body?.action === 'link') {
+      const institutionId = typeof body.institutionId === 'string' ? body.institutionId : '';
+      if (!institutionId) {
+        return res.status(400).json({ error: 'Choose an institution to connect' });
+      }
+      return res.status(200).json(await connector.createLinkToken({ userId: caller.userId, institutionId }));
+    }
+
+    if (body?.action === 'exchange') {
+      const publicToken = typeof body.publicToken === 'string' ? body.publicToken : '';
+      const institution = body.institution;
+      if (!publicToken || typeof institution?.id !== 'string' || typeof institution?.name !== 'string') {
+        return res.status(400).json({ error: 'Missing publicToken or institution' });
+      }
+
+      const item = await connector.exchangePublicToken(publicToken);
+      let accounts: ConnectorAccount[];
+      try {
+        accounts = await connector.fetchAccounts(item.accessToken);
+      } catch (err) {
+        await connector.unlink(item.accessToken).catch(() => undefined);
+        throw err;
+      }
+
+      const connectionId = await storeConnection(
+        admin,
+        caller,
+        connector,
+        {
+          id: institution.id,
+          name: institution.name,
+          country: typeof institution.country === 'string' ? institution.country : null,
+        },
+        item,
+        accounts,
+      );
+      // Failures are recorded on the connection and shown on the Accounts page, not thrown.
+      await createSyncEngine({ connectors: getConnectors(), db: admin, intervalMs: syncIntervalMsFromEnv() })
+        .syncConnection(connectionId, 'link')
+        .catch((err) => console.error('Aurora /api/bank-connections first sync failed', err));
+      return res.status(200).json({ accounts: await listAccounts(caller) });
+    }
+
+    return res.status(400).json({ error: 'Unknown action' });
+  } catch (err) {
+    if (err instanceof BankConnectorError) {
+      console.error('Aurora /api/bank-connections connector error', err);
+      return sendConnectorError(res, err);
+    }
+    console.error('Aurora /api/bank-connections error', err);
+    return res.status(500).json({ error: 'Could not update your linked accounts. Please try again.' });
+  }
+}
@@ -0,0 +1,138 @@
+// Vercel serverless function for syncing linked bank connections (lib/aurora/banking/sync.ts).
+//
+//   GET  /api/bank-sync                      with `Authorization: Bearer $CRON_SECRET`
+//                                            → { attempts } syncs every connection that is due
+//   GET  /api/bank-sync?connectionId=<id>    → { attempts } the connection's latest attempts
+//   POST /api/bank-sync { connectionId }     → { attempt } "Retry sync" for one connection
+//
+// The Vercel cron in vercel.json calls the first form. User requests run with the caller's
+// token; syncing itself writes with SUPABASE_SERVICE_ROLE_KEY. Manual retries are throttled
+// per connection through the RATE_LIMIT_STORE backend.
+
+import { authenticateRequest, createServiceRoleClient, getBearerToken } from '../lib/aurora/auth.js';
+import {
+  createBankConnectorsFromEnv,
+  createSyncEngine,
+  syncIntervalMsFromEnv,
+  toSyncAttempt,
+  type BankConnector,
+  type SyncEngine,
+} from '../lib/aurora/banking/index.js';
+import { createLimitStoreFromEnv, retryAfterMs, type BucketSpec, type LimitStore } from '../lib/aurora/limits/index.js';
+
+const HISTORY_LIMIT = 20;
+const CRON_BATCH_SIZE = 25;
+// Three retries back to back, then one every two minutes.
+const RETRY_BUCKET: BucketSpec = { capacity: 3, refillPerSecond: 1 / 120 };
+
+let connectors: Map<string, BankConnector> | undefined;
+let limitStore: LimitStore | undefined;
+
+function getConnectors(): Map<string, BankConnector> {
+  if (!connectors) {
+    connectors = createBankConnectorsFromEnv();
+  }
+  return connectors;
+}
+
+function getLimitStore(): LimitStore {
+  if (!limitStore) {
+    limitStore = createLimitStoreFromEnv();
+  }
+  return limitStore;
+}
+
+function readBody(req: any): any {
+  return typeof req.body === 'string' && req.body ? JSON.parse(req.body) : req.body ?? {};
+}
+
+function isCronRequest(req: any): boolean {
+  const secret = (globalThis as any)?.process?.env?.CRON_SECRET as string | undefined;
+  return Boolean(secret) && getBearerToken(req) === secret;
+}
+
+function createEngine(admin: any): SyncEngine {
+  return createSyncEngine({ connectors: getConnectors(), db: admin, intervalMs: syncIntervalMsFromEnv() });
+}
+
+export default async function handler(req: any, res: any) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', 'GET, POST');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  try {
+    if (req.method === 'GET' && isCronRequest(req)) {
+      const admin = createServiceRoleClient();
+      if (!admin) {
+        return res.status(503).json({ error: 'Bank sync is not configured on this deployment' });
+      }
+      return res.status(200).json({ attempts: await createEngine(admin).runDueSyncs(CRON_BATCH_SIZE) });
+    }
+
+    const auth = await authenticateRequest(req);
+    if (auth.status === 'anonymous' || auth.status === 'invalid') {
+      res.setHeader('WWW-Authenticate', 'Bearer error="invalid_token"');
+      return res.status(401).json({ error: 'Sign in to sync your accounts' });
+    }
+    if (auth.status === 'unavailable') {
+      return res.status(503).json({ error: 'Authentication is temporarily unavailable' });
+    }
+    if (auth.status === 'mfa-required') {
+      return res.status(403).json({ error: 'Verify with your authenticator app to continue' });
+    }
+    const { caller } = auth;
+
+    const connectionId =
+      req.method === 'GET' ? String(req.query?.connectionId ?? '') : String(readBody(req)?.connectionId ?? '');
+    if (!connectionId) {
+      return res.status(400).json({ error: 'Missing connectionId' });
+    }
+
+    if (req.method === 'GET') {
+      const { data, error } = await caller.client
+        .from('bank_sync_attempts')
+        .select('*')
+        .eq('connection_id', connectionId)
+        .order('started_at', { ascending: false })
+        .limit(HISTORY_LIMIT);
+      if (error) throw new Error(error.message);
+      return res.status(200).json({ attempts: (data ?? []).map(toSyncAttempt) });
+    }
+
+    // RLS hides other users' connections, so this doubles as the ownership check.
+    const { data: connection, error } = await caller.client
+      .from('bank_connections')
+      .select('id')
+      .eq('id', connectionId)
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    if (!connection) {
+      return res.status(404).json({ error: 'Connection not found' });
+    }
+
+    try {
+      const result = await getLimitStore().takeToken(`bank-sync:connection:${connectionId}`, RETRY_BUCKET);
+      if (!result.allowed) {
+        const retryAfterSeconds = Math.max(1, Math.ceil(retryAfterMs(result, RETRY_BUCKET) / 1000));
+        res.setHeader('Retry-After', String(retryAfterSeconds));
+        return res.status(429).json({ error: 'This account was just synced. Try again in a couple of minutes.' });
+      }
+    } catch (err) {
+      console.error('Aurora /api/bank-sync limit store error; allowing the retry', err);
+    }
+
+    const admin = createServiceRoleClient();
+    if (!admin) {
+      return res.status(503).json({ error: 'Bank sync is not configured on this deployment' });
+    }
+    const attempt = await createEngine(admin).syncConnection(connectionId, 'manual');
+    if (!attempt) {
+      return res.status(409).json({ error: 'A sync is already running for this account' });
+    }
+    return res.status(200).json({ attempt });
+  } catch (err) {
+    console.error('Aurora /api/bank-sync error', err);
+    return res.status(500).json({ error: 'Could not sync your accounts. Please try again.' });
+  }
+}
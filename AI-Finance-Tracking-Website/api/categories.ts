@@ -0,0 +1,170 @@
+// Vercel serverless function for the user's category taxonomy (lib/aurora/categorisation).
+//
+//   GET    /api/categories                         → CategoryTaxonomy; the first call seeds the
+//                                                   default categories
+//   POST   /api/categories { action: 'create', category }
+//                                                 → { category, taxonomy }
+//   POST   /api/categories { action: 'update', id, category }
+//                                                 → { category, change, taxonomy }; a new name
+//                                                   relabels transactions and rules
+//   POST   /api/categories { action: 'merge', id, into }
+//                                                 → { change, taxonomy }
+//   DELETE /api/categories { id }                  → { change, taxonomy }; sub-categories merge
+//                                                   into their parent
+//
+// Everything runs with the caller's token under RLS. Renames and merges rewrite many rows,
+// so they are throttled per user through the RATE_LIMIT_STORE backend.
+
+import { authenticateRequest, type AuthenticatedCaller } from '../lib/aurora/auth.js';
+import {
+  createCategoriser,
+  createTaxonomyStore,
+  parseCategoryInput,
+  TaxonomyError,
+} from '../lib/aurora/categorisation/index.js';
+import { createLimitStoreFromEnv, retryAfterMs, type BucketSpec, type LimitStore } from '../lib/aurora/limits/index.js';
+
+// Ten relabels back to back, then one every half minute.
+const RELABEL_BUCKET: BucketSpec = { capacity: 10, refillPerSecond: 1 / 30 };
+
+class ThrottledError extends Error {
+  constructor(readonly retryAfterSeconds: number) {
+    super('Too many category relabels');
+  }
+}
+
+let limitStore: LimitStore | undefined;
+
+function getLimitStore(): LimitStore {
+  if (!limitStore) {
+    limitStore = createLimitStoreFromEnv();
+  }
+  return limitStore;
+}
+
+function readBody(req: any): any {
+  return typeof req.body === 'string' && req.body ? JSON.parse(req.body) : req.body ?? {};
+}
+
+function text(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+async function throttleRelabel(caller: AuthenticatedCaller): Promise<void> {
+  try {
+    const result = await getLimitStore().takeToken(`categories:user:${caller.userId}`, RELABEL_BUCKET);
+    if (!result.allowed) {
+      throw new ThrottledError(Math.max(1, Math.ceil(retryAfterMs(result, RELABEL_BUCKET) / 1000)));
+    }
+  } catch (err) {
+    if (err instanceof ThrottledError) throw err;
+    console.error('Aurora /api/categories limit store error; allowing the request', err);
+  }
+}
+
+// The learned model predicts category names, so it is retrained once names change. A failed
+// retrain keeps the previous model; applying rules resolves its old names anyway.
+async function retrainAfterRelabel(caller: AuthenticatedCaller): Promise<void> {
+  await createCategoriser({ db: caller.client })
+    .trainModel(caller.userId)
+    .catch((err) => console.error('Aurora /api/categories: retraining the learned model failed', err));
+}
+
+export default async function handler(req: any, res: any) {
+  if (req.method !== 'GET' && req.method !== 'POST' && req.method !== 'DELETE') {
+    res.setHeader('Allow', 'GET, POST, DELETE');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  const auth = await authenticateRequest(req);
+  if (auth.status === 'anonymous' || auth.status === 'invalid') {
+    res.setHeader('WWW-Authenticate', 'Bearer error="invalid_token"');
+    return res.status(401).json({ error: 'Sign in to manage your categories' });
+  }
+  if (auth.status === 'unavailable') {
+    return res.status(503).json({ error: 'Authentication is temporarily unavailable' });
+  }
+  if (auth.status === 'mfa-required') {
+    return res.status(403).json({ error: 'Verify with your authenticator app to continue' });
+  }
+  const { caller } = auth;
+  const store = createTaxonomyStore({ db: caller.client });
+
+  try {
+    if (req.method === 'GET') {
+      return res.status(200).json(await store.loadTaxonomy(caller.userId));
+    }
+
+    const body = readBody(req);
+
+    if (req.method === 'DELETE') {
+      const id = text(body?.id);
+      if (!id) {
+        return res.status(400).json({ error: 'Missing category id' });
+      }
+      await throttleRelabel(caller);
+      const result = await store.deleteCategory(caller.userId, id);
+      if (!result) {
+        return res.status(404).json({ error: 'Category not found' });
+      }
+      if (result.change) await retrainAfterRelabel(caller);
+      return res.status(200).json({ change: result.change, taxonomy: await store.loadTaxonomy(caller.userId) });
+    }
+
+    switch (body?.action) {
+      case 'create': {
+        const parsed = parseCategoryInput(body.category);
+        if (!parsed.ok) {
+          return res.status(400).json({ error: parsed.error });
+        }
+        const category = await store.createCategory(caller.userId, parsed.category);
+        return res.status(200).json({ category, taxonomy: await store.loadTaxonomy(caller.userId) });
+      }
+
+      case 'update': {
+        const parsed = parseCategoryInput(body.category);
+        if (!parsed.ok) {
+          return res.status(400).json({ error: parsed.error });
+        }
+        await throttleRelabel(caller);
+        const result = await store.updateCategory(caller.userId, text(body.id), parsed.category);
+        if (!result) {
+          return res.status(404).json({ error: 'Category not found' });
+        }
+        if (result.change) await retrainAfterRelabel(caller);
+        return res.status(200).json({ ...result, taxonomy: await store.loadTaxonomy(caller.userId) });
+      }
+
+      case 'merge': {
+        const id = text(body.id);
+        const into = text(body.into);
+        if (!id || !into) {
+          return res.status(400).json({ error: 'Choose a category and where to merge it' });
+        }
+        await throttleRelabel(caller);
+        const change = await store.mergeCategory(caller.userId, id, into);
+        if (!change) {
+          return res.status(404).json({ error: 'Category not found' });
+        }
+        await retrainAfterRelabel(caller);
+        return res.status(200).json({ change, taxonomy: await store.loadTaxonomy(caller.userId) });
+      }
+
+      default:
+        return res.status(400).json({ error: 'Unknown action' });
+    }
+  } catch (err) {
+    if (err instanceof TaxonomyError) {
+      return res.status(409).json({ error: err.message });
+    }
+    if (err instanceof ThrottledError) {
+      res.setHeader('Retry-After', String(err.retryAfterSeconds));
+      return res.status(429).json({ error: 'Categories were relabelled a lot just now. Try again in a moment.' });
+    }
+    if (err instanceof SyntaxError) {
+      return res.status(400).json({ error: 'Invalid JSON body' });
+    }
+    console.error('Aurora /api/categories error', err);
+    return res.status(500).json({ error: 'Could not update your categories. Please try again.' });
+  }
+}
@@ -0,0 +1,238 @@
+// Vercel serverless function for categorisation rules (lib/aurora/categorisation).
+//
+//   GET    /api/categorisation                     → { rules, model } rules in the order they
+//                                                   are tried; model summarises what has been
+//                                                   learned from manual categories (or null)
+//   POST   /api/categorisation { action: 'create-rule', rule, apply? }
+//                                                 → { rule, rules, applied? }
+//   POST   /api/categorisation { action: 'update-rule', id, rule, apply? }
+//                                                 → { rule, rules, applied? }
+//   POST   /api/categorisation { action: 'reorder-rules', ids, apply? }
+//                                                 → { rules, applied? }
+//   POST   /api/categorisation { action: 'apply', accountId?, transactionIds? }
+//                                                 → ApplyRulesResult, re-running every rule and
+//                                                   the learned model over existing transactions
+//   POST   /api/categorisation { action: 'train' } → { model } after retraining from scratch
+//   POST   /api/categorisation { action: 'recategorise', transactionId, category }
+//                                                 → RecategoriseResult: the row is now the user's
+//                                                   choice; `similar` lists rows that could follow
+//   POST   /api/categorisation { action: 'categorise-similar', transactionIds, category, createRule? }
+//                                                 → { updated, rule?, rules? }
+//   DELETE /api/categorisation { id, apply? }      → { rules, applied? }
+//
+// Everything runs with the caller's token under RLS. Re-applying rules rewrites many rows,
+// so it is throttled per user through the RATE_LIMIT_STORE backend.
+
+import { authenticateRequest, type AuthenticatedCaller } from '../lib/aurora/auth.js';
+import {
+  createCategoriser,
+  parseRuleInput,
+  summariseModel,
+  type ApplyRulesResult,
+  type Categoriser,
+  type CategoryRuleInput,
+} from '../lib/aurora/categorisation/index.js';
+import { createLimitStoreFromEnv, retryAfterMs, type BucketSpec, type LimitStore } from '../lib/aurora/limits/index.js';
+
+const MAX_CATEGORY_LENGTH = 60;
+// Five full re-runs back to back, then one a minute.
+const APPLY_BUCKET: BucketSpec = { capacity: 5, refillPerSecond: 1 / 60 };
+
+class ThrottledError extends Error {
+  constructor(readonly retryAfterSeconds: number) {
+    super('Too many re-categorisations');
+  }
+}
+
+let limitStore: LimitStore | undefined;
+
+function getLimitStore(): LimitStore {
+  if (!limitStore) {
+    limitStore = createLimitStoreFromEnv();
+  }
+  return limitStore;
+}
+
+function readBody(req: any): any {
+  return typeof req.body === 'string' && req.body ? JSON.parse(req.body) : req.body ?? {};
+}
+
+function text(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+function ids(value: unknown): string[] | null {
+  return Array.isArray(value) && value.every((id) => typeof id === 'string') ? value : null;
+}
+
+async function throttleApply(caller: AuthenticatedCaller): Promise<void> {
+  try {
+    const result = await getLimitStore().takeToken(`categorise:user:${caller.userId}`, APPLY_BUCKET);
+    if (!result.allowed) {
+      throw new ThrottledError(Math.max(1, Math.ceil(retryAfterMs(result, APPLY_BUCKET) / 1000)));
+    }
+  } catch (err) {
+    if (err instanceof ThrottledError) throw err;
+    console.error('Aurora /api/categorisation limit store error; allowing the request', err);
+  }
+}
+
+// Re-runs the rules over the whole ledger when the caller asked for it.
+async function applyIfAsked(
+  categoriser: Categoriser,
+  caller: AuthenticatedCaller,
+  body: any,
+): Promise<{ applied?: ApplyRulesResult }> {
+  if (body?.apply !== true) return {};
+  await throttleApply(caller);
+  return { applied: await categoriser.applyRules(caller.userId) };
+}
+
+export default async function handler(req: any, res: any) {
+  if (req.method !== 'GET' && req.method !== 'POST' && req.method !== 'DELETE') {
+    res.setHeader('Allow', 'GET, POST, DELETE');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  const auth = await authenticateRequest(req);
+  if (auth.status === 'anonymous' || auth.status === 'invalid') {
+    res.setHeader('WWW-Authenticate', 'Bearer error="invalid_token"');
+    return res.status(401).json({ error: 'Sign in to manage categorisation rules' });
+  }
+  if (auth.status === 'unavailable') {
+    return res.status(503).json({ error: 'Authentication is temporarily unavailable' });
+  }
+  if (auth.status === 'mfa-required') {
+    return res.status(403).json({ error: 'Verify with your authenticator app to continue' });
+  }
+  const { caller } = auth;
+  const categoriser = createCategoriser({ db: caller.client });
+
+  try {
+    if (req.method === 'GET') {
+      const [rules, model] = await Promise.all([
+        categoriser.listRules(caller.userId),
+        categoriser.loadModel(caller.userId),
+      ]);
+      return res.status(200).json({ rules, model: model ? summariseModel(model) : null });
+    }
+
+    const body = readBody(req);
+
+    if (req.method === 'DELETE') {
+      const id = text(body?.id);
+      if (!id) {
+        return res.status(400).json({ error: 'Missing rule id' });
+      }
+      if (!(await categoriser.deleteRule(caller.userId, id))) {
+        return res.status(404).json({ error: 'Rule not found' });
+      }
+      const applied = await applyIfAsked(categoriser, caller, body);
+      return res.status(200).json({ rules: await categoriser.listRules(caller.userId), ...applied });
+    }
+
+    switch (body?.action) {
+      case 'create-rule':
+      case 'update-rule': {
+        const parsed = parseRuleInput(body.rule);
+        if (!parsed.ok) {
+          return res.status(400).json({ error: parsed.error });
+        }
+        const rule =
+          body.action === 'create-rule'
+            ? await categoriser.createRule(caller.userId, parsed.rule)
+            : await categoriser.updateRule(caller.userId, text(body.id), parsed.rule);
+        if (!rule) {
+          return res.status(404).json({ error: 'Rule not found' });
+        }
+        const applied = await applyIfAsked(categoriser, caller, body);
+        return res.status(200).json({ rule, rules: await categoriser.listRules(caller.userId), ...applied });
+      }
+
+      case 'reorder-rules': {
+        const order = ids(body.ids);
+        if (!order) {
+          return res.status(400).json({ error: 'ids must be a list of rule ids' });
+        }
+        const rules = await categoriser.reorderRules(caller.userId, order);
+        return res.status(200).json({ rules, ...(await applyIfAsked(categoriser, caller, body)) });
+      }
+
+      case 'apply': {
+        const transactionIds = body.transactionIds == null ? undefined : ids(body.transactionIds);
+        if (transactionIds === null) {
+          return res.status(400).json({ error: 'transactionIds must be a list of transaction ids' });
+        }
+        await throttleApply(caller);
+        const result = await categoriser.applyRules(caller.userId, {
+          transactionIds,
+          accountId: text(body.accountId) || null,
+        });
+        return res.status(200).json(result);
+      }
+
+      case 'train': {
+        await throttleApply(caller);
+        return res.status(200).json({ model: await categoriser.trainModel(caller.userId) });
+      }
+
+      case 'recategorise': {
+        const transactionId = text(body.transactionId);
+        const category = text(body.category);
+        if (!transactionId || !category || category.length > MAX_CATEGORY_LENGTH) {
+          return res.status(400).json({ error: 'Choose a transaction and a category' });
+        }
+        const result = await categoriser.setCategory(caller.userId, transactionId, category);
+        if (!result) {
+          return res.status(404).json({ error: 'Transaction not found' });
+        }
+        return res.status(200).json(result);
+      }
+
+      case 'categorise-similar': {
+        const transactionIds = ids(body.transactionIds);
+        const category = text(body.category);
+        if (!transactionIds?.length || !category || category.length > MAX_CATEGORY_LENGTH) {
+          return res.status(400).json({ error: 'Choose the transactions and a category' });
+        }
+
+        // "Always do this": a rule placed first, so it also catches future transactions.
+        const pattern = text(body.pattern);
+        if (body.createRule === true && pattern) {
+          const input: CategoryRuleInput = {
+            name: pattern,
+            category,
+            merchantPattern: pattern,
+            matchType: 'contains',
+            minAmount: null,
+            maxAmount: null,
+            accountId: null,
+            enabled: true,
+          };
+          const parsed = parseRuleInput(input);
+          if (!parsed.ok) {
+            return res.status(400).json({ error: parsed.error });
+          }
+          const rule = await categoriser.createRule(caller.userId, parsed.rule, 'first');
+          const { updated } = await categoriser.applyRules(caller.userId, { transactionIds });
+          return res.status(200).json({ updated, rule, rules: await categoriser.listRules(caller.userId) });
+        }
+
+        return res.status(200).json({ updated: await categoriser.setCategories(caller.userId, transactionIds, category) });
+      }
+
+      default:
+        return res.status(400).json({ error: 'Unknown action' });
+    }
+  } catch (err) {
+    if (err instanceof ThrottledError) {
+      res.setHeader('Retry-After', String(err.retryAfterSeconds));
+      return res.status(429).json({ error: 'Rules were re-applied a lot just now. Try again in a moment.' });
+    }
+    if (err instanceof SyntaxError) {
+      return res.status(400).json({ error: 'Invalid JSON body' });
+    }
+    console.error('Aurora /api/categorisation error', err);
+    return res.status(500).json({ error: 'Could not update your categories. Please try again.' });
+  }
+}
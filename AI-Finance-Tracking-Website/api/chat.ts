@@ -2,16 +2,54 @@
 // This is a backend entry point that your React chat UI can call at /api/chat.
 // It is designed to be safe to deploy even before you plug in real APIs and DBs.
 
-import { createClient } from '@supabase/supabase-js';
+import { authenticateRequest, getClientIp, type AuthenticatedCaller } from '../lib/aurora/auth.js';
+import { buildAnswerBlocks, type AnswerBlock } from '../lib/aurora/blocks.js';
+import { createTtlCache } from '../lib/aurora/cache.js';
+import {
+  categoryParents,
+  createTaxonomyStore,
+  describeTaxonomy,
+  type Category,
+} from '../lib/aurora/categorisation/index.js';
+import { createKnowledgeBaseFromEnv, type KnowledgeBase, type KnowledgeHit } from '../lib/aurora/knowledge/index.js';
+import { DEFAULT_BASE_CURRENCY, normalizeCurrency } from '../lib/currency.js';
+import { createChatLimiterFromEnv, type ChatLimiter, type LimitSubject } from '../lib/aurora/limits/index.js';
+import {
+  createLlmProviderFromEnv,
+  createMeteredProvider,
+  type LlmMessage,
+  type LlmProvider,
+} from '../lib/aurora/llm/index.js';
+import {
+  createMarketDataServiceFromEnv,
+  type FxRate,
+  type MarketDataService,
+  type MarketQuote,
+} from '../lib/aurora/market/index.js';
+import {
+  extractiveSummary,
+  extractMemoryFacts,
+  getHistoryTokenBudget,
+  summarizeTurns,
+  windowTurns,
+} from '../lib/aurora/memory.js';
+import { getMaxQuotesPerQuestion, resolveSymbols } from '../lib/aurora/symbols.js';
+import { describeAuroraTools, runAuroraTool, type ToolContext } from '../lib/aurora/tools.js';
 
 interface ChatMessage {
   role: 'user' | 'ai';
   text: string;
+  createdAt?: string;
 }
 
 interface ChatRequestBody {
+  // Optional assertion of who the caller thinks they are; it must match the verified token.
   userId?: string;
-  messages: ChatMessage[];
+  messages?: ChatMessage[];
+  message?: string;
+  threadId?: string;
+  stream?: boolean;
+  baseCurrency?: string;
 }
 
 interface WebSearchResult {
@@ -20,11 +58,24 @@ interface WebSearchResult {
   snippet?: string;
 }
 
+// What the client renders under an answer: web hits link out, knowledge-base articles are
+// Aurora's own guides and carry the article slug instead of a URL.
+type AnswerSource =
+  | (WebSearchResult & { kind: 'web' })
+  | { kind: 'knowledge'; title: string; slug: string; heading?: string; snippet?: string };
+
 interface AuroraAnswer {
   text: string;
   confidence?: number;
-  sources?: WebSearchResult[];
+  sources?: AnswerSource[];
   usedSearch?: boolean;
+  toolsUsed?: string[];
+  blocks?: AnswerBlock[];
+}
+
+interface AnswerOptions {
+  onToken?: (token: string) => void;
+  signal?: AbortSignal;
 }
 
 // --- Lightweight in-memory cache for web search ---
@@ -32,26 +83,18 @@ interface AuroraAnswer {
 const SEARCH_TTL_MS = 5 * 60 * 1000; // 5 minutes
 const SEARCH_CACHE_LIMIT = 50;
 
-const searchCache = new Map<string, { timestamp: number; results: WebSearchResult[] }>();
+const searchCache = createTtlCache<WebSearchResult[]>({
+  ttlMs: SEARCH_TTL_MS,
+  maxEntries: SEARCH_CACHE_LIMIT,
+});
 
 function getCachedSearch(query: string): WebSearchResult[] | null {
-  const entry = searchCache.get(query);
-  if (!entry) return null;
-  if (Date.now() - entry.timestamp > SEARCH_TTL_MS) {
-    searchCache.delete(query);
-    return null;
-  }
-  return entry.results;
+  return searchCache.get(query);
 }
 
 function setCachedSearch(query: string, results: WebSearchResult[]): void {
   if (!results.length) return;
-  if (searchCache.size >= SEARCH_CACHE_LIMIT) {
-    // Remove oldest entry
-    const firstKey = searchCache.keys().next().value as string | undefined;
-    if (firstKey) searchCache.delete(firstKey);
-  }
-  searchCache.set(query, { timestamp: Date.now(), results });
+  searchCache.set(query, results);
 }
 
 function isSearchSafe(question: string): boolean {
@@ -162,96 +205,477 @@ export default async function handler(req: any, res: any) {
     return res.status(405).json({ error: 'Method Not Allowed' });
   }
 
+  // Callers without a token get an anonymous session that never touches stored data.
+  const auth = await authenticateRequest(req);
+  if (auth.status === 'invalid') {
+    res.setHeader('WWW-Authenticate', 'Bearer error="invalid_token"');
+    return res.status(401).json({ error: 'Invalid or expired access token' });
+  }
+  if (auth.status === 'unavailable') {
+    return res.status(503).json({ error: 'Authentication is temporarily unavailable' });
+  }
+  if (auth.status === 'mfa-required') {
+    return res.status(403).json({ error: 'Verify with your authenticator app to continue' });
+  }
+  const caller = auth.status === 'authenticated' ? auth.caller : null;
+
+  let wantsStream = String(req.headers?.accept ?? '').includes('text/event-stream');
+  // Kept outside the try so the fallback answer below is still about what was asked.
+  let question = '';
+
   try {
     const body: ChatRequestBody =
       typeof req.body === 'string' ? JSON.parse(req.body) : (req.body as ChatRequestBody);
 
-    if (!body || !Array.isArray(body.messages) || body.messages.length === 0) {
+    const clientMessages = Array.isArray(body?.messages) ? body.messages : [];
+    const hasMessage = typeof body?.message === 'string' && body.message.trim().length > 0;
+
+    if (!body || (!hasMessage && clientMessages.length === 0)) {
       return res.status(400).json({ error: 'Invalid request body: missing messages' });
     }
 
-    const userId = body.userId ?? 'anonymous';
-    const lastUser = [...body.messages].reverse().find((m) => m.role === 'user');
-    const question = lastUser?.text ?? body.messages[body.messages.length - 1]?.text ?? '';
+    if (body.userId !== undefined && body.userId !== caller?.userId) {
+      return caller
+        ? res.status(403).json({ error: 'userId does not match the signed-in user' })
+        : res.status(401).json({ error: 'Sign in to access user data' });
+    }
+
+    // Every model call for this request, including summaries, counts towards the daily budget.
+    let llmTokens = 0;
+    const baseProvider = getLlmProvider();
+    const llm = baseProvider
+      ? createMeteredProvider(baseProvider, (tokens) => {
+          llmTokens += tokens;
+        })
+      : null;
+
+    wantsStream = wantsStream || body.stream === true;
+
+    const lastUser = [...clientMessages].reverse().find((m) => m.role === 'user');
+    question = hasMessage
+      ? body.message!.trim()
+      : lastUser?.text ?? clientMessages[clientMessages.length - 1]?.text ?? '';
+
+    // Signed-in callers get their conversation from Supabase; the client's `messages`
+    // array is only used for anonymous sessions that have nowhere to persist to.
+    let threadId = typeof body.threadId === 'string' ? body.threadId : undefined;
+    let messages: ChatMessage[] = clientMessages;
+    // Turns before the current question; they become the replayed history and summary.
+    let priorTurns = hasMessage
+      ? clientMessages
+      : clientMessages.slice(0, Math.max(0, clientMessages.lastIndexOf(lastUser as ChatMessage)));
+    let threadSummary: string | null = null;
+
+    // A thread that is missing or someone else's is turned away before the limiter is charged.
+    const history = caller && threadId ? await loadThreadHistory(caller, threadId) : null;
+    if (caller && threadId && !history) {
+      return res.status(404).json({ error: 'Thread not found' });
+    }
 
-    const qLower = question.toLowerCase();
-    const stockSymbols: string[] = [];
-    if (/\bAAPL\b/i.test(question)) stockSymbols.push('AAPL');
-    if (/\bTSLA\b/i.test(question)) stockSymbols.push('TSLA');
-    if (/\bMSFT\b/i.test(question)) stockSymbols.push('MSFT');
+    const limitSubject: LimitSubject = { userId: caller?.userId ?? null, ip: getClientIp(req) };
+    const limit = await getChatLimiter().check(limitSubject);
+    if (!limit.allowed) {
+      res.setHeader('Retry-After', String(limit.retryAfterSeconds));
+      return res.status(429).json({
+        error:
+          limit.reason === 'daily-budget'
+            ? "You've reached today's Aurora usage limit"
+            : 'Too many requests; slow down a little',
+        reason: limit.reason,
+        retryAfterSeconds: limit.retryAfterSeconds,
+      });
+    }
 
-    const cryptoSymbols: string[] = [];
-    if (qLower.includes('btc') || qLower.includes('bitcoin')) cryptoSymbols.push('BTC');
-    if (qLower.includes('eth') || qLower.includes('ethereum')) cryptoSymbols.push('ETH');
+    if (caller) {
+      if (history) {
+        messages = [...history.messages, { role: 'user', text: question }];
+        priorTurns = history.messages;
+        threadSummary = history.summary;
+      } else {
+        threadId = (await createThread(caller, deriveThreadTitle(question))) ?? undefined;
+        messages = [{ role: 'user', text: question }];
+        priorTurns = [];
+      }
 
-    const [userProfile, fxRates, stockQuotes, cryptoPrices, transactions, webResults] =
+      if (threadId) {
+        await appendThreadMessage(caller, threadId, { role: 'user', text: question });
+      }
+    }
+
+    const userId = caller?.userId ?? 'anonymous';
+
+    const maxQuotes = getMaxQuotesPerQuestion();
+    const mentioned = resolveSymbols(question, { maxSymbols: maxQuotes });
+    const market = getMarketData();
+
+    // The client's selection wins; otherwise fall back to the currency on the user's profile.
+    const profilePromise = getUserFinancialProfile(caller);
+    const baseCurrency =
+      normalizeCurrency(body.baseCurrency) ??
+      normalizeCurrency((await profilePromise).currency) ??
+      DEFAULT_BASE_CURRENCY;
+
+    const [userProfile, fxRates, stockQuotes, cryptoPrices, transactions, categories, webResults, conversation, memories] =
       await Promise.all([
-        getUserFinancialProfile(userId),
-        getFxRates('USD', ['EUR', 'GBP']),
-        getStockQuotes(stockSymbols),
-        getCryptoPrices(cryptoSymbols, 'usd'),
-        getRecentTransactions(userId, 25),
+        profilePromise,
+        market.getFxRates(baseCurrency, FX_SNAPSHOT_CURRENCIES),
+        market.getStockQuotes(mentioned.stocks),
+        market.getCryptoPrices(mentioned.crypto, baseCurrency),
+        getRecentTransactions(caller, 25),
+        getUserCategories(caller),
         getWebResultsForQuestion(question),
+        prepareConversation(
+          priorTurns,
+          threadSummary,
+          caller && threadId ? { store: caller, threadId } : null,
+          llm,
+        ),
+        loadUserMemories(caller),
       ]);
 
-    const kbSnippets = getKnowledgeSnippets(question);
+    const knowledgeHits = await getKnowledgeHits(question);
 
-    const answer = await generateAuroraAnswer({
+    const context = {
       question,
-      messages: body.messages,
+      messages,
+      llm,
+      conversation,
+      memories,
+      baseCurrency,
       userProfile,
       fxRates,
       stockQuotes,
       cryptoPrices,
       transactions,
-      kbSnippets,
+      categories,
+      knowledgeHits,
       webResults,
+      tools: {
+        // Ledger tools only run for a verified caller, through their RLS-scoped client.
+        db: caller?.client ?? null,
+        userId,
+        market,
+        baseCurrency,
+        // Tool lookups share the per-question cap with the quotes prefetched above.
+        quoteBudget: { remaining: Math.max(0, maxQuotes - mentioned.instruments.length) },
+        categories,
+      },
+    };
+
+    const answer = wantsStream
+      ? await streamAnswerTokens(res, context)
+      : await generateAuroraAnswer(context);
+
+    await getChatLimiter().recordLlmUsage(limitSubject, llmTokens);
+
+    if (!answer) {
+      // Cancelled mid-stream; the user's turn is kept, the partial answer is not.
+      return res.end();
+    }
+
+    // Ledger amounts are recorded in the profile's currency, not necessarily the display base.
+    const blocks = buildAnswerBlocks({
+      question,
+      text: answer.text,
+      currency: normalizeCurrency(userProfile?.currency) ?? baseCurrency,
+      transactions,
+      profile: userProfile,
+      categoryParents: categoryParents(categories),
     });
 
-    return res.status(200).json({
+    // Only signed-in users have somewhere to keep long-term facts.
+    const remembered = caller ? extractMemoryFacts(question) : [];
+
+    if (caller) {
+      await rememberFacts(caller, threadId, remembered);
+    }
+
+    if (caller && threadId) {
+      await appendThreadMessage(caller, threadId, {
+        role: 'ai',
+        text: answer.text,
+        confidence: answer.confidence,
+        sources: answer.sources,
+        usedSearch: answer.usedSearch,
+        blocks,
+      });
+    }
+
+    const payload = {
       text: answer.text,
       confidence: answer.confidence ?? 0.9,
       sources: answer.sources ?? [],
       usedSearch: answer.usedSearch ?? false,
+      blocks,
+      threadId: threadId ?? null,
+      remembered,
       usedLiveData: {
+        baseCurrency,
         fxSymbols: Object.keys(fxRates || {}),
         stocks: Object.keys(stockQuotes || {}),
         crypto: Object.keys(cryptoPrices || {}),
+        quotes: describeLiveQuotes(fxRates, stockQuotes, cryptoPrices),
+        quotesCapped: mentioned.truncated,
         transactionCount: Array.isArray(transactions) ? transactions.length : 0,
+        tools: answer.toolsUsed ?? [],
       },
-    });
+    };
+
+    if (wantsStream) {
+      writeEvent(res, 'meta', payload);
+      writeEvent(res, 'done', {});
+      return res.end();
+    }
+
+    return res.status(200).json(payload);
   } catch (err) {
     // In case of any failure (LLM / external API / parsing), fall back to a simple heuristic answer
     console.error('Aurora /api/chat error', err);
-    const fallback = basicHeuristicAnswer('');
-    return res.status(200).json({
+    const fallback = basicHeuristicAnswer(question);
+    const payload = {
       text: fallback.text,
       confidence: fallback.confidence ?? 0.7,
       fallback: true,
       sources: fallback.sources ?? [],
       usedSearch: fallback.usedSearch ?? false,
-    });
+    };
+
+    if (wantsStream) {
+      openEventStream(res);
+      writeEvent(res, 'token', { text: fallback.text });
+      writeEvent(res, 'meta', payload);
+      writeEvent(res, 'done', {});
+      return res.end();
+    }
+
+    return res.status(200).json(payload);
   }
 }
 
-// --- Supabase-backed user data with safe fallback ---
+// --- Server-sent events streaming ---
+//
+// Frames are `event: token` ({ text }) for each chunk of the answer, followed by a single
+// `event: meta` frame carrying the final text, confidence, sources, answer blocks, threadId and
+// usedLiveData, and a closing `event: done`. The meta text is authoritative: if the LLM stream fails midway
+// and we fall back to the heuristic answer, the client replaces what it has rendered.
+
+function openEventStream(res: any): void {
+  if (res.headersSent) return;
+  res.statusCode = 200;
+  res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  // Disable proxy buffering so tokens reach the browser as they are produced.
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders?.();
+}
 
-function getSupabaseClient() {
-  const url = (globalThis as any)?.process?.env?.SUPABASE_URL as string | undefined;
-  const serviceRoleKey =
-    (globalThis as any)?.process?.env?.SUPABASE_SERVICE_ROLE_KEY as string | undefined;
-  const anonKey = (globalThis as any)?.process?.env?.SUPABASE_ANON_KEY as string | undefined;
-  const key = serviceRoleKey || anonKey;
+function writeEvent(res: any, event: 'token' | 'meta' | 'done', data: unknown): void {
+  if (res.writableEnded || res.destroyed) return;
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
 
-  if (!url || !key) return null;
+// Streams the answer as `token` frames and resolves with the final answer, or null if the
+// client disconnected before it finished. The caller writes the trailing meta frame.
+async function streamAnswerTokens(
+  res: any,
+  context: Parameters<typeof generateAuroraAnswer>[0],
+): Promise<AuroraAnswer | null> {
+  const controller = new AbortController();
+  // The client pressed cancel (or navigated away): stop paying for upstream tokens.
+  res.on?.('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  openEventStream(res);
+
+  let streamedAny = false;
+  const answer = await generateAuroraAnswer(context, {
+    signal: controller.signal,
+    onToken: (token) => {
+      streamedAny = true;
+      writeEvent(res, 'token', { text: token });
+    },
+  });
 
-  try {
-    return createClient(url, key, { auth: { persistSession: false } });
-  } catch {
+  if (controller.signal.aborted) {
     return null;
   }
+
+  if (!streamedAny) {
+    writeEvent(res, 'token', { text: answer.text });
+  }
+
+  return answer;
+}
+
+// --- Persistent chat threads ---
+//
+// Threads live in `chat_threads` / `chat_messages` (see supabase/migrations). They are read
+// and written with a client that carries the caller's own access token, so row-level
+// security decides what is visible rather than anything the request body claims.
+
+const THREAD_HISTORY_LIMIT = 50;
+const THREAD_TITLE_MAX_LENGTH = 60;
+
+function deriveThreadTitle(question: string): string {
+  const singleLine = question.replace(/\s+/g, ' ').trim();
+  if (!singleLine) return 'New conversation';
+  return singleLine.length > THREAD_TITLE_MAX_LENGTH
+    ? `${singleLine.slice(0, THREAD_TITLE_MAX_LENGTH - 1)}…`
+    : singleLine;
+}
+
+async function createThread(store: AuthenticatedCaller, title: string): Promise<string | null> {
+  const { data, error } = await store.client
+    .from('chat_threads')
+    .insert({ user_id: store.userId, title })
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    console.error('Aurora thread create error', error);
+    return null;
+  }
+  return data.id as string;
+}
+
+interface ThreadHistory {
+  messages: ChatMessage[];
+  summary: string | null;
+  // created_at of the newest message covered by `summary`; later messages are replayed.
+  summarizedThrough: string | null;
+}
+
+// Returns null when the thread does not exist or belongs to someone else.
+async function loadThreadHistory(store: AuthenticatedCaller, threadId: string): Promise<ThreadHistory | null> {
+  const { data: thread, error: threadError } = await store.client
+    .from('chat_threads')
+    .select('id, summary, summarized_through')
+    .eq('id', threadId)
+    .maybeSingle();
+
+  if (threadError || !thread) return null;
+
+  const summary = typeof thread.summary === 'string' && thread.summary ? thread.summary : null;
+  const summarizedThrough = (thread.summarized_through as string | null) ?? null;
+
+  let query = store.client
+    .from('chat_messages')
+    .select('role, text, created_at')
+    .eq('thread_id', threadId);
+  if (summarizedThrough) query = query.gt('created_at', summarizedThrough);
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(THREAD_HISTORY_LIMIT);
+
+  if (error || !Array.isArray(data)) return { messages: [], summary, summarizedThrough };
+
+  const messages = data.reverse().map(
+    (row: any): ChatMessage => ({
+      role: row.role === 'user' ? 'user' : 'ai',
+      text: String(row.text ?? ''),
+      createdAt: row.created_at ?? undefined,
+    }),
+  );
+  return { messages, summary, summarizedThrough };
+}
+
+async function appendThreadMessage(
+  store: AuthenticatedCaller,
+  threadId: string,
+  message: ChatMessage & Omit<AuroraAnswer, 'text'>,
+): Promise<void> {
+  const { error } = await store.client.from('chat_messages').insert({
+    thread_id: threadId,
+    user_id: store.userId,
+    role: message.role,
+    text: message.text,
+    confidence: message.confidence ?? null,
+    sources: message.sources ?? [],
+    used_search: message.usedSearch ?? false,
+    blocks: message.blocks ?? [],
+  });
+
+  if (error) {
+    console.error('Aurora thread append error', error);
+    return;
+  }
+
+  await store.client
+    .from('chat_threads')
+    .update({ updated_at: new Date().toISOString() })
+    .eq('id', threadId);
+}
+
+// --- Conversation memory ---
+//
+// Prior turns are replayed to the model while they fit AURORA_HISTORY_TOKEN_BUDGET; older
+// ones are folded into the thread's running summary (see lib/aurora/memory). Facts the user
+// states about themselves are kept in `user_memories` and recalled in every thread.
+
+const MEMORY_RECALL_LIMIT = 20;
+
+interface Conversation {
+  summary: string | null;
+  recent: ChatMessage[];
+}
+
+async function prepareConversation(
+  history: ChatMessage[],
+  previousSummary: string | null,
+  thread: { store: AuthenticatedCaller; threadId: string } | null,
+  llm: LlmProvider | null,
+): Promise<Conversation> {
+  const { recent, overflow } = windowTurns(history, getHistoryTokenBudget());
+  if (!overflow.length) return { summary: previousSummary, recent };
+
+  // Anonymous sessions resend their whole history each turn, so a model-written summary
+  // would be thrown away; the extractive one costs nothing to rebuild.
+  const summary = thread
+    ? await summarizeTurns(llm, previousSummary, overflow)
+    : extractiveSummary(previousSummary, overflow);
+
+  const through = overflow[overflow.length - 1]?.createdAt;
+  if (thread && through) {
+    const { error } = await thread.store.client
+      .from('chat_threads')
+      .update({ summary, summarized_through: through })
+      .eq('id', thread.threadId);
+    if (error) console.error('Aurora thread summary error', error);
+  }
+
+  return { summary: summary || null, recent };
+}
+
+async function loadUserMemories(store: AuthenticatedCaller | null): Promise<string[]> {
+  if (!store) return [];
+  const { data, error } = await store.client
+    .from('user_memories')
+    .select('fact')
+    .order('created_at', { ascending: false })
+    .limit(MEMORY_RECALL_LIMIT);
+
+  if (error || !Array.isArray(data)) return [];
+  return data.map((row: any) => String(row.fact ?? '')).filter(Boolean).reverse();
+}
+
+async function rememberFacts(store: AuthenticatedCaller, threadId: string | undefined, facts: string[]): Promise<void> {
+  if (!facts.length) return;
+  const { error } = await store.client.from('user_memories').upsert(
+    facts.map((fact) => ({ user_id: store.userId, fact, source_thread_id: threadId ?? null })),
+    { onConflict: 'user_id,fact', ignoreDuplicates: true },
+  );
+  if (error) console.error('Aurora memory save error', error);
 }
 
+// --- Supabase-backed user data with safe fallback ---
+//
+// Read through the caller's own client, so RLS on `financial_overview` and `transactions`
+// (see supabase/migrations) limits results to their rows. Anonymous sessions get the demo
+// profile and no transactions.
+
 function getMockUserProfile(userId: string) {
   return {
     userId,
@@ -269,16 +693,16 @@ function getMockUserProfile(userId: string) {
   };
 }
 
-async function getUserFinancialProfile(userId: string) {
-  const supabase = getSupabaseClient();
-  if (!supabase) {
-    return getMockUserProfile(userId);
+async function getUserFinancialProfile(caller: AuthenticatedCaller | null) {
+  if (!caller) {
+    return getMockUserProfile('anonymous');
   }
+  const { userId } = caller;
 
   try {
     // Example: fetch a summarized financial overview from Supabase.
     // Adjust table/column names to match your schema.
-    const { data, error } = await (supabase as any)
+    const { data, error } = await caller.client
       .from('financial_overview')
       .select('*')
       .eq('user_id', userId)
@@ -312,15 +736,26 @@ async function getUserFinancialProfile(userId: string) {
   }
 }
 
-async function getRecentTransactions(userId: string, limit = 25): Promise<any[]> {
-  const supabase = getSupabaseClient();
-  if (!supabase) return [];
+// The user's category taxonomy as it stands; never seeded from here. Empty when signed out or
+// when it cannot be read, so the prompt simply leaves it out.
+async function getUserCategories(caller: AuthenticatedCaller | null): Promise<Category[]> {
+  if (!caller) return [];
 
   try {
-    const { data, error } = await (supabase as any)
+    return await createTaxonomyStore({ db: caller.client }).listCategories(caller.userId);
+  } catch {
+    return [];
+  }
+}
+
+async function getRecentTransactions(caller: AuthenticatedCaller | null, limit = 25): Promise<any[]> {
+  if (!caller) return [];
+
+  try {
+    const { data, error } = await caller.client
       .from('transactions')
-      .select('*')
-      .eq('user_id', userId)
+      .select('*, merchant_info:merchants(name)')
+      .eq('user_id', caller.userId)
       .order('timestamp', { ascending: false })
       .limit(limit);
 
@@ -334,185 +769,153 @@ async function getRecentTransactions(userId: string, limit = 25): Promise<any[]>
   }
 }
 
-// --- Live market data via Alpha Vantage & CoinGecko ---
+// --- Live market data (providers, caching and quotas live in lib/aurora/market) ---
 
-async function getFxRates(base: string, symbols: string[]): Promise<Record<string, number>> {
-  const apiKey =
-    (globalThis as any)?.process?.env?.ALPHAVANTAGE_API_KEY as string | undefined;
-  if (!apiKey) {
-    return {};
-  }
+// Majors quoted against the user's base currency in every prompt (the base itself is skipped).
+const FX_SNAPSHOT_CURRENCIES = ['USD', 'EUR', 'GBP'];
 
-  const result: Record<string, number> = {};
+// Resolved once per warm instance so the cache and quota counters survive across requests.
+let marketData: MarketDataService | undefined;
 
-  for (const symbol of symbols) {
-    try {
-      const url = `https://www.alphavantage.co/query?function=CURRENCY_EXCHANGE_RATE&from_currency=${encodeURIComponent(
-        base,
-      )}&to_currency=${encodeURIComponent(symbol)}&apikey=${encodeURIComponent(apiKey)}`;
-      const res = await fetch(url);
-      if (!res.ok) continue;
-      const json: any = await res.json();
-      const rateStr: string | undefined =
-        json['Realtime Currency Exchange Rate']?.['5. Exchange Rate'];
-      const rate = rateStr ? Number(rateStr) : NaN;
-      if (!Number.isNaN(rate)) {
-        result[symbol] = rate;
-      }
-    } catch {
-      // ignore individual pair failures
-    }
+function getMarketData(): MarketDataService {
+  if (!marketData) {
+    marketData = createMarketDataServiceFromEnv();
   }
+  return marketData;
+}
 
-  return result;
-}
-
-async function getStockQuotes(
-  symbols: string[],
-): Promise<Record<string, { price: number | null; currency?: string }>> {
-  const apiKey =
-    (globalThis as any)?.process?.env?.ALPHAVANTAGE_API_KEY as string | undefined;
-  if (!apiKey || symbols.length === 0) return {};
-
-  const results: Record<string, { price: number | null; currency?: string }> = {};
-
-  for (const symbol of symbols) {
-    try {
-      const url = `https://www.alphavantage.co/query?function=GLOBAL_QUOTE&symbol=${encodeURIComponent(
-        symbol,
-      )}&apikey=${encodeURIComponent(apiKey)}`;
-      const res = await fetch(url);
-      if (!res.ok) continue;
-      const json: any = await res.json();
-      const quote = json['Global Quote'] || {};
-      const priceStr: string | undefined = quote['05. price'];
-      const price = priceStr ? Number(priceStr) : NaN;
-      if (!Number.isNaN(price)) {
-        results[symbol.toUpperCase()] = {
-          price,
-          currency: quote['08. currency'] ?? 'USD',
-        };
-      }
-    } catch {
-      // ignore individual symbol failures
-    }
-  }
+interface LiveQuote {
+  symbol: string;
+  price: number;
+  currency: string;
+  asOf: string;
+  stale: boolean;
+  source: string;
+}
 
-  return results;
+// Flattened for the UI so it can show when each figure was observed and whether it was cached.
+function describeLiveQuotes(
+  fxRates: Record<string, FxRate>,
+  stockQuotes: Record<string, MarketQuote>,
+  cryptoPrices: Record<string, MarketQuote>,
+): LiveQuote[] {
+  const fx = Object.values(fxRates || {}).map((r) => ({
+    symbol: `${r.base}/${r.quote}`,
+    price: r.rate,
+    currency: r.quote,
+    asOf: r.asOf,
+    stale: r.stale,
+    source: r.source,
+  }));
+  const quotes = [...Object.values(stockQuotes || {}), ...Object.values(cryptoPrices || {})].map((q) => ({
+    symbol: q.symbol,
+    price: q.price,
+    currency: q.currency,
+    asOf: q.asOf,
+    stale: q.stale,
+    source: q.source,
+  }));
+  return [...fx, ...quotes];
 }
 
-const COINGECKO_IDS: Record<string, string> = {
-  BTC: 'bitcoin',
-  ETH: 'ethereum',
-};
+function describeAsOf(value: { asOf: string; stale: boolean }): string {
+  return ` (as of ${value.asOf}${value.stale ? ', cached' : ''})`;
+}
 
-async function getCryptoPrices(
-  symbols: string[],
-  vsCurrency: string,
-): Promise<Record<string, number>> {
-  const upper = symbols.map((s) => s.toUpperCase());
-  const ids = upper
-    .map((sym) => COINGECKO_IDS[sym])
-    .filter((id, idx, arr) => id && arr.indexOf(id) === idx) as string[];
+// --- Knowledge base (articles and retrieval live in lib/aurora/knowledge) ---
 
-  if (ids.length === 0) return {};
+const KNOWLEDGE_TOP_K = 3;
 
-  try {
-    const url = `https://api.coingecko.com/api/v3/simple/price?ids=${encodeURIComponent(
-      ids.join(','),
-    )}&vs_currencies=${encodeURIComponent(vsCurrency)}`;
-    const res = await fetch(url);
-    if (!res.ok) return {};
-    const json: any = await res.json();
-
-    const out: Record<string, number> = {};
-    for (const sym of upper) {
-      const id = COINGECKO_IDS[sym];
-      if (!id) continue;
-      const entry = json[id];
-      const price = entry?.[vsCurrency.toLowerCase()];
-      if (typeof price === 'number') {
-        out[sym] = price;
-      }
-    }
+// Loaded and indexed once per warm instance.
+let knowledgeBase: Promise<KnowledgeBase> | undefined;
 
-    return out;
-  } catch {
-    return {};
+async function getKnowledgeHits(question: string): Promise<KnowledgeHit[]> {
+  if (!question) return [];
+  if (!knowledgeBase) {
+    knowledgeBase = createKnowledgeBaseFromEnv();
+  }
+  try {
+    return await (await knowledgeBase).search(question, { k: KNOWLEDGE_TOP_K });
+  } catch (err) {
+    console.error('Aurora knowledge search error', err);
+    return [];
   }
 }
 
-// --- Simple knowledge base stub ---
+function toKnowledgeSource(hit: KnowledgeHit): AnswerSource {
+  const { chunk } = hit;
+  return {
+    kind: 'knowledge',
+    title: chunk.title,
+    slug: chunk.slug,
+    heading: chunk.heading ?? undefined,
+    snippet: chunk.text.length > 220 ? `${chunk.text.slice(0, 217).trimEnd()}…` : chunk.text,
+  };
+}
 
-function getKnowledgeSnippets(query: string): string[] {
-  const q = query.toLowerCase();
-  const snippets: string[] = [];
+// --- Core answer generation ---
 
-  if (q.includes('budget') || q.includes('spend') || q.includes('saving')) {
-    snippets.push(
-      'Good budgeting often routes 20–30% of net income into savings and investing, with fixed costs kept below ~50%.',
-      'Tracking spend by category (housing, food, transport, subscriptions) makes it easier to decide where to trim.',
-    );
-  }
+const MAX_TOOL_ROUNDS = 4;
 
-  if (q.includes('invest') || q.includes('stock') || q.includes('etf')) {
-    snippets.push(
-      'Diversification across low-cost ETFs is a common way to spread risk rather than betting on single names.',
-      'Time in the market usually matters more than timing the market; short-term moves are hard to predict.',
-    );
-  }
+// Resolved once per warm instance; see lib/aurora/llm for the environment variables.
+let llmProvider: LlmProvider | null | undefined;
 
-  if (q.includes('crypto')) {
-    snippets.push(
-      'Crypto assets can be extremely volatile. Many guides suggest treating them as a small, higher-risk sleeve.',
-    );
+function getLlmProvider(): LlmProvider | null {
+  if (llmProvider === undefined) {
+    llmProvider = createLlmProviderFromEnv();
   }
+  return llmProvider;
+}
 
-  snippets.push(
-    'Aurora is not a tax, legal, or investment advisor. Treat these outputs as educational guidance, not directives.',
-  );
+// Per warm instance, so the memory store's buckets persist between requests; see
+// lib/aurora/limits for the shared stores.
+let chatLimiter: ChatLimiter | undefined;
 
-  return snippets;
+function getChatLimiter(): ChatLimiter {
+  if (!chatLimiter) {
+    chatLimiter = createChatLimiterFromEnv();
+  }
+  return chatLimiter;
 }
 
-// --- Core answer generation ---
-
 async function generateAuroraAnswer(context: {
   question: string;
   messages: ChatMessage[];
+  llm: LlmProvider | null;
+  conversation?: Conversation;
+  memories?: string[];
+  baseCurrency: string;
   userProfile: any;
-  fxRates: Record<string, number>;
-  stockQuotes: Record<string, { price: number | null; currency?: string }>;
-  cryptoPrices: Record<string, number>;
+  fxRates: Record<string, FxRate>;
+  stockQuotes: Record<string, MarketQuote>;
+  cryptoPrices: Record<string, MarketQuote>;
   transactions: any[];
-  kbSnippets: string[];
+  categories?: Category[];
+  knowledgeHits: KnowledgeHit[];
   webResults?: WebSearchResult[];
-}): Promise<AuroraAnswer> {
-  const apiKey = (globalThis as any)?.process?.env?.OPENAI_API_KEY as string | undefined;
+  tools?: ToolContext;
+}, options: AnswerOptions = {}): Promise<AuroraAnswer> {
+  const provider = context.llm;
   const question =
     context.question ||
     context.messages.filter((m) => m.role === 'user').slice(-1)[0]?.text ||
     'Explain my finances in simple terms.';
 
-  if (!apiKey) {
-    // No LLM key configured yet – use a deterministic heuristic message.
-    return basicHeuristicAnswer(question);
+  if (!provider) {
+    // No LLM provider configured yet – use a deterministic heuristic message.
+    return basicHeuristicAnswer(question, context.knowledgeHits);
   }
 
   const fxSummary = Object.entries(context.fxRates || {})
-    .map(([sym, rate]) => `${sym}: ${rate.toFixed(3)}`)
+    .map(([sym, rate]) => `${sym}: ${rate.rate.toFixed(3)}${describeAsOf(rate)}`)
     .join(', ');
 
   const stockSummary = Object.entries(context.stockQuotes || {})
-    .map(([sym, quote]) => {
-      const price = quote.price != null ? quote.price.toFixed(2) : 'n/a';
-      const ccy = quote.currency ? ` ${quote.currency}` : '';
-      return `${sym}: ${price}${ccy}`;
-    })
+    .map(([sym, quote]) => `${sym}: ${quote.price.toFixed(2)} ${quote.currency}${describeAsOf(quote)}`)
     .join(', ');
 
   const cryptoSummary = Object.entries(context.cryptoPrices || {})
-    .map(([sym, price]) => `${sym}: ${price.toFixed(2)} USD`)
+    .map(([sym, quote]) => `${sym}: ${quote.price.toFixed(2)} ${quote.currency}${describeAsOf(quote)}`)
     .join(', ');
 
   const transactions = Array.isArray(context.transactions) ? context.transactions : [];
@@ -529,9 +932,21 @@ async function generateAuroraAnswer(context: {
     'You are Aurora, an AI finance copilot inside a futuristic finance dashboard. ' +
     'You answer questions about personal finance, investing, banking, and markets using clear, calm language. ' +
     'You can reference recent spending patterns, live market data, and educational finance concepts. ' +
-    'You are not a tax, legal, or investment advisor; avoid giving directives, and instead present options and trade-offs.';
-
-  const kbText = context.kbSnippets.join('\n- ');
+    'You are not a tax, legal, or investment advisor; avoid giving directives, and instead present options and trade-offs.' +
+    ` The user's base currency is ${context.baseCurrency}; quote amounts in it unless they ask for another currency.` +
+    (context.tools
+      ? ` Today is ${new Date().toISOString().slice(0, 10)}. When the user asks for exact figures from their own ` +
+        'ledger (totals, transactions, balances) or for a live price or exchange rate, call the provided tools ' +
+        'rather than estimating from the summary below, which only covers a small sample.'
+      : '');
+
+  const knowledgeHits = context.knowledgeHits || [];
+  const guideText = knowledgeHits
+    .map((hit, index) => {
+      const section = hit.chunk.heading ? ` — ${hit.chunk.heading}` : '';
+      return `[G${index + 1}] ${hit.chunk.title}${section}: ${hit.chunk.text}`;
+    })
+    .join('\n');
 
   const userSnapshot =
     `User monthly income ~${context.userProfile?.recentSummary?.monthlyIncome ?? 'N/A'} ` +
@@ -540,7 +955,7 @@ async function generateAuroraAnswer(context: {
 
   const assistantIntroLines: string[] = [
     'Here is a brief summary you can use:',
-    `- FX snapshot (base USD): ${fxSummary || 'not available at the moment.'}`,
+    `- FX snapshot (base ${context.baseCurrency}): ${fxSummary || 'not available at the moment.'}`,
     `- User profile: ${userSnapshot}`,
   ];
 
@@ -549,16 +964,36 @@ async function generateAuroraAnswer(context: {
     assistantIntroLines.push(`- Recent transactions: ${txCount} loaded${cats}`);
   }
 
+  // The user's own names, so answers and tool filters use their categories, not generic ones.
+  const taxonomy = describeTaxonomy(context.categories ?? []);
+  if (taxonomy) {
+    assistantIntroLines.push(`- Spending categories (sub-categories in brackets): ${taxonomy}`);
+  }
+
   if (stockSummary) {
     assistantIntroLines.push(`- Stock quotes: ${stockSummary}`);
   }
 
   if (cryptoSummary) {
-    assistantIntroLines.push(`- Crypto prices (USD): ${cryptoSummary}`);
+    assistantIntroLines.push(`- Crypto prices (${context.baseCurrency}): ${cryptoSummary}`);
+  }
+
+  if (guideText) {
+    assistantIntroLines.push(
+      '- Aurora guides (educational articles; cite as [G1], [G2]… when you rely on them):',
+      guideText,
+    );
+  }
+
+  if (context.memories?.length) {
+    assistantIntroLines.push(
+      '- Things the user told you in earlier conversations (use them when relevant):',
+      ...context.memories.map((fact) => `  • ${fact}`),
+    );
   }
 
-  if (kbText) {
-    assistantIntroLines.push(`- Knowledge hints:`, `- ${kbText}`);
+  if (context.conversation?.summary) {
+    assistantIntroLines.push('- Summary of earlier turns in this conversation:', context.conversation.summary);
   }
 
   const hasWebResults = Array.isArray(context.webResults) && context.webResults.length > 0;
@@ -576,52 +1011,79 @@ async function generateAuroraAnswer(context: {
 
   const assistantIntro = assistantIntroLines.join('\n');
 
-  const openAiMessages = [
+  const llmMessages: LlmMessage[] = [
     { role: 'system', content: systemPrompt },
     { role: 'user', content: assistantIntro },
+    ...(context.conversation?.recent ?? []).map(
+      (turn): LlmMessage => ({ role: turn.role === 'user' ? 'user' : 'assistant', content: turn.text }),
+    ),
     { role: 'user', content: `Question: ${question}` },
   ];
 
+  const toolsUsed: string[] = [];
+
   try {
-    const res = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        temperature: 0.2,
-        messages: openAiMessages,
-      }),
-    });
+    let content = '';
+
+    // Each round either answers or asks for tools; the final round forbids further calls so
+    // the model has to answer with whatever it has gathered. Tools are still described on
+    // that round, because providers reject tool results in a request that declares no tools.
+    for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+      const finalRound = round === MAX_TOOL_ROUNDS;
+
+      const turn = await provider.complete({
+        messages: llmMessages,
+        tools: context.tools ? describeAuroraTools() : undefined,
+        toolChoice: finalRound ? 'none' : 'auto',
+        onToken: options.onToken,
+        signal: options.signal,
+      });
+
+      if (!turn.toolCalls.length || !context.tools || finalRound) {
+        content = turn.content.trim();
+        break;
+      }
 
-    if (!res.ok) {
-      throw new Error(`OpenAI error: ${res.status}`);
-    }
+      llmMessages.push({ role: 'assistant', content: turn.content, toolCalls: turn.toolCalls });
 
-    const data: any = await res.json();
-    const content = data.choices?.[0]?.message?.content?.trim();
+      for (const call of turn.toolCalls) {
+        toolsUsed.push(call.name);
+        llmMessages.push({
+          role: 'tool',
+          toolCallId: call.id,
+          name: call.name,
+          content: await runAuroraTool(call.name, call.arguments, context.tools),
+        });
+      }
+    }
 
     if (!content) {
-      return basicHeuristicAnswer(question);
+      return basicHeuristicAnswer(question, context.knowledgeHits);
     }
 
     return {
       text: content,
       confidence: 0.92,
-      sources: hasWebResults ? (context.webResults || []).slice(0, 4) : undefined,
+      sources: [
+        ...knowledgeHits.map(toKnowledgeSource),
+        ...(hasWebResults ? (context.webResults || []).slice(0, 4) : []).map(
+          (result): AnswerSource => ({ ...result, kind: 'web' }),
+        ),
+      ],
       usedSearch: hasWebResults,
+      toolsUsed: toolsUsed.length ? Array.from(new Set(toolsUsed)) : undefined,
     };
   } catch (err) {
-    console.error('Aurora LLM error', err);
-    return basicHeuristicAnswer(question);
+    if (!options.signal?.aborted) {
+      console.error('Aurora LLM error', err);
+    }
+    return basicHeuristicAnswer(question, context.knowledgeHits);
   }
 }
 
 // --- Fallback heuristic answer ---
 
-function basicHeuristicAnswer(question: string): AuroraAnswer {
+function basicHeuristicAnswer(question: string, knowledgeHits: KnowledgeHit[] = []): AuroraAnswer {
   const lower = (question || '').toLowerCase();
   let text =
     "Here's a high-level perspective on your finances. I can help you break this down by accounts, categories, or time horizon if you like.";
@@ -643,5 +1105,13 @@ function basicHeuristicAnswer(question: string): AuroraAnswer {
       'Crypto should usually be treated as a high-volatility sleeve in a broader plan. Many approaches keep it to a small percentage of total net worth, rebalanced occasionally, rather than relying on it for near-term goals.';
   }
 
+  // Without a model to synthesise an answer, quote the best-matching guide section directly.
+  const guide = knowledgeHits[0];
+  if (guide) {
+    const section = guide.chunk.heading ? ` (${guide.chunk.heading})` : '';
+    text += `\n\nFrom Aurora's guide "${guide.chunk.title}"${section}: ${guide.chunk.text}`;
+    return { text, confidence: 0.8, sources: [toKnowledgeSource(guide)] };
+  }
+
   return { text, confidence: 0.78 };
 }
@@ -0,0 +1,212 @@
+// Vercel serverless function for password and email changes from the Security page.
+//
+//   POST /api/credentials { action: 'change-password', currentPassword, newPassword }
+//        → { ok, signedOutOtherSessions, otherSessionsWarning }   the warning is null unless
+//          other devices could not be signed out
+//   POST /api/credentials { action: 'change-email', currentPassword, newEmail, redirectTo? }
+//        → { ok, pendingEmail }   Supabase emails a confirmation link before switching
+//
+// The current password is re-checked with a throwaway Supabase sign-in that is signed out
+// straight away. The new password must pass lib/passwordPolicy. The change itself goes
+// through Supabase Auth with the caller's own token. Every change and every failed check is
+// written to `security_events` with the service role. Attempts are throttled per user
+// through the RATE_LIMIT_STORE backend.
+
+import { createClient } from '@supabase/supabase-js';
+import {
+  authenticateRequest,
+  createServiceRoleClient,
+  getBearerToken,
+  getClientGeo,
+  getClientIp,
+  type AuthenticatedCaller,
+} from '../lib/aurora/auth.js';
+import { createLimitStoreFromEnv, retryAfterMs, type BucketSpec, type LimitStore } from '../lib/aurora/limits/index.js';
+import type { SecurityEventKind } from '../lib/aurora/risk/index.js';
+import { evaluatePassword } from '../lib/passwordPolicy.js';
+import { describeUserAgent } from '../lib/userAgent.js';
+
+// Five tries, then one a minute: enough for typos, useless for guessing.
+const REAUTH_BUCKET: BucketSpec = { capacity: 5, refillPerSecond: 1 / 60 };
+
+// Raised by revoke_my_other_sessions when the token has not completed MFA.
+const INSUFFICIENT_PRIVILEGE = '42501';
+
+let limitStore: LimitStore | undefined;
+
+function getLimitStore(): LimitStore {
+  if (!limitStore) {
+    limitStore = createLimitStoreFromEnv();
+  }
+  return limitStore;
+}
+
+function readBody(req: any): any {
+  return typeof req.body === 'string' && req.body ? JSON.parse(req.body) : req.body ?? {};
+}
+
+function supabaseEnv(): { url: string; anonKey: string } | null {
+  const url = (globalThis as any)?.process?.env?.SUPABASE_URL as string | undefined;
+  const anonKey = (globalThis as any)?.process?.env?.SUPABASE_ANON_KEY as string | undefined;
+  return url && anonKey ? { url, anonKey } : null;
+}
+
+async function verifyCurrentPassword(email: string, password: string): Promise<boolean> {
+  const env = supabaseEnv();
+  if (!env) throw new Error('Supabase is not configured');
+  const client = createClient(env.url, env.anonKey, { auth: { persistSession: false, autoRefreshToken: false } });
+
+  const { data, error } = await client.auth.signInWithPassword({ email, password });
+  if (error) {
+    const status = (error as any).status;
+    if (typeof status === 'number' && status >= 400 && status < 500) return false;
+    throw new Error(error.message);
+  }
+  // Only the check was needed; do not leave a stray session in the user's device list.
+  if (data.session) await client.auth.signOut({ scope: 'local' });
+  return true;
+}
+
+// PUT /auth/v1/user as the caller, so Supabase applies its own rules (confirmation emails,
+// same-password rejection) exactly as for a client-side updateUser().
+async function updateAuthUser(req: any, attributes: Record<string, string>, redirectTo?: string) {
+  const env = supabaseEnv();
+  if (!env) throw new Error('Supabase is not configured');
+  const query = redirectTo ? `?redirect_to=${encodeURIComponent(redirectTo)}` : '';
+  const response = await fetch(`${env.url}/auth/v1/user${query}`, {
+    method: 'PUT',
+    headers: {
+      apikey: env.anonKey,
+      Authorization: `Bearer ${getBearerToken(req)}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(attributes),
+  });
+  const payload = await response.json().catch(() => null);
+  return { ok: response.ok, status: response.status, message: payload?.msg ?? payload?.message ?? null, user: payload };
+}
+
+async function audit(
+  admin: any,
+  caller: AuthenticatedCaller,
+  req: any,
+  kind: SecurityEventKind,
+  details: Record<string, unknown> = {},
+): Promise<void> {
+  if (!admin) return;
+  const userAgent = typeof req.headers?.['user-agent'] === 'string' ? req.headers['user-agent'] : null;
+  const { error } = await admin.from('security_events').insert({
+    user_id: caller.userId,
+    kind,
+    details,
+    device: describeUserAgent(userAgent),
+    user_agent: userAgent,
+    ip: getClientIp(req),
+    ...getClientGeo(req),
+  });
+  if (error) console.error('Aurora /api/credentials audit write failed', error);
+}
+
+export default async function handler(req: any, res: any) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  const auth = await authenticateRequest(req);
+  if (auth.status === 'anonymous' || auth.status === 'invalid') {
+    res.setHeader('WWW-Authenticate', 'Bearer error="invalid_token"');
+    return res.status(401).json({ error: 'Sign in again to change your credentials' });
+  }
+  if (auth.status === 'unavailable') {
+    return res.status(503).json({ error: 'Authentication is temporarily unavailable' });
+  }
+  if (auth.status === 'mfa-required') {
+    return res.status(403).json({ error: 'Verify with your authenticator app to continue' });
+  }
+  const { caller } = auth;
+  if (!caller.email) {
+    return res.status(400).json({ error: 'This account has no email and password to change' });
+  }
+
+  try {
+    const body = readBody(req);
+    const action = body?.action;
+    if (action !== 'change-password' && action !== 'change-email') {
+      return res.status(400).json({ error: 'Unknown action' });
+    }
+    const currentPassword = typeof body.currentPassword === 'string' ? body.currentPassword : '';
+    if (!currentPassword) {
+      return res.status(400).json({ error: 'Enter your current password' });
+    }
+
+    try {
+      const result = await getLimitStore().takeToken(`reauth:user:${caller.userId}`, REAUTH_BUCKET);
+      if (!result.allowed) {
+        const retryAfterSeconds = Math.max(1, Math.ceil(retryAfterMs(result, REAUTH_BUCKET) / 1000));
+        res.setHeader('Retry-After', String(retryAfterSeconds));
+        return res.status(429).json({ error: 'Too many attempts. Try again in a minute.', retryAfterSeconds });
+      }
+    } catch (err) {
+      console.error('Aurora /api/credentials limit store error; allowing the attempt', err);
+    }
+
+    const admin = createServiceRoleClient();
+
+    if (!(await verifyCurrentPassword(caller.email, currentPassword))) {
+      await audit(admin, caller, req, 'reauth-failed', { action });
+      return res.status(403).json({ error: 'Your current password is incorrect' });
+    }
+
+    if (action === 'change-password') {
+      const newPassword = typeof body.newPassword === 'string' ? body.newPassword : '';
+      const evaluation = evaluatePassword(newPassword, [caller.email]);
+      if (!evaluation.acceptable) {
+        return res.status(422).json({ error: evaluation.feedback[0] ?? 'Choose a stronger password', feedback: evaluation.feedback });
+      }
+
+      const updated = await updateAuthUser(req, { password: newPassword });
+      if (!updated.ok) {
+        return res.status(updated.status >= 500 ? 502 : 422).json({ error: updated.message ?? 'Could not update your password' });
+      }
+
+      // A changed password should lock out anyone who signed in with the old one.
+      const { data: revoked, error: revokeError } = await caller.client.rpc('revoke_my_other_sessions');
+      let otherSessionsWarning: string | null = null;
+      if (revokeError?.code === INSUFFICIENT_PRIVILEGE) {
+        otherSessionsWarning =
+          'Other devices are still signed in. Verify with your authenticator app, then sign them out below.';
+      } else if (revokeError) {
+        console.error('Aurora /api/credentials could not revoke other sessions', revokeError);
+        otherSessionsWarning = 'Other devices could not be signed out. Sign them out below.';
+      }
+      const signedOutOtherSessions = Number(revoked) || 0;
+
+      await audit(admin, caller, req, 'password-changed', {
+        signedOutOtherSessions,
+        otherSessionsKept: otherSessionsWarning !== null,
+      });
+      return res.status(200).json({ ok: true, signedOutOtherSessions, otherSessionsWarning });
+    }
+
+    const newEmail = typeof body.newEmail === 'string' ? body.newEmail.trim().toLowerCase() : '';
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(newEmail)) {
+      return res.status(400).json({ error: 'Enter a valid email address' });
+    }
+    if (newEmail === caller.email.toLowerCase()) {
+      return res.status(400).json({ error: 'New email must be different from your current email' });
+    }
+
+    const redirectTo = typeof body.redirectTo === 'string' ? body.redirectTo : undefined;
+    const updated = await updateAuthUser(req, { email: newEmail }, redirectTo);
+    if (!updated.ok) {
+      return res.status(updated.status >= 500 ? 502 : 422).json({ error: updated.message ?? 'Could not start the email change' });
+    }
+
+    await audit(admin, caller, req, 'email-change-requested', { previousEmail: caller.email, newEmail });
+    return res.status(200).json({ ok: true, pendingEmail: updated.user?.new_email ?? newEmail });
+  } catch (err) {
+    console.error('Aurora /api/credentials error', err);
+    return res.status(500).json({ error: 'Could not update your credentials. Please try again.' });
+  }
+}
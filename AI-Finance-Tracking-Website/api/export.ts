@@ -0,0 +1,244 @@
+// Vercel serverless function for downloading the ledger (lib/aurora/exports).
+//
+//   GET /api/export?format=csv|ofx|json[&accountId][&from][&to][&category][&q]
+//        → the caller's transactions matching the filter, as a file download
+//   GET /api/export?format=pdf&accountId=<id>&month=YYYY-MM[&locale]
+//        → that account's monthly statement as a PDF
+//
+// Everything is read with the caller's token, so RLS scopes it to their own accounts and
+// transactions. Exports are throttled per user through the RATE_LIMIT_STORE backend.
+
+import { authenticateRequest, type AuthenticatedCaller } from '../lib/aurora/auth.js';
+import { categoryFamily, createTaxonomyStore } from '../lib/aurora/categorisation/index.js';
+import {
+  buildMonthlyStatement,
+  isStatementMonth,
+  renderLedgerExport,
+  renderStatementFile,
+  statementPeriod,
+  type ExportFile,
+  type LedgerAccount,
+  type LedgerExportFormat,
+  type LedgerFilter,
+  type LedgerTransaction,
+} from '../lib/aurora/exports/index.js';
+import { createLimitStoreFromEnv, retryAfterMs, type BucketSpec, type LimitStore } from '../lib/aurora/limits/index.js';
+
+const PAGE_SIZE = 1_000;
+// Past this the export should be narrowed; it would not fit a function response anyway.
+const MAX_EXPORT_ROWS = 50_000;
+const LEDGER_FORMATS: LedgerExportFormat[] = ['csv', 'ofx', 'json'];
+// Ten downloads back to back, then one every 30 seconds.
+const EXPORT_BUCKET: BucketSpec = { capacity: 10, refillPerSecond: 1 / 30 };
+
+const TRANSACTION_COLUMNS =
+  'id, account_id, timestamp, description, merchant, amount, currency, category, pending, external_id';
+
+class ExportTooLargeError extends Error {}
+
+let limitStore: LimitStore | undefined;
+
+function getLimitStore(): LimitStore {
+  if (!limitStore) {
+    limitStore = createLimitStoreFromEnv();
+  }
+  return limitStore;
+}
+
+function queryParam(req: any, name: string): string | null {
+  const value = req.query?.[name];
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+function isDay(value: string | null): boolean {
+  return value == null || /^\d{4}-\d{2}-\d{2}$/.test(value);
+}
+
+// Falls back to the statement default for anything Intl does not know.
+function statementLocale(value: string | null): string | undefined {
+  if (!value) return undefined;
+  try {
+    return Intl.DateTimeFormat.supportedLocalesOf(value)[0];
+  } catch {
+    return undefined;
+  }
+}
+
+function toLedgerAccount(row: any): LedgerAccount {
+  return {
+    id: String(row.id),
+    name: row.nickname || row.name || 'Account',
+    institution: row.institution ?? 'Manual account',
+    kind: row.type ?? 'other',
+    mask: row.mask ?? null,
+    currency: row.currency ?? 'USD',
+    balance: Number(row.balance) || 0,
+  };
+}
+
+function toLedgerTransaction(row: any): LedgerTransaction {
+  return {
+    id: String(row.id),
+    accountId: row.account_id ?? null,
+    timestamp: String(row.timestamp),
+    description: row.description ?? '',
+    merchant: row.merchant ?? null,
+    amount: Number(row.amount) || 0,
+    currency: row.currency ?? null,
+    category: row.category ?? null,
+    pending: Boolean(row.pending),
+    externalId: row.external_id ?? null,
+  };
+}
+
+// Accounts the user hid from dashboards are left out of whole-ledger exports too; asking for
+// one by id still exports it.
+async function loadAccounts(
+  caller: AuthenticatedCaller,
+): Promise<{ accounts: Map<string, LedgerAccount>; hidden: Map<string, LedgerAccount> }> {
+  const { data, error } = await caller.client
+    .from('accounts')
+    .select('id, name, nickname, institution, type, mask, currency, balance, visible')
+    .eq('user_id', caller.userId);
+  if (error) throw new Error(error.message);
+  const accounts = new Map<string, LedgerAccount>();
+  const hidden = new Map<string, LedgerAccount>();
+  for (const row of data ?? []) {
+    (row.visible === false ? hidden : accounts).set(String(row.id), toLedgerAccount(row));
+  }
+  return { accounts, hidden };
+}
+
+// PostgREST filter values are quoted so commas and parentheses in a search stay literal.
+function ilikeValue(search: string): string {
+  const pattern = `%${search.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+  return `"${pattern.replace(/["\\]/g, (char) => `\\${char}`)}"`;
+}
+
+async function loadTransactions(caller: AuthenticatedCaller, filter: LedgerFilter): Promise<LedgerTransaction[]> {
+  // A top-level category also exports its sub-categories.
+  const categories = filter.category
+    ? categoryFamily(await createTaxonomyStore({ db: caller.client }).listCategories(caller.userId), filter.category)
+    : null;
+  const transactions: LedgerTransaction[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    let query = caller.client.from('transactions').select(TRANSACTION_COLUMNS).eq('user_id', caller.userId);
+    if (filter.accountId) query = query.eq('account_id', filter.accountId);
+    if (filter.from) query = query.gte('timestamp', `${filter.from}T00:00:00.000Z`);
+    if (filter.to) query = query.lte('timestamp', `${filter.to}T23:59:59.999Z`);
+    if (categories) query = query.in('category', categories);
+    if (filter.search) {
+      const value = ilikeValue(filter.search);
+      query = query.or(`description.ilike.${value},merchant.ilike.${value}`);
+    }
+    const { data, error } = await query
+      .order('timestamp', { ascending: true })
+      .order('id', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+
+    transactions.push(...(data ?? []).map(toLedgerTransaction));
+    if (transactions.length > MAX_EXPORT_ROWS) throw new ExportTooLargeError();
+    if (!data || data.length < PAGE_SIZE) return transactions;
+  }
+}
+
+function sendFile(res: any, file: ExportFile) {
+  res.setHeader('Content-Type', file.contentType);
+  res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`);
+  res.setHeader('Cache-Control', 'private, no-store');
+  res.status(200);
+  return res.end(file.body);
+}
+
+export default async function handler(req: any, res: any) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  try {
+    const auth = await authenticateRequest(req);
+    if (auth.status === 'anonymous' || auth.status === 'invalid') {
+      res.setHeader('WWW-Authenticate', 'Bearer error="invalid_token"');
+      return res.status(401).json({ error: 'Sign in to export your transactions' });
+    }
+    if (auth.status === 'unavailable') {
+      return res.status(503).json({ error: 'Authentication is temporarily unavailable' });
+    }
+    if (auth.status === 'mfa-required') {
+      return res.status(403).json({ error: 'Verify with your authenticator app to continue' });
+    }
+    const { caller } = auth;
+
+    const format = queryParam(req, 'format') ?? 'csv';
+    const filter: LedgerFilter = {
+      accountId: queryParam(req, 'accountId'),
+      from: queryParam(req, 'from'),
+      to: queryParam(req, 'to'),
+      category: queryParam(req, 'category'),
+      search: queryParam(req, 'q'),
+    };
+    const month = queryParam(req, 'month');
+    if (format !== 'pdf' && !LEDGER_FORMATS.includes(format as LedgerExportFormat)) {
+      return res.status(400).json({ error: 'format must be csv, ofx, json or pdf' });
+    }
+    if (!isDay(filter.from) || !isDay(filter.to)) {
+      return res.status(400).json({ error: 'from and to must be YYYY-MM-DD dates' });
+    }
+    if (format === 'pdf' && (!filter.accountId || !month || !isStatementMonth(month))) {
+      return res.status(400).json({ error: 'Statements need an accountId and a month (YYYY-MM)' });
+    }
+
+    try {
+      const result = await getLimitStore().takeToken(`export:user:${caller.userId}`, EXPORT_BUCKET);
+      if (!result.allowed) {
+        const retryAfterSeconds = Math.max(1, Math.ceil(retryAfterMs(result, EXPORT_BUCKET) / 1000));
+        res.setHeader('Retry-After', String(retryAfterSeconds));
+        return res.status(429).json({ error: 'Too many exports. Try again in a moment.' });
+      }
+    } catch (err) {
+      console.error('Aurora /api/export limit store error; allowing the export', err);
+    }
+
+    const { accounts, hidden } = await loadAccounts(caller);
+    const requested = filter.accountId ? accounts.get(filter.accountId) ?? hidden.get(filter.accountId) : null;
+    if (filter.accountId && !requested) {
+      return res.status(404).json({ error: 'Account not found' });
+    }
+
+    if (format === 'pdf') {
+      const account = requested as LedgerAccount;
+      const { start } = statementPeriod(month as string);
+      if (start > new Date().toISOString().slice(0, 10)) {
+        return res.status(400).json({ error: 'That month has not started yet' });
+      }
+      // Everything since the month began, so the closing balance can be worked back from today's.
+      const transactions = await loadTransactions(caller, {
+        accountId: account.id,
+        from: start,
+        to: null,
+        category: null,
+        search: null,
+      });
+      const statement = buildMonthlyStatement(account, month as string, transactions);
+      return sendFile(res, renderStatementFile(statement, { locale: statementLocale(queryParam(req, 'locale')) }));
+    }
+
+    let transactions = await loadTransactions(caller, filter);
+    if (requested) {
+      accounts.set(requested.id, requested);
+    } else {
+      transactions = transactions.filter((transaction) => !transaction.accountId || !hidden.has(transaction.accountId));
+    }
+    return sendFile(res, renderLedgerExport(format as LedgerExportFormat, transactions, accounts, filter));
+  } catch (err) {
+    if (err instanceof ExportTooLargeError) {
+      return res.status(413).json({
+        error: `More than ${MAX_EXPORT_ROWS.toLocaleString('en-US')} transactions match. Narrow the date range and try again.`,
+      });
+    }
+    console.error('Aurora /api/export error', err);
+    return res.status(500).json({ error: 'Could not export your transactions. Please try again.' });
+  }
+}
@@ -0,0 +1,84 @@
+// Vercel serverless function for FX rates used to convert balances into the user's base currency.
+// GET /api/fx?base=EUR&quotes=USD,GBP → { base, rates: { USD: { rate, asOf, stale }, ... } }
+//
+// Rates come out of the same provider quota as Aurora's market tools, so only signed-in
+// callers get them, throttled per user through the RATE_LIMIT_STORE backend.
+
+import { authenticateRequest } from '../lib/aurora/auth.js';
+import { createLimitStoreFromEnv, retryAfterMs, type BucketSpec, type LimitStore } from '../lib/aurora/limits/index.js';
+import { normalizeCurrency } from '../lib/currency.js';
+import { createMarketDataServiceFromEnv, type MarketDataService } from '../lib/aurora/market/index.js';
+
+// Twenty lookups back to back, then ten a minute.
+const FX_BUCKET: BucketSpec = { capacity: 20, refillPerSecond: 1 / 6 };
+
+// Resolved once per warm instance so the cache and quota counters survive across requests.
+let marketData: MarketDataService | undefined;
+
+function getMarketData(): MarketDataService {
+  if (!marketData) {
+    marketData = createMarketDataServiceFromEnv();
+  }
+  return marketData;
+}
+
+let limitStore: LimitStore | undefined;
+
+function getLimitStore(): LimitStore {
+  if (!limitStore) {
+    limitStore = createLimitStoreFromEnv();
+  }
+  return limitStore;
+}
+
+export default async function handler(req: any, res: any) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  const auth = await authenticateRequest(req);
+  if (auth.status === 'anonymous' || auth.status === 'invalid') {
+    res.setHeader('WWW-Authenticate', 'Bearer error="invalid_token"');
+    return res.status(401).json({ error: 'Sign in to convert currencies' });
+  }
+  if (auth.status === 'unavailable') {
+    return res.status(503).json({ error: 'Authentication is temporarily unavailable' });
+  }
+  if (auth.status === 'mfa-required') {
+    return res.status(403).json({ error: 'Verify with your authenticator app to continue' });
+  }
+  const { caller } = auth;
+
+  const base = normalizeCurrency(req.query?.base);
+  if (!base) {
+    return res.status(400).json({ error: 'Unsupported or missing base currency' });
+  }
+
+  const quotes = String(req.query?.quotes ?? '')
+    .split(',')
+    .map(normalizeCurrency)
+    .filter((code): code is NonNullable<typeof code> => code !== null && code !== base);
+
+  try {
+    const result = await getLimitStore().takeToken(`fx:user:${caller.userId}`, FX_BUCKET);
+    if (!result.allowed) {
+      const retryAfterSeconds = Math.max(1, Math.ceil(retryAfterMs(result, FX_BUCKET) / 1000));
+      res.setHeader('Retry-After', String(retryAfterSeconds));
+      return res.status(429).json({ error: 'Too many exchange rate lookups. Try again in a moment.' });
+    }
+  } catch (err) {
+    console.error('Aurora /api/fx limit store error; allowing the request', err);
+  }
+
+  try {
+    const rates = await getMarketData().getFxRates(base, quotes);
+    const body = Object.fromEntries(
+      Object.values(rates).map((r) => [r.quote, { rate: r.rate, asOf: r.asOf, stale: r.stale }]),
+    );
+    return res.status(200).json({ base, rates: body });
+  } catch (err) {
+    console.error('Aurora /api/fx error', err);
+    return res.status(200).json({ base, rates: {} });
+  }
+}
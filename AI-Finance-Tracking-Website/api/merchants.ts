@@ -0,0 +1,136 @@
+// Vercel serverless function for the user's merchants (lib/aurora/merchants).
+//
+//   GET  /api/merchants                        → { merchants }; links transactions that have no
+//                                                merchant yet before listing
+//   POST /api/merchants { action: 'update', id, merchant }
+//                                              → { merchant, merchants }; a new default category
+//                                                re-categorises the merchant's transactions
+//   POST /api/merchants { action: 'merge', id, into }
+//                                              → { merchant, merchants }
+//
+// Everything runs with the caller's token under RLS. Edits that re-categorise rows are
+// throttled per user through the RATE_LIMIT_STORE backend.
+
+import { authenticateRequest, type AuthenticatedCaller } from '../lib/aurora/auth.js';
+import { createCategoriser } from '../lib/aurora/categorisation/index.js';
+import { createLimitStoreFromEnv, retryAfterMs, type BucketSpec, type LimitStore } from '../lib/aurora/limits/index.js';
+import { createMerchantStore, MerchantError, parseMerchantInput } from '../lib/aurora/merchants/index.js';
+
+// Ten re-categorising edits back to back, then one every half minute.
+const RECATEGORISE_BUCKET: BucketSpec = { capacity: 10, refillPerSecond: 1 / 30 };
+
+class ThrottledError extends Error {
+  constructor(readonly retryAfterSeconds: number) {
+    super('Too many merchant edits');
+  }
+}
+
+let limitStore: LimitStore | undefined;
+
+function getLimitStore(): LimitStore {
+  if (!limitStore) {
+    limitStore = createLimitStoreFromEnv();
+  }
+  return limitStore;
+}
+
+function readBody(req: any): any {
+  return typeof req.body === 'string' && req.body ? JSON.parse(req.body) : req.body ?? {};
+}
+
+function text(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+async function throttleRecategorise(caller: AuthenticatedCaller): Promise<void> {
+  try {
+    const result = await getLimitStore().takeToken(`merchants:user:${caller.userId}`, RECATEGORISE_BUCKET);
+    if (!result.allowed) {
+      throw new ThrottledError(Math.max(1, Math.ceil(retryAfterMs(result, RECATEGORISE_BUCKET) / 1000)));
+    }
+  } catch (err) {
+    if (err instanceof ThrottledError) throw err;
+    console.error('Aurora /api/merchants limit store error; allowing the request', err);
+  }
+}
+
+export default async function handler(req: any, res: any) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', 'GET, POST');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  const auth = await authenticateRequest(req);
+  if (auth.status === 'anonymous' || auth.status === 'invalid') {
+    res.setHeader('WWW-Authenticate', 'Bearer error="invalid_token"');
+    return res.status(401).json({ error: 'Sign in to manage your merchants' });
+  }
+  if (auth.status === 'unavailable') {
+    return res.status(503).json({ error: 'Authentication is temporarily unavailable' });
+  }
+  if (auth.status === 'mfa-required') {
+    return res.status(403).json({ error: 'Verify with your authenticator app to continue' });
+  }
+  const { caller } = auth;
+  const store = createMerchantStore({ db: caller.client });
+  const categoriser = createCategoriser({ db: caller.client });
+
+  try {
+    if (req.method === 'GET') {
+      await store.assignMerchants(caller.userId);
+      return res.status(200).json({ merchants: await store.listMerchants(caller.userId) });
+    }
+
+    const body = readBody(req);
+
+    switch (body?.action) {
+      case 'update': {
+        const parsed = parseMerchantInput(body.merchant);
+        if (!parsed.ok) {
+          return res.status(400).json({ error: parsed.error });
+        }
+        await throttleRecategorise(caller);
+        const result = await store.updateMerchant(caller.userId, text(body.id), parsed.merchant);
+        if (!result) {
+          return res.status(404).json({ error: 'Merchant not found' });
+        }
+        if (result.categoryChanged) {
+          await categoriser.applyRules(caller.userId, { merchantId: result.merchant.id });
+        }
+        return res.status(200).json({ merchant: result.merchant, merchants: await store.listMerchants(caller.userId) });
+      }
+
+      case 'merge': {
+        const id = text(body.id);
+        const into = text(body.into);
+        if (!id || !into) {
+          return res.status(400).json({ error: 'Choose a merchant and where to merge it' });
+        }
+        await throttleRecategorise(caller);
+        const merchant = await store.mergeMerchants(caller.userId, id, into);
+        if (!merchant) {
+          return res.status(404).json({ error: 'Merchant not found' });
+        }
+        // The moved transactions take the surviving merchant's default category, if any.
+        await categoriser.applyRules(caller.userId, { merchantId: merchant.id });
+        return res.status(200).json({ merchant, merchants: await store.listMerchants(caller.userId) });
+      }
+
+      default:
+        return res.status(400).json({ error: 'Unknown action' });
+    }
+  } catch (err) {
+    if (err instanceof MerchantError) {
+      return res.status(409).json({ error: err.message });
+    }
+    if (err instanceof ThrottledError) {
+      res.setHeader('Retry-After', String(err.retryAfterSeconds));
+      return res.status(429).json({ error: 'Merchants were edited a lot just now. Try again in a moment.' });
+    }
+    if (err instanceof SyntaxError) {
+      return res.status(400).json({ error: 'Invalid JSON body' });
+    }
+    console.error('Aurora /api/merchants error', err);
+    return res.status(500).json({ error: 'Could not update your merchants. Please try again.' });
+  }
+}
@@ -0,0 +1,95 @@
+// Vercel serverless function that redeems an MFA recovery code.
+// POST /api/mfa-recovery { code } with the user's (aal1) access token → { ok: true }
+//
+// A matching unused code is marked as spent, the user's authenticator factors are deleted and
+// the remaining codes are discarded, so the next session refresh no longer requires aal2 and
+// the user can enroll a new device. Needs SUPABASE_URL, SUPABASE_ANON_KEY and
+// SUPABASE_SERVICE_ROLE_KEY; attempts are throttled through the RATE_LIMIT_STORE backend.
+
+import { authenticateRequest, createServiceRoleClient, getClientIp } from '../lib/aurora/auth.js';
+import { createLimitStoreFromEnv, retryAfterMs, type BucketSpec, type LimitStore } from '../lib/aurora/limits/index.js';
+import { hashRecoveryCode, normalizeRecoveryCode } from '../lib/recoveryCodes.js';
+
+// Five guesses, then one more every three minutes.
+const ATTEMPT_BUCKET: BucketSpec = { capacity: 5, refillPerSecond: 1 / 180 };
+
+let limitStore: LimitStore | undefined;
+
+function getLimitStore(): LimitStore {
+  if (!limitStore) {
+    limitStore = createLimitStoreFromEnv();
+  }
+  return limitStore;
+}
+
+export default async function handler(req: any, res: any) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  const auth = await authenticateRequest(req, { allowPendingMfa: true });
+  if (auth.status === 'anonymous' || auth.status === 'invalid') {
+    res.setHeader('WWW-Authenticate', 'Bearer error="invalid_token"');
+    return res.status(401).json({ error: 'Sign in again before using a recovery code' });
+  }
+  if (auth.status === 'unavailable') {
+    return res.status(503).json({ error: 'Authentication is temporarily unavailable' });
+  }
+  if (auth.status === 'mfa-required') {
+    return res.status(403).json({ error: 'Verify with your authenticator app to continue' });
+  }
+  const { userId } = auth.caller;
+
+  const admin = createServiceRoleClient();
+  if (!admin) {
+    return res.status(503).json({ error: 'Recovery codes are not configured on this deployment' });
+  }
+
+  try {
+    const result = await getLimitStore().takeToken(`mfa-recovery:user:${userId}`, ATTEMPT_BUCKET);
+    if (!result.allowed) {
+      const retryAfterSeconds = Math.max(1, Math.ceil(retryAfterMs(result, ATTEMPT_BUCKET) / 1000));
+      res.setHeader('Retry-After', String(retryAfterSeconds));
+      return res.status(429).json({ error: 'Too many attempts. Try again in a few minutes.', retryAfterSeconds });
+    }
+  } catch (err) {
+    console.error('Aurora /api/mfa-recovery limit store error; allowing the attempt', err);
+  }
+
+  try {
+    const body = typeof req.body === 'string' ? JSON.parse(req.body) : req.body;
+    const code = typeof body?.code === 'string' ? normalizeRecoveryCode(body.code) : '';
+    if (!code) {
+      return res.status(400).json({ error: 'Enter one of your recovery codes' });
+    }
+
+    // The `used_at is null` filter makes the update the atomic check: a code spends exactly once.
+    const { data: spent, error: spendError } = await admin
+      .from('mfa_recovery_codes')
+      .update({ used_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .eq('code_hash', await hashRecoveryCode(code))
+      .is('used_at', null)
+      .select('id');
+    if (spendError) throw new Error(spendError.message);
+    if (!spent?.length) {
+      console.warn('Aurora /api/mfa-recovery rejected a code', { userId, ip: getClientIp(req) });
+      return res.status(400).json({ error: 'That recovery code is not valid or was already used' });
+    }
+
+    const { data: factors, error: listError } = await admin.auth.admin.mfa.listFactors({ userId });
+    if (listError) throw new Error(listError.message);
+    for (const factor of factors?.factors ?? []) {
+      const { error } = await admin.auth.admin.mfa.deleteFactor({ id: factor.id, userId });
+      if (error) throw new Error(error.message);
+    }
+
+    await admin.from('mfa_recovery_codes').delete().eq('user_id', userId).is('used_at', null);
+
+    return res.status(200).json({ ok: true });
+  } catch (err) {
+    console.error('Aurora /api/mfa-recovery error', err);
+    return res.status(500).json({ error: 'Could not use the recovery code. Please try again.' });
+  }
+}
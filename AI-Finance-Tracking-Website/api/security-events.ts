@@ -0,0 +1,209 @@
+// Vercel serverless function for the login-risk event log.
+//
+//   GET  /api/security-events                       → RiskOverview (score, 30-day timeline, alerts)
+//   POST /api/security-events { type: 'sign-in' }   → scores the caller's new session once and
+//                                                     stores it; repeats return the stored result
+//   POST /api/security-events { type: 'sign-in-failed', email }
+//                                                   → notes a failed password attempt (no token)
+//
+// Scoring compares the sign-in with the user's last 90 days of sign-ins (lib/aurora/risk).
+// Writes use SUPABASE_SERVICE_ROLE_KEY; failed-attempt reports are throttled per IP through
+// the RATE_LIMIT_STORE backend.
+
+import {
+  authenticateRequest,
+  createServiceRoleClient,
+  getClientGeo,
+  getClientIp,
+  type AuthenticatedCaller,
+} from '../lib/aurora/auth.js';
+import { createLimitStoreFromEnv, type BucketSpec, type LimitStore } from '../lib/aurora/limits/index.js';
+import {
+  buildRiskOverview,
+  scoreLogin,
+  type LoginAssessment,
+  type LoginFingerprint,
+  type SecurityEvent,
+} from '../lib/aurora/risk/index.js';
+import { describeUserAgent } from '../lib/userAgent.js';
+
+const HISTORY_DAYS = 90;
+const FAILURE_WINDOW_MS = 15 * 60_000;
+const FAILURE_REPORT_BUCKET: BucketSpec = { capacity: 10, refillPerSecond: 10 / 60 };
+
+const EVENT_COLUMNS =
+  'id, session_id, kind, risk_score, risk_level, signals, details, device, ip, city, country, latitude, longitude, created_at';
+
+let limitStore: LimitStore | undefined;
+
+function getLimitStore(): LimitStore {
+  if (!limitStore) {
+    limitStore = createLimitStoreFromEnv();
+  }
+  return limitStore;
+}
+
+function readBody(req: any): any {
+  return typeof req.body === 'string' && req.body ? JSON.parse(req.body) : req.body ?? {};
+}
+
+async function hashEmail(email: string): Promise<string> {
+  const digest = await globalThis.crypto.subtle.digest('SHA-256', new TextEncoder().encode(email.trim().toLowerCase()));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function toEvent(row: any): SecurityEvent {
+  return {
+    id: row.id,
+    kind: row.kind,
+    at: row.created_at,
+    score: Number(row.risk_score) || 0,
+    level: row.risk_level,
+    signals: Array.isArray(row.signals) ? row.signals : [],
+    device: row.device,
+    ip: row.ip ?? null,
+    city: row.city ?? null,
+    country: row.country ?? null,
+    latitude: row.latitude ?? null,
+    longitude: row.longitude ?? null,
+    details: row.details ?? {},
+  };
+}
+
+function assessmentOf(event: SecurityEvent): LoginAssessment {
+  return { score: event.score, level: event.level, signals: event.signals };
+}
+
+async function getOverview(caller: AuthenticatedCaller) {
+  const since = new Date(Date.now() - 30 * 86_400_000).toISOString();
+  const { data, error } = await caller.client
+    .from('security_events')
+    .select(EVENT_COLUMNS)
+    .gte('created_at', since)
+    .order('created_at', { ascending: false })
+    .limit(200);
+  if (error) throw new Error(error.message);
+
+  const rows = data ?? [];
+  const current = caller.sessionId ? rows.find((row: any) => row.session_id === caller.sessionId) : undefined;
+  return buildRiskOverview(rows.map(toEvent), new Date(), current ? toEvent(current) : null);
+}
+
+async function recordSignIn(admin: any, caller: AuthenticatedCaller, req: any): Promise<LoginAssessment> {
+  if (caller.sessionId) {
+    const { data: existing } = await admin
+      .from('security_events')
+      .select(EVENT_COLUMNS)
+      .eq('session_id', caller.sessionId)
+      .maybeSingle();
+    if (existing) return assessmentOf(toEvent(existing));
+  }
+
+  const now = new Date();
+  const { data: historyRows, error: historyError } = await admin
+    .from('security_events')
+    .select(EVENT_COLUMNS)
+    .eq('user_id', caller.userId)
+    .eq('kind', 'sign-in')
+    .gte('created_at', new Date(now.getTime() - HISTORY_DAYS * 86_400_000).toISOString())
+    .order('created_at', { ascending: false })
+    .limit(200);
+  if (historyError) throw new Error(historyError.message);
+
+  let recentFailures = 0;
+  if (caller.email) {
+    const { count } = await admin
+      .from('login_failures')
+      .select('id', { count: 'exact', head: true })
+      .eq('email_hash', await hashEmail(caller.email))
+      .gte('created_at', new Date(now.getTime() - FAILURE_WINDOW_MS).toISOString());
+    recentFailures = count ?? 0;
+  }
+
+  const userAgent = typeof req.headers?.['user-agent'] === 'string' ? req.headers['user-agent'] : null;
+  const login: LoginFingerprint = { at: now.toISOString(), device: describeUserAgent(userAgent), ...getClientGeo(req) };
+  const assessment = scoreLogin(login, (historyRows ?? []).map(toEvent), recentFailures);
+
+  const { error } = await admin.from('security_events').insert({
+    user_id: caller.userId,
+    session_id: caller.sessionId,
+    kind: 'sign-in',
+    risk_score: assessment.score,
+    risk_level: assessment.level,
+    signals: assessment.signals,
+    device: login.device,
+    user_agent: userAgent,
+    ip: getClientIp(req),
+    city: login.city,
+    country: login.country,
+    latitude: login.latitude,
+    longitude: login.longitude,
+    created_at: login.at,
+  });
+  // A concurrent report for the same session already stored it; that result stands.
+  if (error && (error as any).code !== '23505') throw new Error(error.message);
+
+  return assessment;
+}
+
+async function recordFailure(admin: any, email: string, req: any, res: any) {
+  const ip = getClientIp(req);
+  try {
+    const result = await getLimitStore().takeToken(`sign-in-failed:ip:${ip ?? 'unknown'}`, FAILURE_REPORT_BUCKET);
+    if (!result.allowed) return res.status(204).end();
+  } catch (err) {
+    console.error('Aurora /api/security-events limit store error; recording the failure', err);
+  }
+
+  const { error } = await admin.from('login_failures').insert({ email_hash: await hashEmail(email), ip });
+  if (error) throw new Error(error.message);
+  return res.status(204).end();
+}
+
+export default async function handler(req: any, res: any) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', 'GET, POST');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  try {
+    const body = req.method === 'POST' ? readBody(req) : {};
+    const admin = createServiceRoleClient();
+
+    if (body?.type === 'sign-in-failed') {
+      const email = typeof body.email === 'string' ? body.email : '';
+      if (!email.includes('@')) {
+        return res.status(400).json({ error: 'Missing email' });
+      }
+      if (!admin) return res.status(204).end();
+      return await recordFailure(admin, email, req, res);
+    }
+
+    const auth = await authenticateRequest(req, { allowPendingMfa: req.method === 'POST' });
+    if (auth.status === 'anonymous' || auth.status === 'invalid') {
+      res.setHeader('WWW-Authenticate', 'Bearer error="invalid_token"');
+      return res.status(401).json({ error: 'Sign in to view security events' });
+    }
+    if (auth.status === 'unavailable') {
+      return res.status(503).json({ error: 'Authentication is temporarily unavailable' });
+    }
+    if (auth.status === 'mfa-required') {
+      return res.status(403).json({ error: 'Verify with your authenticator app to continue' });
+    }
+
+    if (req.method === 'GET') {
+      return res.status(200).json(await getOverview(auth.caller));
+    }
+
+    if (body?.type !== 'sign-in') {
+      return res.status(400).json({ error: 'Unknown event type' });
+    }
+    if (!admin) {
+      return res.status(503).json({ error: 'Security events are not configured on this deployment' });
+    }
+    return res.status(200).json(await recordSignIn(admin, auth.caller, req));
+  } catch (err) {
+    console.error('Aurora /api/security-events error', err);
+    return res.status(500).json({ error: 'Could not process the security event' });
+  }
+}
@@ -0,0 +1,132 @@
+// Vercel serverless function for the signed-in user's login sessions.
+//
+//   GET    /api/sessions                  → { sessions: [...] } live sessions, current one marked
+//   POST   /api/sessions                  → records device, user agent, IP and location for the
+//                                           caller's session and bumps its last-active time
+//   DELETE /api/sessions { sessionId }    → revokes one other session
+//   DELETE /api/sessions { scope: 'others' } → revokes every session but the caller's
+//
+// Everything runs with the caller's token, so RLS and the `*_my_*` SQL functions scope it to
+// their own sessions. Revoking needs an aal2 token once the user has MFA set up; the SQL
+// functions refuse otherwise and the caller gets a 403. Signing out the current device is
+// done client-side with supabase.auth.signOut({ scope: 'local' }).
+
+import { authenticateRequest, getClientIp, getClientLocation, type AuthenticatedCaller } from '../lib/aurora/auth.js';
+import { describeUserAgent } from '../lib/userAgent.js';
+
+interface SessionRow {
+  session_id: string;
+  device: string | null;
+  user_agent: string | null;
+  ip: string | null;
+  location: string | null;
+  created_at: string;
+  last_active_at: string;
+  is_current: boolean;
+}
+
+// Raised by the revoke functions when the token has not completed MFA.
+const INSUFFICIENT_PRIVILEGE = '42501';
+
+const MFA_REQUIRED_MESSAGE = 'Verify with your authenticator app before signing out other devices';
+
+function readBody(req: any): any {
+  return typeof req.body === 'string' && req.body ? JSON.parse(req.body) : req.body ?? {};
+}
+
+async function listSessions(caller: AuthenticatedCaller) {
+  const { data, error } = await caller.client.rpc('list_my_sessions');
+  if (error) throw new Error(error.message);
+
+  return ((data ?? []) as SessionRow[]).map((row) => ({
+    id: row.session_id,
+    device: row.device ?? describeUserAgent(row.user_agent),
+    ip: row.ip,
+    location: row.location,
+    createdAt: row.created_at,
+    lastActiveAt: row.last_active_at,
+    isCurrent: Boolean(row.is_current),
+  }));
+}
+
+async function recordSession(caller: AuthenticatedCaller, req: any): Promise<void> {
+  const userAgent = typeof req.headers?.['user-agent'] === 'string' ? req.headers['user-agent'] : null;
+  const { error } = await caller.client.from('user_sessions').upsert(
+    {
+      session_id: caller.sessionId,
+      user_id: caller.userId,
+      device: describeUserAgent(userAgent),
+      user_agent: userAgent,
+      ip: getClientIp(req),
+      location: getClientLocation(req),
+      last_active_at: new Date().toISOString(),
+    },
+    { onConflict: 'session_id' },
+  );
+  if (error) throw new Error(error.message);
+}
+
+export default async function handler(req: any, res: any) {
+  if (req.method !== 'GET' && req.method !== 'POST' && req.method !== 'DELETE') {
+    res.setHeader('Allow', 'GET, POST, DELETE');
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  const auth = await authenticateRequest(req, { allowPendingMfa: req.method === 'POST' });
+  if (auth.status === 'anonymous' || auth.status === 'invalid') {
+    res.setHeader('WWW-Authenticate', 'Bearer error="invalid_token"');
+    return res.status(401).json({ error: 'Sign in to manage your sessions' });
+  }
+  if (auth.status === 'unavailable') {
+    return res.status(503).json({ error: 'Authentication is temporarily unavailable' });
+  }
+  if (auth.status === 'mfa-required') {
+    return res.status(403).json({ error: 'Verify with your authenticator app to continue' });
+  }
+  const { caller } = auth;
+
+  try {
+    if (req.method === 'GET') {
+      return res.status(200).json({ sessions: await listSessions(caller) });
+    }
+
+    if (!caller.sessionId) {
+      return res.status(400).json({ error: 'This access token does not identify a session; sign in again' });
+    }
+
+    if (req.method === 'POST') {
+      await recordSession(caller, req);
+      return res.status(204).end();
+    }
+
+    const body = readBody(req);
+    if (body?.scope === 'others') {
+      const { data, error } = await caller.client.rpc('revoke_my_other_sessions');
+      if (error?.code === INSUFFICIENT_PRIVILEGE) {
+        return res.status(403).json({ error: MFA_REQUIRED_MESSAGE });
+      }
+      if (error) throw new Error(error.message);
+      return res.status(200).json({ revoked: Number(data) || 0 });
+    }
+
+    const sessionId = typeof body?.sessionId === 'string' ? body.sessionId : '';
+    if (!sessionId) {
+      return res.status(400).json({ error: 'Pass a sessionId or scope: "others"' });
+    }
+    if (sessionId === caller.sessionId) {
+      return res.status(400).json({ error: 'Sign out to end the current session' });
+    }
+    const { data, error } = await caller.client.rpc('revoke_my_session', { p_session_id: sessionId });
+    if (error?.code === INSUFFICIENT_PRIVILEGE) {
+      return res.status(403).json({ error: MFA_REQUIRED_MESSAGE });
+    }
+    if (error) throw new Error(error.message);
+    if (!data) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    return res.status(200).json({ revoked: 1 });
+  } catch (err) {
+    console.error('Aurora /api/sessions error', err);
+    return res.status(500).json({ error: 'Could not update your sessions. Please try again.' });
+  }
+}
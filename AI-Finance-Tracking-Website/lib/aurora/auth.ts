@@ -0,0 +1,144 @@
+import { createClient } from '@supabase/supabase-js';
+
+// Caller authentication for the API routes. The Supabase access token from the Authorization
+// header is verified with Supabase Auth, and every query for that caller goes through a
+// client carrying the same token, so row-level security decides what is visible. The user id
+// always comes from the verified token, never from the request body. Once the user has a
+// verified MFA factor, a token that has not completed MFA (aal1) is turned away as well; the
+// database enforces the same rule (20261019270000_mfa_rls.sql).
+
+export interface AuthenticatedCaller {
+  client: any;
+  userId: string;
+  email: string | null;
+  // Supabase Auth session behind the token (`session_id` claim); null for older tokens.
+  sessionId: string | null;
+}
+
+export type AuthResult =
+  | { status: 'anonymous' }
+  | { status: 'authenticated'; caller: AuthenticatedCaller }
+  // A token was sent but Supabase rejected it (expired, revoked, forged).
+  | { status: 'invalid' }
+  // A token was sent but could not be checked: Supabase is not configured or unreachable.
+  | { status: 'unavailable' }
+  // A valid password-only (aal1) token for a user who has MFA set up.
+  | { status: 'mfa-required' };
+
+export interface AuthenticateOptions {
+  // For the routes a user still owing an MFA code has to reach: recovery codes, recording
+  // the sign-in and its device.
+  allowPendingMfa?: boolean;
+}
+
+export function getBearerToken(req: any): string | null {
+  const header = req.headers?.authorization ?? req.headers?.Authorization;
+  if (typeof header !== 'string') return null;
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+// Only call on a token Supabase has already verified; this does not check the signature.
+function readClaims(accessToken: string): { sessionId: string | null; aal: string | null } {
+  try {
+    const payload = accessToken.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    const claims = JSON.parse(atob(payload.padEnd(payload.length + ((4 - (payload.length % 4)) % 4), '=')));
+    return {
+      sessionId: typeof claims?.session_id === 'string' ? claims.session_id : null,
+      aal: typeof claims?.aal === 'string' ? claims.aal : null,
+    };
+  } catch {
+    return { sessionId: null, aal: null };
+  }
+}
+
+export async function authenticateRequest(req: any, options: AuthenticateOptions = {}): Promise<AuthResult> {
+  const accessToken = getBearerToken(req);
+  if (!accessToken) return { status: 'anonymous' };
+
+  const url = (globalThis as any)?.process?.env?.SUPABASE_URL as string | undefined;
+  const anonKey = (globalThis as any)?.process?.env?.SUPABASE_ANON_KEY as string | undefined;
+  if (!url || !anonKey) return { status: 'unavailable' };
+
+  try {
+    const client = createClient(url, anonKey, {
+      auth: { persistSession: false },
+      global: { headers: { Authorization: `Bearer ${accessToken}` } },
+    });
+    const { data, error } = await client.auth.getUser(accessToken);
+    if (error) {
+      // 4xx means Supabase looked at the token and refused it; anything else is on our side.
+      const status = (error as any).status;
+      return typeof status === 'number' && status >= 400 && status < 500
+        ? { status: 'invalid' }
+        : { status: 'unavailable' };
+    }
+    if (!data?.user) return { status: 'invalid' };
+    const { sessionId, aal } = readClaims(accessToken);
+    const hasVerifiedFactor = (data.user.factors ?? []).some((factor) => factor.status === 'verified');
+    if (hasVerifiedFactor && aal !== 'aal2' && !options.allowPendingMfa) return { status: 'mfa-required' };
+    return {
+      status: 'authenticated',
+      caller: { client, userId: data.user.id, email: data.user.email ?? null, sessionId },
+    };
+  } catch (err) {
+    console.error('Aurora auth error', err);
+    return { status: 'unavailable' };
+  }
+}
+
+// Service-role client for writes users must not make themselves (recovery codes, the
+// security event log). Null when SUPABASE_SERVICE_ROLE_KEY is not configured.
+export function createServiceRoleClient(): any | null {
+  const url = (globalThis as any)?.process?.env?.SUPABASE_URL as string | undefined;
+  const serviceRoleKey = (globalThis as any)?.process?.env?.SUPABASE_SERVICE_ROLE_KEY as string | undefined;
+  if (!url || !serviceRoleKey) return null;
+  return createClient(url, serviceRoleKey, { auth: { persistSession: false } });
+}
+
+export interface ClientGeo {
+  city: string | null;
+  country: string | null;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+// Approximate position from Vercel's geo headers; all null when not deployed on Vercel.
+export function getClientGeo(req: any): ClientGeo {
+  const header = (name: string): string | null => {
+    const value = req.headers?.[name];
+    if (typeof value !== 'string' || !value) return null;
+    try {
+      return decodeURIComponent(value);
+    } catch {
+      return value;
+    }
+  };
+  const coordinate = (name: string): number | null => {
+    const value = Number(header(name) ?? NaN);
+    return Number.isFinite(value) ? value : null;
+  };
+  return {
+    city: header('x-vercel-ip-city'),
+    country: header('x-vercel-ip-country'),
+    latitude: coordinate('x-vercel-ip-latitude'),
+    longitude: coordinate('x-vercel-ip-longitude'),
+  };
+}
+
+// e.g. "San Francisco, US"; null when the location is unknown.
+export function getClientLocation(req: any): string | null {
+  const { city, country } = getClientGeo(req);
+  const parts = [city, country].filter(Boolean);
+  return parts.length ? parts.join(', ') : null;
+}
+
+// First hop of X-Forwarded-For as set by Vercel's edge; the socket address otherwise.
+export function getClientIp(req: any): string | null {
+  const forwarded = req.headers?.['x-forwarded-for'];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0]?.trim();
+  if (first) return first;
+  const realIp = req.headers?.['x-real-ip'];
+  if (typeof realIp === 'string' && realIp) return realIp;
+  return req.socket?.remoteAddress ?? null;
+}
@@ -0,0 +1,86 @@
+import { createPlaidConnector, type PlaidEnvironment } from './plaid.js';
+import { createSandboxConnector, loadSandboxFixture } from './sandbox.js';
+import type { BankConnector } from './types.js';
+
+export * from './types.js';
+export { classifySyncFailure, createSyncEngine, toSyncAttempt, type SyncEngine, type SyncFailure } from './sync.js';
+export { createPlaidConnector, type PlaidEnvironment } from './plaid.js';
+export {
+  createSandboxConnector,
+  loadSandboxFixture,
+  type SandboxAccount,
+  type SandboxActivity,
+  type SandboxFixture,
+  type SandboxInstitution,
+} from './sandbox.js';
+
+// Connectors from environment config, keyed by name. The institution picker lists them in
+// this order.
+//
+//   BANK_CONNECTORS            comma-separated list of plaid | sandbox (default: plaid, plus
+//                              sandbox outside production; its fake accounts would otherwise
+//                              land in real ledgers)
+//   PLAID_CLIENT_ID / PLAID_SECRET   required for plaid; it is skipped without them
+//   PLAID_ENV                  sandbox | development | production (default: sandbox)
+//   PLAID_COUNTRY_CODES        comma-separated, e.g. US,CA,GB (default: US)
+//   PLAID_REDIRECT_URI / PLAID_WEBHOOK_URL   optional, passed to /link/token/create
+//   BANK_SANDBOX_FIXTURE_FILE  JSON institutions for the sandbox connector (default: bundled)
+//   BANK_SYNC_INTERVAL_MINUTES how often healthy connections are re-synced (default: 360)
+
+type Env = Record<string, string | undefined>;
+
+const PLAID_ENVIRONMENTS: PlaidEnvironment[] = ['sandbox', 'development', 'production'];
+
+function readEnv(): Env {
+  return ((globalThis as any)?.process?.env ?? {}) as Env;
+}
+
+// Vercel sets VERCEL_ENV to production, preview or development; elsewhere NODE_ENV decides.
+function isProduction(env: Env): boolean {
+  return env.VERCEL_ENV ? env.VERCEL_ENV === 'production' : env.NODE_ENV === 'production';
+}
+
+function list(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+export function createBankConnectorsFromEnv(env: Env = readEnv()): Map<string, BankConnector> {
+  const defaults = isProduction(env) ? 'plaid' : 'plaid,sandbox';
+  const names = list(env.BANK_CONNECTORS || defaults).map((name) => name.toLowerCase());
+
+  const connectors = new Map<string, BankConnector>();
+  for (const name of names) {
+    if (name === 'plaid') {
+      if (!env.PLAID_CLIENT_ID || !env.PLAID_SECRET) continue;
+      const environment = (env.PLAID_ENV ?? 'sandbox').toLowerCase() as PlaidEnvironment;
+      if (!PLAID_ENVIRONMENTS.includes(environment)) {
+        console.error(`Aurora: unknown PLAID_ENV "${env.PLAID_ENV}"; skipping the plaid connector.`);
+        continue;
+      }
+      connectors.set(
+        name,
+        createPlaidConnector({
+          clientId: env.PLAID_CLIENT_ID,
+          secret: env.PLAID_SECRET,
+          environment,
+          countryCodes: list(env.PLAID_COUNTRY_CODES).map((code) => code.toUpperCase()),
+          redirectUri: env.PLAID_REDIRECT_URI || undefined,
+          webhookUrl: env.PLAID_WEBHOOK_URL || undefined,
+        }),
+      );
+    } else if (name === 'sandbox') {
+      connectors.set(name, createSandboxConnector(loadSandboxFixture(env.BANK_SANDBOX_FIXTURE_FILE)));
+    } else {
+      console.error(`Aurora: unknown bank connector "${name}" in BANK_CONNECTORS.`);
+    }
+  }
+  return connectors;
+}
+
+export function syncIntervalMsFromEnv(env: Env = readEnv()): number | undefined {
+  const minutes = Number(env.BANK_SYNC_INTERVAL_MINUTES);
+  return Number.isFinite(minutes) && minutes > 0 ? minutes * 60_000 : undefined;
+}
@@ -0,0 +1,194 @@
+import {
+  BankConnectorError,
+  type BankConnector,
+  type BankConnectorErrorCode,
+  type ConnectorAccount,
+  type ConnectorAccountKind,
+  type ConnectorTransaction,
+  type Institution,
+} from './types.js';
+
+// Plaid (https://plaid.com/docs/api/). Linking goes through Plaid Link in the browser: the
+// link token opens Link, and the public token it hands back is exchanged here. Transactions
+// use /transactions/sync, whose cursor is exactly our incremental cursor.
+
+export type PlaidEnvironment = 'sandbox' | 'development' | 'production';
+
+const REQUEST_TIMEOUT_MS = 20_000;
+const SYNC_PAGE_SIZE = 250;
+
+// Plaid error codes → the categories the rest of Aurora reacts to.
+const ERROR_CODES: Record<string, BankConnectorErrorCode> = {
+  ITEM_LOGIN_REQUIRED: 'reauth-required',
+  INVALID_ACCESS_TOKEN: 'reauth-required',
+  ITEM_NOT_FOUND: 'reauth-required',
+  INSTITUTION_DOWN: 'institution-down',
+  INSTITUTION_NOT_RESPONDING: 'institution-down',
+  INSTITUTION_NOT_AVAILABLE: 'institution-down',
+  INTERNAL_SERVER_ERROR: 'provider-error',
+};
+
+function accountKind(type: string, subtype: string | null): ConnectorAccountKind {
+  if (type === 'credit') return 'credit';
+  if (type === 'loan') return 'loan';
+  if (type === 'investment' || type === 'brokerage') return 'investment';
+  if (type === 'depository') {
+    return subtype === 'savings' || subtype === 'cd' || subtype === 'money market' ? 'savings' : 'checking';
+  }
+  return 'other';
+}
+
+function toAccount(raw: any): ConnectorAccount {
+  const kind = accountKind(raw.type, raw.subtype ?? null);
+  // Plaid reports what is owed on credit and loan accounts as a positive number.
+  const sign = kind === 'credit' || kind === 'loan' ? -1 : 1;
+  const current = Number(raw.balances?.current) || 0;
+  const available = raw.balances?.available;
+  return {
+    externalId: raw.account_id,
+    name: raw.name,
+    officialName: raw.official_name ?? null,
+    mask: raw.mask ?? null,
+    kind,
+    balance: sign * current,
+    availableBalance: available == null ? null : Number(available),
+    currency: raw.balances?.iso_currency_code ?? raw.balances?.unofficial_currency_code ?? 'USD',
+  };
+}
+
+function toTransaction(raw: any): ConnectorTransaction {
+  const category = raw.personal_finance_category?.primary ?? raw.category?.[0] ?? null;
+  return {
+    externalId: raw.transaction_id,
+    accountExternalId: raw.account_id,
+    date: raw.authorized_date ?? raw.date,
+    description: raw.name ?? raw.merchant_name ?? 'Transaction',
+    merchant: raw.merchant_name ?? null,
+    // Plaid amounts are positive when money leaves the account.
+    amount: -Number(raw.amount),
+    currency: raw.iso_currency_code ?? raw.unofficial_currency_code ?? 'USD',
+    category,
+    pending: Boolean(raw.pending),
+  };
+}
+
+function toInstitution(raw: any): Institution {
+  return {
+    id: raw.institution_id,
+    name: raw.name,
+    country: raw.country_codes?.[0] ?? 'US',
+    connector: 'plaid',
+    logoUrl: raw.logo ? `data:image/png;base64,${raw.logo}` : null,
+    primaryColor: raw.primary_color ?? null,
+  };
+}
+
+export function createPlaidConnector(options: {
+  clientId: string;
+  secret: string;
+  environment?: PlaidEnvironment;
+  countryCodes?: string[];
+  // Needed for OAuth institutions; must be registered in the Plaid dashboard.
+  redirectUri?: string;
+  webhookUrl?: string;
+}): BankConnector {
+  const baseUrl = `https://${options.environment ?? 'sandbox'}.plaid.com`;
+  const countryCodes = options.countryCodes?.length ? options.countryCodes : ['US'];
+
+  async function call(path: string, body: Record<string, unknown>): Promise<any> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    let res: Response;
+    try {
+      res = await fetch(`${baseUrl}${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ client_id: options.clientId, secret: options.secret, ...body }),
+        signal: controller.signal,
+      });
+    } catch (err) {
+      if (controller.signal.aborted) {
+        throw new BankConnectorError('plaid', 'institution-down', `${path} timed out after ${REQUEST_TIMEOUT_MS} ms`);
+      }
+      throw err;
+    } finally {
+      clearTimeout(timer);
+    }
+
+    const json: any = await res.json().catch(() => null);
+    if (res.ok) return json;
+
+    const plaidCode = json?.error_code ?? '';
+    const message = json?.error_message ?? `${path} failed with ${res.status}`;
+    if (json?.error_type === 'RATE_LIMIT_EXCEEDED' || res.status === 429) {
+      throw new BankConnectorError('plaid', 'rate-limited', message, 60_000);
+    }
+    const code = ERROR_CODES[plaidCode] ?? (res.status >= 500 ? 'provider-error' : 'invalid-request');
+    throw new BankConnectorError('plaid', code, message);
+  }
+
+  return {
+    name: 'plaid',
+    label: 'Plaid',
+
+    async listInstitutions(query) {
+      const metadata = { include_optional_metadata: true };
+      const json = query.trim()
+        ? await call('/institutions/search', {
+            query: query.trim(),
+            products: ['transactions'],
+            country_codes: countryCodes,
+            options: metadata,
+          })
+        : await call('/institutions/get', { count: 20, offset: 0, country_codes: countryCodes, options: metadata });
+      return (json?.institutions ?? []).map(toInstitution);
+    },
+
+    async createLinkToken({ userId }) {
+      // Plaid Link runs its own institution search; our picker only narrows the choice.
+      const json = await call('/link/token/create', {
+        user: { client_user_id: userId },
+        client_name: 'Aurora',
+        products: ['transactions'],
+        country_codes: countryCodes,
+        language: 'en',
+        ...(options.redirectUri ? { redirect_uri: options.redirectUri } : {}),
+        ...(options.webhookUrl ? { webhook: options.webhookUrl } : {}),
+      });
+      return { linkToken: json.link_token, expiresAt: json.expiration };
+    },
+
+    async exchangePublicToken(publicToken) {
+      const json = await call('/item/public_token/exchange', { public_token: publicToken });
+      return { accessToken: json.access_token, itemId: json.item_id };
+    },
+
+    async fetchAccounts(accessToken) {
+      const json = await call('/accounts/get', { access_token: accessToken });
+      return (json?.accounts ?? []).map(toAccount);
+    },
+
+    async fetchTransactions(accessToken, cursor) {
+      const json = await call('/transactions/sync', {
+        access_token: accessToken,
+        count: SYNC_PAGE_SIZE,
+        ...(cursor ? { cursor } : {}),
+      });
+      return {
+        added: (json?.added ?? []).map(toTransaction),
+        modified: (json?.modified ?? []).map(toTransaction),
+        removed: (json?.removed ?? []).map((entry: any) => entry.transaction_id),
+        cursor: json?.next_cursor ?? cursor ?? '',
+        hasMore: Boolean(json?.has_more),
+      };
+    },
+
+    async refresh(accessToken) {
+      await call('/transactions/refresh', { access_token: accessToken });
+    },
+
+    async unlink(accessToken) {
+      await call('/item/remove', { access_token: accessToken });
+    },
+  };
+}
@@ -0,0 +1,240 @@
+import { DEFAULT_SANDBOX_FIXTURE } from './sandboxData.js';
+import {
+  BankConnectorError,
+  type BankConnector,
+  type BankConnectorErrorCode,
+  type ConnectorAccount,
+  type ConnectorAccountKind,
+  type ConnectorTransaction,
+  type Institution,
+} from './types.js';
+
+// Serves fixture institutions so linking and syncing work locally and in previews without an
+// aggregator account. There is no hosted consent step: the link session carries its public
+// token. Tokens encode the institution and link date, so the connector keeps no state, and
+// transactions are generated from a seeded RNG so every sync of an item sees the same history.
+// Point BANK_SANDBOX_FIXTURE_FILE at a JSON file of the same shape to use your own.
+
+export interface SandboxActivity {
+  description: string;
+  category: string | null;
+  // Inclusive [min, max] range; negative for spending.
+  amount: [number, number];
+  // Average number of occurrences per 30 days.
+  perMonth: number;
+}
+
+export interface SandboxAccount {
+  id: string;
+  name: string;
+  mask: string;
+  kind: ConnectorAccountKind;
+  balance: number;
+  currency: string;
+  activity: SandboxActivity[];
+}
+
+export interface SandboxInstitution {
+  id: string;
+  name: string;
+  country: string;
+  primaryColor?: string;
+  // Makes every sync (but not linking) fail this way, to exercise the sync health states.
+  syncFailure?: BankConnectorErrorCode;
+  accounts: SandboxAccount[];
+}
+
+export interface SandboxFixture {
+  // Days of history a newly linked item starts with.
+  historyDays: number;
+  institutions: SandboxInstitution[];
+}
+
+const LINK_TOKEN_TTL_MS = 30 * 60_000;
+const DAYS_PER_PAGE = 31;
+
+function dayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function addDays(day: string, days: number): string {
+  return dayKey(new Date(Date.parse(`${day}T00:00:00Z`) + days * 86_400_000));
+}
+
+function randomId(): string {
+  const bytes = globalThis.crypto.getRandomValues(new Uint8Array(8));
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// FNV-1a, then mulberry32: small, fast and stable across runtimes.
+function seededRandom(seed: string): () => number {
+  let state = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i += 1) {
+    state = Math.imul(state ^ seed.charCodeAt(i), 0x01000193);
+  }
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Access tokens look like `sandbox-access:<institution>:<YYYY-MM-DD>.<nonce>`; the item id is
+// the part after the institution.
+function parseToken(prefix: string, token: string): { institutionId: string; itemId: string } {
+  const [kind, institutionId, itemId] = token.split(':');
+  if (kind !== prefix || !institutionId || !itemId) {
+    throw new BankConnectorError('sandbox', 'invalid-request', `malformed ${prefix} token`);
+  }
+  return { institutionId, itemId };
+}
+
+function transactionsFor(itemId: string, account: SandboxAccount, day: string): ConnectorTransaction[] {
+  return account.activity.flatMap((activity, index): ConnectorTransaction[] => {
+    const random = seededRandom(`${itemId}:${account.id}:${day}:${index}`);
+    if (random() >= activity.perMonth / 30) return [];
+    const [min, max] = activity.amount;
+    const amount = Math.round((min + random() * (max - min)) * 100) / 100;
+    return [
+      {
+        externalId: `${account.id}:${day}:${index}`,
+        accountExternalId: account.id,
+        date: day,
+        description: activity.description,
+        merchant: null,
+        amount,
+        currency: account.currency,
+        category: activity.category,
+        pending: false,
+      },
+    ];
+  });
+}
+
+// Accepts the fixture itself or the pending result of `loadSandboxFixture`.
+export function createSandboxConnector(
+  source: SandboxFixture | Promise<SandboxFixture> = DEFAULT_SANDBOX_FIXTURE,
+): BankConnector {
+  async function institution(id: string): Promise<SandboxInstitution> {
+    const fixture = await source;
+    const found = fixture.institutions.find((entry) => entry.id === id);
+    if (!found) throw new BankConnectorError('sandbox', 'invalid-request', `unknown institution ${id}`);
+    return found;
+  }
+
+  function assertSyncable(entry: SandboxInstitution) {
+    if (entry.syncFailure) {
+      throw new BankConnectorError('sandbox', entry.syncFailure, `${entry.name} is set up to fail syncs`);
+    }
+  }
+
+  function toInstitution(entry: SandboxInstitution): Institution {
+    return {
+      id: entry.id,
+      name: entry.name,
+      country: entry.country,
+      connector: 'sandbox',
+      logoUrl: null,
+      primaryColor: entry.primaryColor ?? null,
+    };
+  }
+
+  return {
+    name: 'sandbox',
+    label: 'Sandbox',
+
+    async listInstitutions(query) {
+      const fixture = await source;
+      const needle = query.trim().toLowerCase();
+      return fixture.institutions
+        .filter((entry) => !needle || entry.name.toLowerCase().includes(needle))
+        .map(toInstitution);
+    },
+
+    async createLinkToken({ institutionId }) {
+      await institution(institutionId);
+      const nonce = randomId();
+      return {
+        linkToken: `sandbox-link:${institutionId}:${nonce}`,
+        expiresAt: new Date(Date.now() + LINK_TOKEN_TTL_MS).toISOString(),
+        publicToken: `sandbox-public:${institutionId}:${nonce}`,
+      };
+    },
+
+    async exchangePublicToken(publicToken) {
+      const { institutionId } = parseToken('sandbox-public', publicToken);
+      await institution(institutionId);
+      const itemId = `${dayKey(new Date())}.${randomId()}`;
+      return { accessToken: `sandbox-access:${institutionId}:${itemId}`, itemId };
+    },
+
+    async fetchAccounts(accessToken) {
+      const { institutionId } = parseToken('sandbox-access', accessToken);
+      const entry = await institution(institutionId);
+      return entry.accounts.map(
+        (account): ConnectorAccount => ({
+          externalId: account.id,
+          name: account.name,
+          officialName: `${entry.name} ${account.name}`,
+          mask: account.mask,
+          kind: account.kind,
+          balance: account.balance,
+          availableBalance: account.kind === 'credit' || account.kind === 'loan' ? null : account.balance,
+          currency: account.currency,
+        }),
+      );
+    },
+
+    // The cursor is the last day delivered. A day's activity posts once the day is over.
+    async fetchTransactions(accessToken, cursor) {
+      const { institutionId, itemId } = parseToken('sandbox-access', accessToken);
+      const entry = await institution(institutionId);
+      assertSyncable(entry);
+      const fixture = await source;
+
+      const linkedOn = itemId.slice(0, 10);
+      const firstDay = cursor ? addDays(cursor, 1) : addDays(linkedOn, -fixture.historyDays);
+      const lastPostedDay = addDays(dayKey(new Date()), -1);
+      const pageEnd = addDays(firstDay, DAYS_PER_PAGE - 1);
+      const lastDay = pageEnd < lastPostedDay ? pageEnd : lastPostedDay;
+
+      const added: ConnectorTransaction[] = [];
+      for (let day = firstDay; day <= lastDay; day = addDays(day, 1)) {
+        for (const account of entry.accounts) added.push(...transactionsFor(itemId, account, day));
+      }
+
+      return {
+        added,
+        modified: [],
+        removed: [],
+        cursor: lastDay >= firstDay ? lastDay : cursor ?? addDays(firstDay, -1),
+        hasMore: lastDay < lastPostedDay,
+      };
+    },
+
+    async refresh(accessToken) {
+      assertSyncable(await institution(parseToken('sandbox-access', accessToken).institutionId));
+    },
+
+    async unlink(accessToken) {
+      parseToken('sandbox-access', accessToken);
+    },
+  };
+}
+
+export async function loadSandboxFixture(path: string | undefined): Promise<SandboxFixture> {
+  if (!path) return DEFAULT_SANDBOX_FIXTURE;
+  try {
+    const specifier = 'node:fs/promises';
+    const fs = await import(/* @vite-ignore */ specifier);
+    const parsed = JSON.parse(await fs.readFile(path, 'utf8'));
+    if (parsed && typeof parsed === 'object' && Array.isArray(parsed.institutions)) {
+      return { historyDays: 90, ...parsed } as SandboxFixture;
+    }
+    console.error(`Aurora bank sandbox fixture ${path} has no institutions; using the bundled one.`);
+  } catch (err) {
+    console.error(`Aurora bank sandbox fixture ${path} could not be read; using the bundled one.`, err);
+  }
+  return DEFAULT_SANDBOX_FIXTURE;
+}
@@ -0,0 +1,128 @@
+import type { SandboxFixture } from './sandbox.js';
+
+// Institutions served by the `sandbox` connector when no fixture file is configured. Every
+// linked account gets a deterministic stream of transactions drawn from its `activity`.
+
+export const DEFAULT_SANDBOX_FIXTURE: SandboxFixture = {
+  historyDays: 90,
+  institutions: [
+    {
+      id: 'sandbox-aurora-bank',
+      name: 'Aurora Sandbox Bank',
+      country: 'US',
+      primaryColor: '#10b981',
+      accounts: [
+        {
+          id: 'checking',
+          name: 'Everyday Checking',
+          mask: '4820',
+          kind: 'checking',
+          balance: 12_400,
+          currency: 'USD',
+          activity: [
+            { description: 'Stripe • Freelance payout', category: 'Income', amount: [1_800, 3_200], perMonth: 2 },
+            { description: 'Rent – Skyline Lofts', category: 'Housing', amount: [-2_150, -2_150], perMonth: 1 },
+            { description: 'Whole Foods Market #1043', category: 'Food', amount: [-140, -45], perMonth: 6 },
+            { description: 'Blue Bottle Coffee', category: 'Food', amount: [-9, -4], perMonth: 10 },
+            { description: 'Uber Trip', category: 'Transport', amount: [-38, -12], perMonth: 5 },
+            { description: 'Netflix.com', category: 'Subscriptions', amount: [-15.49, -15.49], perMonth: 1 },
+            { description: 'Spotify USA', category: 'Subscriptions', amount: [-10.99, -10.99], perMonth: 1 },
+            { description: 'Con Edison Utility', category: 'Housing', amount: [-160, -90], perMonth: 1 },
+          ],
+        },
+        {
+          id: 'savings',
+          name: 'High-Yield Savings',
+          mask: '9012',
+          kind: 'savings',
+          balance: 48_250,
+          currency: 'USD',
+          activity: [
+            { description: 'Interest payment', category: 'Income', amount: [140, 160], perMonth: 1 },
+            { description: 'Transfer from Everyday Checking', category: 'Transfers', amount: [250, 750], perMonth: 2 },
+          ],
+        },
+      ],
+    },
+    {
+      id: 'sandbox-atlas-card',
+      name: 'Atlas Card Services',
+      country: 'US',
+      primaryColor: '#38bdf8',
+      accounts: [
+        {
+          id: 'card',
+          name: 'Atlas Rewards Card',
+          mask: '7780',
+          kind: 'credit',
+          balance: -1_324,
+          currency: 'USD',
+          activity: [
+            { description: 'AMZN Mktp US*2K4', category: 'Shopping', amount: [-120, -15], perMonth: 4 },
+            { description: 'Delta Air Lines', category: 'Travel', amount: [-680, -240], perMonth: 0.5 },
+            { description: 'Shell Oil 5744', category: 'Transport', amount: [-70, -35], perMonth: 3 },
+            { description: 'Sweetgreen', category: 'Food', amount: [-18, -12], perMonth: 6 },
+            { description: 'Payment – Thank you', category: 'Transfers', amount: [400, 900], perMonth: 1 },
+          ],
+        },
+      ],
+    },
+    {
+      id: 'sandbox-northern-vault',
+      name: 'Northern Vault',
+      country: 'EU',
+      primaryColor: '#a855f7',
+      accounts: [
+        {
+          id: 'reserve',
+          name: 'Runway Reserve',
+          mask: '9931',
+          kind: 'savings',
+          balance: 38_500,
+          currency: 'EUR',
+          activity: [{ description: 'Zinsgutschrift', category: 'Income', amount: [40, 55], perMonth: 1 }],
+        },
+      ],
+    },
+    {
+      id: 'sandbox-thames-building-society',
+      name: 'Thames Building Society',
+      country: 'GB',
+      primaryColor: '#f97316',
+      accounts: [
+        {
+          id: 'current',
+          name: 'Current Account',
+          mask: '3307',
+          kind: 'checking',
+          balance: 2_860,
+          currency: 'GBP',
+          activity: [
+            { description: 'Salary – Northwind Ltd', category: 'Income', amount: [3_100, 3_100], perMonth: 1 },
+            { description: 'TfL Travel Charge', category: 'Transport', amount: [-9, -3], perMonth: 12 },
+            { description: 'Tesco Stores 2291', category: 'Food', amount: [-65, -20], perMonth: 6 },
+            { description: 'Pret A Manger', category: 'Food', amount: [-12, -5], perMonth: 8 },
+          ],
+        },
+      ],
+    },
+    {
+      id: 'sandbox-harbor-credit-union',
+      name: 'Harbor Credit Union (unreliable)',
+      country: 'US',
+      primaryColor: '#eab308',
+      syncFailure: 'institution-down',
+      accounts: [
+        {
+          id: 'share-draft',
+          name: 'Share Draft Checking',
+          mask: '5561',
+          kind: 'checking',
+          balance: 3_415,
+          currency: 'USD',
+          activity: [{ description: "Trader Joe's #552", category: 'Food', amount: [-90, -25], perMonth: 5 }],
+        },
+      ],
+    },
+  ],
+};
@@ -0,0 +1,321 @@
+import {
+  BankConnectorError,
+  type BankConnector,
+  type BankConnectorErrorCode,
+  type ConnectionStatus,
+  type ConnectorTransaction,
+  type SyncAttempt,
+  type SyncTrigger,
+} from './types.js';
+import { createCategoriser } from '../categorisation/index.js';
+
+// Pulls balances and new transactions for one connection at a time and records every attempt
+// in `bank_sync_attempts`. A connection is claimed with a short lease first, so the cron run
+// and a user's "Retry sync" never sync the same connection at once. Failures are classified
+// into the Accounts page's health states and decide when the next scheduled attempt runs.
+// New and changed transactions are run through the user's categorisation rules.
+// `db` is a service-role Supabase client.
+
+const DEFAULT_INTERVAL_MS = 6 * 60 * 60_000;
+const LEASE_MS = 2 * 60_000;
+const MAX_PAGES = 10;
+const BASE_BACKOFF_MS = 15 * 60_000;
+// After this many failures in a row a degraded connection is shown as broken.
+const FAILURES_UNTIL_ERROR = 4;
+
+export interface SyncFailure {
+  status: ConnectionStatus;
+  code: BankConnectorErrorCode;
+  message: string;
+  retryInMs: number;
+}
+
+export interface SyncEngine {
+  // Null when another sync holds the connection.
+  syncConnection: (connectionId: string, trigger: SyncTrigger) => Promise<SyncAttempt | null>;
+  // Syncs connections whose next_sync_at has passed, oldest first.
+  runDueSyncs: (limit?: number) => Promise<SyncAttempt[]>;
+}
+
+function backoffMs(consecutiveFailures: number): number {
+  return Math.min(BASE_BACKOFF_MS * 2 ** Math.max(0, consecutiveFailures - 1), DEFAULT_INTERVAL_MS);
+}
+
+// `consecutiveFailures` includes the failure being classified.
+export function classifySyncFailure(err: unknown, consecutiveFailures: number): SyncFailure {
+  const code: BankConnectorErrorCode = err instanceof BankConnectorError ? err.code : 'provider-error';
+  const persistent = consecutiveFailures >= FAILURES_UNTIL_ERROR;
+
+  switch (code) {
+    case 'reauth-required':
+      return {
+        status: 'error',
+        code,
+        message: 'Your bank needs you to sign in again. Disconnect and reconnect this institution.',
+        retryInMs: 24 * 60 * 60_000,
+      };
+    case 'invalid-request':
+      return {
+        status: 'error',
+        code,
+        message: 'This connection is no longer valid. Disconnect and reconnect this institution.',
+        retryInMs: 24 * 60 * 60_000,
+      };
+    case 'rate-limited':
+      return {
+        status: persistent ? 'error' : 'degraded',
+        code,
+        message: 'The bank connector is limiting requests. Aurora will retry shortly.',
+        retryInMs: Math.max((err as BankConnectorError).retryAfterMs ?? 0, 5 * 60_000),
+      };
+    case 'institution-down':
+      return {
+        status: persistent ? 'error' : 'degraded',
+        code,
+        message: persistent
+          ? 'The institution has been unreachable for a while. Aurora keeps retrying.'
+          : 'The institution is not responding. Aurora will retry automatically.',
+        retryInMs: backoffMs(consecutiveFailures),
+      };
+    default:
+      return {
+        status: persistent ? 'error' : 'degraded',
+        code,
+        message: 'Syncing failed. Aurora will retry automatically.',
+        retryInMs: backoffMs(consecutiveFailures),
+      };
+  }
+}
+
+function toRow(userId: string, accountId: string, transaction: ConnectorTransaction) {
+  return {
+    user_id: userId,
+    account_id: accountId,
+    external_id: transaction.externalId,
+    timestamp: transaction.date,
+    description: transaction.description,
+    merchant: transaction.merchant,
+    amount: transaction.amount,
+    currency: transaction.currency,
+    provider_category: transaction.category,
+    pending: transaction.pending,
+  };
+}
+
+export function toSyncAttempt(row: any): SyncAttempt {
+  return {
+    id: String(row.id),
+    connectionId: row.connection_id,
+    trigger: row.trigger,
+    outcome: row.outcome,
+    status: row.status,
+    errorCode: row.error_code ?? null,
+    message: row.message ?? null,
+    added: Number(row.added) || 0,
+    modified: Number(row.modified) || 0,
+    removed: Number(row.removed) || 0,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+  };
+}
+
+export function createSyncEngine(options: {
+  connectors: Map<string, BankConnector>;
+  db: any;
+  intervalMs?: number;
+}): SyncEngine {
+  const { connectors, db } = options;
+  const intervalMs = options.intervalMs ?? DEFAULT_INTERVAL_MS;
+  const categoriser = createCategoriser({ db });
+
+  async function claim(connectionId: string): Promise<any | null> {
+    const now = new Date();
+    const { data, error } = await db
+      .from('bank_connections')
+      .update({ sync_lease_until: new Date(now.getTime() + LEASE_MS).toISOString() })
+      .eq('id', connectionId)
+      .or(`sync_lease_until.is.null,sync_lease_until.lt.${now.toISOString()}`)
+      .select(
+        'id, user_id, connector, institution_name, institution_country, transactions_cursor, ' +
+          'consecutive_failures, bank_connection_tokens (access_token)',
+      )
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    return data;
+  }
+
+  // Balances first, then transaction pages. The cursor is saved after every page so a sync
+  // cut short still keeps what it fetched.
+  async function pull(connection: any, connector: BankConnector, accessToken: string, trigger: SyncTrigger) {
+    if (trigger === 'manual') {
+      // Asks the institution for fresh data; not every connector plan allows it.
+      await connector.refresh(accessToken).catch((err) => {
+        console.error(`Aurora bank sync: ${connector.name} refresh failed; syncing what is there`, err);
+      });
+    }
+
+    const accounts = await connector.fetchAccounts(accessToken);
+    const { data: accountRows, error: accountsError } = await db
+      .from('accounts')
+      .upsert(
+        accounts.map((account) => ({
+          user_id: connection.user_id,
+          connection_id: connection.id,
+          external_id: account.externalId,
+          name: account.name,
+          institution: connection.institution_name,
+          type: account.kind,
+          mask: account.mask,
+          balance: account.balance,
+          available_balance: account.availableBalance,
+          currency: account.currency,
+          country: connection.institution_country,
+          updated_at: new Date().toISOString(),
+        })),
+        { onConflict: 'connection_id,external_id' },
+      )
+      .select('id, external_id');
+    if (accountsError) throw new Error(accountsError.message);
+
+    const accountIds = new Map<string, string>(
+      (accountRows ?? []).map((row: any) => [row.external_id, String(row.id)]),
+    );
+    const counts = { added: 0, modified: 0, removed: 0 };
+    let cursor: string | null = connection.transactions_cursor ?? null;
+
+    for (let page = 0; page < MAX_PAGES; page += 1) {
+      const result = await connector.fetchTransactions(accessToken, cursor);
+
+      const rows = [...result.added, ...result.modified].flatMap((transaction) => {
+        const accountId = accountIds.get(transaction.accountExternalId);
+        return accountId ? [toRow(connection.user_id, accountId, transaction)] : [];
+      });
+      if (rows.length) {
+        const { data: written, error } = await db
+          .from('transactions')
+          .upsert(rows, { onConflict: 'account_id,external_id' })
+          .select('id');
+        if (error) throw new Error(error.message);
+        // Before the cursor moves on, so a failure here re-fetches the page next time.
+        await categoriser.applyRules(connection.user_id, {
+          transactionIds: (written ?? []).map((row: any) => String(row.id)),
+        });
+      }
+      if (result.removed.length && accountIds.size) {
+        const { error } = await db
+          .from('transactions')
+          .delete()
+          .in('account_id', Array.from(accountIds.values()))
+          .in('external_id', result.removed);
+        if (error) throw new Error(error.message);
+      }
+
+      counts.added += result.added.length;
+      counts.modified += result.modified.length;
+      counts.removed += result.removed.length;
+      cursor = result.cursor;
+
+      const { error } = await db
+        .from('bank_connections')
+        .update({ transactions_cursor: cursor })
+        .eq('id', connection.id);
+      if (error) throw new Error(error.message);
+      if (!result.hasMore) break;
+    }
+    return counts;
+  }
+
+  async function syncConnection(connectionId: string, trigger: SyncTrigger): Promise<SyncAttempt | null> {
+    const connection = await claim(connectionId);
+    if (!connection) return null;
+
+    const startedAt = new Date().toISOString();
+    let counts = { added: 0, modified: 0, removed: 0 };
+    let failure: SyncFailure | null = null;
+    try {
+      const connector = connectors.get(connection.connector);
+      const accessToken = connection.bank_connection_tokens?.access_token;
+      if (!connector) {
+        throw new BankConnectorError(connection.connector, 'provider-error', 'connector is not enabled');
+      }
+      if (!accessToken) {
+        throw new BankConnectorError(connector.name, 'invalid-request', 'no access token stored');
+      }
+      counts = await pull(connection, connector, accessToken, trigger);
+    } catch (err) {
+      console.error(`Aurora bank sync of connection ${connection.id} failed`, err);
+      failure = classifySyncFailure(err, (Number(connection.consecutive_failures) || 0) + 1);
+    }
+
+    const finishedAt = new Date();
+    const { error: updateError } = await db
+      .from('bank_connections')
+      .update(
+        failure
+          ? {
+              status: failure.status,
+              consecutive_failures: (Number(connection.consecutive_failures) || 0) + 1,
+              last_error_code: failure.code,
+              last_error_message: failure.message,
+              next_sync_at: new Date(finishedAt.getTime() + failure.retryInMs).toISOString(),
+              sync_lease_until: null,
+            }
+          : {
+              status: 'healthy',
+              consecutive_failures: 0,
+              last_error_code: null,
+              last_error_message: null,
+              last_synced_at: finishedAt.toISOString(),
+              next_sync_at: new Date(finishedAt.getTime() + intervalMs).toISOString(),
+              sync_lease_until: null,
+            },
+      )
+      .eq('id', connection.id);
+    if (updateError) throw new Error(updateError.message);
+
+    const { data: attempt, error: attemptError } = await db
+      .from('bank_sync_attempts')
+      .insert({
+        connection_id: connection.id,
+        user_id: connection.user_id,
+        trigger,
+        outcome: failure ? 'failed' : 'success',
+        status: failure?.status ?? 'healthy',
+        error_code: failure?.code ?? null,
+        message: failure?.message ?? null,
+        ...counts,
+        started_at: startedAt,
+        finished_at: finishedAt.toISOString(),
+      })
+      .select('*')
+      .single();
+    if (attemptError) throw new Error(attemptError.message);
+    return toSyncAttempt(attempt);
+  }
+
+  return {
+    syncConnection,
+
+    async runDueSyncs(limit = 10) {
+      const { data, error } = await db
+        .from('bank_connections')
+        .select('id')
+        .lte('next_sync_at', new Date().toISOString())
+        .order('next_sync_at', { ascending: true })
+        .limit(limit);
+      if (error) throw new Error(error.message);
+
+      const attempts: SyncAttempt[] = [];
+      // One at a time: connectors rate-limit per client, not per user.
+      for (const row of data ?? []) {
+        try {
+          const attempt = await syncConnection(row.id, 'scheduled');
+          if (attempt) attempts.push(attempt);
+        } catch (err) {
+          console.error(`Aurora bank sync could not record a sync of connection ${row.id}`, err);
+        }
+      }
+      return attempts;
+    },
+  };
+}
@@ -0,0 +1,144 @@
+// Bank aggregation: a connector links a user's institution once (link → exchange), then
+// reads accounts and pages through transactions with an opaque cursor. No imports, so the
+// Accounts page can share these types with /api/bank-connections.
+
+export interface Institution {
+  id: string;
+  name: string;
+  // ISO 3166-1 alpha-2, or 'EU' for pan-European institutions.
+  country: string;
+  // Name of the connector that serves this institution.
+  connector: string;
+  logoUrl: string | null;
+  primaryColor: string | null;
+}
+
+export interface LinkSession {
+  linkToken: string;
+  expiresAt: string;
+  // Set by connectors with no hosted consent flow: exchange it straight away.
+  publicToken?: string;
+}
+
+export interface LinkedItem {
+  // Long-lived secret for the connection; only ever stored server-side.
+  accessToken: string;
+  itemId: string;
+}
+
+export type ConnectorAccountKind = 'checking' | 'savings' | 'credit' | 'loan' | 'investment' | 'other';
+
+export interface ConnectorAccount {
+  externalId: string;
+  name: string;
+  officialName: string | null;
+  mask: string | null;
+  kind: ConnectorAccountKind;
+  // Signed: money owed on cards and loans is negative.
+  balance: number;
+  availableBalance: number | null;
+  currency: string;
+}
+
+export interface ConnectorTransaction {
+  externalId: string;
+  accountExternalId: string;
+  // Posting date (YYYY-MM-DD).
+  date: string;
+  description: string;
+  merchant: string | null;
+  // Negative for spending, positive for income, like the `transactions` table.
+  amount: number;
+  currency: string;
+  category: string | null;
+  pending: boolean;
+}
+
+export interface TransactionPage {
+  added: ConnectorTransaction[];
+  modified: ConnectorTransaction[];
+  // External ids of transactions the institution withdrew (e.g. expired pending holds).
+  removed: string[];
+  // Pass back on the next call to get only what changed since this page.
+  cursor: string;
+  hasMore: boolean;
+}
+
+export interface BankConnector {
+  name: string;
+  label: string;
+  listInstitutions: (query: string) => Promise<Institution[]>;
+  createLinkToken: (request: { userId: string; institutionId: string }) => Promise<LinkSession>;
+  exchangePublicToken: (publicToken: string) => Promise<LinkedItem>;
+  fetchAccounts: (accessToken: string) => Promise<ConnectorAccount[]>;
+  // `cursor` is null for the first sync of a connection.
+  fetchTransactions: (accessToken: string, cursor: string | null) => Promise<TransactionPage>;
+  // Asks the institution for fresh data; results arrive on a later fetch.
+  refresh: (accessToken: string) => Promise<void>;
+  unlink: (accessToken: string) => Promise<void>;
+}
+
+export type BankConnectorErrorCode =
+  | 'reauth-required'
+  | 'institution-down'
+  | 'rate-limited'
+  | 'invalid-request'
+  | 'provider-error';
+
+export class BankConnectorError extends Error {
+  constructor(
+    readonly connector: string,
+    readonly code: BankConnectorErrorCode,
+    message: string,
+    readonly retryAfterMs?: number,
+  ) {
+    super(`${connector}: ${message}`);
+    this.name = 'BankConnectorError';
+  }
+}
+
+export type ConnectionStatus = 'healthy' | 'degraded' | 'error';
+
+export type SyncTrigger = 'link' | 'scheduled' | 'manual';
+
+export interface SyncAttempt {
+  id: string;
+  connectionId: string;
+  trigger: SyncTrigger;
+  outcome: 'success' | 'failed';
+  // Connection status this attempt left behind.
+  status: ConnectionStatus;
+  errorCode: BankConnectorErrorCode | null;
+  // User-facing explanation of a failure.
+  message: string | null;
+  added: number;
+  modified: number;
+  removed: number;
+  startedAt: string;
+  finishedAt: string;
+}
+
+// An `accounts` row as the Accounts page sees it. Accounts added by hand have no connection.
+export interface LinkedAccount {
+  id: string;
+  connectionId: string | null;
+  connector: string | null;
+  institution: string;
+  name: string;
+  kind: string;
+  mask: string | null;
+  balance: number;
+  availableBalance: number | null;
+  currency: string;
+  country: string | null;
+  nickname: string | null;
+  visible: boolean;
+  notifications: 'all' | 'important' | 'none';
+  primary: boolean;
+  status: ConnectionStatus;
+  // Last successful sync.
+  lastSyncedAt: string | null;
+  // Why the latest attempt failed, while the connection is not healthy.
+  syncError: string | null;
+  nextSyncAt: string | null;
+}
@@ -0,0 +1,205 @@
+// Structured pieces of an Aurora answer. The server attaches them to each reply (and stores
+// them with the message); the chat page renders charts, tables and action chips from them
+// instead of leaving everything to prose. Shared by api/ and src/, so no imports here.
+
+export type AnswerAction =
+  | { kind: 'navigate'; label: string; to: string }
+  // Drops a follow-up question into the chat box for the user to send or edit.
+  | { kind: 'prompt'; label: string; prompt: string };
+
+export interface CategoryAmount {
+  category: string;
+  amount: number;
+}
+
+export interface TransactionRow {
+  date: string;
+  description: string;
+  category: string | null;
+  amount: number;
+}
+
+export interface ProjectionPoint {
+  label: string;
+  value: number;
+}
+
+export type AnswerBlock =
+  | { type: 'markdown'; text: string }
+  | { type: 'category-chart'; title: string; currency: string; data: CategoryAmount[] }
+  | { type: 'transaction-table'; title: string; currency: string; rows: TransactionRow[] }
+  | { type: 'projection'; title: string; currency: string; points: ProjectionPoint[] }
+  | { type: 'actions'; actions: AnswerAction[] };
+
+const MAX_CHART_CATEGORIES = 6;
+const MAX_TABLE_ROWS = 8;
+const PROJECTION_MONTHS = 12;
+
+// Only in-app routes; a stored or model-influenced block must not navigate off-site.
+const NAVIGABLE_ROUTES = ['/overview', '/analytics', '/live-flow', '/accounts', '/security'];
+
+const SPENDING_PATTERN = /\b(spend|spent|spending|expenses?|categor(?:y|ies)|budget|where does my money)\b/i;
+const TRANSACTION_PATTERN = /\b(transactions?|purchases?|payments?|charges?)\b/i;
+const PROJECTION_PATTERN = /\b(sav(?:e|ing|ings)|runway|project(?:ion)?|forecast|goal|by next year)\b/i;
+const ACCOUNTS_PATTERN = /\b(accounts?|balances?|net worth)\b/i;
+
+export interface AnswerBlockInput {
+  question: string;
+  text: string;
+  currency: string;
+  transactions: any[];
+  profile: any;
+  // Sub-category name → top-level name from the user's taxonomy; the chart rolls up to it.
+  categoryParents?: Record<string, string>;
+}
+
+function spendingByCategory(transactions: any[], parents: Record<string, string> = {}): CategoryAmount[] {
+  const totals = new Map<string, number>();
+  for (const tx of transactions) {
+    const amount = Number(tx?.amount);
+    if (!Number.isFinite(amount) || amount >= 0) continue;
+    const name = typeof tx?.category === 'string' && tx.category ? tx.category : 'Uncategorised';
+    const category = parents[name] ?? name;
+    totals.set(category, (totals.get(category) ?? 0) + Math.abs(amount));
+  }
+  return Array.from(totals, ([category, amount]) => ({ category, amount: Math.round(amount * 100) / 100 }))
+    .sort((a, b) => b.amount - a.amount)
+    .slice(0, MAX_CHART_CATEGORIES);
+}
+
+function toTransactionRows(transactions: any[]): TransactionRow[] {
+  return transactions.slice(0, MAX_TABLE_ROWS).flatMap((tx): TransactionRow[] => {
+    const amount = Number(tx?.amount);
+    if (!Number.isFinite(amount)) return [];
+    return [
+      {
+        date: String(tx?.timestamp ?? tx?.date ?? '').slice(0, 10),
+        description: String(tx?.merchant_info?.name ?? tx?.description ?? tx?.merchant ?? 'Transaction'),
+        category: typeof tx?.category === 'string' ? tx.category : null,
+        amount,
+      },
+    ];
+  });
+}
+
+// Cumulative savings over the next year at the profile's current pace.
+function savingsProjection(profile: any): ProjectionPoint[] {
+  const summary = profile?.recentSummary ?? {};
+  const income = Number(summary.monthlyIncome) || 0;
+  const rate = Number(summary.savingsRate) || 0;
+  const monthly = income * rate;
+  if (monthly <= 0) return [];
+
+  const start = new Date();
+  return Array.from({ length: PROJECTION_MONTHS }, (_, i) => {
+    const month = new Date(start.getFullYear(), start.getMonth() + i + 1, 1);
+    return {
+      label: month.toLocaleDateString('en-US', { month: 'short', year: '2-digit' }),
+      value: Math.round(monthly * (i + 1)),
+    };
+  });
+}
+
+export function buildAnswerBlocks(input: AnswerBlockInput): AnswerBlock[] {
+  const { question, currency } = input;
+  const transactions = Array.isArray(input.transactions) ? input.transactions : [];
+  const blocks: AnswerBlock[] = [{ type: 'markdown', text: input.text }];
+  const actions: AnswerAction[] = [];
+
+  if (SPENDING_PATTERN.test(question)) {
+    const data = spendingByCategory(transactions, input.categoryParents);
+    if (data.length) {
+      blocks.push({ type: 'category-chart', title: 'Spending by category (recent transactions)', currency, data });
+      actions.push({
+        kind: 'prompt',
+        label: `Create budget for ${data[0].category}`,
+        prompt: `Help me create a monthly budget for ${data[0].category} based on my recent spending.`,
+      });
+    }
+    actions.push({ kind: 'navigate', label: 'Open in Analytics', to: '/analytics' });
+  }
+
+  if (TRANSACTION_PATTERN.test(question)) {
+    const rows = toTransactionRows(transactions);
+    if (rows.length) blocks.push({ type: 'transaction-table', title: 'Recent transactions', currency, rows });
+  }
+
+  if (PROJECTION_PATTERN.test(question)) {
+    const points = savingsProjection(input.profile);
+    if (points.length) {
+      blocks.push({ type: 'projection', title: 'Savings over the next 12 months at your current rate', currency, points });
+    }
+  }
+
+  if (ACCOUNTS_PATTERN.test(question)) {
+    actions.push({ kind: 'navigate', label: 'Open Accounts', to: '/accounts' });
+  }
+
+  if (actions.length) blocks.push({ type: 'actions', actions });
+  return blocks;
+}
+
+// Defensive parse for blocks arriving over the wire or from storage; drops anything malformed.
+export function parseAnswerBlocks(raw: unknown): AnswerBlock[] {
+  if (!Array.isArray(raw)) return [];
+
+  const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+  const str = (v: unknown, fallback = ''): string => (typeof v === 'string' ? v : fallback);
+
+  return raw.flatMap((item: any): AnswerBlock[] => {
+    switch (item?.type) {
+      case 'markdown':
+        return typeof item.text === 'string' ? [{ type: 'markdown', text: item.text }] : [];
+      case 'category-chart': {
+        const data = Array.isArray(item.data)
+          ? item.data
+              .filter((d: any) => typeof d?.category === 'string' && isNumber(d?.amount))
+              .map((d: any) => ({ category: d.category, amount: d.amount }))
+          : [];
+        return data.length ? [{ type: 'category-chart', title: str(item.title), currency: str(item.currency), data }] : [];
+      }
+      case 'transaction-table': {
+        const rows = Array.isArray(item.rows)
+          ? item.rows
+              .filter((r: any) => isNumber(r?.amount))
+              .map((r: any) => ({
+                date: str(r.date),
+                description: str(r.description, 'Transaction'),
+                category: typeof r.category === 'string' ? r.category : null,
+                amount: r.amount,
+              }))
+          : [];
+        return rows.length
+          ? [{ type: 'transaction-table', title: str(item.title), currency: str(item.currency), rows }]
+          : [];
+      }
+      case 'projection': {
+        const points = Array.isArray(item.points)
+          ? item.points
+              .filter((p: any) => typeof p?.label === 'string' && isNumber(p?.value))
+              .map((p: any) => ({ label: p.label, value: p.value }))
+          : [];
+        return points.length
+          ? [{ type: 'projection', title: str(item.title), currency: str(item.currency), points }]
+          : [];
+      }
+      case 'actions': {
+        const actions = Array.isArray(item.actions)
+          ? item.actions.flatMap((a: any): AnswerAction[] => {
+              if (typeof a?.label !== 'string') return [];
+              if (a.kind === 'navigate' && NAVIGABLE_ROUTES.includes(a.to)) {
+                return [{ kind: 'navigate', label: a.label, to: a.to }];
+              }
+              if (a.kind === 'prompt' && typeof a.prompt === 'string') {
+                return [{ kind: 'prompt', label: a.label, prompt: a.prompt }];
+              }
+              return [];
+            })
+          : [];
+        return actions.length ? [{ type: 'actions', actions }] : [];
+      }
+      default:
+        return [];
+    }
+  });
+}
@@ -0,0 +1,64 @@
+// Small in-memory TTL cache shared by the chat function's web search and market data.
+// Entries stay readable as "stale" for `staleTtlMs` after they stop being fresh, so callers
+// can fall back to a slightly old value when an upstream API is down or rate limited.
+// Eviction is oldest-first once `maxEntries` is reached.
+
+export interface CacheEntry<T> {
+  value: T;
+  storedAt: number;
+  ageMs: number;
+  fresh: boolean;
+}
+
+export interface TtlCache<T> {
+  get(key: string): T | null;
+  getEntry(key: string): CacheEntry<T> | null;
+  set(key: string, value: T): void;
+  delete(key: string): void;
+  readonly size: number;
+}
+
+export interface TtlCacheOptions {
+  ttlMs: number;
+  maxEntries: number;
+  staleTtlMs?: number;
+}
+
+export function createTtlCache<T>({ ttlMs, maxEntries, staleTtlMs = 0 }: TtlCacheOptions): TtlCache<T> {
+  const entries = new Map<string, { value: T; storedAt: number }>();
+
+  function getEntry(key: string): CacheEntry<T> | null {
+    const entry = entries.get(key);
+    if (!entry) return null;
+
+    const ageMs = Date.now() - entry.storedAt;
+    if (ageMs > ttlMs + staleTtlMs) {
+      entries.delete(key);
+      return null;
+    }
+    return { value: entry.value, storedAt: entry.storedAt, ageMs, fresh: ageMs <= ttlMs };
+  }
+
+  return {
+    get(key) {
+      const entry = getEntry(key);
+      return entry?.fresh ? entry.value : null;
+    },
+    getEntry,
+    set(key, value) {
+      // Re-inserting moves the key to the back of the eviction order.
+      entries.delete(key);
+      if (entries.size >= maxEntries) {
+        const oldestKey = entries.keys().next().value as string | undefined;
+        if (oldestKey !== undefined) entries.delete(oldestKey);
+      }
+      entries.set(key, { value, storedAt: Date.now() });
+    },
+    delete(key) {
+      entries.delete(key);
+    },
+    get size() {
+      return entries.size;
+    },
+  };
+}
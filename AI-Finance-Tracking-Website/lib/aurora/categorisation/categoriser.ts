@@ -0,0 +1,429 @@
+import { createMerchantStore } from '../merchants/store.js';
+import { isCategoryModel, trainCategoryModel, type CategoryModel } from './classifier.js';
+import { assignmentChanged, categorise, compileRules, merchantKey } from './engine.js';
+import { createTaxonomyStore } from './taxonomyStore.js';
+import type {
+  ApplyRulesResult,
+  CategorisableTransaction,
+  CategoryAssignment,
+  CategoryModelSummary,
+  CategoryRule,
+  CategoryRuleInput,
+  RecategoriseResult,
+  SimilarTransaction,
+} from './types.js';
+
+// Reads and writes categorisation rules and keeps `transactions.category` in step with them.
+// `db` is either the caller's client (RLS scopes it) or the service-role client used by bank
+// sync; every query is filtered by user id as well, so both behave the same. The learned
+// model is retrained whenever the user categorises something by hand. Categories are written
+// under the name they go by in the user's taxonomy, so a renamed or merged category is not
+// brought back by a rule, the bank or the dictionary still using the old name. Applying rules
+// links new transactions to their merchant first, so a merchant's default category applies.
+
+const PAGE_SIZE = 1_000;
+// Keeps `in (...)` filters well inside URL limits.
+const ID_CHUNK = 200;
+const MAX_SIMILAR = 500;
+// The most recent manual choices the model learns from.
+const MAX_TRAINING_EXAMPLES = 5_000;
+
+const RULE_COLUMNS =
+  'id, name, priority, category, merchant_pattern, match_type, min_amount, max_amount, account_id, enabled, created_at';
+const TRANSACTION_COLUMNS =
+  'id, account_id, timestamp, description, merchant, amount, provider_category, category, category_source, ' +
+  'category_rule_id, category_confidence, needs_review, merchant_id';
+
+export interface Categoriser {
+  listRules: (userId: string) => Promise<CategoryRule[]>;
+  // New rules go after the existing ones unless `position` is 'first'.
+  createRule: (userId: string, input: CategoryRuleInput, position?: 'first' | 'last') => Promise<CategoryRule>;
+  // Null when the rule does not exist or belongs to someone else.
+  updateRule: (userId: string, ruleId: string, input: CategoryRuleInput) => Promise<CategoryRule | null>;
+  deleteRule: (userId: string, ruleId: string) => Promise<boolean>;
+  // `ruleIds` in the order they should be tried; rules left out keep their place after them.
+  reorderRules: (userId: string, ruleIds: string[]) => Promise<CategoryRule[]>;
+  // Re-categorises the user's transactions (or only those in `scope`) and writes the rows
+  // whose category changes. Manually categorised rows are left alone.
+  applyRules: (
+    userId: string,
+    scope?: { transactionIds?: string[]; accountId?: string | null; merchantId?: string },
+  ) => Promise<ApplyRulesResult>;
+  loadModel: (userId: string) => Promise<CategoryModel | null>;
+  // Retrains the user's model from their manual categories; null (and the stored model
+  // dropped) while there are too few of them.
+  trainModel: (userId: string) => Promise<CategoryModelSummary | null>;
+  // Sets a category by hand. Null when the transaction is not the user's.
+  setCategory: (userId: string, transactionId: string, category: string) => Promise<RecategoriseResult | null>;
+  // Sets a category by hand on many transactions at once; resolves to how many changed.
+  setCategories: (userId: string, transactionIds: string[], category: string) => Promise<number>;
+}
+
+export function toCategoryRule(row: any): CategoryRule {
+  return {
+    id: String(row.id),
+    name: row.name ?? '',
+    priority: Number(row.priority) || 0,
+    category: row.category,
+    merchantPattern: row.merchant_pattern ?? null,
+    matchType: row.match_type === 'regex' ? 'regex' : 'contains',
+    minAmount: row.min_amount == null ? null : Number(row.min_amount),
+    maxAmount: row.max_amount == null ? null : Number(row.max_amount),
+    accountId: row.account_id ?? null,
+    enabled: row.enabled !== false,
+    createdAt: row.created_at,
+  };
+}
+
+function toCategorisable(row: any): CategorisableTransaction {
+  return {
+    id: String(row.id),
+    accountId: row.account_id ?? null,
+    description: row.description ?? null,
+    merchant: row.merchant ?? null,
+    amount: Number(row.amount) || 0,
+    timestamp: row.timestamp ?? null,
+    providerCategory: row.provider_category ?? null,
+    category: row.category ?? null,
+    categorySource: row.category_source ?? null,
+    categoryRuleId: row.category_rule_id ?? null,
+    categoryConfidence: row.category_confidence == null ? null : Number(row.category_confidence),
+    needsReview: Boolean(row.needs_review),
+    merchantId: row.merchant_id ?? null,
+  };
+}
+
+function toSimilar(row: any): SimilarTransaction {
+  return {
+    id: String(row.id),
+    timestamp: String(row.timestamp),
+    description: row.description ?? row.merchant ?? null,
+    amount: Number(row.amount) || 0,
+    category: row.category ?? null,
+  };
+}
+
+function ruleColumns(input: CategoryRuleInput) {
+  return {
+    name: input.name,
+    category: input.category,
+    merchant_pattern: input.merchantPattern,
+    match_type: input.matchType,
+    min_amount: input.minAmount,
+    max_amount: input.maxAmount,
+    account_id: input.accountId,
+    enabled: input.enabled,
+  };
+}
+
+export function summariseModel(model: CategoryModel): CategoryModelSummary {
+  return { examples: model.examples, categories: Object.keys(model.classes).length, trainedAt: model.trainedAt };
+}
+
+function chunks<T>(items: T[], size: number): T[][] {
+  const out: T[][] = [];
+  for (let start = 0; start < items.length; start += size) out.push(items.slice(start, start + size));
+  return out;
+}
+
+// PostgREST filter values are quoted so commas and parentheses in a search stay literal.
+function ilikeValue(search: string): string {
+  const pattern = `%${search.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+  return `"${pattern.replace(/["\\]/g, (char) => `\\${char}`)}"`;
+}
+
+export function createCategoriser(options: { db: any }): Categoriser {
+  const { db } = options;
+  const taxonomy = createTaxonomyStore({ db });
+  const merchants = createMerchantStore({ db });
+
+  async function listRules(userId: string): Promise<CategoryRule[]> {
+    const { data, error } = await db
+      .from('categorisation_rules')
+      .select(RULE_COLUMNS)
+      .eq('user_id', userId)
+      .order('priority', { ascending: true })
+      .order('created_at', { ascending: true });
+    if (error) throw new Error(error.message);
+    return (data ?? []).map(toCategoryRule);
+  }
+
+  async function writeAssignments(
+    userId: string,
+    changes: Map<string, { assignment: CategoryAssignment; ids: string[] }>,
+  ): Promise<{ updated: number; flagged: number }> {
+    let updated = 0;
+    let flagged = 0;
+    for (const { assignment, ids } of changes.values()) {
+      for (const chunk of chunks(ids, ID_CHUNK)) {
+        const { error } = await db
+          .from('transactions')
+          .update({
+            category: assignment.category,
+            category_source: assignment.source,
+            category_rule_id: assignment.ruleId,
+            category_confidence: assignment.confidence,
+            needs_review: assignment.needsReview,
+          })
+          .eq('user_id', userId)
+          .in('id', chunk);
+        if (error) throw new Error(error.message);
+        updated += chunk.length;
+        if (assignment.needsReview) flagged += chunk.length;
+      }
+    }
+    return { updated, flagged };
+  }
+
+  async function loadModel(userId: string): Promise<CategoryModel | null> {
+    const { data, error } = await db
+      .from('categorisation_models')
+      .select('model')
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    return isCategoryModel(data?.model) ? data.model : null;
+  }
+
+  async function trainModel(userId: string): Promise<CategoryModelSummary | null> {
+    const { data, error } = await db
+      .from('transactions')
+      .select('timestamp, description, merchant, amount, category')
+      .eq('user_id', userId)
+      .eq('category_source', 'user')
+      .not('category', 'is', null)
+      .order('timestamp', { ascending: false })
+      .limit(MAX_TRAINING_EXAMPLES);
+    if (error) throw new Error(error.message);
+
+    const model = trainCategoryModel(
+      (data ?? []).map((row: any) => ({
+        description: row.description ?? null,
+        merchant: row.merchant ?? null,
+        amount: Number(row.amount) || 0,
+        timestamp: row.timestamp ?? null,
+        category: String(row.category),
+      })),
+    );
+    if (!model) {
+      const { error: deleteError } = await db.from('categorisation_models').delete().eq('user_id', userId);
+      if (deleteError) throw new Error(deleteError.message);
+      return null;
+    }
+    const { error: saveError } = await db
+      .from('categorisation_models')
+      .upsert({ user_id: userId, model, examples: model.examples, trained_at: model.trainedAt });
+    if (saveError) throw new Error(saveError.message);
+    return summariseModel(model);
+  }
+
+  // Manual choices are the training data, so each one refreshes the model. A failed retrain
+  // keeps the previous model rather than failing the user's change.
+  async function retrainAfterCorrection(userId: string) {
+    await trainModel(userId).catch((err) => {
+      console.error('Aurora categorisation: retraining the learned model failed', err);
+    });
+  }
+
+  async function applyRules(
+    userId: string,
+    scope: { transactionIds?: string[]; accountId?: string | null; merchantId?: string } = {},
+  ): Promise<ApplyRulesResult> {
+    if (!scope.merchantId) {
+      await merchants.assignMerchants(userId, { transactionIds: scope.transactionIds, accountId: scope.accountId });
+    }
+    const [rules, model, resolve, merchantCategories] = await Promise.all([
+      listRules(userId).then(compileRules),
+      loadModel(userId),
+      taxonomy.loadResolver(userId),
+      merchants.loadMerchantCategories(userId),
+    ]);
+    const changes = new Map<string, { assignment: CategoryAssignment; ids: string[] }>();
+    let examined = 0;
+
+    const consider = (rows: any[] | null) => {
+      for (const row of rows ?? []) {
+        const tx = toCategorisable(row);
+        tx.merchantCategory = tx.merchantId ? (merchantCategories.get(tx.merchantId) ?? null) : null;
+        const assigned = categorise(tx, rules, model);
+        const assignment = assigned.category ? { ...assigned, category: resolve(assigned.category) } : assigned;
+        examined += 1;
+        if (!assignmentChanged(tx, assignment)) continue;
+        const key = JSON.stringify(assignment);
+        const group = changes.get(key) ?? { assignment, ids: [] };
+        group.ids.push(tx.id);
+        changes.set(key, group);
+      }
+    };
+
+    // Everything is read before anything is written, so paging is not thrown off by updates.
+    if (scope.transactionIds) {
+      for (const chunk of chunks(scope.transactionIds, ID_CHUNK)) {
+        const { data, error } = await db
+          .from('transactions')
+          .select(TRANSACTION_COLUMNS)
+          .eq('user_id', userId)
+          .in('id', chunk);
+        if (error) throw new Error(error.message);
+        consider(data);
+      }
+    } else {
+      for (let offset = 0; ; offset += PAGE_SIZE) {
+        let query = db
+          .from('transactions')
+          .select(TRANSACTION_COLUMNS)
+          .eq('user_id', userId)
+          .or('category_source.is.null,category_source.neq.user');
+        if (scope.accountId) query = query.eq('account_id', scope.accountId);
+        if (scope.merchantId) query = query.eq('merchant_id', scope.merchantId);
+        const { data, error } = await query.order('id', { ascending: true }).range(offset, offset + PAGE_SIZE - 1);
+        if (error) throw new Error(error.message);
+        consider(data);
+        if (!data || data.length < PAGE_SIZE) break;
+      }
+    }
+
+    return { examined, ...(await writeAssignments(userId, changes)) };
+  }
+
+  // Transactions from the same merchant that are not already in `category` and were not
+  // categorised by hand. Without a linked merchant, the leading words of the text decide.
+  async function findSimilar(userId: string, tx: CategorisableTransaction, category: string) {
+    const key = merchantKey(tx);
+    if (!key && !tx.merchantId) return [];
+    let query = db.from('transactions').select(TRANSACTION_COLUMNS).eq('user_id', userId).neq('id', tx.id);
+    if (tx.merchantId) {
+      query = query.eq('merchant_id', tx.merchantId);
+    } else {
+      const value = ilikeValue((key as string).split(' ')[0]);
+      query = query.or(`description.ilike.${value},merchant.ilike.${value}`);
+    }
+    const { data, error } = await query.order('timestamp', { ascending: false }).limit(MAX_SIMILAR * 4);
+    if (error) throw new Error(error.message);
+
+    return (data ?? [])
+      .filter((row: any) => row.category_source !== 'user' && row.category !== category)
+      .filter((row: any) => tx.merchantId || merchantKey(toCategorisable(row)) === key)
+      .slice(0, MAX_SIMILAR)
+      .map(toSimilar);
+  }
+
+  return {
+    listRules,
+    applyRules,
+    loadModel,
+    trainModel,
+
+    async createRule(userId, input, position = 'last') {
+      let priority = input.priority;
+      if (priority == null) {
+        const { data, error } = await db
+          .from('categorisation_rules')
+          .select('priority')
+          .eq('user_id', userId)
+          .order('priority', { ascending: position === 'first' })
+          .limit(1);
+        if (error) throw new Error(error.message);
+        const edge = data?.[0] ? Number(data[0].priority) : null;
+        priority = edge == null ? 0 : position === 'first' ? edge - 1 : edge + 1;
+      }
+      const { data, error } = await db
+        .from('categorisation_rules')
+        .insert({ user_id: userId, priority, ...ruleColumns(input) })
+        .select(RULE_COLUMNS)
+        .single();
+      if (error) throw new Error(error.message);
+      return toCategoryRule(data);
+    },
+
+    async updateRule(userId, ruleId, input) {
+      const { data, error } = await db
+        .from('categorisation_rules')
+        .update({
+          ...ruleColumns(input),
+          ...(input.priority == null ? {} : { priority: input.priority }),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', ruleId)
+        .eq('user_id', userId)
+        .select(RULE_COLUMNS)
+        .maybeSingle();
+      if (error) throw new Error(error.message);
+      return data ? toCategoryRule(data) : null;
+    },
+
+    async deleteRule(userId, ruleId) {
+      const { data, error } = await db
+        .from('categorisation_rules')
+        .delete()
+        .eq('id', ruleId)
+        .eq('user_id', userId)
+        .select('id');
+      if (error) throw new Error(error.message);
+      return Boolean(data?.length);
+    },
+
+    async reorderRules(userId, ruleIds) {
+      const rules = await listRules(userId);
+      const known = new Map(rules.map((rule) => [rule.id, rule]));
+      const ordered = [
+        ...ruleIds.flatMap((id) => (known.has(id) ? [known.get(id) as CategoryRule] : [])),
+        ...rules.filter((rule) => !ruleIds.includes(rule.id)),
+      ];
+      for (const [index, rule] of ordered.entries()) {
+        if (rule.priority === index) continue;
+        const { error } = await db
+          .from('categorisation_rules')
+          .update({ priority: index, updated_at: new Date().toISOString() })
+          .eq('id', rule.id)
+          .eq('user_id', userId);
+        if (error) throw new Error(error.message);
+      }
+      return listRules(userId);
+    },
+
+    async setCategory(userId, transactionId, category) {
+      const { data, error } = await db
+        .from('transactions')
+        .update({
+          category,
+          category_source: 'user',
+          category_rule_id: null,
+          category_confidence: null,
+          needs_review: false,
+        })
+        .eq('id', transactionId)
+        .eq('user_id', userId)
+        .select(TRANSACTION_COLUMNS)
+        .maybeSingle();
+      if (error) throw new Error(error.message);
+      if (!data) return null;
+      await retrainAfterCorrection(userId);
+
+      const tx = toCategorisable(data);
+      return { similar: await findSimilar(userId, tx, category), pattern: merchantKey(tx) };
+    },
+
+    async setCategories(userId, transactionIds, category) {
+      let updated = 0;
+      for (const chunk of chunks(transactionIds, ID_CHUNK)) {
+        const { data, error } = await db
+          .from('transactions')
+          .update({
+            category,
+            category_source: 'user',
+            category_rule_id: null,
+            category_confidence: null,
+            needs_review: false,
+          })
+          .eq('user_id', userId)
+          .in('id', chunk)
+          .select('id');
+        if (error) throw new Error(error.message);
+        updated += data?.length ?? 0;
+      }
+      if (updated) await retrainAfterCorrection(userId);
+      return updated;
+    },
+  };
+}
@@ -0,0 +1,120 @@
+// A per-user naive Bayes categoriser, trained on the categories the user picked by hand.
+// Features are the merchant/description words, the leading merchant word, an amount bucket
+// with its direction and the weekday. The model is plain JSON, so it is stored per user and
+// runs wherever it is loaded. No imports, so the statement import preview can use it in the
+// browser as well as /api/categorisation and bank sync on the server.
+
+export interface CategoryModelClass {
+  // Training transactions in this category.
+  examples: number;
+  // Total feature occurrences in this category.
+  total: number;
+  counts: Record<string, number>;
+}
+
+export interface CategoryModel {
+  version: 1;
+  trainedAt: string;
+  examples: number;
+  vocabulary: number;
+  classes: Record<string, CategoryModelClass>;
+}
+
+export interface ClassifierInput {
+  description: string | null;
+  merchant: string | null;
+  amount: number;
+  timestamp: string | null;
+}
+
+export interface CategoryPrediction {
+  category: string;
+  // Posterior probability of `category`, 0–1.
+  confidence: number;
+  alternatives: { category: string; confidence: number }[];
+}
+
+// Below this many corrections, or with fewer than two categories, there is nothing to learn.
+export const MIN_TRAINING_EXAMPLES = 10;
+// Predictions less certain than this are flagged for the user to review.
+export const REVIEW_THRESHOLD = 0.6;
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const AMOUNT_BUCKETS = [5, 20, 50, 100, 250, 1_000, 5_000];
+// Words that appear on every kind of card or transfer line.
+const STOP_WORDS = new Set(['pos', 'purchase', 'card', 'debit', 'credit', 'payment', 'the', 'and', 'www', 'com']);
+
+function words(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}&]+/gu, ' ')
+    .split(' ')
+    .filter((word) => word.length >= 2 && !/\d/.test(word) && !STOP_WORDS.has(word));
+}
+
+function amountBucket(amount: number): string {
+  const size = Math.abs(amount);
+  const upper = AMOUNT_BUCKETS.find((limit) => size < limit);
+  return `${amount < 0 ? 'out' : 'in'}:${upper == null ? 'max' : `<${upper}`}`;
+}
+
+export function transactionFeatures(tx: ClassifierInput): string[] {
+  const text = words([tx.merchant, tx.description].filter(Boolean).join(' '));
+  const features = new Set(text.map((word) => `w:${word}`));
+  if (text[0]) features.add(`lead:${text[0]}`);
+  features.add(`amount:${amountBucket(tx.amount)}`);
+  const day = tx.timestamp ? new Date(tx.timestamp).getUTCDay() : NaN;
+  if (Number.isInteger(day)) features.add(`day:${WEEKDAYS[day]}`);
+  return Array.from(features);
+}
+
+// Null when there are too few corrections to learn from.
+export function trainCategoryModel(
+  examples: (ClassifierInput & { category: string })[],
+  now: Date = new Date(),
+): CategoryModel | null {
+  const classes: Record<string, CategoryModelClass> = {};
+  const vocabulary = new Set<string>();
+  for (const example of examples) {
+    const entry = (classes[example.category] ??= { examples: 0, total: 0, counts: {} });
+    entry.examples += 1;
+    for (const feature of transactionFeatures(example)) {
+      entry.counts[feature] = (entry.counts[feature] ?? 0) + 1;
+      entry.total += 1;
+      vocabulary.add(feature);
+    }
+  }
+  if (examples.length < MIN_TRAINING_EXAMPLES || Object.keys(classes).length < 2) return null;
+  return { version: 1, trainedAt: now.toISOString(), examples: examples.length, vocabulary: vocabulary.size, classes };
+}
+
+// Multinomial naive Bayes with add-one smoothing. Features the model never saw are ignored,
+// so a brand-new merchant leans on its amount and weekday rather than on noise. Null when
+// nothing about the transaction is known to the model.
+export function predictCategory(model: CategoryModel, tx: ClassifierInput): CategoryPrediction | null {
+  const entries = Object.entries(model.classes);
+  const features = transactionFeatures(tx).filter((feature) =>
+    entries.some(([, entry]) => entry.counts[feature] != null),
+  );
+  if (!entries.length || !features.some((feature) => !feature.startsWith('day:'))) return null;
+
+  const scores = entries.map(([category, entry]) => {
+    let score = Math.log(entry.examples / model.examples);
+    for (const feature of features) {
+      score += Math.log(((entry.counts[feature] ?? 0) + 1) / (entry.total + model.vocabulary));
+    }
+    return { category, score };
+  });
+  const best = Math.max(...scores.map((entry) => entry.score));
+  const weights = scores.map((entry) => ({ category: entry.category, weight: Math.exp(entry.score - best) }));
+  const sum = weights.reduce((total, entry) => total + entry.weight, 0);
+  const ranked = weights
+    .map((entry) => ({ category: entry.category, confidence: entry.weight / sum }))
+    .sort((a, b) => b.confidence - a.confidence);
+
+  return { category: ranked[0].category, confidence: ranked[0].confidence, alternatives: ranked.slice(1, 3) };
+}
+
+export function isCategoryModel(value: any): value is CategoryModel {
+  return value?.version === 1 && typeof value.classes === 'object' && value.classes !== null;
+}
@@ -0,0 +1,74 @@
+// Built-in merchant → category dictionary, the last resort for transactions no rule matches
+// and no bank or statement categorised. Patterns are matched case-insensitively against the
+// merchant and description as whole words; the first hit wins, so more specific names come
+// before generic ones (e.g. "Uber Eats" before "Uber").
+
+const MERCHANTS: [string, string[]][] = [
+  ['Food', ['uber eats', 'ubereats', 'doordash', 'deliveroo', 'grubhub', 'just eat', 'postmates', 'wolt']],
+  ['Transport', ['uber', 'lyft', 'bolt', 'free now', 'shell', 'bp', 'chevron', 'exxon', 'esso', 'texaco']],
+  ['Transport', ['tfl', 'mta', 'bart', 'deutsche bahn', 'db vertrieb', 'sncf', 'amtrak', 'parking', 'parkmobile']],
+  ['Groceries', ['whole foods', 'trader joe', 'safeway', 'kroger', 'aldi', 'lidl', 'tesco', 'sainsbury']],
+  ['Groceries', ['asda', 'waitrose', 'carrefour', 'rewe', 'edeka', 'albert heijn', 'costco', 'publix', 'wegmans']],
+  ['Food', ['starbucks', 'costa coffee', 'pret a manger', 'mcdonald', 'burger king', 'kfc', 'subway', 'chipotle']],
+  ['Food', ['domino', 'pizza hut', 'five guys', 'nando', 'dunkin', 'tim hortons', 'restaurant', 'cafe', 'café']],
+  ['Subscriptions', ['netflix', 'spotify', 'disney plus', 'disney+', 'hulu', 'hbo max', 'youtube premium']],
+  ['Subscriptions', ['apple.com/bill', 'icloud', 'google storage', 'google one', 'dropbox', 'adobe', 'patreon']],
+  ['Subscriptions', ['amazon prime', 'prime video', 'audible', 'microsoft 365', 'chatgpt', 'notion']],
+  ['Shopping', ['amazon', 'amzn', 'ebay', 'etsy', 'ikea', 'zara', 'h&m', 'uniqlo', 'target', 'walmart', 'best buy']],
+  ['Travel', ['airbnb', 'booking.com', 'expedia', 'hotels.com', 'marriott', 'hilton', 'ryanair', 'easyjet']],
+  ['Travel', ['lufthansa', 'british airways', 'delta air', 'united airlines', 'american airlines', 'klm']],
+  ['Utilities', ['comcast', 'xfinity', 'verizon', 'at&t', 't-mobile', 'vodafone', 'british gas', 'octopus energy']],
+  ['Utilities', ['edf energy', 'con edison', 'pg&e', 'water', 'electric', 'broadband']],
+  ['Health', ['cvs', 'walgreens', 'boots', 'pharmacy', 'apotheke', 'dentist', 'dental', 'clinic', 'hospital']],
+  ['Entertainment', ['steam', 'playstation', 'xbox', 'nintendo', 'cinema', 'amc theatres', 'ticketmaster']],
+  ['Housing', ['rent', 'mortgage', 'landlord', 'hoa', 'council tax']],
+  ['Income', ['payroll', 'salary', 'gehalt', 'direct deposit', 'dividend', 'interest paid']],
+  ['Transfers', ['transfer', 'zelle', 'venmo', 'paypal', 'revolut', 'wise', 'standing order']],
+];
+
+// Categories connectors use for the same things, mapped onto Aurora's. Plaid's personal
+// finance categories arrive as upper-case codes.
+const PROVIDER_CATEGORIES: Record<string, string> = {
+  INCOME: 'Income',
+  TRANSFER_IN: 'Transfers',
+  TRANSFER_OUT: 'Transfers',
+  LOAN_PAYMENTS: 'Housing',
+  RENT_AND_UTILITIES: 'Utilities',
+  FOOD_AND_DRINK: 'Food',
+  GENERAL_MERCHANDISE: 'Shopping',
+  HOME_IMPROVEMENT: 'Shopping',
+  TRANSPORTATION: 'Transport',
+  TRAVEL: 'Travel',
+  MEDICAL: 'Health',
+  ENTERTAINMENT: 'Entertainment',
+  PERSONAL_CARE: 'Health',
+  GENERAL_SERVICES: 'Other',
+  GOVERNMENT_AND_NON_PROFIT: 'Other',
+  BANK_FEES: 'Other',
+};
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function wordPattern(name: string): RegExp {
+  return new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(name)}($|[^\\p{L}\\p{N}])`, 'iu');
+}
+
+const COMPILED: [RegExp, string][] = MERCHANTS.flatMap(([category, names]) =>
+  names.map((name): [RegExp, string] => [wordPattern(name), category]),
+);
+
+export function lookupMerchantCategory(text: string): string | null {
+  for (const [pattern, category] of COMPILED) {
+    if (pattern.test(text)) return category;
+  }
+  return null;
+}
+
+// The connector's category in Aurora's vocabulary; anything unrecognised is kept as given.
+export function normaliseProviderCategory(category: string | null): string | null {
+  const trimmed = category?.trim();
+  if (!trimmed) return null;
+  return PROVIDER_CATEGORIES[trimmed.toUpperCase()] ?? trimmed;
+}
@@ -0,0 +1,216 @@
+import { predictCategory, REVIEW_THRESHOLD, type CategoryModel } from './classifier.js';
+import { lookupMerchantCategory, normaliseProviderCategory } from './dictionary.js';
+import type {
+  CategorisableTransaction,
+  CategoryAssignment,
+  CategoryRule,
+  CategoryRuleInput,
+  CategorySource,
+  RuleMatchType,
+} from './types.js';
+
+const MAX_PATTERN_LENGTH = 200;
+const MAX_NAME_LENGTH = 80;
+const MAX_CATEGORY_LENGTH = 60;
+// Card-terminal and payment-rail words that say nothing about who was paid.
+const NOISE_WORDS = new Set([
+  'pos',
+  'purchase',
+  'card',
+  'debit',
+  'credit',
+  'visa',
+  'mastercard',
+  'contactless',
+  'payment',
+  'sq',
+  'tst',
+  'sp',
+  'paypal',
+  'ach',
+  'online',
+]);
+
+export interface CompiledRule {
+  rule: CategoryRule;
+  pattern: RegExp | string | null;
+}
+
+export type RuleInputResult = { ok: true; rule: CategoryRuleInput } | { ok: false; error: string };
+
+// Lower-case letters and digits separated by single spaces, so "AMZN Mktp US*2K4L" and
+// "amzn mktp us" line up for a "contains" rule.
+export function normaliseText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}&+]+/gu, ' ')
+    .trim();
+}
+
+function transactionText(tx: Pick<CategorisableTransaction, 'merchant' | 'description'>): string {
+  return [tx.merchant, tx.description].filter(Boolean).join(' ');
+}
+
+// Enabled rules in the order they are tried. Rules whose regex no longer compiles are left
+// out rather than failing every categorisation.
+export function compileRules(rules: CategoryRule[]): CompiledRule[] {
+  return rules
+    .filter((rule) => rule.enabled)
+    .sort((a, b) => a.priority - b.priority || a.createdAt.localeCompare(b.createdAt))
+    .flatMap((rule): CompiledRule[] => {
+      if (!rule.merchantPattern) return [{ rule, pattern: null }];
+      if (rule.matchType === 'contains') return [{ rule, pattern: normaliseText(rule.merchantPattern) }];
+      try {
+        return [{ rule, pattern: new RegExp(rule.merchantPattern, 'iu') }];
+      } catch {
+        return [];
+      }
+    });
+}
+
+export function matchesRule(compiled: CompiledRule, tx: CategorisableTransaction): boolean {
+  const { rule, pattern } = compiled;
+  if (rule.accountId && rule.accountId !== tx.accountId) return false;
+  const size = Math.abs(tx.amount);
+  if (rule.minAmount != null && size < rule.minAmount) return false;
+  if (rule.maxAmount != null && size > rule.maxAmount) return false;
+  if (pattern == null) return true;
+  const text = transactionText(tx);
+  return typeof pattern === 'string' ? normaliseText(text).includes(pattern) : pattern.test(text);
+}
+
+// The category a transaction should have now. Manual choices stand; otherwise the first
+// matching rule wins, then the default category the user gave its merchant, then a confident
+// prediction from the user's learned model, then the bank's or statement's category, then the
+// merchant dictionary. An unsure prediction is only used when nothing else applies, and is
+// flagged for review.
+export function categorise(
+  tx: CategorisableTransaction,
+  rules: CompiledRule[],
+  model: CategoryModel | null = null,
+): CategoryAssignment {
+  const assign = (
+    category: string | null,
+    source: CategorySource | null,
+    extra: Partial<CategoryAssignment> = {},
+  ): CategoryAssignment => ({ category, source, ruleId: null, confidence: null, needsReview: false, ...extra });
+
+  if (tx.categorySource === 'user') {
+    return assign(tx.category, 'user');
+  }
+  const rule = rules.find((compiled) => matchesRule(compiled, tx))?.rule;
+  if (rule) {
+    return assign(rule.category, 'rule', { ruleId: rule.id });
+  }
+  if (tx.merchantCategory) {
+    return assign(tx.merchantCategory, 'merchant');
+  }
+  const prediction = model ? predictCategory(model, tx) : null;
+  // Two decimals, so re-runs with a retrained model do not rewrite every row.
+  const confidence = prediction ? Math.round(prediction.confidence * 100) / 100 : null;
+  if (prediction && confidence != null && confidence >= REVIEW_THRESHOLD) {
+    return assign(prediction.category, 'learned', { confidence });
+  }
+  const provided = normaliseProviderCategory(tx.providerCategory);
+  if (provided) {
+    return assign(provided, 'provider');
+  }
+  const known = lookupMerchantCategory(transactionText(tx));
+  if (known) {
+    return assign(known, 'dictionary');
+  }
+  if (prediction) {
+    return assign(prediction.category, 'learned', { confidence, needsReview: true });
+  }
+  return assign(null, null);
+}
+
+export function assignmentChanged(tx: CategorisableTransaction, assignment: CategoryAssignment): boolean {
+  return (
+    tx.category !== assignment.category ||
+    tx.categorySource !== assignment.source ||
+    tx.categoryRuleId !== assignment.ruleId ||
+    tx.categoryConfidence !== assignment.confidence ||
+    tx.needsReview !== assignment.needsReview
+  );
+}
+
+// The leading words that name the merchant, e.g. "starbucks" for "POS STARBUCKS #1234
+// SEATTLE". Transactions with the same key are offered together by "categorise similar".
+export function merchantKey(tx: Pick<CategorisableTransaction, 'merchant' | 'description'>): string | null {
+  const words = normaliseText(tx.merchant || tx.description || '').split(' ');
+  const start = words.findIndex((word) => word && !NOISE_WORDS.has(word));
+  if (start < 0) return null;
+
+  const kept: string[] = [];
+  for (const word of words.slice(start)) {
+    if (/\d/.test(word) || kept.length === 3) break;
+    kept.push(word);
+  }
+  const key = kept.join(' ');
+  return key.length >= 3 ? key : null;
+}
+
+function optionalAmount(value: unknown): number | null | undefined {
+  if (value == null || value === '') return null;
+  const amount = Number(value);
+  return Number.isFinite(amount) && amount >= 0 ? Math.round(amount * 100) / 100 : undefined;
+}
+
+function optionalText(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+// Checks a rule as submitted by the rules editor.
+export function parseRuleInput(input: any): RuleInputResult {
+  const category = optionalText(input?.category);
+  if (!category || category.length > MAX_CATEGORY_LENGTH) {
+    return { ok: false, error: `Choose a category of at most ${MAX_CATEGORY_LENGTH} characters` };
+  }
+
+  const matchType: RuleMatchType = input?.matchType === 'regex' ? 'regex' : 'contains';
+  const merchantPattern = optionalText(input?.merchantPattern);
+  if (merchantPattern && merchantPattern.length > MAX_PATTERN_LENGTH) {
+    return { ok: false, error: `Patterns can be at most ${MAX_PATTERN_LENGTH} characters` };
+  }
+  if (merchantPattern && matchType === 'regex') {
+    try {
+      new RegExp(merchantPattern, 'iu');
+    } catch {
+      return { ok: false, error: 'The pattern is not a valid regular expression' };
+    }
+  }
+  if (merchantPattern && matchType === 'contains' && !normaliseText(merchantPattern)) {
+    return { ok: false, error: 'The pattern needs at least one letter or digit' };
+  }
+
+  const minAmount = optionalAmount(input?.minAmount);
+  const maxAmount = optionalAmount(input?.maxAmount);
+  if (minAmount === undefined || maxAmount === undefined) {
+    return { ok: false, error: 'Amounts must be positive numbers' };
+  }
+  if (minAmount != null && maxAmount != null && minAmount > maxAmount) {
+    return { ok: false, error: 'The minimum amount is above the maximum' };
+  }
+
+  const accountId = optionalText(input?.accountId);
+  if (!merchantPattern && minAmount == null && maxAmount == null && !accountId) {
+    return { ok: false, error: 'Give the rule a pattern, an amount range or an account to match' };
+  }
+
+  const priority = Number(input?.priority);
+  return {
+    ok: true,
+    rule: {
+      name: (optionalText(input?.name) ?? merchantPattern ?? category).slice(0, MAX_NAME_LENGTH),
+      category,
+      merchantPattern,
+      matchType,
+      minAmount,
+      maxAmount,
+      accountId,
+      enabled: input?.enabled !== false,
+      ...(Number.isInteger(priority) ? { priority } : {}),
+    },
+  };
+}
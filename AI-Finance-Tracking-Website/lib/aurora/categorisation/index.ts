@@ -0,0 +1,28 @@
+export * from './types.js';
+export {
+  isCategoryModel,
+  MIN_TRAINING_EXAMPLES,
+  predictCategory,
+  REVIEW_THRESHOLD,
+  trainCategoryModel,
+  transactionFeatures,
+  type CategoryModel,
+  type CategoryModelClass,
+  type CategoryPrediction,
+  type ClassifierInput,
+} from './classifier.js';
+export { lookupMerchantCategory, normaliseProviderCategory } from './dictionary.js';
+export {
+  assignmentChanged,
+  categorise,
+  compileRules,
+  matchesRule,
+  merchantKey,
+  normaliseText,
+  parseRuleInput,
+  type CompiledRule,
+  type RuleInputResult,
+} from './engine.js';
+export { createCategoriser, summariseModel, toCategoryRule, type Categoriser } from './categoriser.js';
+export * from './taxonomy.js';
+export { createTaxonomyStore, TaxonomyError, type TaxonomyStore } from './taxonomyStore.js';
@@ -0,0 +1,325 @@
+// Each user's category taxonomy: top-level categories with optional sub-categories (Food →
+// Groceries / Dining / Delivery), each with a colour and an icon. Transactions and rules keep
+// the category by name, so renaming or merging relabels them and is recorded as a change; the
+// change history also maps names the bank or the merchant dictionary still use onto the
+// category they became. No imports, so charts and filters in src/ share these helpers.
+
+export type CategoryIcon =
+  | 'tag'
+  | 'wallet'
+  | 'home'
+  | 'zap'
+  | 'wifi'
+  | 'utensils'
+  | 'shopping-cart'
+  | 'coffee'
+  | 'pizza'
+  | 'truck'
+  | 'car'
+  | 'fuel'
+  | 'bus'
+  | 'shopping-bag'
+  | 'shirt'
+  | 'repeat'
+  | 'heart-pulse'
+  | 'dumbbell'
+  | 'film'
+  | 'music'
+  | 'plane'
+  | 'gift'
+  | 'graduation-cap'
+  | 'baby'
+  | 'paw-print'
+  | 'receipt'
+  | 'landmark'
+  | 'arrow-left-right';
+
+export const CATEGORY_ICONS: CategoryIcon[] = [
+  'tag',
+  'wallet',
+  'home',
+  'zap',
+  'wifi',
+  'utensils',
+  'shopping-cart',
+  'coffee',
+  'pizza',
+  'truck',
+  'car',
+  'fuel',
+  'bus',
+  'shopping-bag',
+  'shirt',
+  'repeat',
+  'heart-pulse',
+  'dumbbell',
+  'film',
+  'music',
+  'plane',
+  'gift',
+  'graduation-cap',
+  'baby',
+  'paw-print',
+  'receipt',
+  'landmark',
+  'arrow-left-right',
+];
+
+export const CATEGORY_COLORS = [
+  '#22c55e',
+  '#38bdf8',
+  '#6366f1',
+  '#a855f7',
+  '#ec4899',
+  '#f97316',
+  '#eab308',
+  '#14b8a6',
+  '#ef4444',
+  '#84cc16',
+  '#06b6d4',
+  '#94a3b8',
+];
+
+// Spending without a category still needs a bar in charts.
+export const UNCATEGORISED = 'Uncategorised';
+
+const MAX_NAME_LENGTH = 60;
+
+export interface Category {
+  id: string;
+  name: string;
+  // Null for a top-level category. Sub-categories never have children of their own.
+  parentId: string | null;
+  color: string;
+  icon: CategoryIcon;
+  position: number;
+}
+
+export interface CategoryInput {
+  name: string;
+  parentId: string | null;
+  color: string;
+  icon: CategoryIcon;
+}
+
+export type CategoryChangeAction = 'rename' | 'merge';
+
+export interface CategoryChange {
+  id: string;
+  action: CategoryChangeAction;
+  fromName: string;
+  toName: string;
+  // Transactions relabelled by the change.
+  transactions: number;
+  createdAt: string;
+}
+
+export interface CategoryTaxonomy {
+  categories: Category[];
+  // Oldest first.
+  changes: CategoryChange[];
+  // Transactions per category name.
+  usage: Record<string, number>;
+}
+
+export type CategoryInputResult = { ok: true; category: CategoryInput } | { ok: false; error: string };
+
+export interface DefaultCategory {
+  name: string;
+  color: string;
+  icon: CategoryIcon;
+  children: { name: string; icon: CategoryIcon }[];
+}
+
+// What a new user starts with. Covers every name the merchant dictionary and provider
+// mapping produce, so automatic categories land in the right place.
+export const DEFAULT_TAXONOMY: DefaultCategory[] = [
+  { name: 'Income', color: '#22c55e', icon: 'wallet', children: [] },
+  {
+    name: 'Housing',
+    color: '#6366f1',
+    icon: 'home',
+    children: [
+      { name: 'Rent', icon: 'home' },
+      { name: 'Utilities', icon: 'zap' },
+    ],
+  },
+  {
+    name: 'Food',
+    color: '#f97316',
+    icon: 'utensils',
+    children: [
+      { name: 'Groceries', icon: 'shopping-cart' },
+      { name: 'Dining', icon: 'coffee' },
+      { name: 'Delivery', icon: 'pizza' },
+    ],
+  },
+  {
+    name: 'Transport',
+    color: '#38bdf8',
+    icon: 'car',
+    children: [
+      { name: 'Fuel', icon: 'fuel' },
+      { name: 'Public transport', icon: 'bus' },
+    ],
+  },
+  { name: 'Shopping', color: '#ec4899', icon: 'shopping-bag', children: [] },
+  { name: 'Subscriptions', color: '#a855f7', icon: 'repeat', children: [] },
+  { name: 'Health', color: '#14b8a6', icon: 'heart-pulse', children: [] },
+  { name: 'Entertainment', color: '#eab308', icon: 'film', children: [] },
+  { name: 'Travel', color: '#06b6d4', icon: 'plane', children: [] },
+  { name: 'Transfers', color: '#94a3b8', icon: 'arrow-left-right', children: [] },
+  { name: 'Other', color: '#64748b', icon: 'tag', children: [] },
+];
+
+function nameKey(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+// The default taxonomy with stable placeholder ids, for signed-out visitors and for the
+// moment before a user's own taxonomy has loaded.
+export function defaultCategories(): Category[] {
+  let position = 0;
+  return DEFAULT_TAXONOMY.flatMap((parent): Category[] => {
+    const parentId = `default:${nameKey(parent.name)}`;
+    return [
+      { id: parentId, name: parent.name, parentId: null, color: parent.color, icon: parent.icon, position: position++ },
+      ...parent.children.map((child) => ({
+        id: `default:${nameKey(child.name)}`,
+        name: child.name,
+        parentId,
+        color: parent.color,
+        icon: child.icon,
+        position: position++,
+      })),
+    ];
+  });
+}
+
+export function findCategory(categories: Category[], name: string | null | undefined): Category | null {
+  if (!name) return null;
+  const key = nameKey(name);
+  return categories.find((category) => nameKey(category.name) === key) ?? null;
+}
+
+// The category itself when it is top-level, otherwise its parent.
+export function topLevelCategory(categories: Category[], name: string | null | undefined): Category | null {
+  const category = findCategory(categories, name);
+  if (!category?.parentId) return category;
+  return categories.find((parent) => parent.id === category.parentId) ?? category;
+}
+
+export function subCategories(categories: Category[], parentId: string): Category[] {
+  return categories
+    .filter((category) => category.parentId === parentId)
+    .sort((a, b) => a.position - b.position || a.name.localeCompare(b.name));
+}
+
+// Top-level categories in order, each followed by its sub-categories; for pickers and lists.
+export function orderedCategories(categories: Category[]): { category: Category; depth: 0 | 1 }[] {
+  return categories
+    .filter((category) => !category.parentId)
+    .sort((a, b) => a.position - b.position || a.name.localeCompare(b.name))
+    .flatMap((parent) => [
+      { category: parent, depth: 0 as const },
+      ...subCategories(categories, parent.id).map((child) => ({ category: child, depth: 1 as const })),
+    ]);
+}
+
+// The names a filter on `name` should match: the category and all of its sub-categories.
+export function categoryFamily(categories: Category[], name: string): string[] {
+  const category = findCategory(categories, name);
+  if (!category) return [name];
+  return [category.name, ...subCategories(categories, category.id).map((child) => child.name)];
+}
+
+// Sub-category name → parent name, for code that only needs to roll spending up.
+export function categoryParents(categories: Category[]): Record<string, string> {
+  const parents: Record<string, string> = {};
+  for (const category of categories) {
+    const parent = category.parentId ? categories.find((p) => p.id === category.parentId) : null;
+    if (parent) parents[category.name] = parent.name;
+  }
+  return parents;
+}
+
+// The name `name` goes by today: the taxonomy's own spelling when it exists, otherwise the
+// result of replaying renames and merges, oldest first.
+export function resolveCategoryName(
+  categories: Category[],
+  changes: CategoryChange[],
+  name: string,
+): string {
+  const existing = findCategory(categories, name);
+  if (existing) return existing.name;
+  let current = name;
+  for (const change of changes) {
+    if (nameKey(change.fromName) === nameKey(current)) current = change.toName;
+  }
+  return findCategory(categories, current)?.name ?? current;
+}
+
+function hashColor(name: string): string {
+  let hash = 0;
+  for (const char of nameKey(name)) hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  return CATEGORY_COLORS[hash % CATEGORY_COLORS.length];
+}
+
+// Names missing from the taxonomy still get a stable colour.
+export function categoryColor(categories: Category[], name: string | null | undefined): string {
+  return findCategory(categories, name)?.color ?? hashColor(name || UNCATEGORISED);
+}
+
+export function categoryIcon(categories: Category[], name: string | null | undefined): CategoryIcon {
+  return findCategory(categories, name)?.icon ?? 'tag';
+}
+
+// Totals per top-level category, largest first, coloured from the taxonomy.
+export function rollUpCategories(
+  categories: Category[],
+  amounts: { category: string | null; amount: number }[],
+): { name: string; value: number; color: string }[] {
+  const totals = new Map<string, number>();
+  for (const { category, amount } of amounts) {
+    const name = topLevelCategory(categories, category)?.name ?? (category || UNCATEGORISED);
+    totals.set(name, (totals.get(name) ?? 0) + amount);
+  }
+  return Array.from(totals, ([name, value]) => ({
+    name,
+    value: Math.round(value * 100) / 100,
+    color: categoryColor(categories, name),
+  })).sort((a, b) => b.value - a.value);
+}
+
+// One line for the chat prompt, e.g. "Food (Groceries, Dining); Housing; Income".
+export function describeTaxonomy(categories: Category[]): string {
+  return orderedCategories(categories)
+    .filter(({ depth }) => depth === 0)
+    .map(({ category }) => {
+      const children = subCategories(categories, category.id).map((child) => child.name);
+      return children.length ? `${category.name} (${children.join(', ')})` : category.name;
+    })
+    .join('; ');
+}
+
+export function isCategoryIcon(value: unknown): value is CategoryIcon {
+  return typeof value === 'string' && (CATEGORY_ICONS as string[]).includes(value);
+}
+
+// Checks a category as submitted by the category manager. Colour and icon fall back to
+// defaults, so a bare name is enough.
+export function parseCategoryInput(input: any): CategoryInputResult {
+  const name = typeof input?.name === 'string' ? input.name.trim().replace(/\s+/g, ' ') : '';
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    return { ok: false, error: `Category names must be 1 to ${MAX_NAME_LENGTH} characters` };
+  }
+  if (nameKey(name) === nameKey(UNCATEGORISED)) {
+    return { ok: false, error: `"${UNCATEGORISED}" is reserved for transactions without a category` };
+  }
+  const color = typeof input?.color === 'string' && input.color ? input.color.toLowerCase() : hashColor(name);
+  if (!/^#[0-9a-f]{6}$/.test(color)) {
+    return { ok: false, error: 'Colours must be hex values like #22c55e' };
+  }
+  const parentId = typeof input?.parentId === 'string' && input.parentId ? input.parentId : null;
+  return { ok: true, category: { name, parentId, color, icon: isCategoryIcon(input?.icon) ? input.icon : 'tag' } };
+}
@@ -0,0 +1,298 @@
+import {
+  categoryColor,
+  DEFAULT_TAXONOMY,
+  findCategory,
+  isCategoryIcon,
+  resolveCategoryName,
+  subCategories,
+  type Category,
+  type CategoryChange,
+  type CategoryInput,
+  type CategoryTaxonomy,
+} from './taxonomy.js';
+
+// Reads and edits a user's category taxonomy. Renames and merges go through SQL functions
+// (update_my_category, merge_my_category) that relabel the user's transactions, rules and
+// merchant defaults and append to `category_changes` in one transaction; the category the
+// bank or statement supplied stays untouched in `transactions.provider_category`.
+
+const CATEGORY_COLUMNS = 'id, name, parent_id, color, icon, position';
+const CHANGE_COLUMNS = 'id, action, from_name, to_name, transactions, created_at';
+// Enough history to resolve old names and show recent edits.
+const MAX_CHANGES = 200;
+
+// A taxonomy edit that cannot be made as asked; the message is shown to the user.
+export class TaxonomyError extends Error {}
+
+export interface TaxonomyStore {
+  // Seeds the default taxonomy for a new user and adds any category their transactions or
+  // rules already use, so the taxonomy always covers the ledger.
+  loadTaxonomy: (userId: string) => Promise<CategoryTaxonomy>;
+  listCategories: (userId: string) => Promise<Category[]>;
+  // Maps a category name onto the name it goes by today; see resolveCategoryName.
+  loadResolver: (userId: string) => Promise<(name: string) => string>;
+  createCategory: (userId: string, input: CategoryInput) => Promise<Category>;
+  // Null when the category does not exist or belongs to someone else. Renaming relabels
+  // everything that used the old name.
+  updateCategory: (
+    userId: string,
+    categoryId: string,
+    input: CategoryInput,
+  ) => Promise<{ category: Category; change: CategoryChange | null } | null>;
+  // Folds `fromId` into `intoId`: its transactions, rules and sub-categories move across.
+  mergeCategory: (userId: string, fromId: string, intoId: string) => Promise<CategoryChange | null>;
+  // Sub-categories merge into their parent; top-level categories can only go once unused.
+  deleteCategory: (userId: string, categoryId: string) => Promise<{ change: CategoryChange | null } | null>;
+}
+
+function toCategory(row: any): Category {
+  return {
+    id: String(row.id),
+    name: row.name,
+    parentId: row.parent_id ?? null,
+    color: row.color,
+    icon: isCategoryIcon(row.icon) ? row.icon : 'tag',
+    position: Number(row.position) || 0,
+  };
+}
+
+function toCategoryChange(row: any): CategoryChange {
+  return {
+    id: String(row.id),
+    action: row.action === 'merge' ? 'merge' : 'rename',
+    fromName: row.from_name,
+    toName: row.to_name,
+    transactions: Number(row.transactions) || 0,
+    createdAt: row.created_at,
+  };
+}
+
+export function createTaxonomyStore(options: { db: any }): TaxonomyStore {
+  const { db } = options;
+
+  async function listCategories(userId: string): Promise<Category[]> {
+    const { data, error } = await db
+      .from('categories')
+      .select(CATEGORY_COLUMNS)
+      .eq('user_id', userId)
+      .order('position', { ascending: true })
+      .order('name', { ascending: true });
+    if (error) throw new Error(error.message);
+    return (data ?? []).map(toCategory);
+  }
+
+  async function listChanges(userId: string): Promise<CategoryChange[]> {
+    const { data, error } = await db
+      .from('category_changes')
+      .select(CHANGE_COLUMNS)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(MAX_CHANGES);
+    if (error) throw new Error(error.message);
+    return (data ?? []).map(toCategoryChange).reverse();
+  }
+
+  // Concurrent first loads may both seed, so existing names are skipped rather than failing.
+  async function insertCategories(userId: string, rows: Record<string, unknown>[]) {
+    if (!rows.length) return;
+    const { error } = await db
+      .from('categories')
+      .upsert(
+        rows.map((row) => ({ user_id: userId, ...row })),
+        { onConflict: 'user_id,name_key', ignoreDuplicates: true },
+      );
+    if (error) throw new Error(error.message);
+  }
+
+  async function seedDefaults(userId: string): Promise<Category[]> {
+    let position = 0;
+    const positions = new Map<string, number>();
+    for (const parent of DEFAULT_TAXONOMY) {
+      positions.set(parent.name, position++);
+      for (const child of parent.children) positions.set(child.name, position++);
+    }
+
+    await insertCategories(
+      userId,
+      DEFAULT_TAXONOMY.map((parent) => ({
+        name: parent.name,
+        color: parent.color,
+        icon: parent.icon,
+        position: positions.get(parent.name),
+      })),
+    );
+    const parents = await listCategories(userId);
+    await insertCategories(
+      userId,
+      DEFAULT_TAXONOMY.flatMap((parent) => {
+        const parentId = findCategory(parents, parent.name)?.id;
+        if (!parentId) return [];
+        return parent.children.map((child) => ({
+          name: child.name,
+          parent_id: parentId,
+          color: parent.color,
+          icon: child.icon,
+          position: positions.get(child.name),
+        }));
+      }),
+    );
+    return listCategories(userId);
+  }
+
+  async function loadUsage(userId: string): Promise<Record<string, number>> {
+    const { data, error } = await db
+      .from('transaction_category_usage')
+      .select('category, transactions')
+      .eq('user_id', userId);
+    if (error) throw new Error(error.message);
+    const usage: Record<string, number> = {};
+    for (const row of data ?? []) usage[row.category] = Number(row.transactions) || 0;
+    return usage;
+  }
+
+  async function ruleCategories(userId: string): Promise<string[]> {
+    const { data, error } = await db.from('categorisation_rules').select('category').eq('user_id', userId);
+    if (error) throw new Error(error.message);
+    return (data ?? []).map((row: any) => String(row.category));
+  }
+
+  // Sub-categories sit directly under a top-level category.
+  function checkParent(categories: Category[], category: Category | null, parentId: string | null) {
+    if (!parentId) return;
+    const parent = categories.find((candidate) => candidate.id === parentId);
+    if (!parent) throw new TaxonomyError('That parent category no longer exists');
+    if (parent.parentId) throw new TaxonomyError('Sub-categories cannot have sub-categories of their own');
+    if (!category) return;
+    if (parent.id === category.id) throw new TaxonomyError('A category cannot sit inside itself');
+    if (subCategories(categories, category.id).length) {
+      throw new TaxonomyError(`Move or merge the sub-categories of ${category.name} first`);
+    }
+  }
+
+  function checkNameFree(categories: Category[], name: string, exceptId: string | null) {
+    const existing = findCategory(categories, name);
+    if (existing && existing.id !== exceptId) {
+      throw new TaxonomyError(`There is already a category called ${existing.name}. Merge the two instead.`);
+    }
+  }
+
+  async function mergeCategory(userId: string, fromId: string, intoId: string): Promise<CategoryChange | null> {
+    const categories = await listCategories(userId);
+    const from = categories.find((category) => category.id === fromId);
+    const into = categories.find((category) => category.id === intoId);
+    if (!from || !into) return null;
+    if (from.id === into.id) throw new TaxonomyError('Choose a different category to merge into');
+    if (into.parentId === from.id) {
+      throw new TaxonomyError(`${into.name} is inside ${from.name}; merge into a category outside it`);
+    }
+
+    const { data, error } = await db.rpc('merge_my_category', { p_from_id: from.id, p_into_id: into.id });
+    if (error) throw new Error(error.message);
+    return data ? toCategoryChange(data) : null;
+  }
+
+  return {
+    listCategories,
+
+    async loadTaxonomy(userId) {
+      let categories = await listCategories(userId);
+      if (!categories.length) categories = await seedDefaults(userId);
+
+      const [changes, usage, rules] = await Promise.all([
+        listChanges(userId),
+        loadUsage(userId),
+        ruleCategories(userId),
+      ]);
+      const missing = new Map<string, string>();
+      for (const name of [...Object.keys(usage), ...rules]) {
+        if (!findCategory(categories, name)) missing.set(name.toLowerCase(), name);
+      }
+      if (missing.size) {
+        const last = categories.reduce((max, category) => Math.max(max, category.position), 0);
+        await insertCategories(
+          userId,
+          Array.from(missing.values(), (name, index) => ({
+            name,
+            color: categoryColor([], name),
+            icon: 'tag',
+            position: last + index + 1,
+          })),
+        );
+        categories = await listCategories(userId);
+      }
+      return { categories, changes, usage };
+    },
+
+    async loadResolver(userId) {
+      const [categories, changes] = await Promise.all([listCategories(userId), listChanges(userId)]);
+      return (name) => resolveCategoryName(categories, changes, name);
+    },
+
+    async createCategory(userId, input) {
+      const categories = await listCategories(userId);
+      checkNameFree(categories, input.name, null);
+      checkParent(categories, null, input.parentId);
+
+      const position = categories.reduce((max, category) => Math.max(max, category.position), -1) + 1;
+      const { data, error } = await db
+        .from('categories')
+        .insert({
+          user_id: userId,
+          name: input.name,
+          parent_id: input.parentId,
+          color: input.color,
+          icon: input.icon,
+          position,
+        })
+        .select(CATEGORY_COLUMNS)
+        .single();
+      if (error) throw new Error(error.message);
+      return toCategory(data);
+    },
+
+    async updateCategory(userId, categoryId, input) {
+      const categories = await listCategories(userId);
+      const current = categories.find((category) => category.id === categoryId);
+      if (!current) return null;
+      checkNameFree(categories, input.name, current.id);
+      checkParent(categories, current, input.parentId);
+
+      const { data, error } = await db.rpc('update_my_category', {
+        p_category_id: current.id,
+        p_name: input.name,
+        p_parent_id: input.parentId,
+        p_color: input.color,
+        p_icon: input.icon,
+      });
+      if (error) throw new Error(error.message);
+      if (!data) return null;
+      return { category: toCategory(data.category), change: data.change ? toCategoryChange(data.change) : null };
+    },
+
+    mergeCategory,
+
+    async deleteCategory(userId, categoryId) {
+      const categories = await listCategories(userId);
+      const category = categories.find((candidate) => candidate.id === categoryId);
+      if (!category) return null;
+      if (category.parentId) {
+        return { change: await mergeCategory(userId, category.id, category.parentId) };
+      }
+      if (subCategories(categories, category.id).length) {
+        throw new TaxonomyError(`Move or merge the sub-categories of ${category.name} first`);
+      }
+
+      // Names are compared here rather than with ilike, where `*`, `%` and `_` are wildcards.
+      const [usage, rules] = await Promise.all([loadUsage(userId), ruleCategories(userId)]);
+      const key = category.name.toLowerCase();
+      const used = [...Object.keys(usage), ...rules].some((name) => name.toLowerCase() === key);
+      if (used) {
+        throw new TaxonomyError(`${category.name} is still in use. Merge it into another category instead.`);
+      }
+
+      const { error } = await db.from('categories').delete().eq('id', category.id).eq('user_id', userId);
+      if (error) throw new Error(error.message);
+      return { change: null };
+    },
+  };
+}
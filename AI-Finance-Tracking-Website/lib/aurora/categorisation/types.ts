@@ -0,0 +1,88 @@
+// Categorisation: the user's own rules first (in priority order), then the default category
+// the user gave the transaction's merchant, then what the user's learned model is confident
+// about, then the category the bank or statement supplied, then a built-in merchant
+// dictionary. No imports, so the dashboard can share these types with
+// /api/categorisation.
+
+export type RuleMatchType = 'contains' | 'regex';
+
+export interface CategoryRule {
+  id: string;
+  name: string;
+  // Lower numbers are tried first.
+  priority: number;
+  category: string;
+  // Matched against the merchant and the description. Null matches any text.
+  merchantPattern: string | null;
+  matchType: RuleMatchType;
+  // Bounds on the size of the amount, whichever way the money moved. Null is unbounded.
+  minAmount: number | null;
+  maxAmount: number | null;
+  // Null applies the rule to every account.
+  accountId: string | null;
+  enabled: boolean;
+  createdAt: string;
+}
+
+export type CategoryRuleInput = Omit<CategoryRule, 'id' | 'priority' | 'createdAt'> & { priority?: number };
+
+// Where a transaction's category came from. 'user' is a manual choice and is never replaced
+// by rules, the learned model or the dictionary.
+export type CategorySource = 'user' | 'rule' | 'merchant' | 'learned' | 'provider' | 'dictionary';
+
+export interface CategorisableTransaction {
+  id: string;
+  accountId: string | null;
+  description: string | null;
+  merchant: string | null;
+  amount: number;
+  timestamp: string | null;
+  // As the bank or imported statement supplied it.
+  providerCategory: string | null;
+  category: string | null;
+  categorySource: CategorySource | null;
+  categoryRuleId: string | null;
+  categoryConfidence: number | null;
+  needsReview: boolean;
+  merchantId?: string | null;
+  // The default category the user set on the transaction's merchant, if any.
+  merchantCategory?: string | null;
+}
+
+export interface CategoryAssignment {
+  category: string | null;
+  source: CategorySource | null;
+  ruleId: string | null;
+  // The learned model's confidence, for 'learned' categories.
+  confidence: number | null;
+  // A low-confidence guess the user should confirm or correct.
+  needsReview: boolean;
+}
+
+export interface CategoryModelSummary {
+  examples: number;
+  categories: number;
+  trainedAt: string;
+}
+
+export interface SimilarTransaction {
+  id: string;
+  timestamp: string;
+  description: string | null;
+  amount: number;
+  category: string | null;
+}
+
+export interface RecategoriseResult {
+  // Other transactions from the same merchant the user may want to move as well.
+  similar: SimilarTransaction[];
+  // A suggested merchant pattern for an "always do this" rule.
+  pattern: string | null;
+}
+
+export interface ApplyRulesResult {
+  examined: number;
+  updated: number;
+  // Updated rows now waiting for the user to review a low-confidence guess.
+  flagged: number;
+}
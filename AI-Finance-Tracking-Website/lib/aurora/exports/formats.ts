@@ -0,0 +1,199 @@
+import type { ExportFile, LedgerAccount, LedgerExportFormat, LedgerFilter, LedgerTransaction } from './types.js';
+
+// Ledger exports in the three machine-readable formats. CSV is for spreadsheets, OFX for
+// other finance apps (and round-trips through the statement importer), JSON for scripts.
+
+const CSV_COLUMNS = ['Date', 'Account', 'Description', 'Merchant', 'Category', 'Amount', 'Currency', 'Status', 'Id'];
+
+function csvCell(value: string | number | null): string {
+  let text = value == null ? '' : String(value);
+  // Spreadsheets run cells starting with these as formulas; a leading quote keeps them text.
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function accountLabel(account: LedgerAccount | undefined): string {
+  if (!account) return '';
+  return account.mask ? `${account.name} ••••${account.mask}` : account.name;
+}
+
+export function toCsv(transactions: LedgerTransaction[], accounts: Map<string, LedgerAccount>): string {
+  const lines = [CSV_COLUMNS.join(',')];
+  for (const transaction of transactions) {
+    const account = transaction.accountId ? accounts.get(transaction.accountId) : undefined;
+    lines.push(
+      [
+        csvCell(transaction.timestamp.slice(0, 10)),
+        csvCell(accountLabel(account)),
+        csvCell(transaction.description),
+        csvCell(transaction.merchant),
+        csvCell(transaction.category),
+        // Numbers go out unquoted and unguarded so spreadsheets keep them numeric.
+        transaction.amount.toFixed(2),
+        csvCell(transaction.currency ?? account?.currency ?? null),
+        transaction.pending ? 'pending' : 'posted',
+        csvCell(transaction.id),
+      ].join(','),
+    );
+  }
+  // The BOM makes Excel read the file as UTF-8.
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+}
+
+function xml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function ofxDate(value: string): string {
+  return value.replace(/[-:T]/g, '').slice(0, 14).padEnd(14, '0');
+}
+
+const OFX_ACCOUNT_TYPES: Record<string, string> = {
+  checking: 'CHECKING',
+  savings: 'SAVINGS',
+  investment: 'MONEYMRKT',
+};
+
+// One statement per account (OFX has no multi-account statement); credit cards go in the
+// card message set, everything else in the bank one.
+export function toOfx(
+  transactions: LedgerTransaction[],
+  accounts: Map<string, LedgerAccount>,
+  range: { from: string; to: string },
+  now: Date = new Date(),
+): string {
+  const byAccount = new Map<string, LedgerTransaction[]>();
+  for (const transaction of transactions) {
+    const key = transaction.accountId ?? 'unassigned';
+    const entries = byAccount.get(key);
+    if (entries) entries.push(transaction);
+    else byAccount.set(key, [transaction]);
+  }
+
+  const bank: string[] = [];
+  const card: string[] = [];
+  for (const [accountId, entries] of byAccount) {
+    const account = accounts.get(accountId);
+    const currency = account?.currency ?? entries[0]?.currency ?? 'USD';
+    const list = entries
+      .map((transaction) =>
+        [
+          '<STMTTRN>',
+          `<TRNTYPE>${transaction.amount < 0 ? 'DEBIT' : 'CREDIT'}`,
+          `<DTPOSTED>${ofxDate(transaction.timestamp)}`,
+          `<TRNAMT>${transaction.amount.toFixed(2)}`,
+          `<FITID>${xml(transaction.externalId ?? transaction.id)}`,
+          `<NAME>${xml((transaction.merchant || transaction.description || 'Transaction').slice(0, 32))}`,
+          transaction.description ? `<MEMO>${xml(transaction.description)}` : '',
+          '</STMTTRN>',
+        ]
+          .filter(Boolean)
+          .join('\n'),
+      )
+      .join('\n');
+    const body = [
+      `<CURDEF>${currency}`,
+      `<BANKTRANLIST>`,
+      `<DTSTART>${ofxDate(range.from)}`,
+      `<DTEND>${ofxDate(range.to)}`,
+      list,
+      `</BANKTRANLIST>`,
+      `<LEDGERBAL><BALAMT>${(account?.balance ?? 0).toFixed(2)}<DTASOF>${ofxDate(now.toISOString())}</LEDGERBAL>`,
+    ].join('\n');
+
+    if (account?.kind === 'credit') {
+      card.push(
+        `<CCSTMTTRNRS><TRNUID>${xml(accountId)}<STATUS><CODE>0<SEVERITY>INFO</STATUS><CCSTMTRS>\n` +
+          `<CCACCTFROM><ACCTID>${xml(accountId)}</CCACCTFROM>\n${body}\n</CCSTMTRS></CCSTMTTRNRS>`,
+      );
+    } else {
+      bank.push(
+        `<STMTTRNRS><TRNUID>${xml(accountId)}<STATUS><CODE>0<SEVERITY>INFO</STATUS><STMTRS>\n` +
+          `<BANKACCTFROM><BANKID>AURORA<ACCTID>${xml(accountId)}` +
+          `<ACCTTYPE>${OFX_ACCOUNT_TYPES[account?.kind ?? ''] ?? 'CHECKING'}</BANKACCTFROM>\n${body}\n</STMTRS></STMTTRNRS>`,
+      );
+    }
+  }
+
+  // OFX 1.0.3 SGML: a plain-text header, a blank line, then the tag body. 1.0.3 is the first
+  // version that allows UTF-8 bodies.
+  const header = [
+    'OFXHEADER:100',
+    'DATA:OFXSGML',
+    'VERSION:103',
+    'SECURITY:NONE',
+    'ENCODING:UTF-8',
+    'CHARSET:NONE',
+    'COMPRESSION:NONE',
+    'OLDFILEUID:NONE',
+    'NEWFILEUID:NONE',
+  ];
+  const body = [
+    '<OFX>',
+    `<SIGNONMSGSRSV1><SONRS><STATUS><CODE>0<SEVERITY>INFO</STATUS><DTSERVER>${ofxDate(now.toISOString())}<LANGUAGE>ENG</SONRS></SIGNONMSGSRSV1>`,
+    ...(bank.length ? ['<BANKMSGSRSV1>', ...bank, '</BANKMSGSRSV1>'] : []),
+    ...(card.length ? ['<CREDITCARDMSGSRSV1>', ...card, '</CREDITCARDMSGSRSV1>'] : []),
+    '</OFX>',
+  ];
+  return `${header.join('\r\n')}\r\n\r\n${body.join('\r\n')}\r\n`;
+}
+
+export function toJson(
+  transactions: LedgerTransaction[],
+  accounts: Map<string, LedgerAccount>,
+  filter: LedgerFilter,
+  now: Date = new Date(),
+): string {
+  return JSON.stringify(
+    {
+      exportedAt: now.toISOString(),
+      filter,
+      accounts: Array.from(accounts.values()).filter((account) => !filter.accountId || account.id === filter.accountId),
+      transactions,
+    },
+    null,
+    2,
+  );
+}
+
+export function fileSlug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'account';
+}
+
+function fileStem(filter: LedgerFilter, accounts: Map<string, LedgerAccount>, now: Date): string {
+  const account = filter.accountId ? accounts.get(filter.accountId) : undefined;
+  const scope = account ? fileSlug(account.name) : 'ledger';
+  const range =
+    filter.from || filter.to ? `${filter.from ?? 'start'}_to_${filter.to ?? 'today'}` : now.toISOString().slice(0, 10);
+  return `aurora-${scope}-${range}`;
+}
+
+export function renderLedgerExport(
+  format: LedgerExportFormat,
+  transactions: LedgerTransaction[],
+  accounts: Map<string, LedgerAccount>,
+  filter: LedgerFilter,
+  now: Date = new Date(),
+): ExportFile {
+  const stem = fileStem(filter, accounts, now);
+  if (format === 'ofx') {
+    const dates = transactions.map((transaction) => transaction.timestamp).sort();
+    const range = {
+      from: filter.from ?? dates[0] ?? now.toISOString(),
+      to: filter.to ?? dates[dates.length - 1] ?? now.toISOString(),
+    };
+    return {
+      fileName: `${stem}.ofx`,
+      contentType: 'application/x-ofx',
+      body: toOfx(transactions, accounts, range, now),
+    };
+  }
+  if (format === 'json') {
+    return {
+      fileName: `${stem}.json`,
+      contentType: 'application/json; charset=utf-8',
+      body: toJson(transactions, accounts, filter, now),
+    };
+  }
+  return { fileName: `${stem}.csv`, contentType: 'text/csv; charset=utf-8', body: toCsv(transactions, accounts) };
+}
@@ -0,0 +1,10 @@
+export * from './types.js';
+export { renderLedgerExport, toCsv, toJson, toOfx } from './formats.js';
+export {
+  buildMonthlyStatement,
+  isStatementMonth,
+  renderStatementFile,
+  renderStatementPdf,
+  statementPeriod,
+} from './statement.js';
+export { renderPdf, type PdfItem } from './pdf.js';
@@ -0,0 +1,170 @@
+// A deliberately small PDF writer for statements: A4 pages of text, filled rectangles and
+// rules in the built-in Helvetica faces, so nothing has to be embedded or installed. Text is
+// WinAnsi-encoded; characters outside it print as "?".
+
+export const PAGE_WIDTH = 595.28;
+export const PAGE_HEIGHT = 841.89;
+
+export type Rgb = [number, number, number];
+
+export interface PdfText {
+  kind: 'text';
+  x: number;
+  // Baseline, measured from the top of the page.
+  y: number;
+  text: string;
+  size: number;
+  bold?: boolean;
+  color?: Rgb;
+  align?: 'left' | 'right';
+}
+
+export interface PdfRect {
+  kind: 'rect';
+  x: number;
+  // Top edge, measured from the top of the page.
+  y: number;
+  width: number;
+  height: number;
+  color: Rgb;
+}
+
+export type PdfItem = PdfText | PdfRect;
+
+// Advance widths (per 1000 em) of the printable ASCII range from the standard Helvetica AFMs.
+// prettier-ignore
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556,
+  556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778,
+  722, 278, 500, 667, 556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278,
+  278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+// prettier-ignore
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556,
+  556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778,
+  722, 278, 556, 722, 611, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333,
+  278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// WinAnsi code points above Latin-1 that statements actually use.
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80,
+  '…': 0x85,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97,
+  '™': 0x99,
+};
+
+function encode(text: string): string {
+  let out = '';
+  for (const char of text) {
+    const code = char.codePointAt(0) ?? 63;
+    if (char === '\u00A0' || char === '\u202F') out += ' ';
+    else if (WIN_ANSI[char] != null) out += String.fromCharCode(WIN_ANSI[char]);
+    else if (code >= 32 && code <= 255 && !(code >= 127 && code < 160)) out += char;
+    else out += '?';
+  }
+  return out;
+}
+
+export function isEncodable(text: string): boolean {
+  return encode(text).split('?').length === text.split('?').length;
+}
+
+export function textWidth(text: string, size: number, bold = false): number {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let total = 0;
+  for (const char of encode(text)) {
+    const code = char.charCodeAt(0);
+    total += code >= 32 && code <= 126 ? widths[code - 32] : 556;
+  }
+  return (total * size) / 1000;
+}
+
+// Shortens `text` with an ellipsis until it fits in `width`.
+export function fitText(text: string, width: number, size: number, bold = false): string {
+  if (textWidth(text, size, bold) <= width) return text;
+  let fitted = text;
+  while (fitted.length > 1 && textWidth(`${fitted}…`, size, bold) > width) fitted = fitted.slice(0, -1);
+  return `${fitted.trimEnd()}…`;
+}
+
+function escape(text: string): string {
+  return text.replace(/[\\()]/g, (char) => `\\${char}`);
+}
+
+function num(value: number): string {
+  return (Math.round(value * 100) / 100).toString();
+}
+
+function fillColor(color: Rgb): string {
+  return `${color.map((channel) => num(channel / 255)).join(' ')} rg`;
+}
+
+function pageContent(items: PdfItem[]): string {
+  const ops: string[] = [];
+  for (const item of items) {
+    if (item.kind === 'rect') {
+      ops.push(
+        fillColor(item.color),
+        `${num(item.x)} ${num(PAGE_HEIGHT - item.y - item.height)} ${num(item.width)} ${num(item.height)} re f`,
+      );
+      continue;
+    }
+    const x = item.align === 'right' ? item.x - textWidth(item.text, item.size, item.bold) : item.x;
+    ops.push(
+      fillColor(item.color ?? [15, 23, 42]),
+      `BT /${item.bold ? 'F2' : 'F1'} ${num(item.size)} Tf ${num(x)} ${num(PAGE_HEIGHT - item.y)} Td (${escape(
+        encode(item.text),
+      )}) Tj ET`,
+    );
+  }
+  return ops.join('\n');
+}
+
+// Serialises the pages into a complete PDF file.
+export function renderPdf(pages: PdfItem[][], info: { title: string; createdAt: Date }): Uint8Array {
+  const objects: string[] = [];
+  const add = (body: string) => objects.push(body);
+
+  // 1 catalog, 2 page tree, 3-4 fonts, 5 info; then a page and its content stream per page.
+  const pageIds = pages.map((_, index) => 6 + index * 2);
+  add('<< /Type /Catalog /Pages 2 0 R >>');
+  add(`<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+  const stamp = info.createdAt.toISOString().replace(/[-:T]/g, '').slice(0, 14);
+  add(`<< /Title (${escape(encode(info.title))}) /Producer (Aurora) /CreationDate (D:${stamp}Z) >>`);
+  for (const [index, items] of pages.entries()) {
+    const content = pageContent(items);
+    add(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`,
+    );
+    add(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+  }
+
+  // Every character is a single byte, so string offsets are byte offsets.
+  let out = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+  const offsets: number[] = [];
+  objects.forEach((body, index) => {
+    offsets.push(out.length);
+    out += `${index + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xref = out.length;
+  out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  out += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  const bytes = new Uint8Array(out.length);
+  for (let i = 0; i < out.length; i += 1) bytes[i] = out.charCodeAt(i) & 0xff;
+  return bytes;
+}
@@ -0,0 +1,262 @@
+import {
+  fitText,
+  isEncodable,
+  PAGE_HEIGHT,
+  PAGE_WIDTH,
+  renderPdf,
+  type PdfItem,
+  type PdfText,
+  type Rgb,
+} from './pdf.js';
+import { fileSlug } from './formats.js';
+import type { CategoryTotal, ExportFile, LedgerAccount, LedgerTransaction, MonthlyStatement } from './types.js';
+
+// Monthly PDF statements. Accounts only store their current balance, so the month's closing
+// balance is worked back from it through everything posted since; pending transactions are
+// left out until they post, as on a bank statement.
+
+const MARGIN = 48;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const ROW_HEIGHT = 16;
+const FOOTER_Y = PAGE_HEIGHT - 32;
+const LAST_ROW_Y = PAGE_HEIGHT - 64;
+
+const INK: Rgb = [15, 23, 42];
+const MUTED: Rgb = [100, 116, 139];
+const ACCENT: Rgb = [16, 185, 129];
+const BAND: Rgb = [2, 6, 23];
+const SURFACE: Rgb = [241, 245, 249];
+const RULE: Rgb = [226, 232, 240];
+const NEGATIVE: Rgb = [190, 18, 60];
+
+export function isStatementMonth(value: string): boolean {
+  return /^\d{4}-(0[1-9]|1[0-2])$/.test(value);
+}
+
+// First day of the month and of the month after, as YYYY-MM-DD.
+export function statementPeriod(month: string): { start: string; end: string } {
+  const [year, monthIndex] = month.split('-').map(Number);
+  const end = new Date(Date.UTC(year, monthIndex, 1)).toISOString().slice(0, 10);
+  return { start: `${month}-01`, end };
+}
+
+// `transactions` must cover the account from the start of `month` up to now.
+export function buildMonthlyStatement(
+  account: LedgerAccount,
+  month: string,
+  transactions: LedgerTransaction[],
+  now: Date = new Date(),
+): MonthlyStatement {
+  const { start, end } = statementPeriod(month);
+  const posted = transactions.filter((transaction) => !transaction.pending);
+  const day = (transaction: LedgerTransaction) => transaction.timestamp.slice(0, 10);
+  const inMonth = posted
+    .filter((transaction) => day(transaction) >= start && day(transaction) < end)
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  const since = posted
+    .filter((transaction) => day(transaction) >= end)
+    .reduce((sum, transaction) => sum + transaction.amount, 0);
+
+  const moneyIn = inMonth.filter((t) => t.amount > 0).reduce((sum, t) => sum + t.amount, 0);
+  const moneyOut = inMonth.filter((t) => t.amount < 0).reduce((sum, t) => sum - t.amount, 0);
+  const closingBalance = account.balance - since;
+
+  const totals = new Map<string, CategoryTotal>();
+  for (const transaction of inMonth) {
+    const category = transaction.category || 'Uncategorised';
+    const total = totals.get(category) ?? { category, spent: 0, received: 0, count: 0 };
+    if (transaction.amount < 0) total.spent -= transaction.amount;
+    else total.received += transaction.amount;
+    total.count += 1;
+    totals.set(category, total);
+  }
+
+  return {
+    account,
+    month,
+    openingBalance: closingBalance - (moneyIn - moneyOut),
+    closingBalance,
+    moneyIn,
+    moneyOut,
+    transactions: inMonth,
+    categories: Array.from(totals.values()).sort((a, b) => b.spent - a.spent || b.received - a.received),
+    generatedAt: now.toISOString(),
+  };
+}
+
+function moneyFormatter(currency: string, locale: string): (amount: number) => string {
+  const make = (currencyDisplay: 'symbol' | 'code') => {
+    try {
+      return new Intl.NumberFormat(locale, { style: 'currency', currency, currencyDisplay });
+    } catch {
+      return null;
+    }
+  };
+  const symbol = make('symbol');
+  // Symbols the built-in fonts cannot draw (₹, ₩, …) fall back to the ISO code.
+  const formatter = symbol && isEncodable(symbol.format(1)) ? symbol : make('code');
+  return (amount) => formatter?.format(amount) ?? `${currency} ${amount.toFixed(2)}`;
+}
+
+function monthLabel(month: string, locale: string): string {
+  const { start } = statementPeriod(month);
+  return new Date(`${start}T00:00:00Z`).toLocaleDateString(locale, {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+function dayLabel(timestamp: string, locale: string): string {
+  return new Date(`${timestamp.slice(0, 10)}T00:00:00Z`).toLocaleDateString(locale, {
+    day: 'numeric',
+    month: 'short',
+    timeZone: 'UTC',
+  });
+}
+
+export function renderStatementPdf(statement: MonthlyStatement, options: { locale?: string } = {}): Uint8Array {
+  const locale = options.locale ?? 'en-US';
+  const { account } = statement;
+  const money = moneyFormatter(account.currency, locale);
+  const period = monthLabel(statement.month, locale);
+
+  const pages: PdfItem[][] = [];
+  let items: PdfItem[] = [];
+  let y = 0;
+
+  const text = (x: number, textY: number, value: string, size: number, style: Partial<PdfText> = {}) =>
+    items.push({ kind: 'text', x, y: textY, text: value, size, color: INK, ...style });
+  const rect = (x: number, rectY: number, width: number, height: number, color: Rgb) =>
+    items.push({ kind: 'rect', x, y: rectY, width, height, color });
+
+  const newPage = () => {
+    items = [];
+    pages.push(items);
+    rect(0, 0, PAGE_WIDTH, 6, ACCENT);
+    y = 40;
+  };
+
+  // Cover band.
+  newPage();
+  rect(0, 6, PAGE_WIDTH, 92, BAND);
+  text(MARGIN, 46, 'AURORA', 10, { bold: true, color: ACCENT });
+  text(MARGIN, 74, 'Monthly statement', 20, { bold: true, color: [248, 250, 252] });
+  text(PAGE_WIDTH - MARGIN, 46, period, 12, { bold: true, color: [248, 250, 252], align: 'right' });
+  text(PAGE_WIDTH - MARGIN, 74, `Generated ${statement.generatedAt.slice(0, 10)}`, 9, {
+    color: [148, 163, 184],
+    align: 'right',
+  });
+  y = 130;
+
+  text(MARGIN, y, fitText(account.name, CONTENT_WIDTH / 2, 13, true), 13, { bold: true });
+  text(
+    MARGIN,
+    y + 16,
+    [account.institution, account.mask ? `••••${account.mask}` : null, account.currency].filter(Boolean).join('  ·  '),
+    9,
+    { color: MUTED },
+  );
+  y += 40;
+
+  // Summary tiles.
+  const tiles: [string, number][] = [
+    ['Opening balance', statement.openingBalance],
+    ['Money in', statement.moneyIn],
+    ['Money out', -statement.moneyOut],
+    ['Closing balance', statement.closingBalance],
+  ];
+  const gap = 10;
+  const tileWidth = (CONTENT_WIDTH - gap * (tiles.length - 1)) / tiles.length;
+  tiles.forEach(([label, amount], index) => {
+    const x = MARGIN + index * (tileWidth + gap);
+    rect(x, y, tileWidth, 50, SURFACE);
+    text(x + 10, y + 18, label.toUpperCase(), 7, { bold: true, color: MUTED });
+    text(x + 10, y + 38, fitText(money(amount), tileWidth - 20, 12, true), 12, {
+      bold: true,
+      color: amount < 0 ? NEGATIVE : INK,
+    });
+  });
+  y += 80;
+
+  // Category totals.
+  text(MARGIN, y, 'Spending and income by category', 11, { bold: true });
+  y += 18;
+  if (!statement.categories.length) {
+    text(MARGIN, y, 'No posted transactions this month.', 9, { color: MUTED });
+    y += ROW_HEIGHT;
+  }
+  for (const total of statement.categories) {
+    if (y > LAST_ROW_Y) newPage();
+    text(MARGIN, y, fitText(total.category, 220, 9), 9);
+    text(MARGIN + 250, y, `${total.count} transaction${total.count === 1 ? '' : 's'}`, 9, { color: MUTED });
+    text(MARGIN + 400, y, total.spent ? money(-total.spent) : '', 9, { align: 'right', color: NEGATIVE });
+    text(PAGE_WIDTH - MARGIN, y, total.received ? money(total.received) : '', 9, { align: 'right' });
+    rect(MARGIN, y + 5, CONTENT_WIDTH, 0.5, RULE);
+    y += ROW_HEIGHT;
+  }
+  y += 24;
+
+  // Transactions, with a running balance, carried over onto as many pages as needed.
+  const columns = { date: MARGIN, description: MARGIN + 56, category: MARGIN + 290, amount: MARGIN + 420 };
+  const tableHeader = () => {
+    rect(MARGIN, y - 12, CONTENT_WIDTH, 18, SURFACE);
+    text(columns.date + 4, y, 'DATE', 7, { bold: true, color: MUTED });
+    text(columns.description, y, 'DESCRIPTION', 7, { bold: true, color: MUTED });
+    text(columns.category, y, 'CATEGORY', 7, { bold: true, color: MUTED });
+    text(columns.amount, y, 'AMOUNT', 7, { bold: true, color: MUTED, align: 'right' });
+    text(PAGE_WIDTH - MARGIN - 4, y, 'BALANCE', 7, { bold: true, color: MUTED, align: 'right' });
+    y += ROW_HEIGHT + 2;
+  };
+
+  text(MARGIN, y, 'Transactions', 11, { bold: true });
+  y += 22;
+  tableHeader();
+  text(columns.description, y, 'Opening balance', 9, { color: MUTED });
+  text(PAGE_WIDTH - MARGIN - 4, y, money(statement.openingBalance), 9, { align: 'right', color: MUTED });
+  y += ROW_HEIGHT;
+
+  let running = statement.openingBalance;
+  for (const transaction of statement.transactions) {
+    if (y > LAST_ROW_Y) {
+      newPage();
+      text(MARGIN, y, `${account.name} · ${period} (continued)`, 9, { color: MUTED });
+      y += 24;
+      tableHeader();
+    }
+    running += transaction.amount;
+    text(columns.date + 4, y, dayLabel(transaction.timestamp, locale), 9, { color: MUTED });
+    text(columns.description, y, fitText(transaction.description || transaction.merchant || '—', 226, 9), 9);
+    text(columns.category, y, fitText(transaction.category || '—', 90, 9), 9, { color: MUTED });
+    text(columns.amount, y, money(transaction.amount), 9, {
+      align: 'right',
+      color: transaction.amount < 0 ? NEGATIVE : INK,
+    });
+    text(PAGE_WIDTH - MARGIN - 4, y, money(running), 9, { align: 'right' });
+    rect(MARGIN, y + 5, CONTENT_WIDTH, 0.5, RULE);
+    y += ROW_HEIGHT;
+  }
+
+  if (y > LAST_ROW_Y) newPage();
+  text(columns.description, y + 4, 'Closing balance', 9, { bold: true });
+  text(PAGE_WIDTH - MARGIN - 4, y + 4, money(statement.closingBalance), 9, { bold: true, align: 'right' });
+
+  pages.forEach((page, index) => {
+    items = page;
+    text(MARGIN, FOOTER_Y, 'Generated by Aurora from your synced and imported transactions.', 7, { color: MUTED });
+    text(PAGE_WIDTH - MARGIN, FOOTER_Y, `Page ${index + 1} of ${pages.length}`, 7, { color: MUTED, align: 'right' });
+  });
+
+  return renderPdf(pages, {
+    title: `${account.name} statement, ${period}`,
+    createdAt: new Date(statement.generatedAt),
+  });
+}
+
+export function renderStatementFile(statement: MonthlyStatement, options: { locale?: string } = {}): ExportFile {
+  return {
+    fileName: `aurora-statement-${fileSlug(statement.account.name)}-${statement.month}.pdf`,
+    contentType: 'application/pdf',
+    body: renderStatementPdf(statement, options),
+  };
+}
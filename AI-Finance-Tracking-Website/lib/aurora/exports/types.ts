@@ -0,0 +1,67 @@
+// Transaction exports (/api/export). Ledger rows are read with the caller's token, so
+// everything here works on data RLS has already scoped to one user.
+
+export type LedgerExportFormat = 'csv' | 'ofx' | 'json';
+
+export interface LedgerFilter {
+  accountId: string | null;
+  // Inclusive YYYY-MM-DD bounds.
+  from: string | null;
+  to: string | null;
+  category: string | null;
+  // Case-insensitive match on description or merchant.
+  search: string | null;
+}
+
+export interface LedgerAccount {
+  id: string;
+  name: string;
+  institution: string;
+  kind: string;
+  mask: string | null;
+  currency: string;
+  // Current balance, signed: negative for money owed.
+  balance: number;
+}
+
+export interface LedgerTransaction {
+  id: string;
+  accountId: string | null;
+  timestamp: string;
+  description: string;
+  merchant: string | null;
+  // Negative for spending, positive for income.
+  amount: number;
+  currency: string | null;
+  category: string | null;
+  pending: boolean;
+  externalId: string | null;
+}
+
+export interface ExportFile {
+  fileName: string;
+  contentType: string;
+  body: string | Uint8Array;
+}
+
+export interface CategoryTotal {
+  category: string;
+  spent: number;
+  received: number;
+  count: number;
+}
+
+export interface MonthlyStatement {
+  account: LedgerAccount;
+  // YYYY-MM.
+  month: string;
+  openingBalance: number;
+  closingBalance: number;
+  moneyIn: number;
+  moneyOut: number;
+  // Oldest first.
+  transactions: LedgerTransaction[];
+  // Largest spend first.
+  categories: CategoryTotal[];
+  generatedAt: string;
+}
@@ -0,0 +1,72 @@
+import type { KnowledgeChunk, KnowledgeHit } from './types.js';
+
+// Okapi BM25 over chunk text plus its article title and heading, so a question that names
+// the topic ("emergency fund") ranks that article's sections above passing mentions.
+
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set(
+  (
+    'a an and are as at be but by can do does for from has have how i if in into is it its ' +
+    'me my of on or should so than that the their them then there these this to was what ' +
+    'when where which who why will with would you your'
+  ).split(' '),
+);
+
+// Lower-cases, drops stopwords and trims common English suffixes so "saving" matches "savings".
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) ?? [])
+    .filter((token) => !STOPWORDS.has(token))
+    .map((token) => {
+      if (token.length > 5 && token.endsWith('ing')) return token.slice(0, -3);
+      if (token.length > 4 && token.endsWith('es')) return token.slice(0, -2);
+      if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) return token.slice(0, -1);
+      return token;
+    });
+}
+
+export interface Bm25Index {
+  search(query: string, k: number): KnowledgeHit[];
+}
+
+export function createBm25Index(chunks: KnowledgeChunk[]): Bm25Index {
+  const docs = chunks.map((chunk) => {
+    const terms = tokenize(`${chunk.title} ${chunk.heading ?? ''} ${chunk.text}`);
+    const tf = new Map<string, number>();
+    for (const term of terms) tf.set(term, (tf.get(term) ?? 0) + 1);
+    return { chunk, tf, length: terms.length };
+  });
+
+  const avgLength = docs.reduce((sum, d) => sum + d.length, 0) / Math.max(1, docs.length);
+  const docFreq = new Map<string, number>();
+  for (const doc of docs) {
+    for (const term of doc.tf.keys()) docFreq.set(term, (docFreq.get(term) ?? 0) + 1);
+  }
+
+  function idf(term: string): number {
+    const n = docFreq.get(term) ?? 0;
+    return Math.log(1 + (docs.length - n + 0.5) / (n + 0.5));
+  }
+
+  return {
+    search(query, k) {
+      const terms = Array.from(new Set(tokenize(query)));
+      if (!terms.length) return [];
+
+      return docs
+        .map((doc) => {
+          let score = 0;
+          for (const term of terms) {
+            const f = doc.tf.get(term);
+            if (!f) continue;
+            score += (idf(term) * f * (K1 + 1)) / (f + K1 * (1 - B + (B * doc.length) / avgLength));
+          }
+          return { chunk: doc.chunk, score };
+        })
+        .filter((hit) => hit.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, k);
+    },
+  };
+}
@@ -0,0 +1,84 @@
+import { postJson } from '../llm/http.js';
+import { tokenize } from './bm25.js';
+import type { Embedder } from './types.js';
+
+// Feature-hashing embedder: tokens and adjacent-token pairs are hashed into a fixed number of
+// buckets. No network or model needed, so retrieval still blends in a vector score offline;
+// it captures shared vocabulary and short phrases, not meaning.
+export function createHashingEmbedder(dimensions = 512): Embedder {
+  function hash(feature: string): number {
+    // FNV-1a
+    let h = 0x811c9dc5;
+    for (let i = 0; i < feature.length; i++) {
+      h ^= feature.charCodeAt(i);
+      h = Math.imul(h, 0x01000193);
+    }
+    return h >>> 0;
+  }
+
+  function embedOne(text: string): number[] {
+    const vector = new Array<number>(dimensions).fill(0);
+    const tokens = tokenize(text);
+    const features = [...tokens, ...tokens.slice(1).map((t, i) => `${tokens[i]}_${t}`)];
+    for (const feature of features) {
+      const h = hash(feature);
+      // The top bit picks a sign so unrelated collisions tend to cancel out.
+      vector[h % dimensions] += h & 0x80000000 ? -1 : 1;
+    }
+    return normalize(vector);
+  }
+
+  return {
+    name: 'hashing',
+    minSimilarity: 0.2,
+    async embed(texts) {
+      return texts.map(embedOne);
+    },
+  };
+}
+
+// Any OpenAI-compatible /embeddings endpoint.
+export function createOpenAiEmbedder(options: {
+  apiKey: string;
+  baseUrl?: string;
+  model?: string;
+  timeoutMs?: number;
+}): Embedder {
+  const url = `${(options.baseUrl ?? 'https://api.openai.com/v1').replace(/\/$/, '')}/embeddings`;
+  const model = options.model ?? 'text-embedding-3-small';
+
+  return {
+    name: `openai:${model}`,
+    minSimilarity: 0.35,
+    async embed(texts) {
+      if (!texts.length) return [];
+      const json: any = await postJson(
+        'openai-embeddings',
+        url,
+        {
+          headers: { Authorization: `Bearer ${options.apiKey}` },
+          body: { model, input: texts },
+          timeoutMs: options.timeoutMs ?? 15_000,
+        },
+        (res) => res.json(),
+      );
+      const rows: any[] = Array.isArray(json?.data) ? json.data : [];
+      return rows
+        .slice()
+        .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+        .map((row) => normalize(Array.isArray(row.embedding) ? row.embedding : []));
+    },
+  };
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm ? vector.map((v) => v / norm) : vector;
+}
+
+// Vectors from both embedders are unit length, so the dot product is the cosine similarity.
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) dot += a[i] * b[i];
+  return dot;
+}
@@ -0,0 +1,141 @@
+import { createBm25Index } from './bm25.js';
+import { cosineSimilarity, createHashingEmbedder, createOpenAiEmbedder } from './embeddings.js';
+import { chunkArticle, parseArticle } from './markdown.js';
+import type { Embedder, KnowledgeArticle, KnowledgeChunk, KnowledgeHit } from './types.js';
+
+export * from './types.js';
+export { createBm25Index, tokenize } from './bm25.js';
+export { cosineSimilarity, createHashingEmbedder, createOpenAiEmbedder } from './embeddings.js';
+export { chunkArticle, parseArticle } from './markdown.js';
+
+// Aurora's local knowledge base: markdown articles retrieved per question and cited back to
+// the user as "Aurora guide" sources.
+//
+//   AURORA_KNOWLEDGE_DIR     directory of *.md articles (default: content/knowledge)
+//   AURORA_EMBEDDER          hashing | openai | none   (default: hashing)
+//   AURORA_EMBEDDING_MODEL   model for the openai embedder (needs OPENAI_API_KEY; honours OPENAI_BASE_URL)
+
+export interface KnowledgeBase {
+  readonly chunks: KnowledgeChunk[];
+  search(query: string, options?: { k?: number }): Promise<KnowledgeHit[]>;
+}
+
+// Constant from the reciprocal rank fusion paper; dampens the advantage of the very top ranks.
+const RRF_K = 60;
+const MAX_CHUNKS_PER_ARTICLE = 2;
+
+export function createKnowledgeBase(
+  articles: KnowledgeArticle[],
+  embedder: Embedder | null = createHashingEmbedder(),
+): KnowledgeBase {
+  const chunks = articles.flatMap(chunkArticle);
+  const bm25 = createBm25Index(chunks);
+  let chunkVectors: Promise<number[][] | null> | null = null;
+
+  // Embedded once per instance on first use; a failing embedder downgrades to BM25 only.
+  function getChunkVectors(): Promise<number[][] | null> {
+    if (!embedder) return Promise.resolve(null);
+    if (!chunkVectors) {
+      chunkVectors = embedder
+        .embed(chunks.map((c) => `${c.title}. ${c.heading ?? ''}. ${c.text}`))
+        .catch((err) => {
+          console.error(`Aurora knowledge: ${embedder.name} embedder failed; using BM25 only`, err);
+          return null;
+        });
+    }
+    return chunkVectors;
+  }
+
+  async function vectorSearch(query: string, limit: number): Promise<KnowledgeHit[]> {
+    const vectors = await getChunkVectors();
+    if (!vectors || !embedder) return [];
+    try {
+      const [queryVector] = await embedder.embed([query]);
+      return chunks
+        .map((chunk, i) => ({ chunk, score: cosineSimilarity(queryVector ?? [], vectors[i] ?? []) }))
+        .filter((hit) => hit.score >= embedder.minSimilarity)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+    } catch (err) {
+      console.error(`Aurora knowledge: ${embedder.name} query embedding failed`, err);
+      return [];
+    }
+  }
+
+  return {
+    chunks,
+
+    async search(query, { k = 3 } = {}) {
+      if (!query.trim() || !chunks.length) return [];
+
+      const pool = k * 3;
+      const rankings = [bm25.search(query, pool), await vectorSearch(query, pool)];
+
+      const fused = new Map<string, KnowledgeHit>();
+      for (const ranking of rankings) {
+        ranking.forEach((hit, rank) => {
+          const existing = fused.get(hit.chunk.id);
+          const score = (existing?.score ?? 0) + 1 / (RRF_K + rank + 1);
+          fused.set(hit.chunk.id, { chunk: hit.chunk, score });
+        });
+      }
+
+      const perArticle = new Map<string, number>();
+      return Array.from(fused.values())
+        .sort((a, b) => b.score - a.score)
+        .filter((hit) => {
+          const count = perArticle.get(hit.chunk.slug) ?? 0;
+          perArticle.set(hit.chunk.slug, count + 1);
+          return count < MAX_CHUNKS_PER_ARTICLE;
+        })
+        .slice(0, k);
+    },
+  };
+}
+
+type Env = Record<string, string | undefined>;
+
+function readEnv(): Env {
+  return ((globalThis as any)?.process?.env ?? {}) as Env;
+}
+
+export async function loadKnowledgeArticles(dir: string): Promise<KnowledgeArticle[]> {
+  try {
+    // Kept out of static imports so bundlers targeting the browser never see node builtins.
+    const fsSpecifier = 'node:fs/promises';
+    const pathSpecifier = 'node:path';
+    const fs = await import(/* @vite-ignore */ fsSpecifier);
+    const path = await import(/* @vite-ignore */ pathSpecifier);
+
+    const files = (await fs.readdir(dir)).filter((name: string) => name.toLowerCase().endsWith('.md')).sort();
+    return await Promise.all(
+      files.map(async (name: string) => parseArticle(name, await fs.readFile(path.join(dir, name), 'utf8'))),
+    );
+  } catch (err) {
+    console.error(`Aurora knowledge: could not read articles from ${dir}`, err);
+    return [];
+  }
+}
+
+function createEmbedderFromEnv(env: Env): Embedder | null {
+  const selected = (env.AURORA_EMBEDDER || 'hashing').toLowerCase();
+  if (selected === 'none') return null;
+  if (selected === 'openai') {
+    if (env.OPENAI_API_KEY) {
+      return createOpenAiEmbedder({
+        apiKey: env.OPENAI_API_KEY,
+        baseUrl: env.OPENAI_BASE_URL,
+        model: env.AURORA_EMBEDDING_MODEL,
+      });
+    }
+    console.error('Aurora knowledge: AURORA_EMBEDDER=openai needs OPENAI_API_KEY; using the hashing embedder.');
+  } else if (selected !== 'hashing') {
+    console.error(`Aurora knowledge: unknown embedder "${selected}"; using the hashing embedder.`);
+  }
+  return createHashingEmbedder();
+}
+
+export async function createKnowledgeBaseFromEnv(env: Env = readEnv()): Promise<KnowledgeBase> {
+  const articles = await loadKnowledgeArticles(env.AURORA_KNOWLEDGE_DIR || 'content/knowledge');
+  return createKnowledgeBase(articles, createEmbedderFromEnv(env));
+}
@@ -0,0 +1,81 @@
+import type { KnowledgeArticle, KnowledgeChunk } from './types.js';
+
+// Articles are plain markdown with an optional front-matter block:
+//
+//   ---
+//   title: Building an emergency fund
+//   tags: emergency fund, savings
+//   ---
+//
+// Chunks follow `##` sections so a citation points at the part of the article that matched.
+
+const MAX_CHUNK_CHARS = 900;
+
+export function parseArticle(fileName: string, raw: string): KnowledgeArticle {
+  const slug = fileName.replace(/\.md$/i, '');
+  const meta: Record<string, string> = {};
+  let body = raw.replace(/\r\n/g, '\n');
+
+  const frontMatter = body.match(/^---\n([\s\S]*?)\n---\n?/);
+  if (frontMatter) {
+    for (const line of frontMatter[1].split('\n')) {
+      const match = line.match(/^(\w+):\s*(.*)$/);
+      if (match) meta[match[1].toLowerCase()] = match[2].trim();
+    }
+    body = body.slice(frontMatter[0].length);
+  }
+
+  const h1 = body.match(/^#\s+(.+)$/m);
+  return {
+    slug,
+    title: meta.title || h1?.[1].trim() || slug,
+    tags: (meta.tags ?? '')
+      .split(',')
+      .map((tag) => tag.trim())
+      .filter(Boolean),
+    body: body.trim(),
+  };
+}
+
+function splitLongSection(text: string): string[] {
+  if (text.length <= MAX_CHUNK_CHARS) return [text];
+
+  const parts: string[] = [];
+  let current = '';
+  for (const paragraph of text.split(/\n{2,}/)) {
+    if (current && current.length + paragraph.length > MAX_CHUNK_CHARS) {
+      parts.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+  }
+  if (current) parts.push(current);
+  return parts;
+}
+
+export function chunkArticle(article: KnowledgeArticle): KnowledgeChunk[] {
+  const chunks: KnowledgeChunk[] = [];
+  const sections = article.body.split(/^(?=##\s)/m);
+
+  for (const section of sections) {
+    const headingMatch = section.match(/^##\s+(.+)$/m);
+    const heading = headingMatch ? headingMatch[1].trim() : null;
+    const text = section
+      .replace(/^#{1,6}\s+.*$/gm, '')
+      .replace(/(?<!\n)\n(?!\n)/g, ' ')
+      .trim();
+    if (!text) continue;
+
+    for (const part of splitLongSection(text)) {
+      chunks.push({
+        id: `${article.slug}#${chunks.length}`,
+        slug: article.slug,
+        title: article.title,
+        heading,
+        text: part,
+      });
+    }
+  }
+
+  return chunks;
+}
@@ -0,0 +1,27 @@
+export interface KnowledgeArticle {
+  slug: string;
+  title: string;
+  tags: string[];
+  body: string;
+}
+
+// A retrievable passage: one section of an article, split further when a section is long.
+export interface KnowledgeChunk {
+  id: string;
+  slug: string;
+  title: string;
+  heading: string | null;
+  text: string;
+}
+
+export interface KnowledgeHit {
+  chunk: KnowledgeChunk;
+  score: number;
+}
+
+export interface Embedder {
+  name: string;
+  // Cosine similarity below which a vector-only match is treated as noise.
+  minSimilarity: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
@@ -0,0 +1,71 @@
+import { createChatLimiter, type ChatLimiter } from './limiter.js';
+import { createMemoryLimitStore } from './memoryStore.js';
+import { createRedisLimitStore } from './redisStore.js';
+import { createSupabaseLimitStore } from './supabaseStore.js';
+import type { LimitStore } from './types.js';
+
+export * from './types.js';
+export { createChatLimiter, type ChatLimiter, type LimitDecision, type LimitSubject } from './limiter.js';
+export { createMemoryLimitStore } from './memoryStore.js';
+export { createRedisLimitStore } from './redisStore.js';
+export { createSupabaseLimitStore } from './supabaseStore.js';
+
+// Chat limits from environment config.
+//
+//   RATE_LIMIT_STORE             memory | redis | supabase   (default: memory)
+//   RATE_LIMIT_REDIS_URL / RATE_LIMIT_REDIS_TOKEN   REST endpoint and token for redis
+//                                (falls back to UPSTASH_REDIS_REST_URL / UPSTASH_REDIS_REST_TOKEN)
+//   SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY        for supabase
+//   RATE_LIMIT_USER_PER_MINUTE   requests per signed-in user (default 10)
+//   RATE_LIMIT_IP_PER_MINUTE     requests per client IP (default 30)
+//   RATE_LIMIT_BURST             back-to-back requests before throttling (default: half the per-minute rate)
+//   LLM_DAILY_TOKEN_BUDGET       estimated LLM tokens per user per UTC day; 0 disables (default 200000)
+
+type Env = Record<string, string | undefined>;
+
+function readEnv(): Env {
+  return ((globalThis as any)?.process?.env ?? {}) as Env;
+}
+
+function positiveInt(value: string | undefined): number | undefined {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+function nonNegativeInt(value: string | undefined): number | undefined {
+  const parsed = Number(value);
+  return value !== undefined && value !== '' && Number.isInteger(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
+// Also used on its own by endpoints that need a simple attempt counter, e.g. /api/mfa-recovery.
+export function createLimitStoreFromEnv(env: Env = readEnv()): LimitStore {
+  const selected = (env.RATE_LIMIT_STORE || 'memory').toLowerCase();
+
+  if (selected === 'redis') {
+    const url = env.RATE_LIMIT_REDIS_URL || env.UPSTASH_REDIS_REST_URL;
+    const token = env.RATE_LIMIT_REDIS_TOKEN || env.UPSTASH_REDIS_REST_TOKEN;
+    if (url && token) return createRedisLimitStore({ url, token });
+    console.error('Aurora limits: RATE_LIMIT_STORE=redis needs a REST URL and token; using the memory store.');
+  } else if (selected === 'supabase') {
+    if (env.SUPABASE_URL && env.SUPABASE_SERVICE_ROLE_KEY) {
+      return createSupabaseLimitStore({ url: env.SUPABASE_URL, serviceRoleKey: env.SUPABASE_SERVICE_ROLE_KEY });
+    }
+    console.error(
+      'Aurora limits: RATE_LIMIT_STORE=supabase needs SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY; using the memory store.',
+    );
+  } else if (selected !== 'memory') {
+    console.error(`Aurora limits: unknown store "${selected}"; using the memory store.`);
+  }
+
+  return createMemoryLimitStore();
+}
+
+export function createChatLimiterFromEnv(env: Env = readEnv()): ChatLimiter {
+  return createChatLimiter({
+    store: createLimitStoreFromEnv(env),
+    userPerMinute: positiveInt(env.RATE_LIMIT_USER_PER_MINUTE),
+    ipPerMinute: positiveInt(env.RATE_LIMIT_IP_PER_MINUTE),
+    burst: positiveInt(env.RATE_LIMIT_BURST),
+    dailyTokenBudget: nonNegativeInt(env.LLM_DAILY_TOKEN_BUDGET),
+  });
+}
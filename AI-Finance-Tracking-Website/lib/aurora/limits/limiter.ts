@@ -0,0 +1,104 @@
+import { retryAfterMs, type BucketSpec, type LimitStore } from './types.js';
+
+// Request throttling for /api/chat: a token bucket per signed-in user and one per client IP
+// (both apply to signed-in users, so rotating accounts from one address does not help), plus
+// a daily budget of LLM tokens per user, or per IP for anonymous sessions.
+
+export interface LimitSubject {
+  userId: string | null;
+  ip: string | null;
+}
+
+export type LimitDecision =
+  | { allowed: true }
+  | { allowed: false; reason: 'rate' | 'daily-budget'; retryAfterSeconds: number };
+
+export interface ChatLimiter {
+  check(subject: LimitSubject): Promise<LimitDecision>;
+  recordLlmUsage(subject: LimitSubject, tokens: number): Promise<void>;
+}
+
+export interface ChatLimiterOptions {
+  store: LimitStore;
+  userPerMinute?: number;
+  ipPerMinute?: number;
+  // Requests allowed back to back before the per-minute refill applies.
+  burst?: number;
+  // 0 disables the daily budget.
+  dailyTokenBudget?: number;
+}
+
+function budgetKey(subject: LimitSubject, now: Date): string | null {
+  const who = subject.userId ? `user:${subject.userId}` : subject.ip ? `ip:${subject.ip}` : null;
+  return who ? `llm-tokens:${who}:${now.toISOString().slice(0, 10)}` : null;
+}
+
+function msUntilUtcMidnight(now: Date): number {
+  return Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1) - now.getTime();
+}
+
+export function createChatLimiter(options: ChatLimiterOptions): ChatLimiter {
+  const { store } = options;
+  const userPerMinute = options.userPerMinute ?? 10;
+  const ipPerMinute = options.ipPerMinute ?? 30;
+  const dailyTokenBudget = options.dailyTokenBudget ?? 200_000;
+
+  function bucket(perMinute: number): BucketSpec {
+    return { capacity: options.burst ?? Math.max(1, Math.ceil(perMinute / 2)), refillPerSecond: perMinute / 60 };
+  }
+
+  // A broken store should not take the chat down with it: errors are logged and let through.
+  async function failOpen<T>(label: string, run: () => Promise<T>, fallback: T): Promise<T> {
+    try {
+      return await run();
+    } catch (err) {
+      console.error(`Aurora limits (${store.name}): ${label} failed; allowing the request`, err);
+      return fallback;
+    }
+  }
+
+  return {
+    async check(subject) {
+      const now = new Date();
+
+      const key = budgetKey(subject, now);
+      if (key && dailyTokenBudget > 0) {
+        const used = await failOpen('budget read', () => store.addToCounter(key, 0, msUntilUtcMidnight(now)), 0);
+        if (used >= dailyTokenBudget) {
+          return {
+            allowed: false,
+            reason: 'daily-budget',
+            retryAfterSeconds: Math.ceil(msUntilUtcMidnight(now) / 1000),
+          };
+        }
+      }
+
+      const buckets: [string, BucketSpec][] = [];
+      if (subject.userId) buckets.push([`rate:user:${subject.userId}`, bucket(userPerMinute)]);
+      if (subject.ip) buckets.push([`rate:ip:${subject.ip}`, bucket(ipPerMinute)]);
+
+      for (const [bucketKey, spec] of buckets) {
+        const result = await failOpen('bucket', () => store.takeToken(bucketKey, spec), {
+          allowed: true,
+          tokens: spec.capacity,
+        });
+        if (!result.allowed) {
+          return {
+            allowed: false,
+            reason: 'rate',
+            retryAfterSeconds: Math.max(1, Math.ceil(retryAfterMs(result, spec) / 1000)),
+          };
+        }
+      }
+
+      return { allowed: true };
+    },
+
+    async recordLlmUsage(subject, tokens) {
+      const now = new Date();
+      const key = budgetKey(subject, now);
+      if (!key || tokens <= 0 || dailyTokenBudget <= 0) return;
+      await failOpen('usage write', () => store.addToCounter(key, tokens, msUntilUtcMidnight(now)), 0);
+    },
+  };
+}
@@ -0,0 +1,52 @@
+import type { LimitStore } from './types.js';
+
+// Per-instance store for development and single-instance deployments. Each serverless
+// instance keeps its own buckets, so limits are only approximate when traffic is spread.
+
+const DEFAULT_MAX_KEYS = 10_000;
+
+export function createMemoryLimitStore(options: { maxKeys?: number } = {}): LimitStore {
+  const maxKeys = options.maxKeys ?? DEFAULT_MAX_KEYS;
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+  const counters = new Map<string, { value: number; expiresAt: number }>();
+
+  // Maps iterate in insertion order, so the first key is the least recently written.
+  function evict<V>(map: Map<string, V>) {
+    while (map.size > maxKeys) {
+      const oldest = map.keys().next().value;
+      if (oldest === undefined) break;
+      map.delete(oldest);
+    }
+  }
+
+  return {
+    name: 'memory',
+
+    async takeToken(key, { capacity, refillPerSecond }) {
+      const now = Date.now();
+      const current = buckets.get(key) ?? { tokens: capacity, updatedAt: now };
+      let tokens = Math.min(capacity, current.tokens + ((now - current.updatedAt) / 1000) * refillPerSecond);
+      const allowed = tokens >= 1;
+      if (allowed) tokens -= 1;
+
+      buckets.delete(key);
+      buckets.set(key, { tokens, updatedAt: now });
+      evict(buckets);
+      return { allowed, tokens };
+    },
+
+    async addToCounter(key, amount, ttlMs) {
+      const now = Date.now();
+      const current = counters.get(key);
+      const entry =
+        current && current.expiresAt > now
+          ? { value: current.value + amount, expiresAt: current.expiresAt }
+          : { value: amount, expiresAt: now + ttlMs };
+
+      counters.delete(key);
+      counters.set(key, entry);
+      evict(counters);
+      return entry.value;
+    },
+  };
+}
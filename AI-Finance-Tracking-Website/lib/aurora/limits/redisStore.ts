@@ -0,0 +1,75 @@
+import type { LimitStore } from './types.js';
+
+// Redis over the Upstash-style REST protocol (POST a command array, get `{ result }` back),
+// which works from serverless functions without a pooled TCP connection. Each operation is a
+// Lua script so the read-modify-write happens atomically inside Redis.
+
+const TAKE_TOKEN_SCRIPT = `
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'ts')
+local capacity = tonumber(ARGV[1])
+local rate = tonumber(ARGV[2])
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local tokens = tonumber(state[1]) or capacity
+local ts = tonumber(state[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - ts) / 1000 * rate)
+local allowed = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'ts', tostring(now))
+redis.call('PEXPIRE', KEYS[1], math.ceil(capacity / rate * 1000))
+return { allowed, tostring(tokens) }
+`;
+
+const ADD_TO_COUNTER_SCRIPT = `
+local value = redis.call('INCRBY', KEYS[1], ARGV[1])
+if redis.call('PTTL', KEYS[1]) < 0 then
+  redis.call('PEXPIRE', KEYS[1], ARGV[2])
+end
+return value
+`;
+
+export function createRedisLimitStore(options: {
+  url: string;
+  token: string;
+  keyPrefix?: string;
+  timeoutMs?: number;
+}): LimitStore {
+  const prefix = options.keyPrefix ?? 'aurora:limits:';
+
+  async function command(args: (string | number)[]): Promise<any> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), options.timeoutMs ?? 2_000);
+    try {
+      const res = await fetch(options.url, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${options.token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify(args.map(String)),
+        signal: controller.signal,
+      });
+      const json: any = await res.json().catch(() => null);
+      if (!res.ok || json?.error) {
+        throw new Error(`redis limit store: ${json?.error ?? `request failed with ${res.status}`}`);
+      }
+      return json?.result;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  return {
+    name: 'redis',
+
+    async takeToken(key, { capacity, refillPerSecond }) {
+      const result = await command(['EVAL', TAKE_TOKEN_SCRIPT, 1, prefix + key, capacity, refillPerSecond]);
+      return { allowed: Number(result?.[0]) === 1, tokens: Number(result?.[1]) || 0 };
+    },
+
+    async addToCounter(key, amount, ttlMs) {
+      const result = await command(['EVAL', ADD_TO_COUNTER_SCRIPT, 1, prefix + key, Math.round(amount), ttlMs]);
+      return Number(result) || 0;
+    },
+  };
+}
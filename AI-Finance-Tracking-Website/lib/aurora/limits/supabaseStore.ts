@@ -0,0 +1,35 @@
+import { createClient } from '@supabase/supabase-js';
+import type { LimitStore } from './types.js';
+
+// Postgres-backed store using the `take_rate_limit_token` / `add_rate_limit_usage` functions
+// from supabase/migrations. Those functions are only executable by the service role, so the
+// limit tables cannot be read or reset with a user's token.
+
+export function createSupabaseLimitStore(options: { url: string; serviceRoleKey: string }): LimitStore {
+  const client = createClient(options.url, options.serviceRoleKey, { auth: { persistSession: false } });
+
+  return {
+    name: 'supabase',
+
+    async takeToken(key, { capacity, refillPerSecond }) {
+      const { data, error } = await client.rpc('take_rate_limit_token', {
+        p_key: key,
+        p_capacity: capacity,
+        p_refill_per_second: refillPerSecond,
+      });
+      if (error) throw new Error(`supabase limit store: ${error.message}`);
+      const row = Array.isArray(data) ? data[0] : data;
+      return { allowed: Boolean(row?.allowed), tokens: Number(row?.tokens) || 0 };
+    },
+
+    async addToCounter(key, amount, ttlMs) {
+      const { data, error } = await client.rpc('add_rate_limit_usage', {
+        p_key: key,
+        p_amount: Math.round(amount),
+        p_ttl_seconds: Math.ceil(ttlMs / 1000),
+      });
+      if (error) throw new Error(`supabase limit store: ${error.message}`);
+      return Number(data) || 0;
+    },
+  };
+}
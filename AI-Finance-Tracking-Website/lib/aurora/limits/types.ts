@@ -0,0 +1,26 @@
+// Storage behind Aurora's request limits. Both operations must be atomic per key in the
+// backing store, because several serverless instances share one store in production.
+
+export interface BucketSpec {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+export interface BucketResult {
+  allowed: boolean;
+  // Tokens left after this request (fractional while refilling).
+  tokens: number;
+}
+
+export interface LimitStore {
+  readonly name: string;
+  // Refills the bucket for the time since it was last touched, then takes one token if it can.
+  takeToken(key: string, bucket: BucketSpec): Promise<BucketResult>;
+  // Adds `amount` to a counter that expires `ttlMs` after its first write; returns the total.
+  // An amount of 0 reads the counter.
+  addToCounter(key: string, amount: number, ttlMs: number): Promise<number>;
+}
+
+export function retryAfterMs(result: BucketResult, bucket: BucketSpec): number {
+  return result.allowed ? 0 : Math.ceil(((1 - result.tokens) / bucket.refillPerSecond) * 1000);
+}
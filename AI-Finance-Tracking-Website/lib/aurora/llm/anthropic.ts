@@ -0,0 +1,179 @@
+import { postJson, readSseStream } from './http.js';
+import type {
+  LlmCompletionRequest,
+  LlmMessage,
+  LlmProvider,
+  LlmSettings,
+  LlmToolCall,
+  LlmTurn,
+} from './types.js';
+
+// Anthropic Messages API. System prompts travel separately, tool calls are `tool_use`
+// content blocks, and tool results go back as `tool_result` blocks on a user turn.
+
+const ANTHROPIC_URL = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_VERSION = '2023-06-01';
+const MAX_OUTPUT_TOKENS = 1024;
+
+export interface AnthropicOptions extends LlmSettings {
+  apiKey: string;
+  url?: string;
+}
+
+function toWireMessages(messages: LlmMessage[]): { system: string; messages: any[] } {
+  const system: string[] = [];
+  const wire: any[] = [];
+
+  // Consecutive blocks for the same role are merged: the API requires alternating turns.
+  const push = (role: 'user' | 'assistant', blocks: any[]) => {
+    const last = wire[wire.length - 1];
+    if (last && last.role === role) {
+      last.content.push(...blocks);
+    } else {
+      wire.push({ role, content: blocks });
+    }
+  };
+
+  for (const message of messages) {
+    switch (message.role) {
+      case 'system':
+        system.push(message.content);
+        break;
+      case 'user':
+        push('user', [{ type: 'text', text: message.content }]);
+        break;
+      case 'assistant':
+        push('assistant', [
+          ...(message.content ? [{ type: 'text', text: message.content }] : []),
+          ...(message.toolCalls ?? []).map((call) => ({
+            type: 'tool_use',
+            id: call.id,
+            name: call.name,
+            input: safeParseObject(call.arguments),
+          })),
+        ]);
+        break;
+      case 'tool':
+        push('user', [
+          { type: 'tool_result', tool_use_id: message.toolCallId, content: message.content },
+        ]);
+        break;
+    }
+  }
+
+  return { system: system.join('\n\n'), messages: wire };
+}
+
+function safeParseObject(json: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(json || '{}');
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function parseMessage(data: any): LlmTurn {
+  const blocks: any[] = Array.isArray(data?.content) ? data.content : [];
+  return {
+    content: blocks
+      .filter((block) => block.type === 'text')
+      .map((block) => String(block.text ?? ''))
+      .join(''),
+    toolCalls: blocks
+      .filter((block) => block.type === 'tool_use')
+      .map((block) => ({
+        id: String(block.id),
+        name: String(block.name),
+        arguments: JSON.stringify(block.input ?? {}),
+      })),
+  };
+}
+
+async function readStream(response: Response, onToken: (token: string) => void): Promise<LlmTurn> {
+  let content = '';
+  const toolCalls = new Map<number, LlmToolCall>();
+
+  await readSseStream(response, (event, payload) => {
+    if (event === 'message_stop') return false;
+
+    try {
+      const data = JSON.parse(payload);
+      if (data.type === 'content_block_start' && data.content_block?.type === 'tool_use') {
+        toolCalls.set(data.index, {
+          id: String(data.content_block.id),
+          name: String(data.content_block.name),
+          arguments: '',
+        });
+      } else if (data.type === 'content_block_delta') {
+        if (data.delta?.type === 'text_delta' && data.delta.text) {
+          content += data.delta.text;
+          onToken(data.delta.text);
+        } else if (data.delta?.type === 'input_json_delta') {
+          const call = toolCalls.get(data.index);
+          if (call) call.arguments += data.delta.partial_json ?? '';
+        }
+      }
+    } catch {
+      // ignore pings and partial frames
+    }
+    return true;
+  });
+
+  return {
+    content,
+    toolCalls: Array.from(toolCalls.values()).map((call) => ({
+      ...call,
+      arguments: call.arguments || '{}',
+    })),
+  };
+}
+
+export function createAnthropicProvider(options: AnthropicOptions): LlmProvider {
+  return {
+    name: 'anthropic',
+    model: options.model,
+    async complete({
+      messages,
+      tools,
+      toolChoice = 'auto',
+      onToken,
+      signal,
+    }: LlmCompletionRequest): Promise<LlmTurn> {
+      const streaming = typeof onToken === 'function';
+      const { system, messages: wireMessages } = toWireMessages(messages);
+
+      return postJson(
+        'anthropic',
+        options.url ?? ANTHROPIC_URL,
+        {
+          headers: {
+            'x-api-key': options.apiKey,
+            'anthropic-version': ANTHROPIC_VERSION,
+          },
+          timeoutMs: options.timeoutMs,
+          signal,
+          body: {
+            model: options.model,
+            max_tokens: MAX_OUTPUT_TOKENS,
+            temperature: options.temperature,
+            ...(system ? { system } : {}),
+            messages: wireMessages,
+            stream: streaming,
+            ...(tools?.length
+              ? {
+                  tools: tools.map((tool) => ({
+                    name: tool.name,
+                    description: tool.description,
+                    input_schema: tool.parameters,
+                  })),
+                  tool_choice: { type: toolChoice },
+                }
+              : {}),
+          },
+        },
+        (res) => (streaming ? readStream(res, onToken!) : res.json().then(parseMessage)),
+      );
+    },
+  };
+}
@@ -0,0 +1,57 @@
+import type { LlmCompletionRequest, LlmMessage, LlmProvider, LlmTurn } from './types.js';
+
+// Deterministic stand-in for a real model, for tests and offline development.
+// With no rules it echoes the latest user message. Rules let a test script a tool call
+// for a matching question, followed by a canned reply once the tool results are in.
+
+export interface FixtureRule {
+  // Case-insensitive substring of the latest user message.
+  match: string;
+  reply?: string;
+  toolCalls?: { name: string; arguments?: Record<string, unknown> }[];
+}
+
+function lastUserIndex(messages: LlmMessage[]): number {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role === 'user') return i;
+  }
+  return -1;
+}
+
+export function createFixtureProvider(rules: FixtureRule[] = []): LlmProvider {
+  return {
+    name: rules.length ? 'fixture' : 'echo',
+    model: 'fixture',
+    async complete({ messages, tools, toolChoice, onToken }: LlmCompletionRequest): Promise<LlmTurn> {
+      const userIndex = lastUserIndex(messages);
+      const question = userIndex >= 0 ? (messages[userIndex] as { content: string }).content : '';
+      const toolResults = messages
+        .slice(userIndex + 1)
+        .filter((m): m is Extract<LlmMessage, { role: 'tool' }> => m.role === 'tool');
+
+      const rule = rules.find((r) => question.toLowerCase().includes(r.match.toLowerCase()));
+
+      if (rule?.toolCalls?.length && tools?.length && toolChoice !== 'none' && toolResults.length === 0) {
+        return {
+          content: '',
+          toolCalls: rule.toolCalls.map((call, index) => ({
+            id: `fixture-call-${index + 1}`,
+            name: call.name,
+            arguments: JSON.stringify(call.arguments ?? {}),
+          })),
+        };
+      }
+
+      let content = rule?.reply ?? `Echo: ${question}`;
+      if (!rule?.reply && toolResults.length) {
+        content += `\n\nTool results:\n${toolResults.map((t) => `${t.name}: ${t.content}`).join('\n')}`;
+      }
+
+      if (onToken) {
+        for (const piece of content.match(/\S+\s*|\s+/g) ?? []) onToken(piece);
+      }
+
+      return { content, toolCalls: [] };
+    },
+  };
+}
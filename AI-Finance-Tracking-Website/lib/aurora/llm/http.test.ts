@@ -0,0 +1,89 @@
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { postJson, readSseStream } from './http.js';
+
+// A provider that sends one SSE frame and then holds the stream open, like a model that is
+// still generating. `closed` resolves once the client has torn the connection down.
+function startStreamingServer(): Promise<{ server: Server; url: string; requests: number[]; closed: Promise<void> }> {
+  const requests: number[] = [];
+  let markClosed!: () => void;
+  const closed = new Promise<void>((resolve) => {
+    markClosed = resolve;
+  });
+  const server = createServer((req: IncomingMessage, res) => {
+    requests.push(Date.now());
+    req.resume();
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+    res.write('data: {"text":"first"}\n\n');
+    res.on('close', markClosed);
+  });
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, url: `http://127.0.0.1:${port}/`, requests, closed });
+    });
+  });
+}
+
+describe('postJson', () => {
+  let server: Server | undefined;
+
+  afterEach(async () => {
+    server?.closeAllConnections();
+    await new Promise((resolve) => server?.close(resolve));
+    server = undefined;
+  });
+
+  it('cancels the body read when the caller aborts mid-stream', async () => {
+    const started = await startStreamingServer();
+    server = started.server;
+    const controller = new AbortController();
+    const frames: string[] = [];
+
+    const request = postJson(
+      'test',
+      started.url,
+      { headers: {}, body: {}, timeoutMs: 10_000, signal: controller.signal },
+      (res) =>
+        readSseStream(res, (_event, data) => {
+          frames.push(data);
+          controller.abort();
+        }),
+    );
+
+    await expect(request).rejects.toThrow();
+    expect(frames).toEqual(['{"text":"first"}']);
+    // The upstream connection goes away rather than streaming on unread.
+    await started.closed;
+  });
+
+  it('stops a stream that outlives the timeout', async () => {
+    const started = await startStreamingServer();
+    server = started.server;
+
+    const request = postJson('test', started.url, { headers: {}, body: {}, timeoutMs: 200 }, (res) =>
+      readSseStream(res, () => undefined),
+    );
+
+    await expect(request).rejects.toThrow('test: timed out after 200 ms');
+    await started.closed;
+  });
+
+  it('does not send a request for a signal that is already aborted', async () => {
+    const started = await startStreamingServer();
+    server = started.server;
+    const controller = new AbortController();
+    controller.abort();
+
+    const request = postJson(
+      'test',
+      started.url,
+      { headers: {}, body: {}, timeoutMs: 10_000, signal: controller.signal },
+      (res) => res.text(),
+    );
+
+    await expect(request).rejects.toThrow('test: request was cancelled');
+    expect(started.requests).toEqual([]);
+  });
+});
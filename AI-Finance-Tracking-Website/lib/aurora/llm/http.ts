@@ -0,0 +1,84 @@
+import { LlmProviderError } from './types.js';
+
+// Shared plumbing for HTTP-backed providers: per-call timeouts and cancellation, and
+// server-sent event parsing.
+
+// Sends the request and hands the response to `read`. The caller's signal and the timeout
+// stay attached until `read` settles, so cancelling mid-stream also stops the body download
+// (and the upstream tokens it would bill for).
+export async function postJson<T>(
+  provider: string,
+  url: string,
+  init: { headers: Record<string, string>; body: unknown; timeoutMs: number; signal?: AbortSignal },
+  read: (response: Response) => Promise<T>,
+): Promise<T> {
+  // A signal that is already aborted never fires `abort` again.
+  if (init.signal?.aborted) {
+    throw new LlmProviderError(provider, 'request was cancelled');
+  }
+
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  init.signal?.addEventListener('abort', onAbort);
+  const timer = setTimeout(() => controller.abort(), init.timeoutMs);
+
+  try {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...init.headers },
+      body: JSON.stringify(init.body),
+      signal: controller.signal,
+    });
+
+    if (!res.ok) {
+      throw new LlmProviderError(provider, `request failed with ${res.status}`, res.status);
+    }
+    return await read(res);
+  } catch (err) {
+    if (controller.signal.aborted && !init.signal?.aborted) {
+      throw new LlmProviderError(provider, `timed out after ${init.timeoutMs} ms`);
+    }
+    throw err;
+  } finally {
+    clearTimeout(timer);
+    init.signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+// Calls `onEvent` for every `data:` payload, with the most recent `event:` name (if any).
+// Returning `false` from the callback stops reading.
+export async function readSseStream(
+  response: Response,
+  onEvent: (event: string | null, data: string) => boolean | void,
+): Promise<void> {
+  const reader = response.body?.getReader();
+  if (!reader) return;
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event: string | null = null;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    buffer += decoder.decode(value, { stream: true });
+
+    let newline = buffer.indexOf('\n');
+    while (newline !== -1) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      newline = buffer.indexOf('\n');
+
+      if (!line) {
+        event = null;
+      } else if (line.startsWith('event:')) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        if (onEvent(event, line.slice(5).trim()) === false) {
+          await reader.cancel().catch(() => undefined);
+          return;
+        }
+      }
+    }
+  }
+}
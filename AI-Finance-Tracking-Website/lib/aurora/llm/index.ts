@@ -0,0 +1,110 @@
+import { createAnthropicProvider } from './anthropic.js';
+import { createFixtureProvider, type FixtureRule } from './fixture.js';
+import { createOpenAiCompatibleProvider } from './openaiCompatible.js';
+import type { LlmProvider, LlmSettings } from './types.js';
+
+export * from './types.js';
+export { createAnthropicProvider } from './anthropic.js';
+export { createFixtureProvider, type FixtureRule } from './fixture.js';
+export { createMeteredProvider } from './metered.js';
+export { createOpenAiCompatibleProvider } from './openaiCompatible.js';
+
+// Provider selection from environment config.
+//
+//   AURORA_LLM_PROVIDER   openai | anthropic | azure | local | echo
+//                         (defaults to openai when OPENAI_API_KEY is set, otherwise none)
+//
+// Each provider reads `<PREFIX>_MODEL`, `<PREFIX>_TEMPERATURE` and `<PREFIX>_TIMEOUT_MS`:
+//   openai     OPENAI_API_KEY, OPENAI_BASE_URL
+//   anthropic  ANTHROPIC_API_KEY
+//   azure      AZURE_OPENAI_ENDPOINT, AZURE_OPENAI_API_KEY, AZURE_OPENAI_DEPLOYMENT,
+//              AZURE_OPENAI_API_VERSION
+//   local      LOCAL_LLM_BASE_URL (an OpenAI-compatible /v1 root), LOCAL_LLM_API_KEY
+//   echo       AURORA_LLM_FIXTURES (optional JSON array of fixture rules)
+
+export type LlmProviderName = 'openai' | 'anthropic' | 'azure' | 'local' | 'echo';
+
+type Env = Record<string, string | undefined>;
+
+const DEFAULT_TEMPERATURE = 0.2;
+// Covers the whole response, a streamed answer included.
+const DEFAULT_TIMEOUT_MS = 60_000;
+
+function readEnv(): Env {
+  return ((globalThis as any)?.process?.env ?? {}) as Env;
+}
+
+function settingsFor(env: Env, prefix: string, defaultModel: string): LlmSettings {
+  const temperature = Number(env[`${prefix}_TEMPERATURE`]);
+  const timeoutMs = Number(env[`${prefix}_TIMEOUT_MS`]);
+  return {
+    model: env[`${prefix}_MODEL`] || defaultModel,
+    temperature: Number.isFinite(temperature) ? temperature : DEFAULT_TEMPERATURE,
+    timeoutMs: Number.isFinite(timeoutMs) && timeoutMs > 0 ? timeoutMs : DEFAULT_TIMEOUT_MS,
+  };
+}
+
+function parseFixtureRules(json: string | undefined): FixtureRule[] {
+  if (!json) return [];
+  try {
+    const parsed = JSON.parse(json);
+    return Array.isArray(parsed) ? parsed.filter((rule) => typeof rule?.match === 'string') : [];
+  } catch {
+    console.error('Aurora: AURORA_LLM_FIXTURES is not valid JSON; falling back to echo.');
+    return [];
+  }
+}
+
+// Returns null when nothing is configured, so callers can fall back to heuristic answers.
+export function createLlmProviderFromEnv(env: Env = readEnv()): LlmProvider | null {
+  const selected = (env.AURORA_LLM_PROVIDER?.toLowerCase() ||
+    (env.OPENAI_API_KEY ? 'openai' : '')) as LlmProviderName | '';
+
+  switch (selected) {
+    case 'openai': {
+      if (!env.OPENAI_API_KEY) return null;
+      const baseUrl = (env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, '');
+      return createOpenAiCompatibleProvider({
+        name: 'openai',
+        url: `${baseUrl}/chat/completions`,
+        headers: { Authorization: `Bearer ${env.OPENAI_API_KEY}` },
+        ...settingsFor(env, 'OPENAI', 'gpt-4o-mini'),
+      });
+    }
+    case 'anthropic': {
+      if (!env.ANTHROPIC_API_KEY) return null;
+      return createAnthropicProvider({
+        apiKey: env.ANTHROPIC_API_KEY,
+        ...settingsFor(env, 'ANTHROPIC', 'claude-3-5-haiku-latest'),
+      });
+    }
+    case 'azure': {
+      const endpoint = env.AZURE_OPENAI_ENDPOINT?.replace(/\/+$/, '');
+      const deployment = env.AZURE_OPENAI_DEPLOYMENT;
+      if (!endpoint || !deployment || !env.AZURE_OPENAI_API_KEY) return null;
+      const apiVersion = env.AZURE_OPENAI_API_VERSION || '2024-06-01';
+      return createOpenAiCompatibleProvider({
+        name: 'azure',
+        url: `${endpoint}/openai/deployments/${encodeURIComponent(
+          deployment,
+        )}/chat/completions?api-version=${encodeURIComponent(apiVersion)}`,
+        headers: { 'api-key': env.AZURE_OPENAI_API_KEY },
+        sendModel: false,
+        ...settingsFor(env, 'AZURE_OPENAI', deployment),
+      });
+    }
+    case 'local': {
+      const baseUrl = (env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1').replace(/\/+$/, '');
+      return createOpenAiCompatibleProvider({
+        name: 'local',
+        url: `${baseUrl}/chat/completions`,
+        headers: env.LOCAL_LLM_API_KEY ? { Authorization: `Bearer ${env.LOCAL_LLM_API_KEY}` } : {},
+        ...settingsFor(env, 'LOCAL_LLM', 'llama3.1'),
+      });
+    }
+    case 'echo':
+      return createFixtureProvider(parseFixtureRules(env.AURORA_LLM_FIXTURES));
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,33 @@
+import type { LlmMessage, LlmProvider } from './types.js';
+
+// Wraps a provider to report roughly how many tokens each call used, for per-user budgets.
+// Providers do not all return usage (and not when streaming), so this estimates from the
+// text sent and received at ~4 characters per token, counting tool schemas and calls too.
+
+function messageChars(message: LlmMessage): number {
+  const toolCalls = message.role === 'assistant' ? message.toolCalls ?? [] : [];
+  return message.content.length + toolCalls.reduce((sum, call) => sum + call.name.length + call.arguments.length, 0);
+}
+
+export function createMeteredProvider(provider: LlmProvider, onUsage: (tokens: number) => void): LlmProvider {
+  return {
+    name: provider.name,
+    model: provider.model,
+    async complete(request) {
+      const promptChars =
+        request.messages.reduce((sum, message) => sum + messageChars(message), 0) +
+        JSON.stringify(request.tools ?? []).length;
+      let completionChars = 0;
+
+      try {
+        const turn = await provider.complete(request);
+        completionChars =
+          turn.content.length + turn.toolCalls.reduce((sum, call) => sum + call.name.length + call.arguments.length, 0);
+        return turn;
+      } finally {
+        // Failed and cancelled calls still cost the prompt.
+        onUsage(Math.ceil((promptChars + completionChars) / 4));
+      }
+    },
+  };
+}
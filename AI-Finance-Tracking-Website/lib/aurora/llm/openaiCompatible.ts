@@ -0,0 +1,127 @@
+import { postJson, readSseStream } from './http.js';
+import type {
+  LlmCompletionRequest,
+  LlmMessage,
+  LlmProvider,
+  LlmSettings,
+  LlmToolCall,
+  LlmTurn,
+} from './types.js';
+
+// Chat Completions wire format, spoken by OpenAI, Azure OpenAI and most local servers
+// (Ollama, llama.cpp, LM Studio, vLLM).
+
+export interface OpenAiCompatibleOptions extends LlmSettings {
+  name: string;
+  url: string;
+  headers?: Record<string, string>;
+  // Azure selects the model through the deployment in the URL, so it skips this field.
+  sendModel?: boolean;
+}
+
+function toWireMessage(message: LlmMessage): Record<string, unknown> {
+  switch (message.role) {
+    case 'assistant':
+      return {
+        role: 'assistant',
+        content: message.content || null,
+        ...(message.toolCalls?.length
+          ? {
+              tool_calls: message.toolCalls.map((call) => ({
+                id: call.id,
+                type: 'function',
+                function: { name: call.name, arguments: call.arguments },
+              })),
+            }
+          : {}),
+      };
+    case 'tool':
+      return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+    default:
+      return { role: message.role, content: message.content };
+  }
+}
+
+function parseMessage(data: any): LlmTurn {
+  const message = data?.choices?.[0]?.message ?? {};
+  const toolCalls: LlmToolCall[] = Array.isArray(message.tool_calls)
+    ? message.tool_calls.map((call: any) => ({
+        id: String(call.id),
+        name: String(call.function?.name ?? ''),
+        arguments: String(call.function?.arguments ?? ''),
+      }))
+    : [];
+  return { content: typeof message.content === 'string' ? message.content : '', toolCalls };
+}
+
+// Tool calls arrive as fragments keyed by `index`; their JSON arguments are only complete
+// once the stream ends.
+async function readStream(response: Response, onToken: (token: string) => void): Promise<LlmTurn> {
+  let content = '';
+  const toolCalls: LlmToolCall[] = [];
+
+  await readSseStream(response, (_event, payload) => {
+    if (payload === '[DONE]') return false;
+
+    try {
+      const delta = JSON.parse(payload).choices?.[0]?.delta;
+      if (typeof delta?.content === 'string' && delta.content) {
+        content += delta.content;
+        onToken(delta.content);
+      }
+      for (const fragment of delta?.tool_calls ?? []) {
+        const index = typeof fragment.index === 'number' ? fragment.index : 0;
+        const call = (toolCalls[index] ??= { id: '', name: '', arguments: '' });
+        if (fragment.id) call.id = fragment.id;
+        if (fragment.function?.name) call.name += fragment.function.name;
+        if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+      }
+    } catch {
+      // ignore keep-alive or partial frames
+    }
+    return true;
+  });
+
+  return { content, toolCalls: toolCalls.filter(Boolean) };
+}
+
+export function createOpenAiCompatibleProvider(options: OpenAiCompatibleOptions): LlmProvider {
+  const sendModel = options.sendModel ?? true;
+
+  return {
+    name: options.name,
+    model: options.model,
+    async complete({
+      messages,
+      tools,
+      toolChoice = 'auto',
+      onToken,
+      signal,
+    }: LlmCompletionRequest): Promise<LlmTurn> {
+      const streaming = typeof onToken === 'function';
+
+      return postJson(
+        options.name,
+        options.url,
+        {
+          headers: options.headers ?? {},
+          timeoutMs: options.timeoutMs,
+          signal,
+          body: {
+            ...(sendModel ? { model: options.model } : {}),
+            temperature: options.temperature,
+            messages: messages.map(toWireMessage),
+            stream: streaming,
+            ...(tools?.length
+              ? {
+                  tools: tools.map((tool) => ({ type: 'function', function: tool })),
+                  tool_choice: toolChoice,
+                }
+              : {}),
+          },
+        },
+        (res) => (streaming ? readStream(res, onToken!) : res.json().then(parseMessage)),
+      );
+    },
+  };
+}
@@ -0,0 +1,58 @@
+// Provider-neutral shapes for Aurora's LLM calls. Each provider translates these to and
+// from its own wire format, so answer generation never sees vendor-specific JSON.
+
+export interface LlmToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+export interface LlmToolSpec {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export type LlmMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string; toolCalls?: LlmToolCall[] }
+  | { role: 'tool'; toolCallId: string; name: string; content: string };
+
+export interface LlmCompletionRequest {
+  messages: LlmMessage[];
+  tools?: LlmToolSpec[];
+  // 'none' keeps the tools described (earlier turns may have used them) but asks for a
+  // plain answer. Defaults to 'auto'.
+  toolChoice?: 'auto' | 'none';
+  // When set, the provider streams and reports each text fragment as it arrives.
+  onToken?: (token: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface LlmTurn {
+  content: string;
+  toolCalls: LlmToolCall[];
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  readonly model: string;
+  complete(request: LlmCompletionRequest): Promise<LlmTurn>;
+}
+
+export interface LlmSettings {
+  model: string;
+  temperature: number;
+  timeoutMs: number;
+}
+
+export class LlmProviderError extends Error {
+  constructor(
+    readonly provider: string,
+    message: string,
+    readonly status?: number,
+  ) {
+    super(`${provider}: ${message}`);
+    this.name = 'LlmProviderError';
+  }
+}
@@ -0,0 +1,90 @@
+import { MarketDataRateLimitError, type FxRate, type MarketDataProvider, type MarketQuote } from './types.js';
+
+// Alpha Vantage serves one symbol or currency pair per request, so a batch costs one
+// request per symbol against the quota.
+
+const BASE_URL = 'https://www.alphavantage.co/query';
+
+function assertNotThrottled(json: any) {
+  // Throttled responses are HTTP 200 with an explanatory `Note` or `Information` field.
+  const notice = json?.Note ?? json?.Information;
+  if (typeof notice === 'string' && /rate limit|call frequency|requests per/i.test(notice)) {
+    throw new MarketDataRateLimitError('alphavantage');
+  }
+}
+
+function toIso(value: unknown, fallback: string): string {
+  if (typeof value !== 'string' || !value) return fallback;
+  const normalised = /^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T00:00:00Z` : `${value.replace(' ', 'T')}Z`;
+  const time = Date.parse(normalised);
+  return Number.isNaN(time) ? fallback : new Date(time).toISOString();
+}
+
+export function createAlphaVantageProvider(options: {
+  apiKey: string;
+  perMinute?: number;
+  perDay?: number;
+}): MarketDataProvider {
+  const key = encodeURIComponent(options.apiKey);
+
+  return {
+    name: 'alphavantage',
+    quota: [
+      { limit: options.perMinute ?? 5, windowMs: 60_000 },
+      { limit: options.perDay ?? 25, windowMs: 24 * 60 * 60_000 },
+    ],
+    cost: (_kind, count) => count,
+
+    async fetchFxRates(base, quotes) {
+      const out: FxRate[] = [];
+      for (const quote of quotes) {
+        const url = `${BASE_URL}?function=CURRENCY_EXCHANGE_RATE&from_currency=${encodeURIComponent(
+          base,
+        )}&to_currency=${encodeURIComponent(quote)}&apikey=${key}`;
+        const res = await fetch(url);
+        if (!res.ok) continue;
+        const json: any = await res.json();
+        assertNotThrottled(json);
+
+        const data = json['Realtime Currency Exchange Rate'] ?? {};
+        const rate = Number(data['5. Exchange Rate']);
+        if (!Number.isNaN(rate) && data['5. Exchange Rate'] != null) {
+          out.push({
+            base,
+            quote,
+            rate,
+            asOf: toIso(data['6. Last Refreshed'], new Date().toISOString()),
+            source: 'alphavantage',
+            stale: false,
+          });
+        }
+      }
+      return out;
+    },
+
+    async fetchStockQuotes(symbols) {
+      const out: MarketQuote[] = [];
+      for (const symbol of symbols) {
+        const url = `${BASE_URL}?function=GLOBAL_QUOTE&symbol=${encodeURIComponent(symbol)}&apikey=${key}`;
+        const res = await fetch(url);
+        if (!res.ok) continue;
+        const json: any = await res.json();
+        assertNotThrottled(json);
+
+        const quote = json['Global Quote'] || {};
+        const price = Number(quote['05. price']);
+        if (!Number.isNaN(price) && quote['05. price'] != null) {
+          out.push({
+            symbol: symbol.toUpperCase(),
+            price,
+            currency: quote['08. currency'] ?? 'USD',
+            asOf: toIso(quote['07. latest trading day'], new Date().toISOString()),
+            source: 'alphavantage',
+            stale: false,
+          });
+        }
+      }
+      return out;
+    },
+  };
+}
@@ -0,0 +1,57 @@
+import { getCoinGeckoId } from '../symbols.js';
+import { MarketDataRateLimitError, type MarketDataProvider, type MarketQuote } from './types.js';
+
+// CoinGecko prices any number of coins in one request, keyed by its own coin ids.
+
+const BASE_URL = 'https://api.coingecko.com/api/v3/simple/price';
+
+export function createCoinGeckoProvider(options: { perMinute?: number } = {}): MarketDataProvider {
+  return {
+    name: 'coingecko',
+    quota: [{ limit: options.perMinute ?? 30, windowMs: 60_000 }],
+
+    async fetchCryptoPrices(symbols, vsCurrency) {
+      const vs = vsCurrency.toLowerCase();
+      const idBySymbol = new Map<string, string>();
+      for (const symbol of symbols) {
+        const id = getCoinGeckoId(symbol);
+        if (id) idBySymbol.set(symbol.toUpperCase(), id);
+      }
+      if (idBySymbol.size === 0) return [];
+
+      const ids = Array.from(new Set(idBySymbol.values()));
+      const url = `${BASE_URL}?ids=${encodeURIComponent(ids.join(','))}&vs_currencies=${encodeURIComponent(
+        vs,
+      )}&include_last_updated_at=true`;
+      const res = await fetch(url);
+      if (res.status === 429) {
+        const retryAfter = Number(res.headers.get('Retry-After'));
+        throw new MarketDataRateLimitError(
+          'coingecko',
+          Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : undefined,
+        );
+      }
+      if (!res.ok) return [];
+      const json: any = await res.json();
+
+      const out: MarketQuote[] = [];
+      for (const [symbol, id] of idBySymbol) {
+        const entry = json[id];
+        const price = entry?.[vs];
+        if (typeof price !== 'number') continue;
+        out.push({
+          symbol,
+          price,
+          currency: vs.toUpperCase(),
+          asOf:
+            typeof entry.last_updated_at === 'number'
+              ? new Date(entry.last_updated_at * 1000).toISOString()
+              : new Date().toISOString(),
+          source: 'coingecko',
+          stale: false,
+        });
+      }
+      return out;
+    },
+  };
+}
@@ -0,0 +1,103 @@
+import { DEFAULT_MARKET_FIXTURE } from './fixtureData.js';
+import type { FxRate, MarketDataProvider, MarketQuote } from './types.js';
+
+// Serves prices from a static snapshot so the chat works offline and in tests. Point
+// MARKET_DATA_FIXTURE_FILE at a JSON file of the same shape to use your own numbers.
+
+export interface MarketFixture {
+  asOf: string;
+  // Rates keyed by base then quote currency, e.g. { USD: { EUR: 0.91 } }.
+  fx?: Record<string, Record<string, number>>;
+  stocks?: Record<string, { price: number; currency?: string }>;
+  // Prices keyed by symbol then lower-case quote currency, e.g. { BTC: { usd: 42000 } }.
+  crypto?: Record<string, Record<string, number>>;
+}
+
+function fxRate(fixture: MarketFixture, base: string, quote: string): number | null {
+  if (base === quote) return 1;
+  const fx = fixture.fx ?? {};
+  if (fx[base]?.[quote] != null) return fx[base][quote];
+  if (fx[quote]?.[base]) return 1 / fx[quote][base];
+
+  // Cross through any shared base, e.g. EUR→GBP via USD.
+  for (const [pivot, rates] of Object.entries(fx)) {
+    const toBase = pivot === base ? 1 : rates[base];
+    const toQuote = pivot === quote ? 1 : rates[quote];
+    if (toBase && toQuote != null) return toQuote / toBase;
+  }
+  return null;
+}
+
+// Accepts the snapshot itself or the pending result of `loadMarketFixture`.
+export function createFixtureMarketProvider(
+  snapshot: MarketFixture | Promise<MarketFixture> = DEFAULT_MARKET_FIXTURE,
+): MarketDataProvider {
+  const source = 'fixture';
+
+  return {
+    name: source,
+
+    async fetchFxRates(base, quotes) {
+      const fixture = await snapshot;
+      return quotes.flatMap((quote): FxRate[] => {
+        const rate = fxRate(fixture, base, quote);
+        return rate == null ? [] : [{ base, quote, rate, asOf: fixture.asOf, source, stale: false }];
+      });
+    },
+
+    async fetchStockQuotes(symbols) {
+      const fixture = await snapshot;
+      return symbols.flatMap((symbol): MarketQuote[] => {
+        const entry = fixture.stocks?.[symbol.toUpperCase()];
+        if (!entry) return [];
+        return [
+          {
+            symbol: symbol.toUpperCase(),
+            price: entry.price,
+            currency: entry.currency ?? 'USD',
+            asOf: fixture.asOf,
+            source,
+            stale: false,
+          },
+        ];
+      });
+    },
+
+    async fetchCryptoPrices(symbols, vsCurrency) {
+      const fixture = await snapshot;
+      const vs = vsCurrency.toLowerCase();
+      return symbols.flatMap((symbol): MarketQuote[] => {
+        const prices = fixture.crypto?.[symbol.toUpperCase()] ?? {};
+        const usdRate = prices.usd != null ? fxRate(fixture, 'USD', vs.toUpperCase()) : null;
+        const price = prices[vs] ?? (usdRate != null ? prices.usd * usdRate : null);
+        if (price == null) return [];
+        return [
+          {
+            symbol: symbol.toUpperCase(),
+            price,
+            currency: vs.toUpperCase(),
+            asOf: fixture.asOf,
+            source,
+            stale: false,
+          },
+        ];
+      });
+    },
+  };
+}
+
+export async function loadMarketFixture(path: string | undefined): Promise<MarketFixture> {
+  if (!path) return DEFAULT_MARKET_FIXTURE;
+  try {
+    const specifier = 'node:fs/promises';
+    const fs = await import(/* @vite-ignore */ specifier);
+    const parsed = JSON.parse(await fs.readFile(path, 'utf8'));
+    if (parsed && typeof parsed === 'object' && typeof parsed.asOf === 'string') {
+      return parsed as MarketFixture;
+    }
+    console.error(`Aurora market fixture ${path} has no asOf; using the bundled snapshot.`);
+  } catch (err) {
+    console.error(`Aurora market fixture ${path} could not be read; using the bundled snapshot.`, err);
+  }
+  return DEFAULT_MARKET_FIXTURE;
+}
@@ -0,0 +1,32 @@
+import type { MarketFixture } from './fixture.js';
+
+// Offline snapshot used by the `fixture` market data provider when no fixture file is
+// configured. Values are illustrative, not live.
+
+export const DEFAULT_MARKET_FIXTURE: MarketFixture = {
+  asOf: '2026-01-02T21:00:00Z',
+  fx: {
+    USD: { EUR: 0.912, GBP: 0.787, JPY: 148.6, CAD: 1.352, AUD: 1.503, CHF: 0.874, INR: 83.2 },
+  },
+  stocks: {
+    AAPL: { price: 192.53, currency: 'USD' },
+    MSFT: { price: 376.04, currency: 'USD' },
+    GOOGL: { price: 139.69, currency: 'USD' },
+    AMZN: { price: 151.94, currency: 'USD' },
+    NVDA: { price: 495.22, currency: 'USD' },
+    TSLA: { price: 248.48, currency: 'USD' },
+    META: { price: 353.96, currency: 'USD' },
+    SPY: { price: 475.31, currency: 'USD' },
+    VTI: { price: 237.22, currency: 'USD' },
+    VOO: { price: 436.8, currency: 'USD' },
+  },
+  crypto: {
+    BTC: { usd: 42265 },
+    ETH: { usd: 2282 },
+    SOL: { usd: 101.5 },
+    XRP: { usd: 0.62 },
+    DOGE: { usd: 0.089 },
+    USDT: { usd: 1.0 },
+    USDC: { usd: 1.0 },
+  },
+};
@@ -0,0 +1,62 @@
+import { createAlphaVantageProvider } from './alphaVantage.js';
+import { createCoinGeckoProvider } from './coinGecko.js';
+import { createFixtureMarketProvider, loadMarketFixture } from './fixture.js';
+import { createMarketDataService, type MarketDataService } from './service.js';
+import type { MarketDataProvider } from './types.js';
+
+export * from './types.js';
+export type { QuotaStatus } from './quota.js';
+export { createAlphaVantageProvider } from './alphaVantage.js';
+export { createCoinGeckoProvider } from './coinGecko.js';
+export { createFixtureMarketProvider, loadMarketFixture, type MarketFixture } from './fixture.js';
+export { createMarketDataService, type MarketDataService, type MarketDataServiceOptions } from './service.js';
+
+// Provider chain from environment config. Providers are asked in order; symbols one
+// provider cannot price (or cannot afford under its quota) fall through to the next.
+//
+//   MARKET_DATA_PROVIDERS   comma-separated list of alphavantage | coingecko | fixture
+//                           (default: alphavantage,coingecko)
+//   ALPHAVANTAGE_API_KEY    required for alphavantage; it is skipped without one
+//   ALPHAVANTAGE_QUOTA_PER_MINUTE / ALPHAVANTAGE_QUOTA_PER_DAY   (default 5 / 25)
+//   COINGECKO_QUOTA_PER_MINUTE                                   (default 30)
+//   MARKET_DATA_FIXTURE_FILE  JSON snapshot for the fixture provider (default: bundled)
+
+type Env = Record<string, string | undefined>;
+
+function readEnv(): Env {
+  return ((globalThis as any)?.process?.env ?? {}) as Env;
+}
+
+function positiveInt(value: string | undefined): number | undefined {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+export function createMarketDataServiceFromEnv(env: Env = readEnv()): MarketDataService {
+  const names = (env.MARKET_DATA_PROVIDERS || 'alphavantage,coingecko')
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  const providers: MarketDataProvider[] = [];
+  for (const name of names) {
+    if (name === 'alphavantage') {
+      if (!env.ALPHAVANTAGE_API_KEY) continue;
+      providers.push(
+        createAlphaVantageProvider({
+          apiKey: env.ALPHAVANTAGE_API_KEY,
+          perMinute: positiveInt(env.ALPHAVANTAGE_QUOTA_PER_MINUTE),
+          perDay: positiveInt(env.ALPHAVANTAGE_QUOTA_PER_DAY),
+        }),
+      );
+    } else if (name === 'coingecko') {
+      providers.push(createCoinGeckoProvider({ perMinute: positiveInt(env.COINGECKO_QUOTA_PER_MINUTE) }));
+    } else if (name === 'fixture') {
+      providers.push(createFixtureMarketProvider(loadMarketFixture(env.MARKET_DATA_FIXTURE_FILE)));
+    } else {
+      console.error(`Aurora: unknown market data provider "${name}" in MARKET_DATA_PROVIDERS.`);
+    }
+  }
+
+  return createMarketDataService({ providers });
+}
@@ -0,0 +1,66 @@
+import type { QuotaWindow } from './types.js';
+
+// Sliding-window request counter for a provider's published quota (e.g. Alpha Vantage's
+// free tier: 5 requests per minute and 25 per day).
+
+export interface QuotaStatus {
+  // null when the provider has no published quota.
+  remaining: number | null;
+  resetsAt: string | null;
+}
+
+export interface QuotaTracker {
+  available(): number;
+  consume(count: number): void;
+  exhaustFor(ms: number): void;
+  status(): QuotaStatus;
+}
+
+export function createQuotaTracker(windows: QuotaWindow[] = []): QuotaTracker {
+  const calls: number[] = [];
+  let blockedUntil = 0;
+  const longestWindow = Math.max(0, ...windows.map((w) => w.windowMs));
+
+  function prune(now: number) {
+    while (calls.length && now - calls[0] > longestWindow) calls.shift();
+  }
+
+  function available(now = Date.now()): number {
+    if (now < blockedUntil) return 0;
+    if (!windows.length) return Number.POSITIVE_INFINITY;
+    prune(now);
+    return Math.min(
+      ...windows.map((w) => w.limit - calls.filter((t) => now - t <= w.windowMs).length),
+    );
+  }
+
+  return {
+    available: () => Math.max(0, available()),
+    consume(count) {
+      const now = Date.now();
+      for (let i = 0; i < count; i++) calls.push(now);
+    },
+    exhaustFor(ms) {
+      blockedUntil = Math.max(blockedUntil, Date.now() + ms);
+    },
+    status() {
+      const now = Date.now();
+      const remaining = Math.max(0, available(now));
+      let resetsAt: number | null = now < blockedUntil ? blockedUntil : null;
+
+      if (remaining === 0 && resetsAt === null) {
+        // A slot frees once every exhausted window has aged out enough of its calls.
+        const resets = windows
+          .map((w) => ({ w, inWindow: calls.filter((t) => now - t <= w.windowMs) }))
+          .filter(({ w, inWindow }) => inWindow.length >= w.limit)
+          .map(({ w, inWindow }) => inWindow[inWindow.length - w.limit] + w.windowMs);
+        resetsAt = resets.length ? Math.max(...resets) : null;
+      }
+
+      return {
+        remaining: Number.isFinite(remaining) ? remaining : null,
+        resetsAt: resetsAt ? new Date(resetsAt).toISOString() : null,
+      };
+    },
+  };
+}
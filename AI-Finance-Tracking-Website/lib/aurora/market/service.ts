@@ -0,0 +1,216 @@
+import { createTtlCache, type TtlCache } from '../cache.js';
+import { createQuotaTracker, type QuotaStatus, type QuotaTracker } from './quota.js';
+import {
+  MarketDataRateLimitError,
+  type FxRate,
+  type MarketDataProvider,
+  type MarketKind,
+  type MarketQuote,
+} from './types.js';
+
+// Market data in front of one or more providers:
+//   - fresh cache hits are served without touching the network;
+//   - concurrent requests for the same symbol share one upstream call;
+//   - providers are tried in order, each only for as many symbols as its quota allows;
+//   - a value past its TTL is served (marked stale) while a refresh runs in the background,
+//     and older values up to `maxStaleMs` are used when every provider fails.
+
+export interface MarketDataService {
+  getFxRates(base: string, quotes: string[]): Promise<Record<string, FxRate>>;
+  getStockQuotes(symbols: string[]): Promise<Record<string, MarketQuote>>;
+  getCryptoPrices(symbols: string[], vsCurrency: string): Promise<Record<string, MarketQuote>>;
+  getQuotaStatus(): Record<string, QuotaStatus>;
+}
+
+export interface MarketDataServiceOptions {
+  providers: MarketDataProvider[];
+  ttlMs?: Partial<Record<MarketKind, number>>;
+  // How long past its TTL a value is served immediately while being refreshed.
+  staleWhileRevalidateMs?: number;
+  // How long past its TTL a value may still be used when no provider can answer.
+  maxStaleMs?: number;
+  cacheLimit?: number;
+}
+
+const DEFAULT_TTL_MS: Record<MarketKind, number> = {
+  fx: 10 * 60 * 1000,
+  stock: 60 * 1000,
+  crypto: 60 * 1000,
+};
+
+type Priced = FxRate | MarketQuote;
+
+interface KindSpec<T extends Priced> {
+  kind: MarketKind;
+  cacheKey: (key: string) => string;
+  fetch: (provider: MarketDataProvider, keys: string[]) => Promise<[string, T][]> | null;
+}
+
+export function createMarketDataService({
+  providers,
+  ttlMs = {},
+  staleWhileRevalidateMs = 5 * 60 * 1000,
+  maxStaleMs = 24 * 60 * 60 * 1000,
+  cacheLimit = 500,
+}: MarketDataServiceOptions): MarketDataService {
+  const ttl = { ...DEFAULT_TTL_MS, ...ttlMs };
+  const caches: Record<MarketKind, TtlCache<Priced>> = {
+    fx: createTtlCache({ ttlMs: ttl.fx, maxEntries: cacheLimit, staleTtlMs: maxStaleMs }),
+    stock: createTtlCache({ ttlMs: ttl.stock, maxEntries: cacheLimit, staleTtlMs: maxStaleMs }),
+    crypto: createTtlCache({ ttlMs: ttl.crypto, maxEntries: cacheLimit, staleTtlMs: maxStaleMs }),
+  };
+  const quotas = new Map<string, QuotaTracker>(
+    providers.map((p) => [p.name, createQuotaTracker(p.quota)]),
+  );
+  const inFlight = new Map<string, Promise<Priced | undefined>>();
+
+  // Fetches `keys` through the provider chain and caches what comes back. Every key is
+  // registered in `inFlight` until the chain settles so that parallel callers coalesce.
+  function startFetch<T extends Priced>(spec: KindSpec<T>, keys: string[]) {
+    const batch = (async () => {
+      const found = new Map<string, T>();
+      let pending = keys;
+
+      for (const provider of providers) {
+        if (!pending.length) break;
+        const quota = quotas.get(provider.name)!;
+        const perSymbol = (provider.cost?.(spec.kind, 2) ?? 1) > 1;
+        const affordable = perSymbol ? Math.min(pending.length, quota.available()) : quota.available() > 0 ? pending.length : 0;
+        if (affordable <= 0) continue;
+
+        const slice = pending.slice(0, affordable);
+        const request = spec.fetch(provider, slice);
+        if (!request) continue;
+
+        quota.consume(provider.cost?.(spec.kind, slice.length) ?? 1);
+        try {
+          for (const [key, value] of await request) {
+            found.set(key, value);
+            caches[spec.kind].set(spec.cacheKey(key), value);
+          }
+        } catch (err) {
+          if (err instanceof MarketDataRateLimitError) {
+            quota.exhaustFor(err.retryAfterMs);
+          } else {
+            console.error(`Aurora market data ${provider.name} error`, err);
+          }
+        }
+        pending = pending.filter((key) => !found.has(key));
+      }
+
+      return found;
+    })();
+
+    for (const key of keys) {
+      const cacheKey = spec.cacheKey(key);
+      const single = batch.then(
+        (found) => found.get(key),
+        () => undefined,
+      );
+      inFlight.set(cacheKey, single);
+      single.finally(() => {
+        if (inFlight.get(cacheKey) === single) inFlight.delete(cacheKey);
+      });
+    }
+
+    return batch;
+  }
+
+  async function resolve<T extends Priced>(spec: KindSpec<T>, rawKeys: string[]): Promise<Record<string, T>> {
+    const keys = Array.from(new Set(rawKeys));
+    const cache = caches[spec.kind] as TtlCache<T>;
+    const out: Record<string, T> = {};
+    const toFetch: string[] = [];
+    const toRevalidate: string[] = [];
+    const waits: Promise<void>[] = [];
+
+    for (const key of keys) {
+      const cacheKey = spec.cacheKey(key);
+      const entry = cache.getEntry(cacheKey);
+      const pending = inFlight.get(cacheKey) as Promise<T | undefined> | undefined;
+
+      if (entry?.fresh) {
+        out[key] = entry.value;
+      } else if (entry && entry.ageMs <= ttl[spec.kind] + staleWhileRevalidateMs) {
+        out[key] = { ...entry.value, stale: true };
+        if (!pending) toRevalidate.push(key);
+      } else if (pending) {
+        waits.push(
+          pending.then((value) => {
+            if (value) out[key] = value;
+            else if (entry) out[key] = { ...entry.value, stale: true };
+          }),
+        );
+      } else {
+        toFetch.push(key);
+      }
+    }
+
+    if (toRevalidate.length) {
+      startFetch(spec, toRevalidate).catch(() => undefined);
+    }
+
+    if (toFetch.length) {
+      const found = await startFetch(spec, toFetch);
+      for (const key of toFetch) {
+        const value = found.get(key);
+        const entry = value ? null : cache.getEntry(spec.cacheKey(key));
+        if (value) out[key] = value;
+        else if (entry) out[key] = { ...entry.value, stale: true };
+      }
+    }
+
+    await Promise.all(waits);
+    return out;
+  }
+
+  return {
+    getFxRates(base, quotes) {
+      const upperBase = base.toUpperCase();
+      return resolve<FxRate>(
+        {
+          kind: 'fx',
+          cacheKey: (quote) => `${upperBase}/${quote}`,
+          fetch: (provider, keys) =>
+            provider.fetchFxRates
+              ? provider.fetchFxRates(upperBase, keys).then((rates) => rates.map((r) => [r.quote, r]))
+              : null,
+        },
+        quotes.map((q) => q.toUpperCase()).filter((q) => q !== upperBase),
+      );
+    },
+
+    getStockQuotes(symbols) {
+      return resolve<MarketQuote>(
+        {
+          kind: 'stock',
+          cacheKey: (symbol) => symbol,
+          fetch: (provider, keys) =>
+            provider.fetchStockQuotes
+              ? provider.fetchStockQuotes(keys).then((quotes) => quotes.map((q) => [q.symbol, q]))
+              : null,
+        },
+        symbols.map((s) => s.toUpperCase()),
+      );
+    },
+
+    getCryptoPrices(symbols, vsCurrency) {
+      const vs = vsCurrency.toLowerCase();
+      return resolve<MarketQuote>(
+        {
+          kind: 'crypto',
+          cacheKey: (symbol) => `${symbol}/${vs}`,
+          fetch: (provider, keys) =>
+            provider.fetchCryptoPrices
+              ? provider.fetchCryptoPrices(keys, vs).then((quotes) => quotes.map((q) => [q.symbol, q]))
+              : null,
+        },
+        symbols.map((s) => s.toUpperCase()),
+      );
+    },
+
+    getQuotaStatus() {
+      return Object.fromEntries(Array.from(quotas.entries()).map(([name, q]) => [name, q.status()]));
+    },
+  };
+}
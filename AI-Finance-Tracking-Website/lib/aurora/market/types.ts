@@ -0,0 +1,48 @@
+export type MarketKind = 'fx' | 'stock' | 'crypto';
+
+export interface MarketQuote {
+  symbol: string;
+  price: number;
+  currency: string;
+  // When the upstream source says the price was observed (ISO 8601).
+  asOf: string;
+  source: string;
+  // True when served from cache past its TTL because a fresh value was unavailable.
+  stale: boolean;
+}
+
+export interface FxRate {
+  base: string;
+  quote: string;
+  rate: number;
+  asOf: string;
+  source: string;
+  stale: boolean;
+}
+
+export interface QuotaWindow {
+  limit: number;
+  windowMs: number;
+}
+
+export interface MarketDataProvider {
+  name: string;
+  quota?: QuotaWindow[];
+  // Upstream requests needed for a batch of `count` symbols (defaults to one per batch).
+  cost?: (kind: MarketKind, count: number) => number;
+  fetchFxRates?: (base: string, quotes: string[]) => Promise<FxRate[]>;
+  fetchStockQuotes?: (symbols: string[]) => Promise<MarketQuote[]>;
+  fetchCryptoPrices?: (symbols: string[], vsCurrency: string) => Promise<MarketQuote[]>;
+}
+
+// Thrown by providers when the upstream API reports that its quota is used up, even if
+// our own tracking thought there was headroom (e.g. the key is shared with another app).
+export class MarketDataRateLimitError extends Error {
+  constructor(
+    readonly provider: string,
+    readonly retryAfterMs = 60_000,
+  ) {
+    super(`${provider}: rate limited`);
+    this.name = 'MarketDataRateLimitError';
+  }
+}
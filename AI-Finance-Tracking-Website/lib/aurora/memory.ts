@@ -0,0 +1,130 @@
+import type { LlmProvider } from './llm/index.js';
+
+// Conversation memory for Aurora:
+//   - recent turns are replayed verbatim while they fit a token budget;
+//   - once they overflow, the oldest turns are folded into a running summary;
+//   - first-person statements worth keeping ("I'm saving for a house in 2027") are extracted
+//     as long-term facts that outlive the thread.
+//
+//   AURORA_HISTORY_TOKEN_BUDGET   approximate tokens of prior turns replayed per question (default: 2000)
+
+export interface MemoryTurn {
+  role: 'user' | 'ai';
+  text: string;
+  createdAt?: string;
+}
+
+const SUMMARY_MAX_CHARS = 1200;
+const FACT_MAX_CHARS = 200;
+
+// Rough GPT-style estimate (~4 characters per token); close enough for budgeting.
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function getHistoryTokenBudget(): number {
+  const raw = Number((globalThis as any)?.process?.env?.AURORA_HISTORY_TOKEN_BUDGET);
+  return Number.isInteger(raw) && raw > 0 ? raw : 2000;
+}
+
+// Splits history into turns to replay and turns to fold into the summary. When the budget
+// is exceeded only half of it is kept, so folding (an extra model call) happens every few
+// turns rather than on every one.
+export function windowTurns<T extends MemoryTurn>(
+  history: T[],
+  budgetTokens: number,
+): { recent: T[]; overflow: T[] } {
+  const total = history.reduce((sum, turn) => sum + estimateTokens(turn.text), 0);
+  if (total <= budgetTokens) return { recent: history, overflow: [] };
+
+  const keepBudget = Math.floor(budgetTokens / 2);
+  let used = 0;
+  let start = history.length;
+  while (start > 0) {
+    const cost = estimateTokens(history[start - 1].text);
+    if (used + cost > keepBudget) break;
+    used += cost;
+    start -= 1;
+  }
+  return { recent: history.slice(start), overflow: history.slice(0, start) };
+}
+
+function firstSentence(text: string, maxChars: number): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const sentence = flat.match(/^.+?[.!?](?=\s|$)/)?.[0] ?? flat;
+  return sentence.length > maxChars ? `${sentence.slice(0, maxChars - 1)}…` : sentence;
+}
+
+// Offline fallback: keeps the gist of each user question, newest last, within the cap.
+export function extractiveSummary(previous: string | null, turns: MemoryTurn[]): string {
+  const lines = turns
+    .filter((turn) => turn.role === 'user')
+    .map((turn) => `- User asked: ${firstSentence(turn.text, 160)}`);
+  const combined = [previous?.trim(), ...lines].filter(Boolean).join('\n');
+  return combined.length > SUMMARY_MAX_CHARS ? `…${combined.slice(-(SUMMARY_MAX_CHARS - 1))}` : combined;
+}
+
+export async function summarizeTurns(
+  provider: LlmProvider | null,
+  previous: string | null,
+  turns: MemoryTurn[],
+  signal?: AbortSignal,
+): Promise<string> {
+  if (!turns.length) return previous ?? '';
+  if (!provider) return extractiveSummary(previous, turns);
+
+  const transcript = turns.map((t) => `${t.role === 'user' ? 'User' : 'Aurora'}: ${t.text}`).join('\n');
+  try {
+    const turn = await provider.complete({
+      messages: [
+        {
+          role: 'system',
+          content:
+            'You maintain a running summary of a personal-finance chat. Merge the earlier summary with the new ' +
+            'turns into at most 8 short bullet points. Keep figures, dates, goals and open questions; drop ' +
+            'pleasantries. Reply with the bullet points only.',
+        },
+        {
+          role: 'user',
+          content: `Earlier summary:\n${previous?.trim() || '(none)'}\n\nNew turns:\n${transcript}`,
+        },
+      ],
+      signal,
+    });
+    const summary = turn.content.trim();
+    return summary ? summary.slice(0, SUMMARY_MAX_CHARS) : extractiveSummary(previous, turns);
+  } catch (err) {
+    if (!signal?.aborted) console.error('Aurora summary error', err);
+    return extractiveSummary(previous, turns);
+  }
+}
+
+// Statements about the user's own situation that are worth recalling in later sessions.
+// Questions are ignored: "should I save for a house?" is not a fact about the user.
+const FACT_PATTERNS: RegExp[] = [
+  /\b(?:please\s+)?remember(?:\s+that)?\s+(.+)/i,
+  /\bI(?:'m| am)\s+(?:currently\s+)?(?:saving|planning|hoping|trying|aiming)\s+(?:for|to)\s+.+/i,
+  /\bI\s+(?:want|plan|hope|need)\s+to\s+(?:buy|retire|save|pay off|move)\b.+/i,
+  /\bmy\s+(?:goal|plan|target|budget|salary|income|rent|mortgage|risk tolerance)\s+is\s+.+/i,
+  /\bI\s+(?:earn|make)\s+.+?\s+(?:a|per|each|every)\s+(?:month|year|week)\b.*/i,
+  /\bI\s+(?:live|work)\s+in\s+.+/i,
+];
+
+export function extractMemoryFacts(text: string): string[] {
+  const facts = new Set<string>();
+  for (const raw of text.split(/(?<=[.!?])\s+|\n+/)) {
+    const sentence = raw.trim();
+    if (!sentence || sentence.endsWith('?')) continue;
+
+    for (const pattern of FACT_PATTERNS) {
+      const match = sentence.match(pattern);
+      if (!match) continue;
+      const fact = (match[1] ?? match[0]).trim().replace(/[.!]+$/, '');
+      if (fact.length >= 8) {
+        facts.add(fact.length > FACT_MAX_CHARS ? `${fact.slice(0, FACT_MAX_CHARS - 1)}…` : fact);
+      }
+      break;
+    }
+  }
+  return Array.from(facts);
+}
@@ -0,0 +1,2 @@
+export * from './normalise.js';
+export { createMerchantStore, MerchantError, type MerchantStore } from './store.js';
@@ -0,0 +1,297 @@
+// Turns raw statement text into a merchant: "SQ *BLUE BOTTLE #0423 OAKLAND CA" becomes "Blue
+// Bottle Oakland", "AMZN Mktp US*2K4L" becomes Amazon. Processor prefixes, store numbers, card
+// suffixes and reference codes are stripped, and the cleaned name's alias key groups spelling
+// variants under one canonical merchant. No imports, so the demo feeds in src/ clean their
+// sample descriptions the same way the ledger does.
+
+export interface KnownMerchant {
+  name: string;
+  // Alias keys (see merchantAliasKey) that identify the merchant as leading words.
+  aliases: string[];
+  domain: string | null;
+  color: string;
+  // Shown as the suggested default; the categoriser only uses a category the user set.
+  category: string | null;
+}
+
+export interface MerchantIdentity {
+  name: string;
+  key: string;
+  known: KnownMerchant | null;
+}
+
+export interface Merchant {
+  id: string;
+  name: string;
+  color: string;
+  logoUrl: string | null;
+  // The category the user files this merchant under; null leaves it to rules and the model.
+  category: string | null;
+  // Alias keys of the statement texts grouped under this merchant.
+  aliases: string[];
+  transactions: number;
+  // Money out, as a positive amount.
+  spent: number;
+  lastSeen: string | null;
+}
+
+export interface MerchantInput {
+  name: string;
+  color: string;
+  logoUrl: string | null;
+  category: string | null;
+}
+
+export type MerchantInputResult = { ok: true; merchant: MerchantInput } | { ok: false; error: string };
+
+const MAX_NAME_LENGTH = 80;
+const MAX_CATEGORY_LENGTH = 60;
+const MAX_LOGO_URL_LENGTH = 500;
+
+const MERCHANT_COLORS = ['#22c55e', '#38bdf8', '#6366f1', '#a855f7', '#ec4899', '#f97316', '#eab308', '#14b8a6'];
+
+// Payment processors and card-terminal words that front the real merchant's name.
+const PROCESSOR_WORDS = new Set([
+  'sq',
+  'square',
+  'tst',
+  'toast',
+  'sp',
+  'shopify',
+  'pp',
+  'paypal',
+  'stripe',
+  'sumup',
+  'zettle',
+  'izettle',
+  'klarna',
+  'gpay',
+  'google pay',
+  'apple pay',
+  'pos',
+  'ach',
+  'visa',
+  'mastercard',
+  'debit',
+  'card',
+  'card purchase',
+  'debit card purchase',
+  'checkcard',
+  'contactless',
+  'purchase',
+  'recurring',
+  'payment',
+  'online payment',
+  'bill payment',
+  'direct debit',
+  'dd',
+  'standing order',
+  'so',
+  'faster payment',
+]);
+
+// Labels a bank or the user puts before the payee, as in "Rent – Skyline Lofts".
+const LABEL_WORDS = new Set([
+  'rent',
+  'payroll',
+  'salary',
+  'payment to',
+  'transfer to',
+  'transfer from',
+  'payee',
+  'merchant',
+]);
+
+// Two-letter region codes that trail upper-case card descriptors ("SEATTLE WA", "LONDON GB").
+const REGION_CODES = new Set(
+  (
+    'AL AK AZ AR CA CO CT DE FL GA HI ID IL IN IA KS KY LA ME MD MA MI MN MS MO MT NE NV NH NJ NM NY NC ND ' +
+    'OH OK OR PA RI SC SD TN TX UT VT VA WA WV WI WY DC US GB UK IE DE FR ES IT NL BE AT CH AU NZ'
+  ).split(' '),
+);
+
+// Whole-word noise inside a segment: store numbers, card suffixes, dates and references.
+const NOISE_PATTERNS: RegExp[] = [
+  /\b(?:card|ending(?: in)?|acct)\s*[x*]*\d{4}\b/giu,
+  /[x*]{2,}\d{2,4}\b/giu,
+  /#\s*[\p{L}\p{N}-]*\d[\p{L}\p{N}-]*/gu,
+  /\b(?:store|str|no|nr|unit|ref|id)\.?\s*\d+\b/giu,
+  /\b\d{1,2}[/.-]\d{1,2}(?:[/.-]\d{2,4})?\b/gu,
+  /\b[\p{L}]*\d{3,}[\p{L}\p{N}]*\b/gu,
+  /\b(?=[\p{L}\p{N}]*\d[\p{L}\p{N}]*\d)[\p{L}\p{N}]{6,}\b/gu,
+  // Bare numbers, but not ones hyphenated into a name like "7-ELEVEN".
+  /(?<![\p{L}\p{N}-])\d+(?![\p{L}\p{N}-])/gu,
+];
+
+function known(
+  name: string,
+  aliases: string[],
+  domain: string | null,
+  color: string,
+  category: string | null,
+): KnownMerchant {
+  return { name, aliases: aliases.map(merchantAliasKey), domain, color, category };
+}
+
+// Lower-case letters, digits and "&" separated by single spaces.
+export function merchantAliasKey(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFKC')
+    .replace(/['’]/g, '')
+    .replace(/[^\p{L}\p{N}&]+/gu, ' ')
+    .trim();
+}
+
+// More specific names come before the ones they start with ("Uber Eats" before "Uber").
+export const KNOWN_MERCHANTS: KnownMerchant[] = [
+  known('Amazon', ['amazon', 'amzn', 'amazon com', 'amzn mktp'], 'amazon.com', '#f59e0b', 'Shopping'),
+  known('Uber Eats', ['uber eats', 'ubereats'], 'ubereats.com', '#22c55e', 'Delivery'),
+  known('Uber', ['uber'], 'uber.com', '#94a3b8', 'Transport'),
+  known('Lyft', ['lyft'], 'lyft.com', '#ec4899', 'Transport'),
+  known('DoorDash', ['doordash'], 'doordash.com', '#ef4444', 'Delivery'),
+  known('Deliveroo', ['deliveroo'], 'deliveroo.com', '#14b8a6', 'Delivery'),
+  known('Starbucks', ['starbucks'], 'starbucks.com', '#16a34a', 'Dining'),
+  known("McDonald's", ['mcdonalds', 'mcdonald s', 'mcd'], 'mcdonalds.com', '#eab308', 'Dining'),
+  known('Whole Foods Market', ['whole foods', 'wholefds', 'wfm'], 'wholefoodsmarket.com', '#15803d', 'Groceries'),
+  known("Trader Joe's", ['trader joe', 'trader joes'], 'traderjoes.com', '#dc2626', 'Groceries'),
+  known('7-Eleven', ['7 eleven', '7eleven', 'seven eleven'], '7-eleven.com', '#f97316', 'Groceries'),
+  known('Costco', ['costco'], 'costco.com', '#2563eb', 'Groceries'),
+  known('Tesco', ['tesco'], 'tesco.com', '#1d4ed8', 'Groceries'),
+  known("Sainsbury's", ['sainsburys', 'sainsbury'], 'sainsburys.co.uk', '#f97316', 'Groceries'),
+  known('Walmart', ['walmart', 'wal mart', 'wm supercenter'], 'walmart.com', '#0ea5e9', 'Shopping'),
+  known('Target', ['target'], 'target.com', '#dc2626', 'Shopping'),
+  known('Netflix', ['netflix'], 'netflix.com', '#e11d48', 'Subscriptions'),
+  known('Spotify', ['spotify'], 'spotify.com', '#22c55e', 'Subscriptions'),
+  known('Apple', ['apple com bill', 'apple com', 'itunes', 'icloud', 'apple store'], 'apple.com', '#94a3b8', 'Subscriptions'),
+  known('Google', ['google', 'youtube premium'], 'google.com', '#3b82f6', 'Subscriptions'),
+  known('Tesla', ['tesla'], 'tesla.com', '#ef4444', 'Transport'),
+  known('Shell', ['shell'], 'shell.com', '#facc15', 'Fuel'),
+  known('Airbnb', ['airbnb'], 'airbnb.com', '#f43f5e', 'Travel'),
+  known('Booking.com', ['booking com'], 'booking.com', '#1e40af', 'Travel'),
+];
+
+function hashColor(name: string): string {
+  let hash = 0;
+  for (const char of merchantAliasKey(name)) hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  return MERCHANT_COLORS[hash % MERCHANT_COLORS.length];
+}
+
+function isProcessor(segment: string): boolean {
+  const key = merchantAliasKey(segment);
+  return PROCESSOR_WORDS.has(key) || LABEL_WORDS.has(key);
+}
+
+// Reference codes such as "2K4L" or "TRIP-8841" on their own after a separator.
+function isReference(segment: string): boolean {
+  return /\d/.test(segment) && !/\s/.test(segment.trim()) && segment.trim().length <= 14;
+}
+
+function stripLeadingProcessors(segment: string): string {
+  let words = segment.split(/\s+/).filter(Boolean);
+  for (;;) {
+    const two = words.length > 2 ? merchantAliasKey(words.slice(0, 2).join(' ')) : '';
+    if (two && PROCESSOR_WORDS.has(two)) {
+      words = words.slice(2);
+    } else if (words.length > 1 && PROCESSOR_WORDS.has(merchantAliasKey(words[0]))) {
+      words = words.slice(1);
+    } else {
+      return words.join(' ');
+    }
+  }
+}
+
+function titleCase(text: string): string {
+  return text.toLowerCase().replace(/(^|[\s&/-])(\p{L})/gu, (_, lead: string, letter: string) => lead + letter.toUpperCase());
+}
+
+// The merchant's name as it should read in the UI, or null when nothing useful is left.
+export function cleanMerchantName(raw: string | null | undefined): string | null {
+  const text = raw?.normalize('NFKC').replace(/\s+/g, ' ').trim();
+  if (!text) return null;
+
+  // Known merchants are matched on the whole descriptor first, before the split below cuts
+  // "UBER *EATS" down to "UBER".
+  const knownMerchant = findKnownMerchant(stripLeadingProcessors(merchantAliasKey(text)));
+  if (knownMerchant) return knownMerchant.name;
+
+  const segments = text
+    .split(/\s+[•·|–—]\s+|\s+-\s+|\*/)
+    .map((segment) => segment.trim())
+    .filter(Boolean);
+  const useful = segments.filter((segment) => !isProcessor(segment) && !isReference(segment));
+  let name = stripLeadingProcessors(useful[0] ?? segments[0] ?? text);
+
+  for (const pattern of NOISE_PATTERNS) name = name.replace(pattern, ' ');
+  const words = name.replace(/\s+/g, ' ').trim().split(' ');
+  const last = words[words.length - 1];
+  if (words.length > 1 && REGION_CODES.has(last) && text.toUpperCase() === text) words.pop();
+  name = words
+    .join(' ')
+    .replace(/\s+(?:inc|llc|ltd|limited|plc|corp|gmbh)\.?$/iu, '')
+    .replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}.)!]+$/gu, '');
+  if (!name) return null;
+
+  // Card descriptors shout; everything else keeps the casing the merchant chose.
+  return (/\p{Ll}/u.test(name) ? name : titleCase(name)).slice(0, MAX_NAME_LENGTH);
+}
+
+export function findKnownMerchant(aliasKey: string): KnownMerchant | null {
+  return (
+    KNOWN_MERCHANTS.find((merchant) =>
+      merchant.aliases.some((alias) => aliasKey === alias || aliasKey.startsWith(`${alias} `)),
+    ) ?? null
+  );
+}
+
+// Who a transaction was with: the known merchant when the text names one, otherwise the
+// cleaned name. Transactions with the same key belong to the same merchant.
+export function identifyMerchant(raw: string | null | undefined): MerchantIdentity | null {
+  const name = cleanMerchantName(raw);
+  if (!name) return null;
+  const key = merchantAliasKey(name);
+  if (!key) return null;
+  const knownMerchant = findKnownMerchant(key);
+  return knownMerchant
+    ? { name: knownMerchant.name, key: merchantAliasKey(knownMerchant.name), known: knownMerchant }
+    : { name, key, known: null };
+}
+
+// Colour and logo a new merchant starts with; the user can change both.
+export function merchantDefaults(identity: MerchantIdentity): { color: string; logoUrl: string | null } {
+  return {
+    color: identity.known?.color ?? hashColor(identity.name),
+    logoUrl: identity.known?.domain ? `https://${identity.known.domain}/favicon.ico` : null,
+  };
+}
+
+export function merchantColor(name: string): string {
+  return identifyMerchant(name)?.known?.color ?? hashColor(name);
+}
+
+// One or two letters for merchants without a logo.
+export function merchantMonogram(name: string): string {
+  const words = merchantAliasKey(name).split(' ').filter(Boolean);
+  return (words.length > 1 ? words[0][0] + words[1][0] : (words[0] ?? '?').slice(0, 2)).toUpperCase();
+}
+
+// Checks a merchant as submitted by the merchant editor.
+export function parseMerchantInput(input: any): MerchantInputResult {
+  const name = typeof input?.name === 'string' ? input.name.trim().replace(/\s+/g, ' ') : '';
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    return { ok: false, error: `Merchant names must be 1 to ${MAX_NAME_LENGTH} characters` };
+  }
+  const color = typeof input?.color === 'string' && input.color ? input.color.toLowerCase() : hashColor(name);
+  if (!/^#[0-9a-f]{6}$/.test(color)) {
+    return { ok: false, error: 'Colours must be hex values like #22c55e' };
+  }
+  const logoUrl = typeof input?.logoUrl === 'string' && input.logoUrl.trim() ? input.logoUrl.trim() : null;
+  if (logoUrl && (!/^https:\/\/[^\s]+$/.test(logoUrl) || logoUrl.length > MAX_LOGO_URL_LENGTH)) {
+    return { ok: false, error: 'Logos must be https:// image links' };
+  }
+  const category = typeof input?.category === 'string' && input.category.trim() ? input.category.trim() : null;
+  if (category && category.length > MAX_CATEGORY_LENGTH) {
+    return { ok: false, error: `Choose a category of at most ${MAX_CATEGORY_LENGTH} characters` };
+  }
+  return { ok: true, merchant: { name, color, logoUrl, category } };
+}
@@ -0,0 +1,307 @@
+import {
+  identifyMerchant,
+  merchantDefaults,
+  type Merchant,
+  type MerchantIdentity,
+  type MerchantInput,
+} from './normalise.js';
+
+// Reads and edits a user's merchants and points their transactions at them. `db` is either
+// the caller's client (RLS scopes it) or the service-role client used by bank sync; every
+// query is filtered by user id as well. The raw description and the bank's merchant name stay
+// on the transaction untouched; only `merchant_id` is written.
+
+const PAGE_SIZE = 1_000;
+// Keeps `in (...)` filters well inside URL limits.
+const ID_CHUNK = 200;
+
+const MERCHANT_COLUMNS = 'id, name, color, logo_url, category';
+
+// A merchant edit that cannot be made as asked; the message is shown to the user.
+export class MerchantError extends Error {}
+
+export interface MerchantStore {
+  // Busiest merchants first, with their aliases and how much went to them.
+  listMerchants: (userId: string) => Promise<Merchant[]>;
+  // Links transactions without a merchant (or only those in `scope`) to one, creating the
+  // merchant the first time its alias is seen. Resolves to how many rows were linked.
+  assignMerchants: (
+    userId: string,
+    scope?: { transactionIds?: string[]; accountId?: string | null },
+  ) => Promise<number>;
+  // Merchant id → the default category the user gave it, for merchants that have one.
+  loadMerchantCategories: (userId: string) => Promise<Map<string, string>>;
+  // Null when the merchant does not exist or belongs to someone else.
+  updateMerchant: (
+    userId: string,
+    merchantId: string,
+    input: MerchantInput,
+  ) => Promise<{ merchant: Merchant; categoryChanged: boolean } | null>;
+  // Folds `fromId` into `intoId`: its aliases and transactions move across and it is removed.
+  mergeMerchants: (userId: string, fromId: string, intoId: string) => Promise<Merchant | null>;
+}
+
+function toMerchant(row: any, aliases: string[] = [], usage: any = null): Merchant {
+  return {
+    id: String(row.id),
+    name: row.name,
+    color: row.color,
+    logoUrl: row.logo_url ?? null,
+    category: row.category ?? null,
+    aliases,
+    transactions: Number(usage?.transactions) || 0,
+    spent: Math.round((Number(usage?.spent) || 0) * 100) / 100,
+    lastSeen: usage?.last_seen ?? null,
+  };
+}
+
+function chunks<T>(items: T[], size: number): T[][] {
+  const out: T[][] = [];
+  for (let start = 0; start < items.length; start += size) out.push(items.slice(start, start + size));
+  return out;
+}
+
+export function createMerchantStore(options: { db: any }): MerchantStore {
+  const { db } = options;
+
+  // Every row of a per-user table; PostgREST caps a single response at PAGE_SIZE rows.
+  async function selectAll(table: string, columns: string, userId: string, orderBy: string): Promise<any[]> {
+    const rows: any[] = [];
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await db
+        .from(table)
+        .select(columns)
+        .eq('user_id', userId)
+        .order(orderBy, { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+      if (error) throw new Error(error.message);
+      rows.push(...(data ?? []));
+      if (!data || data.length < PAGE_SIZE) return rows;
+    }
+  }
+
+  async function findMerchant(userId: string, merchantId: string): Promise<any | null> {
+    const { data, error } = await db
+      .from('merchants')
+      .select(MERCHANT_COLUMNS)
+      .eq('id', merchantId)
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    return data ?? null;
+  }
+
+  async function describeMerchant(userId: string, row: any): Promise<Merchant> {
+    const [aliases, usage] = await Promise.all([
+      db.from('merchant_aliases').select('alias').eq('user_id', userId).eq('merchant_id', row.id),
+      db
+        .from('merchant_usage')
+        .select('transactions, spent, last_seen')
+        .eq('user_id', userId)
+        .eq('merchant_id', row.id)
+        .maybeSingle(),
+    ]);
+    if (aliases.error) throw new Error(aliases.error.message);
+    if (usage.error) throw new Error(usage.error.message);
+    return toMerchant(
+      row,
+      (aliases.data ?? []).map((alias: any) => String(alias.alias)),
+      usage.data,
+    );
+  }
+
+  // Creates merchants for aliases seen for the first time. Concurrent syncs may race to
+  // create the same one, so existing names and aliases are kept rather than failing.
+  async function createMerchants(userId: string, identities: MerchantIdentity[], aliasIds: Map<string, string>) {
+    if (!identities.length) return;
+    const { error } = await db.from('merchants').upsert(
+      identities.map((identity) => {
+        const defaults = merchantDefaults(identity);
+        return { user_id: userId, name: identity.name, color: defaults.color, logo_url: defaults.logoUrl };
+      }),
+      { onConflict: 'user_id,name_key', ignoreDuplicates: true },
+    );
+    if (error) throw new Error(error.message);
+
+    const byName = new Map(
+      (await selectAll('merchants', 'id, name', userId, 'id')).map((row) => [
+        String(row.name).toLowerCase(),
+        String(row.id),
+      ]),
+    );
+    const aliases = identities.flatMap((identity) => {
+      const merchantId = byName.get(identity.name.toLowerCase());
+      return merchantId ? [{ user_id: userId, alias: identity.key, merchant_id: merchantId }] : [];
+    });
+    const { error: aliasError } = await db
+      .from('merchant_aliases')
+      .upsert(aliases, { onConflict: 'user_id,alias', ignoreDuplicates: true });
+    if (aliasError) throw new Error(aliasError.message);
+
+    // Re-read so a race lost above still lands on the alias that won.
+    for (const row of await selectAll('merchant_aliases', 'alias, merchant_id', userId, 'alias')) {
+      aliasIds.set(String(row.alias), String(row.merchant_id));
+    }
+  }
+
+  async function assignMerchants(
+    userId: string,
+    scope: { transactionIds?: string[]; accountId?: string | null } = {},
+  ): Promise<number> {
+    // Everything is read before anything is written, so paging is not thrown off by updates.
+    const rows: any[] = [];
+    if (scope.transactionIds) {
+      for (const chunk of chunks(scope.transactionIds, ID_CHUNK)) {
+        const { data, error } = await db
+          .from('transactions')
+          .select('id, description, merchant, merchant_id')
+          .eq('user_id', userId)
+          .is('merchant_id', null)
+          .in('id', chunk);
+        if (error) throw new Error(error.message);
+        rows.push(...(data ?? []));
+      }
+    } else {
+      for (let offset = 0; ; offset += PAGE_SIZE) {
+        let query = db
+          .from('transactions')
+          .select('id, description, merchant, merchant_id')
+          .eq('user_id', userId)
+          .is('merchant_id', null);
+        if (scope.accountId) query = query.eq('account_id', scope.accountId);
+        const { data, error } = await query.order('id', { ascending: true }).range(offset, offset + PAGE_SIZE - 1);
+        if (error) throw new Error(error.message);
+        rows.push(...(data ?? []));
+        if (!data || data.length < PAGE_SIZE) break;
+      }
+    }
+    if (!rows.length) return 0;
+
+    // The bank's merchant name is usually cleaner than the description, so it goes first.
+    const identified = rows.flatMap((row) => {
+      const identity = identifyMerchant(row.merchant || row.description);
+      return identity ? [{ id: String(row.id), identity }] : [];
+    });
+    const aliasIds = new Map(
+      (await selectAll('merchant_aliases', 'alias, merchant_id', userId, 'alias')).map((row) => [
+        String(row.alias),
+        String(row.merchant_id),
+      ]),
+    );
+    const unseen = new Map<string, MerchantIdentity>();
+    for (const { identity } of identified) {
+      if (!aliasIds.has(identity.key) && !unseen.has(identity.key)) unseen.set(identity.key, identity);
+    }
+    await createMerchants(userId, [...unseen.values()], aliasIds);
+
+    const byMerchant = new Map<string, string[]>();
+    for (const { id, identity } of identified) {
+      const merchantId = aliasIds.get(identity.key);
+      if (!merchantId) continue;
+      byMerchant.set(merchantId, [...(byMerchant.get(merchantId) ?? []), id]);
+    }
+    let assigned = 0;
+    for (const [merchantId, ids] of byMerchant) {
+      for (const chunk of chunks(ids, ID_CHUNK)) {
+        const { error } = await db
+          .from('transactions')
+          .update({ merchant_id: merchantId })
+          .eq('user_id', userId)
+          .in('id', chunk);
+        if (error) throw new Error(error.message);
+        assigned += chunk.length;
+      }
+    }
+    return assigned;
+  }
+
+  return {
+    assignMerchants,
+
+    async listMerchants(userId) {
+      const [merchants, aliases, usage] = await Promise.all([
+        selectAll('merchants', MERCHANT_COLUMNS, userId, 'id'),
+        selectAll('merchant_aliases', 'alias, merchant_id', userId, 'alias'),
+        selectAll('merchant_usage', 'merchant_id, transactions, spent, last_seen', userId, 'merchant_id'),
+      ]);
+      const aliasesOf = new Map<string, string[]>();
+      for (const row of aliases) {
+        const id = String(row.merchant_id);
+        aliasesOf.set(id, [...(aliasesOf.get(id) ?? []), String(row.alias)]);
+      }
+      const usageOf = new Map(usage.map((row) => [String(row.merchant_id), row]));
+      return merchants
+        .map((row) => toMerchant(row, aliasesOf.get(String(row.id)) ?? [], usageOf.get(String(row.id))))
+        .sort((a, b) => b.spent - a.spent || b.transactions - a.transactions || a.name.localeCompare(b.name));
+    },
+
+    async loadMerchantCategories(userId) {
+      const { data, error } = await db
+        .from('merchants')
+        .select('id, category')
+        .eq('user_id', userId)
+        .not('category', 'is', null);
+      if (error) throw new Error(error.message);
+      return new Map((data ?? []).map((row: any) => [String(row.id), String(row.category)]));
+    },
+
+    async updateMerchant(userId, merchantId, input) {
+      const existing = await findMerchant(userId, merchantId);
+      if (!existing) return null;
+      const previousCategory: string | null = existing.category ?? null;
+
+      const { data: clash, error: clashError } = await db
+        .from('merchants')
+        .select('id, name')
+        .eq('user_id', userId)
+        .eq('name_key', input.name.toLowerCase())
+        .neq('id', merchantId)
+        .maybeSingle();
+      if (clashError) throw new Error(clashError.message);
+      if (clash) throw new MerchantError(`You already have a merchant called "${clash.name}". Merge them instead.`);
+
+      const { data, error } = await db
+        .from('merchants')
+        .update({
+          name: input.name,
+          color: input.color,
+          logo_url: input.logoUrl,
+          category: input.category,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', merchantId)
+        .eq('user_id', userId)
+        .select(MERCHANT_COLUMNS)
+        .maybeSingle();
+      if (error) throw new Error(error.message);
+      if (!data) return null;
+      return {
+        merchant: await describeMerchant(userId, data),
+        categoryChanged: previousCategory !== input.category,
+      };
+    },
+
+    async mergeMerchants(userId, fromId, intoId) {
+      if (fromId === intoId) throw new MerchantError('Choose a different merchant to merge into.');
+      const [from, into] = await Promise.all([findMerchant(userId, fromId), findMerchant(userId, intoId)]);
+      if (!from || !into) return null;
+
+      const { error: aliasError } = await db
+        .from('merchant_aliases')
+        .update({ merchant_id: intoId })
+        .eq('user_id', userId)
+        .eq('merchant_id', fromId);
+      if (aliasError) throw new Error(aliasError.message);
+      const { error: moveError } = await db
+        .from('transactions')
+        .update({ merchant_id: intoId })
+        .eq('user_id', userId)
+        .eq('merchant_id', fromId);
+      if (moveError) throw new Error(moveError.message);
+      const { error: deleteError } = await db.from('merchants').delete().eq('id', fromId).eq('user_id', userId);
+      if (deleteError) throw new Error(deleteError.message);
+
+      return describeMerchant(userId, into);
+    },
+  };
+}
@@ -0,0 +1,3 @@
+export * from './types.js';
+export { scoreLogin, riskLevelFor, FAILED_ATTEMPT_THRESHOLD } from './scorer.js';
+export { buildRiskOverview } from './overview.js';
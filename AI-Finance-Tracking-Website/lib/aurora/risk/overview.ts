@@ -0,0 +1,79 @@
+import type { RiskLevel, RiskOverview, RiskSignal, RiskTimelinePoint, SecurityAlert, SecurityEvent } from './types.js';
+
+// Turns the stored event log into what the Security page and TopBar show: the current score,
+// a 30-day timeline, and alerts for sign-ins that scored above `low` in the last week. Audit
+// entries for credential changes are passed through in `events` but never scored.
+
+const TIMELINE_DAYS = 30;
+const ALERT_DAYS = 7;
+
+const LABELS: Record<RiskLevel, string> = {
+  low: 'Low login risk',
+  elevated: 'Elevated login risk',
+  high: 'High login risk',
+};
+
+const SIGNAL_TITLES: Record<RiskSignal['kind'], string> = {
+  'new-device': 'Sign-in from a new device',
+  'new-country': 'Sign-in from a new country',
+  'impossible-travel': 'Impossible travel detected',
+  'failed-attempts': 'Sign-in after failed attempts',
+  'unusual-hour': 'Sign-in at an unusual hour',
+};
+
+function dayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function strongestSignal(event: SecurityEvent): RiskSignal | undefined {
+  return [...event.signals].sort((a, b) => b.weight - a.weight)[0];
+}
+
+function toAlert(event: SecurityEvent): SecurityAlert {
+  const strongest = strongestSignal(event);
+  return {
+    id: event.id,
+    level: event.level,
+    title: strongest ? SIGNAL_TITLES[strongest.kind] : LABELS[event.level],
+    description: event.signals.map((signal) => signal.detail).join('. '),
+    at: event.at,
+  };
+}
+
+// `events` newest first; `currentEvent` (this session's sign-in) is the score shown as "now".
+export function buildRiskOverview(
+  events: SecurityEvent[],
+  now: Date = new Date(),
+  currentEvent: SecurityEvent | null = null,
+): RiskOverview {
+  const signIns = events.filter((event) => event.kind === 'sign-in');
+  const timeline: RiskTimelinePoint[] = [];
+  const byDay = new Map<string, RiskTimelinePoint>();
+  for (let offset = TIMELINE_DAYS - 1; offset >= 0; offset -= 1) {
+    const date = dayKey(new Date(now.getTime() - offset * 86_400_000));
+    const point: RiskTimelinePoint = { date, score: null, signIns: 0 };
+    timeline.push(point);
+    byDay.set(date, point);
+  }
+  for (const event of signIns) {
+    const point = byDay.get(dayKey(new Date(event.at)));
+    if (!point) continue;
+    point.signIns += 1;
+    point.score = Math.max(point.score ?? 0, event.score);
+  }
+
+  const alertCutoff = now.getTime() - ALERT_DAYS * 86_400_000;
+  const recentAnomalies = signIns.filter((event) => Date.parse(event.at) >= alertCutoff && event.signals.length > 0);
+  const alerts = recentAnomalies.filter((event) => event.level !== 'low').map(toAlert);
+
+  const latest = recentAnomalies[0];
+  const lastAnomaly = latest
+    ? `${strongestSignal(latest)!.detail} on ${new Date(latest.at).toUTCString().slice(0, 16)}.`
+    : `No anomalies in the last ${ALERT_DAYS} days.`;
+
+  const shown = currentEvent ?? signIns[0] ?? null;
+  const score = shown?.score ?? 0;
+  const level = shown?.level ?? 'low';
+
+  return { score, level, label: LABELS[level], lastAnomaly, timeline, alerts, events: events.slice(0, 20) };
+}
@@ -0,0 +1,106 @@
+import type { LoginAssessment, LoginFingerprint, RiskLevel, RiskSignal } from './types.js';
+
+// Scores one sign-in against the user's earlier ones. Each signal adds a fixed weight and the
+// total is capped at 100. A user's very first sign-in has nothing to compare with, so only
+// failed attempts can raise it.
+
+const WEIGHTS = {
+  newDevice: 20,
+  newCountry: 25,
+  impossibleTravel: 40,
+  failedAttemptsBase: 10,
+  failedAttemptsPerExtra: 5,
+  failedAttemptsMax: 30,
+  unusualHour: 10,
+};
+
+// Faster than an airliner over a distance that cannot be VPN or geo-IP jitter.
+const MAX_TRAVEL_KMH = 900;
+const MIN_TRAVEL_KM = 500;
+export const FAILED_ATTEMPT_THRESHOLD = 3;
+// Hour-of-day patterns need some history before they mean anything.
+const MIN_LOGINS_FOR_HOURS = 10;
+const UNUSUAL_HOUR_SHARE = 0.05;
+
+export function riskLevelFor(score: number): RiskLevel {
+  if (score >= 60) return 'high';
+  if (score >= 30) return 'elevated';
+  return 'low';
+}
+
+function place(login: LoginFingerprint): string {
+  return [login.city, login.country].filter(Boolean).join(', ') || 'an unknown location';
+}
+
+function distanceKm(a: LoginFingerprint, b: LoginFingerprint): number | null {
+  if (a.latitude === null || a.longitude === null || b.latitude === null || b.longitude === null) return null;
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.latitude - a.latitude);
+  const dLon = toRad(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * 6371 * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+function impossibleTravel(login: LoginFingerprint, history: LoginFingerprint[]): RiskSignal | null {
+  const previous = history.find((prior) => prior.latitude !== null && prior.longitude !== null);
+  if (!previous) return null;
+  const km = distanceKm(previous, login);
+  if (km === null || km < MIN_TRAVEL_KM) return null;
+  const hours = Math.max((Date.parse(login.at) - Date.parse(previous.at)) / 3_600_000, 1 / 60);
+  if (km / hours <= MAX_TRAVEL_KMH) return null;
+  return {
+    kind: 'impossible-travel',
+    weight: WEIGHTS.impossibleTravel,
+    detail: `${place(previous)} to ${place(login)} (~${Math.round(km).toLocaleString('en-US')} km) in ${
+      hours < 1 ? `${Math.round(hours * 60)} min` : `${Math.round(hours)} h`
+    }`,
+  };
+}
+
+function unusualHour(login: LoginFingerprint, history: LoginFingerprint[]): RiskSignal | null {
+  if (history.length < MIN_LOGINS_FOR_HOURS) return null;
+  const hour = new Date(login.at).getUTCHours();
+  // Neighbouring hours count too, so 08:59 and 09:01 are not told apart; wraps past midnight.
+  const nearby = history.filter((prior) => {
+    const diff = Math.abs(new Date(prior.at).getUTCHours() - hour);
+    return Math.min(diff, 24 - diff) <= 1;
+  }).length;
+  if (nearby / history.length >= UNUSUAL_HOUR_SHARE) return null;
+  return {
+    kind: 'unusual-hour',
+    weight: WEIGHTS.unusualHour,
+    detail: `Signed in around ${String(hour).padStart(2, '0')}:00 UTC, outside your usual hours`,
+  };
+}
+
+// `history` is the user's earlier sign-ins, newest first.
+export function scoreLogin(login: LoginFingerprint, history: LoginFingerprint[], recentFailures: number): LoginAssessment {
+  const signals: RiskSignal[] = [];
+
+  if (history.length > 0) {
+    if (!history.some((prior) => prior.device === login.device)) {
+      signals.push({ kind: 'new-device', weight: WEIGHTS.newDevice, detail: `First sign-in from ${login.device}` });
+    }
+    if (login.country && !history.some((prior) => prior.country === login.country)) {
+      signals.push({ kind: 'new-country', weight: WEIGHTS.newCountry, detail: `First sign-in from ${place(login)}` });
+    }
+    const travel = impossibleTravel(login, history);
+    if (travel) signals.push(travel);
+    const hour = unusualHour(login, history);
+    if (hour) signals.push(hour);
+  }
+
+  if (recentFailures >= FAILED_ATTEMPT_THRESHOLD) {
+    signals.push({
+      kind: 'failed-attempts',
+      weight: Math.min(
+        WEIGHTS.failedAttemptsMax,
+        WEIGHTS.failedAttemptsBase + (recentFailures - FAILED_ATTEMPT_THRESHOLD) * WEIGHTS.failedAttemptsPerExtra,
+      ),
+      detail: `${recentFailures} failed password attempts just before this sign-in`,
+    });
+  }
+
+  const score = Math.min(100, signals.reduce((total, signal) => total + signal.weight, 0));
+  return { score, level: riskLevelFor(score), signals };
+}
@@ -0,0 +1,66 @@
+// Login risk: every sign-in is scored from 0 (routine) to 100 (almost certainly not the user)
+// by comparing it with the user's earlier sign-ins. Credential changes share the same event
+// log as unscored audit entries. No imports, so the Security page can share these types with
+// /api/security-events.
+
+export type RiskSignalKind = 'new-device' | 'new-country' | 'impossible-travel' | 'failed-attempts' | 'unusual-hour';
+
+export interface RiskSignal {
+  kind: RiskSignalKind;
+  // Points this signal added to the score.
+  weight: number;
+  detail: string;
+}
+
+export type RiskLevel = 'low' | 'elevated' | 'high';
+
+export interface LoginFingerprint {
+  at: string;
+  device: string;
+  city: string | null;
+  country: string | null;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+export interface LoginAssessment {
+  score: number;
+  level: RiskLevel;
+  signals: RiskSignal[];
+}
+
+export type SecurityEventKind = 'sign-in' | 'password-changed' | 'email-change-requested' | 'reauth-failed';
+
+export interface SecurityEvent extends LoginFingerprint, LoginAssessment {
+  id: string;
+  kind: SecurityEventKind;
+  ip: string | null;
+  // Audit context for credential events, e.g. { newEmail } for an email change.
+  details?: Record<string, unknown>;
+}
+
+export interface RiskTimelinePoint {
+  // UTC day, YYYY-MM-DD.
+  date: string;
+  // Highest score that day; null when there were no sign-ins.
+  score: number | null;
+  signIns: number;
+}
+
+export interface SecurityAlert {
+  id: string;
+  level: RiskLevel;
+  title: string;
+  description: string;
+  at: string;
+}
+
+export interface RiskOverview {
+  score: number;
+  level: RiskLevel;
+  label: string;
+  lastAnomaly: string;
+  timeline: RiskTimelinePoint[];
+  alerts: SecurityAlert[];
+  events: SecurityEvent[];
+}
@@ -0,0 +1,77 @@
+// Bundled directory of instruments Aurora can recognise in free text.
+// `aliases` are matched case-insensitively on word boundaries ("apple" → AAPL);
+// tickers themselves only match when written in capitals, or as a `$CASHTAG`, unless
+// `matchLowercase` is set for symbols that are unambiguous in lower case too.
+// `cashtagOnly` marks tickers that collide with everyday capitalised words ("MA", "V").
+
+export type InstrumentKind = 'stock' | 'crypto';
+
+export interface InstrumentEntry {
+  symbol: string;
+  kind: InstrumentKind;
+  name: string;
+  aliases?: string[];
+  coingeckoId?: string;
+  matchLowercase?: boolean;
+  cashtagOnly?: boolean;
+}
+
+export const STOCK_DIRECTORY: InstrumentEntry[] = [
+  { symbol: 'AAPL', kind: 'stock', name: 'Apple', aliases: ['apple'] },
+  { symbol: 'MSFT', kind: 'stock', name: 'Microsoft', aliases: ['microsoft'] },
+  { symbol: 'GOOGL', kind: 'stock', name: 'Alphabet', aliases: ['alphabet', 'google'] },
+  { symbol: 'AMZN', kind: 'stock', name: 'Amazon', aliases: ['amazon'] },
+  { symbol: 'META', kind: 'stock', name: 'Meta Platforms', aliases: ['meta platforms', 'facebook'] },
+  { symbol: 'NVDA', kind: 'stock', name: 'NVIDIA', aliases: ['nvidia'] },
+  { symbol: 'TSLA', kind: 'stock', name: 'Tesla', aliases: ['tesla'] },
+  { symbol: 'NFLX', kind: 'stock', name: 'Netflix', aliases: ['netflix'] },
+  { symbol: 'AMD', kind: 'stock', name: 'Advanced Micro Devices', aliases: ['advanced micro devices'] },
+  { symbol: 'INTC', kind: 'stock', name: 'Intel', aliases: ['intel'] },
+  { symbol: 'ORCL', kind: 'stock', name: 'Oracle', aliases: ['oracle'] },
+  { symbol: 'CRM', kind: 'stock', name: 'Salesforce', aliases: ['salesforce'] },
+  { symbol: 'ADBE', kind: 'stock', name: 'Adobe', aliases: ['adobe'] },
+  { symbol: 'IBM', kind: 'stock', name: 'IBM', aliases: ['ibm'] },
+  { symbol: 'UBER', kind: 'stock', name: 'Uber Technologies', aliases: ['uber technologies'] },
+  { symbol: 'SHOP', kind: 'stock', name: 'Shopify', aliases: ['shopify'], cashtagOnly: true },
+  { symbol: 'PYPL', kind: 'stock', name: 'PayPal', aliases: ['paypal'] },
+  { symbol: 'SQ', kind: 'stock', name: 'Block', aliases: ['block inc'] },
+  { symbol: 'COIN', kind: 'stock', name: 'Coinbase', aliases: ['coinbase'], cashtagOnly: true },
+  { symbol: 'JPM', kind: 'stock', name: 'JPMorgan Chase', aliases: ['jpmorgan', 'jp morgan'] },
+  { symbol: 'BAC', kind: 'stock', name: 'Bank of America', aliases: ['bank of america'] },
+  { symbol: 'GS', kind: 'stock', name: 'Goldman Sachs', aliases: ['goldman sachs'], cashtagOnly: true },
+  { symbol: 'V', kind: 'stock', name: 'Visa', aliases: ['visa inc'], cashtagOnly: true },
+  { symbol: 'MA', kind: 'stock', name: 'Mastercard', aliases: ['mastercard'], cashtagOnly: true },
+  { symbol: 'BRK.B', kind: 'stock', name: 'Berkshire Hathaway', aliases: ['berkshire', 'berkshire hathaway'] },
+  { symbol: 'JNJ', kind: 'stock', name: 'Johnson & Johnson', aliases: ['johnson & johnson', 'johnson and johnson'] },
+  { symbol: 'PFE', kind: 'stock', name: 'Pfizer', aliases: ['pfizer'] },
+  { symbol: 'KO', kind: 'stock', name: 'Coca-Cola', aliases: ['coca-cola', 'coca cola'], cashtagOnly: true },
+  { symbol: 'PEP', kind: 'stock', name: 'PepsiCo', aliases: ['pepsico', 'pepsi'] },
+  { symbol: 'WMT', kind: 'stock', name: 'Walmart', aliases: ['walmart'] },
+  { symbol: 'COST', kind: 'stock', name: 'Costco', aliases: ['costco'], cashtagOnly: true },
+  { symbol: 'DIS', kind: 'stock', name: 'Walt Disney', aliases: ['disney'] },
+  { symbol: 'NKE', kind: 'stock', name: 'Nike', aliases: ['nike'] },
+  { symbol: 'SBUX', kind: 'stock', name: 'Starbucks', aliases: ['starbucks'] },
+  { symbol: 'XOM', kind: 'stock', name: 'Exxon Mobil', aliases: ['exxon', 'exxonmobil'] },
+  { symbol: 'SPY', kind: 'stock', name: 'SPDR S&P 500 ETF', aliases: ['s&p 500 etf'] },
+  { symbol: 'QQQ', kind: 'stock', name: 'Invesco QQQ Trust', aliases: ['nasdaq 100 etf'] },
+  { symbol: 'VTI', kind: 'stock', name: 'Vanguard Total Stock Market ETF', aliases: ['vanguard total stock market'] },
+  { symbol: 'VOO', kind: 'stock', name: 'Vanguard S&P 500 ETF' },
+];
+
+export const CRYPTO_DIRECTORY: InstrumentEntry[] = [
+  { symbol: 'BTC', kind: 'crypto', name: 'Bitcoin', aliases: ['bitcoin'], coingeckoId: 'bitcoin', matchLowercase: true },
+  { symbol: 'ETH', kind: 'crypto', name: 'Ethereum', aliases: ['ethereum', 'ether'], coingeckoId: 'ethereum', matchLowercase: true },
+  { symbol: 'SOL', kind: 'crypto', name: 'Solana', aliases: ['solana'], coingeckoId: 'solana' },
+  { symbol: 'XRP', kind: 'crypto', name: 'XRP', aliases: ['ripple'], coingeckoId: 'ripple', matchLowercase: true },
+  { symbol: 'ADA', kind: 'crypto', name: 'Cardano', aliases: ['cardano'], coingeckoId: 'cardano' },
+  { symbol: 'DOGE', kind: 'crypto', name: 'Dogecoin', aliases: ['dogecoin'], coingeckoId: 'dogecoin', matchLowercase: true },
+  { symbol: 'DOT', kind: 'crypto', name: 'Polkadot', aliases: ['polkadot'], coingeckoId: 'polkadot' },
+  { symbol: 'AVAX', kind: 'crypto', name: 'Avalanche', aliases: ['avalanche'], coingeckoId: 'avalanche-2' },
+  { symbol: 'LINK', kind: 'crypto', name: 'Chainlink', aliases: ['chainlink'], coingeckoId: 'chainlink', cashtagOnly: true },
+  { symbol: 'LTC', kind: 'crypto', name: 'Litecoin', aliases: ['litecoin'], coingeckoId: 'litecoin', matchLowercase: true },
+  { symbol: 'MATIC', kind: 'crypto', name: 'Polygon', aliases: ['polygon'], coingeckoId: 'matic-network' },
+  { symbol: 'USDT', kind: 'crypto', name: 'Tether', aliases: ['tether'], coingeckoId: 'tether', matchLowercase: true },
+  { symbol: 'USDC', kind: 'crypto', name: 'USD Coin', aliases: ['usd coin'], coingeckoId: 'usd-coin', matchLowercase: true },
+];
+
+export const INSTRUMENT_DIRECTORY: InstrumentEntry[] = [...CRYPTO_DIRECTORY, ...STOCK_DIRECTORY];
@@ -0,0 +1,132 @@
+import { INSTRUMENT_DIRECTORY, type InstrumentEntry, type InstrumentKind } from './symbolDirectory.js';
+
+// Finds the stocks and crypto assets a question is about, so the chat handler only fetches
+// quotes for instruments the user actually mentioned.
+//
+// Recognised forms, in order of precedence when they overlap:
+//   $NVDA / $sol   cashtags; unknown cashtags that look like a ticker are treated as stocks
+//   NVDA, SOL      directory tickers written in capitals, on word boundaries
+//   Apple, bitcoin directory aliases, case-insensitive, on word boundaries
+
+export interface ResolvedInstrument {
+  symbol: string;
+  kind: InstrumentKind;
+  name: string;
+  coingeckoId?: string;
+  matchedBy: 'cashtag' | 'ticker' | 'alias';
+}
+
+export interface SymbolResolution {
+  stocks: string[];
+  crypto: string[];
+  instruments: ResolvedInstrument[];
+  // True when the question mentioned more instruments than the cap allowed.
+  truncated: boolean;
+}
+
+const DEFAULT_MAX_QUOTES_PER_QUESTION = 4;
+const CASHTAG_PATTERN = /(^|[^\w$])\$([A-Za-z][A-Za-z0-9]{0,5}(?:\.[A-Za-z])?)(?![\w.])/g;
+const STOCK_TICKER_SHAPE = /^[A-Z]{1,5}(?:\.[A-Z])?$/;
+
+const bySymbol = new Map<string, InstrumentEntry>(
+  INSTRUMENT_DIRECTORY.map((entry) => [entry.symbol, entry]),
+);
+
+const byAlias = new Map<string, InstrumentEntry>();
+for (const entry of INSTRUMENT_DIRECTORY) {
+  for (const alias of entry.aliases ?? []) byAlias.set(alias.toLowerCase(), entry);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Lookarounds instead of \b so that "BRK.B" and "coca-cola" keep their punctuation, and
+// so that "eth" inside "method" never counts as a mention.
+const tickerMatchers = INSTRUMENT_DIRECTORY.filter((entry) => !entry.cashtagOnly).map((entry) => ({
+  entry,
+  pattern: new RegExp(
+    `(?<![\\w$.])${escapeRegExp(entry.symbol)}(?![\\w]|\\.\\w)`,
+    entry.matchLowercase ? 'gi' : 'g',
+  ),
+}));
+
+const aliasMatchers = Array.from(byAlias.entries()).map(([alias, entry]) => ({
+  entry,
+  pattern: new RegExp(`(?<![\\w])${escapeRegExp(alias)}(?![\\w])`, 'gi'),
+}));
+
+function toResolved(entry: InstrumentEntry, matchedBy: ResolvedInstrument['matchedBy']): ResolvedInstrument {
+  return {
+    symbol: entry.symbol,
+    kind: entry.kind,
+    name: entry.name,
+    coingeckoId: entry.coingeckoId,
+    matchedBy,
+  };
+}
+
+export function getMaxQuotesPerQuestion(): number {
+  const raw = Number((globalThis as any)?.process?.env?.AURORA_MAX_QUOTES_PER_QUESTION);
+  return Number.isInteger(raw) && raw >= 0 ? raw : DEFAULT_MAX_QUOTES_PER_QUESTION;
+}
+
+// Exact lookup by ticker (with or without `$`) or by alias, e.g. for tool arguments.
+export function lookupInstrument(query: string): InstrumentEntry | null {
+  const trimmed = query.trim().replace(/^\$/, '');
+  return bySymbol.get(trimmed.toUpperCase()) ?? byAlias.get(trimmed.toLowerCase()) ?? null;
+}
+
+export function getCoinGeckoId(symbol: string): string | undefined {
+  const entry = bySymbol.get(symbol.toUpperCase());
+  return entry?.kind === 'crypto' ? entry.coingeckoId : undefined;
+}
+
+export function resolveSymbols(
+  text: string,
+  { maxSymbols = getMaxQuotesPerQuestion() }: { maxSymbols?: number } = {},
+): SymbolResolution {
+  const hits: { index: number; instrument: ResolvedInstrument }[] = [];
+
+  for (const match of text.matchAll(CASHTAG_PATTERN)) {
+    const symbol = match[2].toUpperCase();
+    const index = (match.index ?? 0) + match[1].length;
+    const entry = bySymbol.get(symbol);
+    if (entry) {
+      hits.push({ index, instrument: toResolved(entry, 'cashtag') });
+    } else if (STOCK_TICKER_SHAPE.test(symbol)) {
+      hits.push({ index, instrument: { symbol, kind: 'stock', name: symbol, matchedBy: 'cashtag' } });
+    }
+  }
+
+  for (const { entry, pattern } of tickerMatchers) {
+    for (const match of text.matchAll(pattern)) {
+      hits.push({ index: match.index ?? 0, instrument: toResolved(entry, 'ticker') });
+    }
+  }
+
+  for (const { entry, pattern } of aliasMatchers) {
+    for (const match of text.matchAll(pattern)) {
+      hits.push({ index: match.index ?? 0, instrument: toResolved(entry, 'alias') });
+    }
+  }
+
+  hits.sort((a, b) => a.index - b.index);
+
+  const seen = new Set<string>();
+  const unique: ResolvedInstrument[] = [];
+  for (const { instrument } of hits) {
+    if (seen.has(instrument.symbol)) continue;
+    seen.add(instrument.symbol);
+    unique.push(instrument);
+  }
+
+  const instruments = unique.slice(0, Math.max(0, maxSymbols));
+
+  return {
+    stocks: instruments.filter((i) => i.kind === 'stock').map((i) => i.symbol),
+    crypto: instruments.filter((i) => i.kind === 'crypto').map((i) => i.symbol),
+    instruments,
+    truncated: unique.length > instruments.length,
+  };
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { runAuroraTool, type ToolContext } from './tools.js';
+
+// Just enough of the Supabase query builder for the ledger tools, returning at most
+// `maxRows` rows per request the way PostgREST's max-rows setting does.
+function fakeDb(tables: Record<string, any[]>, maxRows = 1_000) {
+  return {
+    from(table: string) {
+      const filters: ((row: any) => boolean)[] = [];
+      let orderBy: string | null = null;
+      let from = 0;
+      let to = Infinity;
+      const builder: any = {
+        select: () => builder,
+        eq(column: string, value: unknown) {
+          filters.push((row) => row[column] === value);
+          return builder;
+        },
+        lt(column: string, value: number) {
+          filters.push((row) => row[column] < value);
+          return builder;
+        },
+        order(column: string) {
+          orderBy = column;
+          return builder;
+        },
+        range(start: number, end: number) {
+          from = start;
+          to = end;
+          return builder;
+        },
+        then(resolve: (result: { data: any[]; error: null }) => unknown) {
+          let rows = (tables[table] ?? []).filter((row) => filters.every((test) => test(row)));
+          if (orderBy) rows = [...rows].sort((a, b) => (a[orderBy!] < b[orderBy!] ? -1 : 1));
+          return Promise.resolve({ data: rows.slice(from, Math.min(to + 1, from + maxRows)), error: null }).then(
+            resolve,
+          );
+        },
+      };
+      return builder;
+    },
+  };
+}
+
+function context(db: unknown): ToolContext {
+  return {
+    db,
+    userId: 'user-1',
+    market: {
+      getFxRates: async () => ({}) as any,
+      getStockQuotes: async () => ({}) as any,
+      getCryptoPrices: async () => ({}) as any,
+    },
+  };
+}
+
+describe('sumSpending', () => {
+  it('totals every matching row, past the per-request row cap', async () => {
+    const transactions = Array.from({ length: 2_500 }, (_, index) => ({
+      id: String(index).padStart(5, '0'),
+      user_id: 'user-1',
+      amount: -1.25,
+    }));
+    transactions.push({ id: '99999', user_id: 'user-2', amount: -500 });
+    transactions.push({ id: '99998', user_id: 'user-1', amount: 2_000 });
+
+    const result = JSON.parse(await runAuroraTool('sumSpending', '{}', context(fakeDb({ transactions }))));
+
+    expect(result).toEqual({ total: 3125, transactionCount: 2_500, truncated: false });
+  });
+
+  it('reports a total cut short by the row limit as truncated', async () => {
+    const transactions = Array.from({ length: 50_001 }, (_, index) => ({
+      id: String(index).padStart(6, '0'),
+      user_id: 'user-1',
+      amount: -1,
+    }));
+
+    const result = JSON.parse(await runAuroraTool('sumSpending', '{}', context(fakeDb({ transactions }))));
+
+    expect(result).toMatchObject({ total: 50_000, transactionCount: 50_000, truncated: true });
+  });
+});
@@ -0,0 +1,439 @@
+// Typed tool registry for Aurora's function calling.
+// Every tool runs server-side. Ledger tools only ever read rows where `user_id` matches the
+// caller, so the model cannot widen its own scope by inventing arguments.
+
+import { categoryFamily, findCategory, type Category } from './categorisation/taxonomy.js';
+import type { LlmToolSpec } from './llm/index.js';
+import type { MarketDataService } from './market/index.js';
+import { identifyMerchant, merchantAliasKey } from './merchants/normalise.js';
+import { lookupInstrument } from './symbols.js';
+
+export type MarketDataSource = Pick<MarketDataService, 'getFxRates' | 'getStockQuotes' | 'getCryptoPrices'>;
+
+export interface ToolContext {
+  db: any | null;
+  userId: string;
+  market: MarketDataSource;
+  // Currency crypto prices are quoted in; stocks keep their listing currency.
+  baseCurrency?: string;
+  quoteBudget?: { remaining: number };
+  // The user's category taxonomy; a top-level category then also matches its sub-categories.
+  categories?: Category[];
+}
+
+export interface AuroraTool<Args> {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+  parse: (raw: Record<string, unknown>) => Args;
+  run: (args: Args, ctx: ToolContext) => Promise<unknown>;
+}
+
+export class ToolArgumentError extends Error {}
+
+// PostgREST caps a single response at this many rows, so ledger totals page through.
+const PAGE_SIZE = 1_000;
+// Rows a ledger total reads at most; beyond that it is reported as truncated.
+const LEDGER_ROW_LIMIT = 50_000;
+// Merchants a merchant filter may expand to.
+const MERCHANT_MATCH_LIMIT = 50;
+const LIST_DEFAULT_LIMIT = 20;
+const LIST_MAX_LIMIT = 100;
+
+function defineTool<Args>(tool: AuroraTool<Args>): AuroraTool<Args> {
+  return tool;
+}
+
+// --- Argument parsing helpers ---
+
+function optionalString(raw: Record<string, unknown>, key: string): string | undefined {
+  const value = raw[key];
+  if (value == null || value === '') return undefined;
+  if (typeof value !== 'string') throw new ToolArgumentError(`${key} must be a string`);
+  return value.trim() || undefined;
+}
+
+function optionalNumber(raw: Record<string, unknown>, key: string): number | undefined {
+  const value = raw[key];
+  if (value == null || value === '') return undefined;
+  const num = typeof value === 'number' ? value : Number(value);
+  if (!Number.isFinite(num)) throw new ToolArgumentError(`${key} must be a number`);
+  return num;
+}
+
+function optionalDate(raw: Record<string, unknown>, key: string): string | undefined {
+  const value = optionalString(raw, key);
+  if (!value) return undefined;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || Number.isNaN(Date.parse(value))) {
+    throw new ToolArgumentError(`${key} must be a YYYY-MM-DD date`);
+  }
+  return value;
+}
+
+// The model only ever needs plain substring matching, so LIKE wildcards in its input are
+// escaped rather than honoured.
+function toLikePattern(value: string): string {
+  return `%${value.trim().replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+}
+
+// A value inside an `or()` filter is double-quoted so commas and parentheses stay literal;
+// PostgREST reads backslash escapes within the quotes.
+function quoteFilterValue(value: string): string {
+  return `"${value.replace(/["\\]/g, (char) => `\\${char}`)}"`;
+}
+
+function nextDay(date: string): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString().slice(0, 10);
+}
+
+interface LedgerFilter {
+  category?: string;
+  merchant?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+function parseLedgerFilter(raw: Record<string, unknown>): LedgerFilter {
+  const filter = {
+    category: optionalString(raw, 'category'),
+    merchant: optionalString(raw, 'merchant'),
+    startDate: optionalDate(raw, 'startDate'),
+    endDate: optionalDate(raw, 'endDate'),
+  };
+  if (filter.startDate && filter.endDate && filter.startDate > filter.endDate) {
+    throw new ToolArgumentError('startDate must not be after endDate');
+  }
+  return filter;
+}
+
+// The user's merchants whose name or statement spellings match, so "Whole Foods" also finds
+// rows described as "WHOLEFDS MKT #10234".
+async function findMerchantIds(ctx: ToolContext, merchant: string | undefined): Promise<string[]> {
+  if (!merchant || !ctx.db) return [];
+  const key = identifyMerchant(merchant)?.key ?? merchantAliasKey(merchant);
+  if (!key) return [];
+  const [byName, byAlias] = await Promise.all([
+    ctx.db
+      .from('merchants')
+      .select('id')
+      .eq('user_id', ctx.userId)
+      .ilike('name', toLikePattern(merchant))
+      .limit(MERCHANT_MATCH_LIMIT),
+    ctx.db
+      .from('merchant_aliases')
+      .select('merchant_id')
+      .eq('user_id', ctx.userId)
+      .ilike('alias', `%${key}%`)
+      .limit(MERCHANT_MATCH_LIMIT),
+  ]);
+  if (byName.error) throw new Error(byName.error.message);
+  if (byAlias.error) throw new Error(byAlias.error.message);
+  return [
+    ...new Set<string>([
+      ...(byName.data ?? []).map((row: any) => String(row.id)),
+      ...(byAlias.data ?? []).map((row: any) => String(row.merchant_id)),
+    ]),
+  ];
+}
+
+function applyLedgerFilter(
+  query: any,
+  filter: LedgerFilter,
+  categories: Category[] = [],
+  merchantIds: string[] = [],
+): any {
+  let q = query;
+  if (filter.category && findCategory(categories, filter.category)) {
+    q = q.in('category', categoryFamily(categories, filter.category));
+  } else if (filter.category) {
+    q = q.ilike('category', toLikePattern(filter.category));
+  }
+  if (filter.merchant && merchantIds.length) {
+    const pattern = quoteFilterValue(toLikePattern(filter.merchant));
+    q = q.or(`description.ilike.${pattern},merchant_id.in.(${merchantIds.join(',')})`);
+  } else if (filter.merchant) {
+    q = q.ilike('description', toLikePattern(filter.merchant));
+  }
+  if (filter.startDate) q = q.gte('timestamp', filter.startDate);
+  // endDate is inclusive of the whole day.
+  if (filter.endDate) q = q.lt('timestamp', nextDay(filter.endDate));
+  return q;
+}
+
+const ledgerFilterProperties = {
+  category: {
+    type: 'string',
+    description:
+      'Spending category to match, e.g. "Food" or "Transport". Case-insensitive; a top-level category ' +
+      'includes its sub-categories.',
+  },
+  merchant: {
+    type: 'string',
+    description:
+      'Merchant to match, e.g. "Uber". Matches the cleaned-up merchant name and the raw description text.',
+  },
+  startDate: { type: 'string', description: 'Inclusive start date, YYYY-MM-DD.' },
+  endDate: { type: 'string', description: 'Inclusive end date, YYYY-MM-DD.' },
+};
+
+const LEDGER_UNAVAILABLE = { error: 'The ledger is not connected for this session.' };
+
+// --- Tools ---
+
+const sumSpending = defineTool<LedgerFilter>({
+  name: 'sumSpending',
+  description:
+    "Total the user's spending (outgoing transactions) for an optional category, merchant and date range. " +
+    'Use this for any "how much did I spend" question instead of estimating.',
+  parameters: {
+    type: 'object',
+    properties: ledgerFilterProperties,
+    additionalProperties: false,
+  },
+  parse: parseLedgerFilter,
+  async run(filter, ctx) {
+    if (!ctx.db) return LEDGER_UNAVAILABLE;
+    const merchantIds = await findMerchantIds(ctx, filter.merchant);
+
+    let total = 0;
+    let transactionCount = 0;
+    let truncated = true;
+    for (let offset = 0; offset < LEDGER_ROW_LIMIT; offset += PAGE_SIZE) {
+      const { data, error } = await applyLedgerFilter(
+        ctx.db
+          .from('transactions')
+          .select('amount')
+          .eq('user_id', ctx.userId)
+          .lt('amount', 0),
+        filter,
+        ctx.categories,
+        merchantIds,
+      )
+        .order('id', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+      if (error) throw new Error(error.message);
+
+      const rows: any[] = data ?? [];
+      total += rows.reduce((sum, row) => sum + Math.abs(Number(row.amount) || 0), 0);
+      transactionCount += rows.length;
+      if (rows.length < PAGE_SIZE) {
+        truncated = false;
+        break;
+      }
+    }
+
+    return {
+      ...filter,
+      total: Math.round(total * 100) / 100,
+      transactionCount,
+      truncated,
+    };
+  },
+});
+
+interface ListTransactionsArgs extends LedgerFilter {
+  minAmount?: number;
+  maxAmount?: number;
+  limit: number;
+}
+
+const listTransactions = defineTool<ListTransactionsArgs>({
+  name: 'listTransactions',
+  description:
+    "List the user's transactions, newest first, filtered by category, merchant, date range or amount. " +
+    'Amounts are negative for spending and positive for income.',
+  parameters: {
+    type: 'object',
+    properties: {
+      ...ledgerFilterProperties,
+      minAmount: { type: 'number', description: 'Minimum signed amount.' },
+      maxAmount: { type: 'number', description: 'Maximum signed amount.' },
+      limit: {
+        type: 'integer',
+        description: `How many rows to return (default ${LIST_DEFAULT_LIMIT}, max ${LIST_MAX_LIMIT}).`,
+      },
+    },
+    additionalProperties: false,
+  },
+  parse(raw) {
+    const limit = optionalNumber(raw, 'limit') ?? LIST_DEFAULT_LIMIT;
+    return {
+      ...parseLedgerFilter(raw),
+      minAmount: optionalNumber(raw, 'minAmount'),
+      maxAmount: optionalNumber(raw, 'maxAmount'),
+      limit: Math.min(Math.max(1, Math.floor(limit)), LIST_MAX_LIMIT),
+    };
+  },
+  async run(args, ctx) {
+    if (!ctx.db) return LEDGER_UNAVAILABLE;
+    let query = applyLedgerFilter(
+      ctx.db
+        .from('transactions')
+        .select('timestamp, description, amount, category, merchant_info:merchants(name)')
+        .eq('user_id', ctx.userId),
+      args,
+      ctx.categories,
+      await findMerchantIds(ctx, args.merchant),
+    );
+    if (args.minAmount != null) query = query.gte('amount', args.minAmount);
+    if (args.maxAmount != null) query = query.lte('amount', args.maxAmount);
+
+    const { data, error } = await query
+      .order('timestamp', { ascending: false })
+      .limit(args.limit);
+    if (error) throw new Error(error.message);
+
+    // The cleaned-up merchant name rides along with the raw description.
+    const transactions = (data ?? []).map(({ merchant_info, ...row }: any) => ({
+      ...row,
+      merchant: merchant_info?.name ?? null,
+    }));
+    return { transactions };
+  },
+});
+
+const getAccountBalances = defineTool<Record<string, never>>({
+  name: 'getAccountBalances',
+  description: "Current balance of each of the user's linked accounts.",
+  parameters: { type: 'object', properties: {}, additionalProperties: false },
+  parse: () => ({}),
+  async run(_args, ctx) {
+    if (!ctx.db) return LEDGER_UNAVAILABLE;
+    const { data, error } = await ctx.db
+      .from('accounts')
+      .select('name, institution, type, balance, currency')
+      .eq('user_id', ctx.userId)
+      .order('name', { ascending: true });
+    if (error) throw new Error(error.message);
+
+    return { accounts: data ?? [] };
+  },
+});
+
+const getFxRate = defineTool<{ base: string; quote: string }>({
+  name: 'getFxRate',
+  description: 'Live foreign-exchange rate for a currency pair such as "USD/EUR".',
+  parameters: {
+    type: 'object',
+    properties: {
+      pair: { type: 'string', description: 'Currency pair as BASE/QUOTE ISO codes, e.g. "GBP/USD".' },
+    },
+    required: ['pair'],
+    additionalProperties: false,
+  },
+  parse(raw) {
+    const pair = (optionalString(raw, 'pair') ?? '').toUpperCase();
+    const match = pair.match(/^([A-Z]{3})\s*[/\-: ]?\s*([A-Z]{3})$/);
+    if (!match) throw new ToolArgumentError('pair must look like "USD/EUR"');
+    return { base: match[1], quote: match[2] };
+  },
+  async run({ base, quote }, ctx) {
+    const rates = await ctx.market.getFxRates(base, [quote]);
+    const rate = rates[quote];
+    if (!rate) return { pair: `${base}/${quote}`, error: 'Rate unavailable right now.' };
+    return { pair: `${base}/${quote}`, rate: rate.rate, asOf: rate.asOf, stale: rate.stale };
+  },
+});
+
+const getQuote = defineTool<{ symbol: string; kind?: 'stock' | 'crypto' }>({
+  name: 'getQuote',
+  description:
+    'Latest price for a stock ticker (e.g. "AAPL"), crypto symbol (e.g. "BTC") or well-known company or coin name.',
+  parameters: {
+    type: 'object',
+    properties: {
+      symbol: { type: 'string', description: 'Ticker, crypto symbol or name.' },
+    },
+    required: ['symbol'],
+    additionalProperties: false,
+  },
+  parse(raw) {
+    const input = optionalString(raw, 'symbol') ?? '';
+    const known = lookupInstrument(input);
+    if (known) return { symbol: known.symbol, kind: known.kind };
+
+    const symbol = input.toUpperCase().replace(/^\$/, '');
+    if (!/^[A-Z0-9.\-]{1,10}$/.test(symbol)) throw new ToolArgumentError('symbol is not a valid ticker');
+    return { symbol };
+  },
+  async run({ symbol, kind }, ctx) {
+    if (ctx.quoteBudget) {
+      if (ctx.quoteBudget.remaining <= 0) {
+        return { symbol, error: 'Quote limit for this question reached.' };
+      }
+      ctx.quoteBudget.remaining -= 1;
+    }
+
+    if (kind !== 'stock') {
+      const crypto = (await ctx.market.getCryptoPrices([symbol], ctx.baseCurrency ?? 'USD'))[symbol];
+      if (crypto) {
+        return {
+          symbol,
+          price: crypto.price,
+          currency: crypto.currency,
+          kind: 'crypto',
+          asOf: crypto.asOf,
+          stale: crypto.stale,
+        };
+      }
+      if (kind === 'crypto') return { symbol, error: 'Quote unavailable right now.' };
+    }
+
+    const stocks = await ctx.market.getStockQuotes([symbol]);
+    const quote = stocks[symbol];
+    if (!quote) return { symbol, error: 'Quote unavailable right now.' };
+    return {
+      symbol,
+      price: quote.price,
+      currency: quote.currency,
+      kind: 'stock',
+      asOf: quote.asOf,
+      stale: quote.stale,
+    };
+  },
+});
+
+export const AURORA_TOOLS: AuroraTool<any>[] = [
+  sumSpending,
+  listTransactions,
+  getAccountBalances,
+  getFxRate,
+  getQuote,
+];
+
+export function describeAuroraTools(tools: AuroraTool<any>[] = AURORA_TOOLS): LlmToolSpec[] {
+  return tools.map((tool) => ({
+    name: tool.name,
+    description: tool.description,
+    parameters: tool.parameters,
+  }));
+}
+
+// Runs one model-issued call and returns the JSON string fed back to the model. Failures
+// are reported to the model as `{ error }` rather than thrown, so it can recover or
+// explain the gap to the user.
+export async function runAuroraTool(
+  name: string,
+  rawArguments: string,
+  ctx: ToolContext,
+): Promise<string> {
+  const tool = AURORA_TOOLS.find((t) => t.name === name);
+  if (!tool) return JSON.stringify({ error: `Unknown tool: ${name}` });
+
+  try {
+    const parsed = rawArguments ? JSON.parse(rawArguments) : {};
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new ToolArgumentError('arguments must be a JSON object');
+    }
+    const args = tool.parse(parsed);
+    return JSON.stringify(await tool.run(args, ctx));
+  } catch (err) {
+    if (err instanceof ToolArgumentError || err instanceof SyntaxError) {
+      return JSON.stringify({ error: `Invalid arguments: ${err.message}` });
+    }
+    console.error(`Aurora tool ${name} error`, err);
+    return JSON.stringify({ error: 'The tool failed to run. Try again later.' });
+  }
+}
@@ -0,0 +1,146 @@
+import type { Institution, LinkedAccount, LinkSession, SyncAttempt } from './aurora/banking/types';
+import { supabase } from './supabaseClient';
+
+// Browser-side client for /api/bank-connections and /api/bank-sync. Linking is link →
+// (hosted consent) → exchange: the sandbox connector hands back its public token straight
+// away, Plaid needs Plaid Link, which is loaded from Plaid's CDN the first time it is used.
+
+export type { Institution, LinkedAccount, SyncAttempt } from './aurora/banking/types';
+
+export interface BankConnectorInfo {
+  name: string;
+  label: string;
+}
+
+export type AccountSettings = Partial<Pick<LinkedAccount, 'nickname' | 'visible' | 'notifications'>>;
+
+const PLAID_LINK_SCRIPT = 'https://cdn.plaid.com/link/v2/stable/link-initialize.js';
+
+let plaidScript: Promise<void> | undefined;
+
+async function bankRequest(method: 'GET' | 'POST' | 'DELETE', url: string, body?: unknown): Promise<any> {
+  const { data } = await supabase.auth.getSession();
+  const accessToken = data.session?.access_token;
+  if (!accessToken) throw new Error('Your session has expired. Sign in again.');
+
+  const res = await fetch(url, {
+    method,
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (!res.ok) {
+    const payload = await res.json().catch(() => null);
+    throw new Error(payload?.error ?? `Bank request failed (${res.status})`);
+  }
+  return res.status === 204 ? null : res.json();
+}
+
+function loadPlaidLink(): Promise<void> {
+  if ((window as any).Plaid) return Promise.resolve();
+  plaidScript ??= new Promise<void>((resolve, reject) => {
+    const script = document.createElement('script');
+    script.src = PLAID_LINK_SCRIPT;
+    script.async = true;
+    script.onload = () => resolve();
+    script.onerror = () => {
+      plaidScript = undefined;
+      reject(new Error('Could not load Plaid Link. Check your connection and try again.'));
+    };
+    document.head.appendChild(script);
+  });
+  return plaidScript;
+}
+
+// Resolves to the public token and the institution the user actually picked inside Link, or
+// null if they closed it.
+async function openPlaidLink(
+  linkToken: string,
+): Promise<{ publicToken: string; institution: { id: string; name: string } | null } | null> {
+  await loadPlaidLink();
+  return new Promise((resolve, reject) => {
+    const handler = (window as any).Plaid.create({
+      token: linkToken,
+      onSuccess: (publicToken: string, metadata: any) => {
+        handler.destroy();
+        const picked = metadata?.institution;
+        resolve({
+          publicToken,
+          institution: picked?.institution_id ? { id: picked.institution_id, name: picked.name } : null,
+        });
+      },
+      onExit: (error: any) => {
+        handler.destroy();
+        if (error) reject(new Error(error.display_message ?? error.error_message ?? 'Plaid Link failed.'));
+        else resolve(null);
+      },
+    });
+    handler.open();
+  });
+}
+
+export async function loadLinkedAccounts(): Promise<{ connectors: BankConnectorInfo[]; accounts: LinkedAccount[] }> {
+  const payload = await bankRequest('GET', '/api/bank-connections');
+  return {
+    connectors: Array.isArray(payload?.connectors) ? payload.connectors : [],
+    accounts: Array.isArray(payload?.accounts) ? payload.accounts : [],
+  };
+}
+
+export async function searchInstitutions(query: string): Promise<Institution[]> {
+  const payload = await bankRequest('GET', `/api/bank-connections?search=${encodeURIComponent(query)}`);
+  return Array.isArray(payload?.institutions) ? payload.institutions : [];
+}
+
+// Resolves to the refreshed account list, or null if the user backed out of the consent flow.
+export async function linkInstitution(institution: Institution): Promise<LinkedAccount[] | null> {
+  const session: LinkSession = await bankRequest('POST', '/api/bank-connections', {
+    action: 'link',
+    connector: institution.connector,
+    institutionId: institution.id,
+  });
+
+  let publicToken = session.publicToken;
+  let linked = { id: institution.id, name: institution.name, country: institution.country };
+  if (!publicToken) {
+    const result = await openPlaidLink(session.linkToken);
+    if (!result) return null;
+    publicToken = result.publicToken;
+    if (result.institution) linked = { ...linked, ...result.institution };
+  }
+
+  const payload = await bankRequest('POST', '/api/bank-connections', {
+    action: 'exchange',
+    connector: institution.connector,
+    publicToken,
+    institution: linked,
+  });
+  return Array.isArray(payload?.accounts) ? payload.accounts : [];
+}
+
+// Revokes the connector's access and removes every account that came with the connection.
+export async function unlinkConnection(connectionId: string): Promise<void> {
+  await bankRequest('DELETE', '/api/bank-connections', { connectionId });
+}
+
+// Syncs the connection now. Resolves to the attempt, failed or not; rejects only when the sync
+// could not run at all (already running, throttled, offline).
+export async function retrySync(connectionId: string): Promise<SyncAttempt> {
+  const payload = await bankRequest('POST', '/api/bank-sync', { connectionId });
+  return payload.attempt;
+}
+
+export async function loadSyncHistory(connectionId: string): Promise<SyncAttempt[]> {
+  const payload = await bankRequest('GET', `/api/bank-sync?connectionId=${encodeURIComponent(connectionId)}`);
+  return Array.isArray(payload?.attempts) ? payload.attempts : [];
+}
+
+export async function updateAccountSettings(accountId: string, settings: AccountSettings): Promise<void> {
+  const { error } = await supabase
+    .from('accounts')
+    .update({ ...settings, updated_at: new Date().toISOString() })
+    .eq('id', accountId);
+  if (error) throw new Error(error.message);
+}
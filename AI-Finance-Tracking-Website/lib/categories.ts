@@ -0,0 +1,74 @@
+import type {
+  Category,
+  CategoryChange,
+  CategoryInput,
+  CategoryTaxonomy,
+} from './aurora/categorisation/taxonomy';
+import { supabase } from './supabaseClient';
+
+// Browser-side client for /api/categories, used by CategoryProvider and the category manager
+// on the Accounts page. Every edit resolves to the whole taxonomy as it now stands.
+
+export {
+  CATEGORY_COLORS,
+  CATEGORY_ICONS,
+  categoryColor,
+  categoryFamily,
+  categoryIcon,
+  defaultCategories,
+  findCategory,
+  orderedCategories,
+  resolveCategoryName,
+  rollUpCategories,
+  subCategories,
+  topLevelCategory,
+  UNCATEGORISED,
+  type Category,
+  type CategoryChange,
+  type CategoryIcon,
+  type CategoryInput,
+  type CategoryTaxonomy,
+} from './aurora/categorisation/taxonomy';
+
+async function categoriesRequest(method: 'GET' | 'POST' | 'DELETE', body?: unknown): Promise<any> {
+  const { data } = await supabase.auth.getSession();
+  const accessToken = data.session?.access_token;
+  if (!accessToken) throw new Error('Your session has expired. Sign in again.');
+
+  const res = await fetch('/api/categories', {
+    method,
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (!res.ok) {
+    const payload = await res.json().catch(() => null);
+    throw new Error(payload?.error ?? `Category request failed (${res.status})`);
+  }
+  return res.json();
+}
+
+export function loadCategoryTaxonomy(): Promise<CategoryTaxonomy> {
+  return categoriesRequest('GET');
+}
+
+export function saveCategory(
+  category: CategoryInput,
+  id: string | null = null,
+): Promise<{ category: Category; change?: CategoryChange | null; taxonomy: CategoryTaxonomy }> {
+  return categoriesRequest('POST', id ? { action: 'update', id, category } : { action: 'create', category });
+}
+
+export function mergeCategory(
+  id: string,
+  into: string,
+): Promise<{ change: CategoryChange; taxonomy: CategoryTaxonomy }> {
+  return categoriesRequest('POST', { action: 'merge', id, into });
+}
+
+// Sub-categories are merged into their parent; the change is null for an unused top-level one.
+export function deleteCategory(id: string): Promise<{ change: CategoryChange | null; taxonomy: CategoryTaxonomy }> {
+  return categoriesRequest('DELETE', { id });
+}
@@ -0,0 +1,116 @@
+import { isCategoryModel, type CategoryModel } from './aurora/categorisation/classifier';
+import type {
+  ApplyRulesResult,
+  CategoryModelSummary,
+  CategoryRule,
+  CategoryRuleInput,
+  RecategoriseResult,
+} from './aurora/categorisation/types';
+import { supabase } from './supabaseClient';
+
+// Browser-side client for /api/categorisation: the rules editor on the Accounts page and the
+// category picker on the dashboard's transaction list. The learned model is read straight
+// from `categorisation_models` so the statement import preview can run it locally.
+
+export type {
+  ApplyRulesResult,
+  CategoryModelSummary,
+  CategoryRule,
+  CategoryRuleInput,
+  RecategoriseResult,
+  RuleMatchType,
+  SimilarTransaction,
+} from './aurora/categorisation/types';
+export {
+  predictCategory,
+  REVIEW_THRESHOLD,
+  type CategoryModel,
+  type CategoryPrediction,
+} from './aurora/categorisation/classifier';
+
+export interface RulesResponse {
+  rules: CategoryRule[];
+  applied?: ApplyRulesResult;
+}
+
+async function categorisationRequest(method: 'GET' | 'POST' | 'DELETE', body?: unknown): Promise<any> {
+  const { data } = await supabase.auth.getSession();
+  const accessToken = data.session?.access_token;
+  if (!accessToken) throw new Error('Your session has expired. Sign in again.');
+
+  const res = await fetch('/api/categorisation', {
+    method,
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (!res.ok) {
+    const payload = await res.json().catch(() => null);
+    throw new Error(payload?.error ?? `Categorisation request failed (${res.status})`);
+  }
+  return res.json();
+}
+
+export function loadCategorisation(): Promise<{ rules: CategoryRule[]; model: CategoryModelSummary | null }> {
+  return categorisationRequest('GET');
+}
+
+export async function retrainCategoryModel(): Promise<CategoryModelSummary | null> {
+  const { model } = await categorisationRequest('POST', { action: 'train' });
+  return model;
+}
+
+// Null until the user has categorised enough transactions by hand.
+export async function loadCategoryModel(): Promise<CategoryModel | null> {
+  const { data, error } = await supabase.from('categorisation_models').select('model').maybeSingle();
+  if (error) throw new Error(error.message);
+  return isCategoryModel(data?.model) ? data.model : null;
+}
+
+// `apply` re-runs every rule over existing transactions once the change is saved.
+export function saveCategoryRule(
+  rule: CategoryRuleInput,
+  options: { id?: string | null; apply?: boolean } = {},
+): Promise<RulesResponse & { rule: CategoryRule }> {
+  return categorisationRequest('POST', {
+    action: options.id ? 'update-rule' : 'create-rule',
+    id: options.id ?? undefined,
+    rule,
+    apply: options.apply ?? false,
+  });
+}
+
+export function deleteCategoryRule(id: string, apply = true): Promise<RulesResponse> {
+  return categorisationRequest('DELETE', { id, apply });
+}
+
+export function reorderCategoryRules(ids: string[], apply = true): Promise<RulesResponse> {
+  return categorisationRequest('POST', { action: 'reorder-rules', ids, apply });
+}
+
+export function applyCategoryRules(
+  scope: { accountId?: string | null; transactionIds?: string[] } = {},
+): Promise<ApplyRulesResult> {
+  return categorisationRequest('POST', { action: 'apply', ...scope });
+}
+
+export function recategoriseTransaction(transactionId: string, category: string): Promise<RecategoriseResult> {
+  return categorisationRequest('POST', { action: 'recategorise', transactionId, category });
+}
+
+// With `pattern`, also saves an "always do this" rule for the merchant.
+export function categoriseSimilar(
+  transactionIds: string[],
+  category: string,
+  pattern: string | null = null,
+): Promise<{ updated: number; rule?: CategoryRule; rules?: CategoryRule[] }> {
+  return categorisationRequest('POST', {
+    action: 'categorise-similar',
+    transactionIds,
+    category,
+    pattern: pattern ?? undefined,
+    createRule: Boolean(pattern),
+  });
+}
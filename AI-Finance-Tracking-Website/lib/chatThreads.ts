@@ -0,0 +1,115 @@
+import type { AnswerBlock } from './aurora/blocks';
+import { supabase } from './supabaseClient';
+
+// Browser-side access to the persisted Aurora conversations. Row-level security on
+// `chat_threads` / `chat_messages` scopes every query to the signed-in user.
+
+export interface ChatThread {
+  id: string;
+  title: string;
+  pinned: boolean;
+  updatedAt: string;
+}
+
+// `web` sources link out; `knowledge` sources are Aurora's own guides, identified by slug.
+// Rows saved before sources were tagged have no `kind` and are web results.
+export interface StoredChatSource {
+  kind?: 'web' | 'knowledge';
+  title: string;
+  url?: string;
+  slug?: string;
+  heading?: string;
+  snippet?: string;
+}
+
+export interface StoredChatMessage {
+  id: string;
+  role: 'user' | 'ai';
+  text: string;
+  confidence?: number;
+  sources?: StoredChatSource[];
+  usedSearch?: boolean;
+  blocks?: AnswerBlock[];
+  createdAt: string;
+}
+
+export async function getAccessToken(): Promise<string | null> {
+  const { data } = await supabase.auth.getSession();
+  return data.session?.access_token ?? null;
+}
+
+export async function listThreads(): Promise<ChatThread[]> {
+  const { data, error } = await supabase
+    .from('chat_threads')
+    .select('id, title, pinned, updated_at')
+    .order('pinned', { ascending: false })
+    .order('updated_at', { ascending: false });
+
+  if (error) throw new Error(error.message);
+
+  return (data ?? []).map((row: any) => ({
+    id: row.id,
+    title: row.title,
+    pinned: Boolean(row.pinned),
+    updatedAt: row.updated_at,
+  }));
+}
+
+export async function listThreadMessages(threadId: string): Promise<StoredChatMessage[]> {
+  const { data, error } = await supabase
+    .from('chat_messages')
+    .select('id, role, text, confidence, sources, used_search, blocks, created_at')
+    .eq('thread_id', threadId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw new Error(error.message);
+
+  return (data ?? []).map((row: any) => ({
+    id: row.id,
+    role: row.role === 'user' ? 'user' : 'ai',
+    text: row.text,
+    confidence: typeof row.confidence === 'number' ? row.confidence : undefined,
+    sources: Array.isArray(row.sources) ? row.sources : undefined,
+    usedSearch: Boolean(row.used_search),
+    blocks: Array.isArray(row.blocks) ? row.blocks : undefined,
+    createdAt: row.created_at,
+  }));
+}
+
+export async function renameThread(threadId: string, title: string): Promise<void> {
+  const { error } = await supabase.from('chat_threads').update({ title }).eq('id', threadId);
+  if (error) throw new Error(error.message);
+}
+
+export async function setThreadPinned(threadId: string, pinned: boolean): Promise<void> {
+  const { error } = await supabase.from('chat_threads').update({ pinned }).eq('id', threadId);
+  if (error) throw new Error(error.message);
+}
+
+export async function deleteThread(threadId: string): Promise<void> {
+  const { error } = await supabase.from('chat_threads').delete().eq('id', threadId);
+  if (error) throw new Error(error.message);
+}
+
+// Long-term facts Aurora picked up from the user's messages and recalls in every thread.
+export interface AuroraMemory {
+  id: string;
+  fact: string;
+  createdAt: string;
+}
+
+export async function listMemories(): Promise<AuroraMemory[]> {
+  const { data, error } = await supabase
+    .from('user_memories')
+    .select('id, fact, created_at')
+    .order('created_at', { ascending: false });
+
+  if (error) throw new Error(error.message);
+
+  return (data ?? []).map((row: any) => ({ id: row.id, fact: row.fact, createdAt: row.created_at }));
+}
+
+export async function deleteMemory(memoryId: string): Promise<void> {
+  const { error } = await supabase.from('user_memories').delete().eq('id', memoryId);
+  if (error) throw new Error(error.message);
+}
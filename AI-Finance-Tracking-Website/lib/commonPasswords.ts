@@ -0,0 +1,29 @@
+// The most common passwords in public breach corpora, lowercased: a short sample, not a
+// breach lookup. Bundled so the check works offline and never sends a candidate password
+// anywhere. The strength estimate in passwordPolicy.ts catches the long tail of weak
+// passwords this list misses.
+
+export const COMMON_PASSWORDS: readonly string[] = [
+  '123456', '123456789', '12345678', 'password', 'qwerty', '12345', 'qwerty123', '1q2w3e', '111111',
+  '1234567890', '1234567', '123123', 'abc123', 'password1', 'iloveyou', '000000', 'qwertyuiop',
+  'monkey', 'dragon', 'letmein', 'football', 'baseball', 'welcome', 'admin', 'login', 'princess',
+  'sunshine', 'master', 'shadow', 'superman', 'michael', 'jennifer', 'hunter', 'hunter2', 'trustno1',
+  'starwars', 'whatever', 'passw0rd', 'password123', 'password1234', 'welcome1', 'welcome123',
+  'charlie', 'donald', 'freedom', 'ashley', 'bailey', 'access', 'flower', 'hottie', 'loveme',
+  'zaq12wsx', 'zaq1zaq1', 'qazwsx', '1qaz2wsx', 'asdfgh', 'asdfghjkl', 'zxcvbnm', 'zxcvbn',
+  'q1w2e3r4', 'q1w2e3r4t5', '1q2w3e4r', '1q2w3e4r5t', 'aa123456', 'a123456', '123qwe', 'qwe123',
+  'abcd1234', 'abcdef', 'abc12345', '654321', '987654321', '666666', '888888', '121212', '112233',
+  '123321', '7777777', '555555', 'lovely', 'batman', 'soccer', 'hockey', 'killer', 'jordan',
+  'jordan23', 'harley', 'ranger', 'buster', 'thomas', 'tigger', 'robert', 'pepper', 'ginger',
+  'summer', 'winter', 'autumn', 'spring', 'secret', 'secret123', 'changeme', 'default', 'guest',
+  'test', 'test123', 'testing', 'pass', 'pass123', 'passport', 'money', 'money123', 'cheese',
+  'computer', 'internet', 'samsung', 'google', 'apple', 'iphone', 'facebook', 'linkedin', 'twitter',
+  'matrix', 'mustang', 'chelsea', 'liverpool', 'arsenal', 'yankees', 'cowboys', 'eagles', 'dallas',
+  'austin', 'london', 'paris', 'berlin', 'chocolate', 'butterfly', 'purple', 'orange', 'banana',
+  'cookie', 'junior', 'family', 'forever', 'friends', 'nothing', 'angel', 'angels', 'blessed',
+  'jesus', 'heaven', 'daniel', 'andrew', 'joshua', 'matthew', 'jessica', 'amanda', 'nicole',
+  'michelle', 'maggie', 'sophie', 'charlotte', 'qwerty1', 'qwerty12', 'qwertyu', 'azerty',
+  'letmein1', 'admin123', 'administrator', 'root', 'toor', 'master123', 'p@ssw0rd', 'p@ssword',
+  'pa$$word', 'passw0rd1', 'mypassword', 'newpassword', 'finance', 'banking', 'bank123',
+  'neonledger', 'aurora',
+];
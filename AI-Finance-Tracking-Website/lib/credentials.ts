@@ -0,0 +1,45 @@
+import { supabase } from './supabaseClient';
+
+// Browser-side client for /api/credentials. Both changes need the current password, which
+// the server re-checks before touching the account.
+
+async function credentialsRequest(body: Record<string, unknown>): Promise<any> {
+  const { data } = await supabase.auth.getSession();
+  const accessToken = data.session?.access_token;
+  if (!accessToken) throw new Error('Your session has expired. Sign in again.');
+
+  const res = await fetch('/api/credentials', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${accessToken}` },
+    body: JSON.stringify(body),
+  });
+  const payload = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(payload?.error ?? `Request failed (${res.status})`);
+  return payload;
+}
+
+// Resolves to the number of other devices that were signed out, and a message to show when
+// they could not be (e.g. the session has not completed MFA).
+export async function changePassword(
+  currentPassword: string,
+  newPassword: string,
+): Promise<{ signedOut: number; warning: string | null }> {
+  const payload = await credentialsRequest({ action: 'change-password', currentPassword, newPassword });
+  return {
+    signedOut: Number(payload?.signedOutOtherSessions) || 0,
+    warning: typeof payload?.otherSessionsWarning === 'string' ? payload.otherSessionsWarning : null,
+  };
+}
+
+// The switch happens once the link sent to the new address is followed.
+export async function requestEmailChange(currentPassword: string, newEmail: string): Promise<string> {
+  const payload = await credentialsRequest({
+    action: 'change-email',
+    currentPassword,
+    newEmail,
+    redirectTo: `${window.location.origin}/security`,
+  });
+  // Pick up `new_email` so the page can show the pending address.
+  await supabase.auth.refreshSession();
+  return payload?.pendingEmail ?? newEmail;
+}
@@ -0,0 +1,55 @@
+// Currency helpers shared by the browser and the /api functions.
+// FX rates are always quoted from the base currency: `rates.EUR = 0.91` means 1 base = 0.91 EUR.
+
+export const DEFAULT_BASE_CURRENCY = 'USD';
+
+export const SUPPORTED_CURRENCIES = [
+  { code: 'USD', label: 'US dollar' },
+  { code: 'EUR', label: 'Euro' },
+  { code: 'GBP', label: 'British pound' },
+  { code: 'CAD', label: 'Canadian dollar' },
+  { code: 'AUD', label: 'Australian dollar' },
+  { code: 'CHF', label: 'Swiss franc' },
+  { code: 'JPY', label: 'Japanese yen' },
+  { code: 'INR', label: 'Indian rupee' },
+] as const;
+
+export type CurrencyCode = (typeof SUPPORTED_CURRENCIES)[number]['code'];
+
+export function normalizeCurrency(value: unknown): CurrencyCode | null {
+  if (typeof value !== 'string') return null;
+  const code = value.trim().toUpperCase();
+  return SUPPORTED_CURRENCIES.some((c) => c.code === code) ? (code as CurrencyCode) : null;
+}
+
+// Converts `amount` in `from` into the base currency the rates are quoted from.
+// Returns null when no rate is known, so callers can flag the gap instead of summing mixed units.
+export function convertToBase(
+  amount: number,
+  from: string,
+  base: string,
+  rates: Record<string, number>,
+): number | null {
+  const code = from.toUpperCase();
+  if (code === base.toUpperCase()) return amount;
+  const rate = rates[code];
+  return rate ? amount / rate : null;
+}
+
+export function formatMoney(
+  amount: number,
+  currency: string,
+  options: { locale?: string; maximumFractionDigits?: number; compact?: boolean } = {},
+): string {
+  const { locale, maximumFractionDigits, compact } = options;
+  try {
+    return new Intl.NumberFormat(locale, {
+      style: 'currency',
+      currency,
+      maximumFractionDigits,
+      notation: compact ? 'compact' : undefined,
+    }).format(amount);
+  } catch {
+    return `${currency} ${amount.toLocaleString(locale, { maximumFractionDigits: maximumFractionDigits ?? 2 })}`;
+  }
+}
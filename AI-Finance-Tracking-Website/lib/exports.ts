@@ -0,0 +1,80 @@
+import { supabase } from './supabaseClient';
+
+// Browser-side client for /api/export. The endpoint needs the session's bearer token, so
+// files are fetched and handed to the browser as a blob download rather than linked to.
+
+export type LedgerExportFormat = 'csv' | 'ofx' | 'json';
+
+export interface LedgerExportFilter {
+  accountId?: string | null;
+  from?: string | null;
+  to?: string | null;
+  category?: string | null;
+  search?: string | null;
+}
+
+export const LEDGER_EXPORT_FORMATS: { format: LedgerExportFormat; label: string }[] = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'ofx', label: 'OFX' },
+  { format: 'json', label: 'JSON' },
+];
+
+async function download(params: Record<string, string | null | undefined>, fallbackName: string): Promise<void> {
+  const { data } = await supabase.auth.getSession();
+  const accessToken = data.session?.access_token;
+  if (!accessToken) throw new Error('Your session has expired. Sign in again.');
+
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value) query.set(key, value);
+  }
+  const res = await fetch(`/api/export?${query.toString()}`, {
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+  if (!res.ok) {
+    const payload = await res.json().catch(() => null);
+    throw new Error(payload?.error ?? `Export failed (${res.status})`);
+  }
+
+  const disposition = res.headers.get('Content-Disposition') ?? '';
+  const fileName = disposition.match(/filename="([^"]+)"/)?.[1] ?? fallbackName;
+  const url = URL.createObjectURL(await res.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking straight away can cancel the download in some browsers.
+  setTimeout(() => URL.revokeObjectURL(url), 10_000);
+}
+
+export function downloadLedgerExport(format: LedgerExportFormat, filter: LedgerExportFilter = {}): Promise<void> {
+  return download(
+    {
+      format,
+      accountId: filter.accountId,
+      from: filter.from,
+      to: filter.to,
+      category: filter.category,
+      q: filter.search,
+    },
+    `aurora-ledger.${format}`,
+  );
+}
+
+// `month` is YYYY-MM.
+export function downloadMonthlyStatement(accountId: string, month: string): Promise<void> {
+  return download(
+    { format: 'pdf', accountId, month, locale: typeof navigator === 'undefined' ? null : navigator.language },
+    `aurora-statement-${month}.pdf`,
+  );
+}
+
+// The last `count` months as YYYY-MM, newest first, starting with the current one.
+export function recentStatementMonths(count = 12, now: Date = new Date()): string[] {
+  return Array.from({ length: count }, (_, index) => {
+    const date = new Date(now.getFullYear(), now.getMonth() - index, 1);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+  });
+}
@@ -0,0 +1,52 @@
+import type { Merchant, MerchantInput } from './aurora/merchants/normalise';
+import { supabase } from './supabaseClient';
+
+// Browser-side client for /api/merchants, used by the merchant manager on the Accounts page
+// and the merchant cohorts on the Analytics page. Every edit resolves to the whole list as it
+// now stands.
+
+export {
+  cleanMerchantName,
+  findKnownMerchant,
+  identifyMerchant,
+  merchantAliasKey,
+  merchantColor,
+  merchantDefaults,
+  merchantMonogram,
+  type Merchant,
+  type MerchantIdentity,
+  type MerchantInput,
+} from './aurora/merchants/normalise';
+
+async function merchantsRequest(method: 'GET' | 'POST', body?: unknown): Promise<any> {
+  const { data } = await supabase.auth.getSession();
+  const accessToken = data.session?.access_token;
+  if (!accessToken) throw new Error('Your session has expired. Sign in again.');
+
+  const res = await fetch('/api/merchants', {
+    method,
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (!res.ok) {
+    const payload = await res.json().catch(() => null);
+    throw new Error(payload?.error ?? `Merchant request failed (${res.status})`);
+  }
+  return res.json();
+}
+
+export async function loadMerchants(): Promise<Merchant[]> {
+  const payload = await merchantsRequest('GET');
+  return payload.merchants ?? [];
+}
+
+export function saveMerchant(id: string, merchant: MerchantInput): Promise<{ merchant: Merchant; merchants: Merchant[] }> {
+  return merchantsRequest('POST', { action: 'update', id, merchant });
+}
+
+export function mergeMerchants(id: string, into: string): Promise<{ merchant: Merchant; merchants: Merchant[] }> {
+  return merchantsRequest('POST', { action: 'merge', id, into });
+}
@@ -0,0 +1,172 @@
+import type { Session } from '@supabase/supabase-js';
+import { generateRecoveryCodes, hashRecoveryCode, normalizeRecoveryCode } from './recoveryCodes';
+import { supabase } from './supabaseClient';
+
+// Browser-side TOTP multi-factor auth on top of Supabase Auth MFA, plus the recovery codes
+// kept in `mfa_recovery_codes`. Supabase tracks the assurance level in the session: `aal1`
+// after a password or magic link, `aal2` once a TOTP code has been verified.
+
+export interface MfaFactor {
+  id: string;
+  friendlyName: string;
+  verified: boolean;
+  createdAt: string;
+}
+
+export interface TotpEnrollment {
+  factorId: string;
+  // SVG data URL, ready for an <img src>.
+  qrCode: string;
+  secret: string;
+}
+
+export type AssuranceLevel = 'aal1' | 'aal2';
+
+export interface Assurance {
+  current: AssuranceLevel;
+  // `aal2` when the user has a verified factor; the session must reach it before the app opens.
+  next: AssuranceLevel;
+}
+
+function decodeJwtClaims(token: string): Record<string, unknown> {
+  try {
+    const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    return JSON.parse(atob(payload.padEnd(payload.length + ((4 - (payload.length % 4)) % 4), '=')));
+  } catch {
+    return {};
+  }
+}
+
+// Read straight from the session rather than via getAuthenticatorAssuranceLevel(), because
+// it is needed synchronously inside onAuthStateChange, where awaiting auth calls deadlocks.
+export function getSessionAssurance(session: Session): Assurance {
+  const current = decodeJwtClaims(session.access_token).aal === 'aal2' ? 'aal2' : 'aal1';
+  const hasVerifiedFactor = (session.user.factors ?? []).some((factor) => factor.status === 'verified');
+  return { current, next: hasVerifiedFactor ? 'aal2' : 'aal1' };
+}
+
+export async function listTotpFactors(): Promise<MfaFactor[]> {
+  const { data, error } = await supabase.auth.mfa.listFactors();
+  if (error) throw new Error(error.message);
+
+  return data.all
+    .filter((factor) => factor.factor_type === 'totp')
+    .map((factor) => ({
+      id: factor.id,
+      friendlyName: factor.friendly_name || 'Authenticator app',
+      verified: factor.status === 'verified',
+      createdAt: factor.created_at,
+    }));
+}
+
+export async function startTotpEnrollment(friendlyName: string): Promise<TotpEnrollment> {
+  // An abandoned enrollment leaves an unverified factor behind; clear it so names do not clash.
+  const existing = await listTotpFactors();
+  await Promise.all(existing.filter((factor) => !factor.verified).map((factor) => removeFactor(factor.id)));
+
+  const { data, error } = await supabase.auth.mfa.enroll({ factorType: 'totp', friendlyName });
+  if (error) throw new Error(error.message);
+
+  return {
+    factorId: data.id,
+    qrCode: data.totp.qr_code.startsWith('data:')
+      ? data.totp.qr_code
+      : `data:image/svg+xml;utf-8,${encodeURIComponent(data.totp.qr_code)}`,
+    secret: data.totp.secret,
+  };
+}
+
+// Verifying the first code activates the factor and upgrades this session to aal2.
+export async function verifyTotpCode(factorId: string, code: string): Promise<void> {
+  const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId, code: code.replace(/\s/g, '') });
+  if (error) throw new Error(error.message);
+}
+
+// Sign-in step-up: checks the code against the user's first verified TOTP factor.
+export async function verifySignInChallenge(code: string): Promise<void> {
+  const factors = await listTotpFactors();
+  const factor = factors.find((candidate) => candidate.verified);
+  if (!factor) throw new Error('No authenticator app is set up for this account.');
+  await verifyTotpCode(factor.id, code);
+}
+
+export async function removeFactor(factorId: string): Promise<void> {
+  const { error } = await supabase.auth.mfa.unenroll({ factorId });
+  if (error) throw new Error(error.message);
+  // The session still lists the old factor until it is refreshed.
+  await refreshAssurance();
+}
+
+export async function countUnusedRecoveryCodes(): Promise<number> {
+  const { count, error } = await supabase
+    .from('mfa_recovery_codes')
+    .select('id', { count: 'exact', head: true })
+    .is('used_at', null);
+
+  if (error) throw new Error(error.message);
+  return count ?? 0;
+}
+
+// Replaces any earlier set. Requires an aal2 session (enforced by RLS).
+export async function regenerateRecoveryCodes(): Promise<string[]> {
+  const { data } = await supabase.auth.getSession();
+  const userId = data.session?.user.id;
+  if (!userId) throw new Error('Sign in to create recovery codes.');
+
+  const codes = generateRecoveryCodes();
+  const hashes = await Promise.all(codes.map(hashRecoveryCode));
+
+  const { error: deleteError } = await supabase.from('mfa_recovery_codes').delete().eq('user_id', userId);
+  if (deleteError) throw new Error(deleteError.message);
+
+  const { error } = await supabase
+    .from('mfa_recovery_codes')
+    .insert(hashes.map((codeHash) => ({ user_id: userId, code_hash: codeHash })));
+  if (error) throw new Error(error.message);
+
+  return codes;
+}
+
+// Spends a recovery code: the server removes the user's authenticator factors. Follow with
+// refreshAssurance() so the session stops asking for aal2 and a new device can be enrolled.
+export async function redeemRecoveryCode(code: string): Promise<void> {
+  const { data } = await supabase.auth.getSession();
+  const accessToken = data.session?.access_token;
+  if (!accessToken) throw new Error('Your session has expired. Sign in again.');
+
+  const res = await fetch('/api/mfa-recovery', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${accessToken}` },
+    body: JSON.stringify({ code: normalizeRecoveryCode(code) }),
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new Error(body?.error ?? 'That recovery code could not be used.');
+  }
+}
+
+// Re-reads factors into the session after they changed on the server.
+export async function refreshAssurance(): Promise<void> {
+  const { error } = await supabase.auth.refreshSession();
+  if (error) throw new Error(error.message);
+}
+
+export function downloadRecoveryCodes(codes: string[], email?: string | null): void {
+  const lines = [
+    'NeonLedger MFA recovery codes',
+    email ? `Account: ${email}` : null,
+    `Generated: ${new Date().toISOString()}`,
+    '',
+    'Each code works once. Keep them somewhere safe and offline.',
+    '',
+    ...codes,
+    '',
+  ].filter((line): line is string => line !== null);
+
+  const url = URL.createObjectURL(new Blob([lines.join('\n')], { type: 'text/plain' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'neonledger-recovery-codes.txt';
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,126 @@
+import { COMMON_PASSWORDS } from './commonPasswords.js';
+
+// Password policy shared by the sign-up and reset forms, the Security page meter and
+// /api/credentials, which re-checks it server-side. The strength estimate follows zxcvbn's
+// idea on a small budget: start from brute-force entropy, then charge repeats, sequences,
+// keyboard walks and dictionary words as if an attacker tried those first.
+
+export const MIN_PASSWORD_LENGTH = 10;
+// Scores run 0-4 like zxcvbn; 3 means roughly 2^50 guesses after the pattern discounts.
+export const MIN_PASSWORD_SCORE = 3;
+
+export type PasswordScore = 0 | 1 | 2 | 3 | 4;
+
+export interface PasswordEvaluation {
+  score: PasswordScore;
+  // On the bundled list of the most common passwords (lib/commonPasswords.ts).
+  common: boolean;
+  acceptable: boolean;
+  // Most important first; empty when there is nothing to improve.
+  feedback: string[];
+}
+
+const SCORE_THRESHOLDS_BITS = [28, 36, 50, 64];
+const COMMON = new Set(COMMON_PASSWORDS);
+// Cost of guessing a word from the bundled list, in bits.
+const DICTIONARY_WORD_BITS = Math.log2(COMMON_PASSWORDS.length);
+const KEYBOARD_ROWS = ['1234567890', 'qwertyuiop', 'asdfghjkl', 'zxcvbnm'];
+
+function charsetSize(password: string): number {
+  let size = 0;
+  if (/[a-z]/.test(password)) size += 26;
+  if (/[A-Z]/.test(password)) size += 26;
+  if (/[0-9]/.test(password)) size += 10;
+  if (/[^a-zA-Z0-9]/.test(password)) size += 33;
+  return Math.max(size, 1);
+}
+
+function isAdjacent(a: string, b: string): boolean {
+  if (Math.abs(a.charCodeAt(0) - b.charCodeAt(0)) === 1) return true;
+  return KEYBOARD_ROWS.some((row) => {
+    const index = row.indexOf(a);
+    return index !== -1 && (row[index + 1] === b || row[index - 1] === b);
+  });
+}
+
+// Characters after the first in runs of 3+ repeated ("aaa") or adjacent ("abc", "qwe") ones.
+function patternedPositions(lower: string): { repeated: number; sequential: number } {
+  let repeated = 0;
+  let sequential = 0;
+  let repeatRun = 1;
+  let sequenceRun = 1;
+  for (let i = 1; i <= lower.length; i += 1) {
+    if (i < lower.length && lower[i] === lower[i - 1]) {
+      repeatRun += 1;
+    } else {
+      if (repeatRun >= 3) repeated += repeatRun - 1;
+      repeatRun = 1;
+    }
+    if (i < lower.length && isAdjacent(lower[i - 1], lower[i])) {
+      sequenceRun += 1;
+    } else {
+      if (sequenceRun >= 3) sequential += sequenceRun - 1;
+      sequenceRun = 1;
+    }
+  }
+  return { repeated, sequential };
+}
+
+function dictionaryMatches(lower: string, userInputs: string[]): { chars: number; words: number } {
+  const candidates = [...COMMON_PASSWORDS, ...userInputs].filter((word) => word.length >= 4);
+  let remaining = lower;
+  let chars = 0;
+  let words = 0;
+  // Longest first so "password123" is charged once rather than as "password" plus digits.
+  for (const word of candidates.sort((a, b) => b.length - a.length)) {
+    if (remaining.includes(word)) {
+      remaining = remaining.split(word).join('\u0000');
+      chars += word.length;
+      words += 1;
+    }
+  }
+  return { chars, words };
+}
+
+// `userInputs` are things an attacker would try first: the email, its local part, a name.
+export function evaluatePassword(password: string, userInputs: string[] = []): PasswordEvaluation {
+  const lower = password.toLowerCase();
+  const inputs = userInputs
+    .flatMap((input) => [input, input.split('@')[0]])
+    .map((input) => input.trim().toLowerCase())
+    .filter((input) => input.length >= 4);
+
+  // Leetspeak and trailing digits do not make a common password safe.
+  const unleeted = lower.replace(/[@4]/g, 'a').replace(/3/g, 'e').replace(/[1!]/g, 'i').replace(/0/g, 'o').replace(/\$/g, 's');
+  const stripped = lower.replace(/[\d\W_]+$/, '');
+  const common = COMMON.has(lower) || COMMON.has(unleeted) || (stripped.length >= 4 && COMMON.has(stripped));
+
+  const bitsPerChar = Math.log2(charsetSize(password));
+  const { repeated, sequential } = patternedPositions(lower);
+  const dictionary = dictionaryMatches(unleeted, inputs);
+  const usesPersonalInfo = inputs.some((input) => unleeted.includes(input));
+
+  const patterned = Math.min(password.length, repeated + sequential + dictionary.chars);
+  // Patterned characters cost about a bit each; dictionary words cost one pick from the list.
+  const bits = common
+    ? 0
+    : (password.length - patterned) * bitsPerChar + dictionary.words * DICTIONARY_WORD_BITS + repeated + sequential;
+  const score = SCORE_THRESHOLDS_BITS.filter((threshold) => bits >= threshold).length as PasswordScore;
+
+  const feedback: string[] = [];
+  if (common) feedback.push('This is one of the most common passwords. Choose a different one.');
+  if (password.length < MIN_PASSWORD_LENGTH) feedback.push(`Use at least ${MIN_PASSWORD_LENGTH} characters.`);
+  if (usesPersonalInfo) feedback.push('Avoid using your email address or name.');
+  if (sequential > 0) feedback.push('Avoid sequences like "abc", "123" or "qwerty".');
+  if (repeated > 0) feedback.push('Avoid repeated characters like "aaa".');
+  if (!common && score < MIN_PASSWORD_SCORE) {
+    feedback.push('Add another word or mix in numbers and symbols; a short phrase works well.');
+  }
+
+  return {
+    score,
+    common,
+    acceptable: !common && password.length >= MIN_PASSWORD_LENGTH && score >= MIN_PASSWORD_SCORE,
+    feedback,
+  };
+}
@@ -0,0 +1,82 @@
+import { DEFAULT_BASE_CURRENCY, normalizeCurrency, type CurrencyCode } from './currency';
+import { supabase } from './supabaseClient';
+
+// Browser-side user preferences. Signed-in users keep them in `user_preferences` so they
+// follow the account across devices; everyone else gets a localStorage copy.
+
+const BASE_CURRENCY_STORAGE_KEY = 'neon-base-currency';
+
+export interface FxSnapshot {
+  base: string;
+  rates: Record<string, number>;
+  asOf: string | null;
+  stale: boolean;
+}
+
+function readStoredCurrency(): CurrencyCode | null {
+  if (typeof window === 'undefined') return null;
+  return normalizeCurrency(window.localStorage.getItem(BASE_CURRENCY_STORAGE_KEY));
+}
+
+export async function loadBaseCurrency(): Promise<CurrencyCode> {
+  const { data } = await supabase.auth.getSession();
+  const userId = data.session?.user.id;
+
+  if (userId) {
+    const { data: row, error } = await supabase
+      .from('user_preferences')
+      .select('base_currency')
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (!error && row) {
+      const stored = normalizeCurrency(row.base_currency);
+      if (stored) return stored;
+    }
+  }
+
+  return readStoredCurrency() ?? DEFAULT_BASE_CURRENCY;
+}
+
+export async function saveBaseCurrency(currency: CurrencyCode): Promise<void> {
+  if (typeof window !== 'undefined') {
+    window.localStorage.setItem(BASE_CURRENCY_STORAGE_KEY, currency);
+  }
+
+  const { data } = await supabase.auth.getSession();
+  const userId = data.session?.user.id;
+  if (!userId) return;
+
+  const { error } = await supabase
+    .from('user_preferences')
+    .upsert({ user_id: userId, base_currency: currency, updated_at: new Date().toISOString() });
+
+  if (error) throw new Error(error.message);
+}
+
+// Rates quoted from `base`, served by /api/fx through the cached market data service. Only
+// signed-in users get rates; signed out, amounts stay in their own currencies.
+export async function fetchFxSnapshot(base: string, quotes: string[]): Promise<FxSnapshot> {
+  const wanted = Array.from(new Set(quotes.map((q) => q.toUpperCase()))).filter((q) => q !== base);
+  if (!wanted.length) return { base, rates: {}, asOf: null, stale: false };
+
+  const { data } = await supabase.auth.getSession();
+  const accessToken = data.session?.access_token;
+  if (!accessToken) return { base, rates: {}, asOf: null, stale: false };
+
+  const res = await fetch(`/api/fx?base=${encodeURIComponent(base)}&quotes=${encodeURIComponent(wanted.join(','))}`, {
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+  if (!res.ok) throw new Error(`FX request failed (${res.status})`);
+  const json: any = await res.json();
+
+  const rates: Record<string, number> = {};
+  let asOf: string | null = null;
+  let stale = false;
+  for (const [code, entry] of Object.entries<any>(json?.rates ?? {})) {
+    if (typeof entry?.rate !== 'number') continue;
+    rates[code] = entry.rate;
+    stale = stale || Boolean(entry.stale);
+    if (typeof entry.asOf === 'string' && (!asOf || entry.asOf < asOf)) asOf = entry.asOf;
+  }
+  return { base, rates, asOf, stale };
+}
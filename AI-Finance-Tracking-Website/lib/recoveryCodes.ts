@@ -0,0 +1,31 @@
+// One-time MFA recovery codes, shared by the Security page (which generates them) and
+// /api/mfa-recovery (which redeems them). Only SHA-256 hashes are stored; the plain codes
+// are shown to the user once and never leave the browser otherwise.
+
+export const RECOVERY_CODE_COUNT = 10;
+
+// Crockford-style alphabet: no I, L, O or U, so codes survive being read aloud or handwritten.
+const ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const CODE_LENGTH = 10;
+
+// Formats as XXXXX-XXXXX; the dash is cosmetic and ignored on redemption.
+export function generateRecoveryCodes(count: number = RECOVERY_CODE_COUNT): string[] {
+  const codes: string[] = [];
+  for (let i = 0; i < count; i += 1) {
+    const bytes = new Uint8Array(CODE_LENGTH);
+    globalThis.crypto.getRandomValues(bytes);
+    // 256 is a multiple of 32, so the modulo is unbiased.
+    const raw = Array.from(bytes, (byte) => ALPHABET[byte % ALPHABET.length]).join('');
+    codes.push(`${raw.slice(0, 5)}-${raw.slice(5)}`);
+  }
+  return codes;
+}
+
+export function normalizeRecoveryCode(input: string): string {
+  return input.toUpperCase().replace(/[^0-9A-Z]/g, '');
+}
+
+export async function hashRecoveryCode(code: string): Promise<string> {
+  const digest = await globalThis.crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalizeRecoveryCode(code)));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
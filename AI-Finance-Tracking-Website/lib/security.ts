@@ -0,0 +1,38 @@
+import type { RiskOverview } from './aurora/risk/types';
+import { supabase } from './supabaseClient';
+
+// Browser-side client for /api/security-events: reports sign-ins and failed attempts, and
+// loads the login-risk overview for the Security page and the TopBar alerts.
+
+export type { RiskOverview, SecurityAlert, RiskTimelinePoint } from './aurora/risk/types';
+
+export async function getRiskOverview(): Promise<RiskOverview> {
+  const { data } = await supabase.auth.getSession();
+  const accessToken = data.session?.access_token;
+  if (!accessToken) throw new Error('Your session has expired. Sign in again.');
+
+  const res = await fetch('/api/security-events', { headers: { Authorization: `Bearer ${accessToken}` } });
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new Error(body?.error ?? `Could not load security events (${res.status})`);
+  }
+  return res.json();
+}
+
+// Takes the token explicitly: this runs from onAuthStateChange, where calling back into
+// supabase.auth would deadlock. The server scores each session once, so repeats are harmless.
+export async function reportSignIn(accessToken: string): Promise<void> {
+  await fetch('/api/security-events', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${accessToken}` },
+    body: JSON.stringify({ type: 'sign-in' }),
+  });
+}
+
+export async function reportFailedSignIn(email: string): Promise<void> {
+  await fetch('/api/security-events', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ type: 'sign-in-failed', email }),
+  });
+}
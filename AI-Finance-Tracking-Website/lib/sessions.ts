@@ -0,0 +1,54 @@
+import { supabase } from './supabaseClient';
+
+// Browser-side client for /api/sessions: the signed-in user's Supabase Auth sessions with the
+// device details recorded at sign-in.
+
+export interface UserSession {
+  id: string;
+  device: string;
+  ip: string | null;
+  location: string | null;
+  createdAt: string;
+  lastActiveAt: string;
+  isCurrent: boolean;
+}
+
+async function sessionsRequest(method: 'GET' | 'POST' | 'DELETE', body?: unknown): Promise<any> {
+  const { data } = await supabase.auth.getSession();
+  const accessToken = data.session?.access_token;
+  if (!accessToken) throw new Error('Your session has expired. Sign in again.');
+
+  const res = await fetch('/api/sessions', {
+    method,
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (!res.ok) {
+    const payload = await res.json().catch(() => null);
+    throw new Error(payload?.error ?? `Session request failed (${res.status})`);
+  }
+  return res.status === 204 ? null : res.json();
+}
+
+export async function listSessions(): Promise<UserSession[]> {
+  const payload = await sessionsRequest('GET');
+  return Array.isArray(payload?.sessions) ? payload.sessions : [];
+}
+
+// Stamps this device's details and last-active time on the current session.
+export async function recordCurrentSession(): Promise<void> {
+  await sessionsRequest('POST');
+}
+
+// Revokes the session's refresh tokens; that device is signed out when its access token expires.
+export async function revokeSession(sessionId: string): Promise<void> {
+  await sessionsRequest('DELETE', { sessionId });
+}
+
+export async function revokeOtherSessions(): Promise<number> {
+  const payload = await sessionsRequest('DELETE', { scope: 'others' });
+  return Number(payload?.revoked) || 0;
+}
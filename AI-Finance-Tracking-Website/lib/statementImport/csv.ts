@@ -0,0 +1,269 @@
+import type {
+  ColumnMapping,
+  CsvDetection,
+  CsvOptions,
+  CsvTable,
+  DateOrder,
+  ImportIssue,
+  ImportRow,
+  ParsedRows,
+} from './types';
+import { detectDateOrder, detectDecimalSeparator, parseAmount, parseDate } from './values';
+
+const DELIMITERS = [',', ';', '\t', '|'];
+const DATE_ORDERS: DateOrder[] = ['YMD', 'DMY', 'MDY'];
+// Enough rows to detect the layout without scanning a multi-year export twice.
+const SAMPLE_ROWS = 200;
+
+const HEADER_PATTERNS: Record<keyof ColumnMapping, RegExp> = {
+  timestamp: /^(transaction |posting |posted |value |booking )?date|^posted|^datum|^fecha|^time/i,
+  description: /desc|payee|merchant|narrat|details|memo|reference|particulars|name|text|verwendungszweck/i,
+  amount: /amount|^value$|betrag|importe|montant|^sum$/i,
+  category: /categor|^type$/i,
+  debit: /debit|withdrawal|paid out|money out|outflow|spent|^soll|^cargo/i,
+  credit: /credit|deposit|paid in|money in|inflow|received|^haben|^abono/i,
+};
+
+// A column saying whether each row is a debit or a credit, and the values that mean a debit.
+const TYPE_HEADER = /type|^(dr|cr) ?\/ ?(dr|cr)$|^debit ?\/ ?credit$|^soll ?\/ ?haben$/i;
+const DEBIT_TYPE = /^(debit|dr|d|withdrawal|purchase|sale|charge|soll|s)$/i;
+
+// Quote-aware split of the whole file; quoted fields may contain delimiters, doubled quotes
+// and line breaks. Each record carries the line it started on.
+function splitRecords(text: string, delimiter: string): { fields: string[]; line: number }[] {
+  const records: { fields: string[]; line: number }[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let start = 1;
+
+  for (let i = 0; i < text.length; i += 1) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line += 1;
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === '') {
+      quoted = true;
+      field = '';
+    } else if (char === delimiter) {
+      fields.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i += 1;
+      fields.push(field.trim());
+      records.push({ fields, line: start });
+      fields = [];
+      field = '';
+      line += 1;
+      start = line;
+    } else {
+      field += char;
+    }
+  }
+  if (field || fields.length) {
+    fields.push(field.trim());
+    records.push({ fields, line: start });
+  }
+  return records.filter((record) => record.fields.some((value) => value !== ''));
+}
+
+// The delimiter that gives the most rows sharing one field count (of at least two fields).
+function detectDelimiter(text: string): string {
+  const sample = text.split(/\r?\n/).slice(0, SAMPLE_ROWS).join('\n');
+  let best = { delimiter: ',', score: 0 };
+  for (const delimiter of DELIMITERS) {
+    const counts = new Map<number, number>();
+    for (const record of splitRecords(sample, delimiter)) {
+      if (record.fields.length < 2) continue;
+      counts.set(record.fields.length, (counts.get(record.fields.length) ?? 0) + 1);
+    }
+    const score = Math.max(0, ...counts.values());
+    if (score > best.score) best = { delimiter, score };
+  }
+  return best.delimiter;
+}
+
+function looksLikeHeader(fields: string[]): boolean {
+  return (
+    fields.every((value) => value === '' || parseAmount(value) == null) && fields.some((value) => /[a-z]/i.test(value))
+  );
+}
+
+// Parses the file into a header and data rows. Banks often put account details above the
+// table, so rows before the first one with the table's width are dropped. Without a header
+// row (`hasHeader` false, or none detected) columns are named "Column 1", "Column 2", ….
+export function parseCsv(text: string, hasHeader?: boolean): CsvTable & { hasHeader: boolean } {
+  const delimiter = detectDelimiter(text);
+  const records = splitRecords(text.replace(/^\uFEFF/, ''), delimiter);
+
+  const widths = new Map<number, number>();
+  for (const record of records) widths.set(record.fields.length, (widths.get(record.fields.length) ?? 0) + 1);
+  const width = [...widths.entries()].sort((a, b) => b[1] - a[1] || b[0] - a[0])[0]?.[0] ?? 0;
+  const first = records.findIndex((record) => record.fields.length === width);
+  const table = first < 0 ? [] : records.slice(first);
+
+  const header = hasHeader ?? (table.length > 1 && looksLikeHeader(table[0].fields));
+  const body = header ? table.slice(1) : table;
+  const headers = header
+    ? table[0].fields.map((name, index) => name || `Column ${index + 1}`)
+    : Array.from({ length: width }, (_, index) => `Column ${index + 1}`);
+
+  return {
+    delimiter,
+    hasHeader: header,
+    headers,
+    rows: body.map((record) => record.fields),
+    lines: body.map((record) => record.line),
+  };
+}
+
+function column(table: CsvTable, index: number): string[] {
+  return table.rows.slice(0, SAMPLE_ROWS).map((row) => row[index] ?? '');
+}
+
+function share(values: string[], test: (value: string) => boolean): number {
+  const filled = values.filter(Boolean);
+  return filled.length ? filled.filter(test).length / filled.length : 0;
+}
+
+// Header names first, then column contents for whatever the headers did not settle: the
+// first mostly-dates column, the first mostly-numbers column, the longest text column.
+export function guessMapping(table: CsvTable): ColumnMapping {
+  const mapping: ColumnMapping = {
+    timestamp: null,
+    description: null,
+    amount: null,
+    category: null,
+    debit: null,
+    credit: null,
+  };
+  const used = new Set<number>();
+  const claim = (field: keyof ColumnMapping, index: number) => {
+    mapping[field] = index;
+    used.add(index);
+  };
+
+  const fields: (keyof ColumnMapping)[] = ['timestamp', 'debit', 'credit', 'amount', 'category', 'description'];
+  for (const field of fields) {
+    const index = table.headers.findIndex(
+      (name, i) => !used.has(i) && !/balance|saldo/i.test(name) && HEADER_PATTERNS[field].test(name.trim()),
+    );
+    if (index >= 0) claim(field, index);
+  }
+  // A lone debit or credit column is really a signed amount column.
+  if ((mapping.debit == null) !== (mapping.credit == null) && mapping.amount == null) {
+    mapping.amount = mapping.debit ?? mapping.credit;
+    mapping.debit = null;
+    mapping.credit = null;
+  }
+
+  const candidates = table.headers.map((_, index) => index).filter((index) => !used.has(index));
+  if (mapping.timestamp == null) {
+    const index = candidates.find(
+      (i) => share(column(table, i), (value) => DATE_ORDERS.some((order) => parseDate(value, order) != null)) > 0.8,
+    );
+    if (index != null) claim('timestamp', index);
+  }
+  if (mapping.amount == null && mapping.debit == null) {
+    const numeric = (value: string) => parseAmount(value, detectDecimalSeparator([value])) != null;
+    const index = candidates.find((i) => !used.has(i) && share(column(table, i), numeric) > 0.8);
+    if (index != null) claim('amount', index);
+  }
+  if (mapping.description == null) {
+    const lengths = candidates
+      .filter((i) => !used.has(i))
+      .map((i) => ({ i, length: column(table, i).reduce((sum, value) => sum + value.length, 0) }))
+      .sort((a, b) => b.length - a.length);
+    if (lengths.length) claim('description', lengths[0].i);
+  }
+  return mapping;
+}
+
+// Whether the file itself says its amounts are all money going out: the amount column is a
+// lone debit column, or a type column marks every sampled row as a debit.
+function amountsAreSpending(table: CsvTable, mapping: ColumnMapping): boolean {
+  if (mapping.amount == null) return false;
+  const header = table.headers[mapping.amount]?.trim() ?? '';
+  if (HEADER_PATTERNS.debit.test(header) && !HEADER_PATTERNS.credit.test(header)) return true;
+  return table.headers.some((name, index) => {
+    if (index === mapping.amount || !TYPE_HEADER.test(name.trim())) return false;
+    const values = column(table, index).filter(Boolean);
+    return values.length > 0 && values.every((value) => DEBIT_TYPE.test(value));
+  });
+}
+
+// Everything the wizard pre-fills for a freshly uploaded CSV.
+export function detectCsvOptions(table: CsvTable): CsvDetection {
+  const mapping = guessMapping(table);
+  const dates = mapping.timestamp == null ? [] : column(table, mapping.timestamp);
+  const { order, ambiguous } = detectDateOrder(dates);
+
+  const money =
+    mapping.debit != null
+      ? [...column(table, mapping.debit), ...column(table, mapping.credit ?? mapping.debit)]
+      : mapping.amount == null
+        ? []
+        : column(table, mapping.amount);
+  const decimal = detectDecimalSeparator(money);
+
+  let sign: CsvOptions['sign'] = 'signed';
+  if (mapping.debit != null && mapping.credit != null) {
+    sign = 'split';
+  } else if (money.length && amountsAreSpending(table, mapping)) {
+    // Positive-only amounts are taken as they are (a file of refunds or salary would
+    // otherwise import as spending) unless the columns say they are all debits.
+    const values = money.map((value) => parseAmount(value, decimal)).filter((value): value is number => value != null);
+    if (values.length && values.every((value) => value >= 0)) sign = 'inverted';
+  }
+  return { mapping, dateOrder: order, dateOrderAmbiguous: ambiguous, decimal, sign };
+}
+
+export function applyCsvOptions(table: CsvTable, options: CsvOptions): ParsedRows {
+  const { mapping, dateOrder, decimal, sign } = options;
+  const rows: ImportRow[] = [];
+  const issues: ImportIssue[] = [];
+
+  table.rows.forEach((fields, index) => {
+    const line = table.lines[index];
+    const cell = (column: number | null) => (column == null ? '' : fields[column] ?? '');
+
+    const date = parseDate(cell(mapping.timestamp), dateOrder);
+    if (!date) {
+      issues.push({ line, message: `Unrecognised date "${cell(mapping.timestamp)}"` });
+      return;
+    }
+
+    let amount: number | null;
+    if (sign === 'split') {
+      const debit = cell(mapping.debit) ? parseAmount(cell(mapping.debit), decimal) : 0;
+      const credit = cell(mapping.credit) ? parseAmount(cell(mapping.credit), decimal) : 0;
+      amount = debit == null || credit == null ? null : Math.abs(credit) - Math.abs(debit);
+    } else {
+      amount = parseAmount(cell(mapping.amount), decimal);
+      if (amount != null && sign === 'inverted') amount = -amount;
+    }
+    if (amount == null) {
+      issues.push({ line, message: 'Unrecognised amount' });
+      return;
+    }
+
+    rows.push({
+      line,
+      date,
+      description: cell(mapping.description),
+      amount: Math.round(amount * 100) / 100,
+      category: cell(mapping.category) || null,
+      externalId: null,
+    });
+  });
+
+  return { rows, issues, currency: null };
+}
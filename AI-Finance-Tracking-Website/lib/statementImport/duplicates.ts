@@ -0,0 +1,38 @@
+import type { ExistingTransaction, ImportRow, PreviewRow } from './types';
+
+// A row is a duplicate when the account already has a transaction with the same statement id,
+// or one on the same day for the same amount with the same description once case, spacing
+// and punctuation are ignored. Matching is one-to-one: two identical coffees on one day in
+// the file only count as duplicates if the account already has two. A statement id repeated
+// within the file marks the later copies too, since the account can only hold it once.
+
+function normalise(description: string | null): string {
+  return (description ?? '').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+function detailsKey(date: string, amount: number, description: string | null): string {
+  return `${date}|${Math.round(amount * 100)}|${normalise(description)}`;
+}
+
+export function markDuplicates(rows: ImportRow[], existing: ExistingTransaction[]): PreviewRow[] {
+  const ids = new Set(existing.flatMap((transaction) => (transaction.externalId ? [transaction.externalId] : [])));
+  const details = new Map<string, number>();
+  for (const transaction of existing) {
+    const key = detailsKey(transaction.timestamp.slice(0, 10), Number(transaction.amount), transaction.description);
+    details.set(key, (details.get(key) ?? 0) + 1);
+  }
+
+  return rows.map((row) => {
+    if (row.externalId) {
+      if (ids.has(row.externalId)) return { ...row, duplicate: 'same-id' };
+      ids.add(row.externalId);
+    }
+    const key = detailsKey(row.date, row.amount, row.description);
+    const remaining = details.get(key) ?? 0;
+    if (remaining > 0) {
+      details.set(key, remaining - 1);
+      return { ...row, duplicate: 'same-details' };
+    }
+    return { ...row, duplicate: null };
+  });
+}
@@ -0,0 +1,23 @@
+import { isOfx } from './ofx';
+import { isQif } from './qif';
+import type { StatementFormat } from './types';
+
+export * from './types';
+export { parseAmount, parseDate, detectDateOrder, detectDecimalSeparator } from './values';
+export { parseCsv, guessMapping, detectCsvOptions, applyCsvOptions } from './csv';
+export { parseOfx } from './ofx';
+export { parseQif } from './qif';
+export { markDuplicates } from './duplicates';
+export { loadExistingTransactions, commitImport } from './store';
+
+export const STATEMENT_FILE_TYPES = '.csv,.txt,.tsv,.ofx,.qfx,.qif';
+
+// Content wins over the extension: banks hand out OFX files named .txt and CSVs named .xls.
+export function detectFormat(fileName: string, text: string): StatementFormat {
+  if (isOfx(text)) return 'ofx';
+  if (isQif(text)) return 'qif';
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'ofx' || extension === 'qfx') return 'ofx';
+  if (extension === 'qif') return 'qif';
+  return 'csv';
+}
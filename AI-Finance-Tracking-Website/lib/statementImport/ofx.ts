@@ -0,0 +1,73 @@
+import type { ImportIssue, ImportRow, ParsedRows } from './types';
+import { parseAmount, parseDate } from './values';
+
+// OFX and QFX statements, both the SGML flavour (OFX 1.x, unclosed leaf tags) and the XML
+// one (OFX 2.x). Only what a statement import needs is read: each <STMTTRN> block and the
+// statement currency. Bank and card statements share this layout.
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+function decode(value: string): string {
+  return value
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+      if (entity[0] === '#') {
+        const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : Number(entity.slice(1));
+        return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+      }
+      return ENTITIES[entity.toLowerCase()] ?? match;
+    })
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// The value of a leaf element; in SGML it runs to the next tag or line break.
+function field(block: string, tag: string): string {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? decode(match[1]) : '';
+}
+
+// NAME is capped at 32 characters, so banks often repeat it in full (or add to it) in MEMO.
+function describe(name: string, memo: string): string {
+  if (!name || memo.startsWith(name)) return memo || name;
+  if (!memo || name.includes(memo)) return name;
+  return `${name} – ${memo}`;
+}
+
+export function isOfx(text: string): boolean {
+  return /OFXHEADER|<OFX>/i.test(text.slice(0, 2_000));
+}
+
+export function parseOfx(text: string): ParsedRows {
+  const rows: ImportRow[] = [];
+  const issues: ImportIssue[] = [];
+  const currency = field(text, 'CURDEF').toUpperCase() || null;
+
+  // SGML files may leave </STMTTRN> out; a block then ends where the next one starts.
+  const pattern = /<STMTTRN>([\s\S]*?)(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>|$)/gi;
+  for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+    const block = match[1];
+    const line = text.slice(0, match.index).split('\n').length;
+
+    const date = parseDate(field(block, 'DTPOSTED') || field(block, 'DTUSER'), 'YMD');
+    if (!date) {
+      issues.push({ line, message: 'Transaction without a valid DTPOSTED' });
+      continue;
+    }
+    const amount = parseAmount(field(block, 'TRNAMT').replace(',', '.'));
+    if (amount == null) {
+      issues.push({ line, message: 'Transaction without a valid TRNAMT' });
+      continue;
+    }
+
+    rows.push({
+      line,
+      date,
+      description: describe(field(block, 'NAME') || field(block, 'PAYEE'), field(block, 'MEMO')),
+      amount: Math.round(amount * 100) / 100,
+      category: null,
+      externalId: field(block, 'FITID') || null,
+    });
+  }
+
+  return { rows, issues, currency };
+}
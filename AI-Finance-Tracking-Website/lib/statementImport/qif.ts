@@ -0,0 +1,70 @@
+import type { DateOrder, ImportIssue, ImportRow, ParsedRows } from './types';
+import { detectDateOrder, detectDecimalSeparator, parseAmount, parseDate } from './values';
+
+// Quicken Interchange Format: one field per line, a leading letter saying which (D date,
+// T/U amount, P payee, M memo, L category, N check number), and `^` ending each record.
+// Dates carry no order hint, so it is detected across the whole file like a CSV column.
+
+interface QifRecord {
+  line: number;
+  fields: Map<string, string>;
+}
+
+function readRecords(text: string): QifRecord[] {
+  const records: QifRecord[] = [];
+  let current: QifRecord | null = null;
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const entry = raw.trim();
+    if (!entry || entry.startsWith('!')) return;
+    if (entry === '^') {
+      if (current) records.push(current);
+      current = null;
+      return;
+    }
+    current ??= { line: index + 1, fields: new Map() };
+    const code = entry[0].toUpperCase();
+    // Split lines (S/E/$) describe parts of the same transaction; the total is enough here.
+    if (!current.fields.has(code)) current.fields.set(code, entry.slice(1).trim());
+  });
+  if (current) records.push(current);
+  return records;
+}
+
+export function isQif(text: string): boolean {
+  return /^\s*!(Type|Account|Option)/im.test(text.slice(0, 2_000));
+}
+
+export function parseQif(text: string, dateOrder?: DateOrder): ParsedRows {
+  const records = readRecords(text).filter((record) => record.fields.has('D'));
+  const order = dateOrder ?? detectDateOrder(records.map((record) => record.fields.get('D') ?? '')).order;
+  const decimal = detectDecimalSeparator(records.map((record) => record.fields.get('T') ?? record.fields.get('U') ?? ''));
+
+  const rows: ImportRow[] = [];
+  const issues: ImportIssue[] = [];
+  for (const { line, fields } of records) {
+    const date = parseDate(fields.get('D') ?? '', order);
+    if (!date) {
+      issues.push({ line, message: `Unrecognised date "${fields.get('D')}"` });
+      continue;
+    }
+    const amount = parseAmount(fields.get('T') ?? fields.get('U') ?? '', decimal);
+    if (amount == null) {
+      issues.push({ line, message: 'Transaction without an amount' });
+      continue;
+    }
+
+    // "[Savings]" in the category slot is a transfer to that account.
+    const category = fields.get('L') ?? '';
+    rows.push({
+      line,
+      date,
+      description: fields.get('P') || fields.get('M') || '',
+      amount: Math.round(amount * 100) / 100,
+      category: /^\[.*\]$/.test(category) ? 'Transfers' : category.split(':')[0] || null,
+      externalId: null,
+    });
+  }
+
+  return { rows, issues, currency: null };
+}
@@ -0,0 +1,85 @@
+import { applyCategoryRules } from '../categorisation';
+import { supabase } from '../supabaseClient';
+import type { ExistingTransaction, PreviewRow } from './types';
+
+// Reads and writes go straight to `transactions` with the user's session; RLS limits both to
+// the user's own rows and accounts.
+
+const PAGE_SIZE = 1_000;
+const INSERT_CHUNK = 500;
+
+// Statements carry dates, not times. Noon UTC keeps the day the same in every time zone the
+// dashboard might render it in.
+function toTimestamp(date: string): string {
+  return `${date}T12:00:00.000Z`;
+}
+
+// Everything already in the account between the two dates (inclusive, YYYY-MM-DD).
+export async function loadExistingTransactions(
+  accountId: string,
+  from: string,
+  to: string,
+): Promise<ExistingTransaction[]> {
+  const existing: ExistingTransaction[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('transactions')
+      .select('timestamp, description, amount, external_id')
+      .eq('account_id', accountId)
+      .gte('timestamp', `${from}T00:00:00.000Z`)
+      .lte('timestamp', `${to}T23:59:59.999Z`)
+      .order('timestamp', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+
+    for (const row of data ?? []) {
+      existing.push({
+        timestamp: String(row.timestamp),
+        description: row.description ?? null,
+        amount: Number(row.amount),
+        externalId: row.external_id ?? null,
+      });
+    }
+    if (!data || data.length < PAGE_SIZE) return existing;
+  }
+}
+
+// Inserts the rows into the account and resolves to how many were written. Chunks that were
+// already written stay written if a later one fails; the error says how far it got. The
+// user's categorisation rules run over the new rows afterwards; if that fails they keep the
+// statement's own categories until rules are next re-applied.
+export async function commitImport(accountId: string, rows: PreviewRow[], currency: string | null): Promise<number> {
+  const { data: userData, error: userError } = await supabase.auth.getUser();
+  if (userError || !userData.user) throw new Error('Your session has expired. Sign in again.');
+  const userId = userData.user.id;
+
+  let written = 0;
+  const ids: string[] = [];
+  for (let start = 0; start < rows.length; start += INSERT_CHUNK) {
+    const chunk = rows.slice(start, start + INSERT_CHUNK).map((row) => ({
+      user_id: userId,
+      account_id: accountId,
+      timestamp: toTimestamp(row.date),
+      description: row.description || null,
+      amount: row.amount,
+      category: row.category,
+      provider_category: row.category,
+      category_source: row.category ? 'provider' : null,
+      external_id: row.externalId,
+      currency,
+    }));
+    const { data, error } = await supabase.from('transactions').insert(chunk).select('id');
+    if (error) {
+      throw new Error(
+        written ? `Imported ${written} of ${rows.length} transactions, then failed: ${error.message}` : error.message,
+      );
+    }
+    written += chunk.length;
+    ids.push(...(data ?? []).map((inserted) => String(inserted.id)));
+  }
+
+  if (ids.length) {
+    await applyCategoryRules({ transactionIds: ids }).catch(() => undefined);
+  }
+  return written;
+}
@@ -0,0 +1,86 @@
+// Statement import: bank exports (CSV, OFX/QFX, QIF) are parsed in the browser into rows
+// shaped like the `transactions` table, checked against what is already stored, then
+// inserted into one of the user's accounts.
+
+export type StatementFormat = 'csv' | 'ofx' | 'qif';
+
+// Order of the day, month and year parts; separators and month names are handled for all.
+export type DateOrder = 'YMD' | 'DMY' | 'MDY';
+
+export type DecimalSeparator = '.' | ',';
+
+// How a CSV encodes money going out:
+//   signed    negative amounts are spending (what `transactions` stores)
+//   inverted  positive amounts are spending, as on most card statements
+//   split     separate debit and credit columns
+export type SignConvention = 'signed' | 'inverted' | 'split';
+
+export type ImportField = 'timestamp' | 'description' | 'amount' | 'category';
+
+export interface CsvTable {
+  delimiter: string;
+  headers: string[];
+  rows: string[][];
+  // 1-based line in the file of each entry in `rows`, for error messages.
+  lines: number[];
+}
+
+// Column index per field; null when the file has no such column.
+export interface ColumnMapping {
+  timestamp: number | null;
+  description: number | null;
+  amount: number | null;
+  category: number | null;
+  // Used instead of `amount` with the `split` sign convention.
+  debit: number | null;
+  credit: number | null;
+}
+
+export interface CsvOptions {
+  mapping: ColumnMapping;
+  dateOrder: DateOrder;
+  decimal: DecimalSeparator;
+  sign: SignConvention;
+}
+
+export interface CsvDetection extends CsvOptions {
+  // True when every date would also parse with day and month swapped.
+  dateOrderAmbiguous: boolean;
+}
+
+export interface ImportRow {
+  line: number;
+  // YYYY-MM-DD.
+  date: string;
+  description: string;
+  // Negative for spending, positive for income.
+  amount: number;
+  category: string | null;
+  // The statement's own transaction id (OFX FITID), when it has one.
+  externalId: string | null;
+}
+
+export interface ImportIssue {
+  line: number;
+  message: string;
+}
+
+export interface ParsedRows {
+  rows: ImportRow[];
+  issues: ImportIssue[];
+  // Statement currency, when the file declares one.
+  currency: string | null;
+}
+
+export type DuplicateReason = 'same-id' | 'same-details';
+
+export interface PreviewRow extends ImportRow {
+  duplicate: DuplicateReason | null;
+}
+
+export interface ExistingTransaction {
+  timestamp: string;
+  description: string | null;
+  amount: number;
+  externalId: string | null;
+}
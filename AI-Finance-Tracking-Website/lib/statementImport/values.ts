@@ -0,0 +1,141 @@
+import type { DateOrder, DecimalSeparator } from './types';
+
+// Cell-level parsing shared by the CSV and QIF readers: money in the formats banks actually
+// export, and dates in any part order.
+
+const MONTHS: Record<string, number> = {
+  jan: 1,
+  feb: 2,
+  mar: 3,
+  apr: 4,
+  may: 5,
+  jun: 6,
+  jul: 7,
+  aug: 8,
+  sep: 9,
+  oct: 10,
+  nov: 11,
+  dec: 12,
+};
+
+const DATE_ORDERS: DateOrder[] = ['YMD', 'DMY', 'MDY'];
+
+// Handles currency symbols, thousands separators, "(12.00)" and "12.00-" negatives and
+// trailing CR/DR markers. Returns null for anything that is not a number.
+export function parseAmount(raw: string, decimal: DecimalSeparator = '.'): number | null {
+  let text = raw.trim().replace(/\u00A0/g, ' ');
+  if (!text) return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  const marker = text.match(/\s*(CR|DR)\.?$/i);
+  if (marker) {
+    negative = marker[1].toUpperCase() === 'DR';
+    text = text.slice(0, marker.index);
+  }
+  if (text.endsWith('-')) {
+    negative = true;
+    text = text.slice(0, -1);
+  }
+  if (text.startsWith('-')) {
+    negative = !negative;
+    text = text.slice(1);
+  } else if (text.startsWith('+')) {
+    text = text.slice(1);
+  }
+
+  text = text.replace(/^[^\d.,-]+|[^\d.,]+$/g, '').replace(/\s/g, '');
+  if (text.startsWith('-')) {
+    negative = !negative;
+    text = text.slice(1);
+  }
+  const thousands = decimal === '.' ? /,/g : /\./g;
+  text = text.replace(thousands, '');
+  if (decimal === ',') text = text.replace(',', '.');
+  if (!/^\d+(\.\d+)?$|^\.\d+$/.test(text)) return null;
+
+  const value = Number(text);
+  return negative ? -value : value;
+}
+
+// "1.234,56" and "12,50" style columns use a decimal comma.
+export function detectDecimalSeparator(values: string[]): DecimalSeparator {
+  let comma = 0;
+  let dot = 0;
+  for (const value of values) {
+    if (/,\d{1,2}\)?(\s*(CR|DR))?-?$/i.test(value.trim())) comma += 1;
+    else if (/\.\d{1,2}\)?(\s*(CR|DR))?-?$/i.test(value.trim())) dot += 1;
+  }
+  return comma > dot ? ',' : '.';
+}
+
+function fullYear(year: number, digits: number): number {
+  if (digits > 2) return year;
+  return year < 70 ? 2000 + year : 1900 + year;
+}
+
+function isoDate(year: number, month: number, day: number): string | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+// Returns YYYY-MM-DD, or null when the value is not a date in this order. Times and time
+// zones after the date are ignored; QIF's 1/15'24 style is accepted.
+export function parseDate(raw: string, order: DateOrder): string | null {
+  const text = raw.trim().replace(/'/g, '/');
+  if (!text) return null;
+
+  const compact = text.match(/^(\d{4})(\d{2})(\d{2})(?:\d{0,6}(?:\.\d+)?)?(?:\[.*\])?$/);
+  if (compact) return isoDate(Number(compact[1]), Number(compact[2]), Number(compact[3]));
+
+  const withoutTime = text.replace(/[T\s]\d{1,2}:\d{2}.*$/, '');
+  const tokens = withoutTime.split(/[\s/.,-]+/).filter(Boolean);
+  if (tokens.length !== 3) return null;
+
+  // A month name fixes the month; the remaining parts keep their relative order.
+  const named = tokens.findIndex((token) => MONTHS[token.slice(0, 3).toLowerCase()] != null);
+  if (named >= 0) {
+    const month = MONTHS[tokens[named].slice(0, 3).toLowerCase()];
+    const rest = tokens.filter((_, index) => index !== named);
+    if (!rest.every((token) => /^\d+$/.test(token))) return null;
+    const [first, second] = rest;
+    const yearFirst = first.length === 4 || (order === 'YMD' && named !== 0);
+    const [yearToken, dayToken] = yearFirst ? [first, second] : [second, first];
+    return isoDate(fullYear(Number(yearToken), yearToken.length), month, Number(dayToken));
+  }
+
+  if (!tokens.every((token) => /^\d+$/.test(token))) return null;
+  const parts = tokens.map(Number);
+  if (order === 'YMD') {
+    if (tokens[0].length < 4) return null;
+    return isoDate(parts[0], parts[1], parts[2]);
+  }
+  if (tokens[2].length !== 4 && tokens[2].length !== 2) return null;
+  const year = fullYear(parts[2], tokens[2].length);
+  return order === 'DMY' ? isoDate(year, parts[1], parts[0]) : isoDate(year, parts[0], parts[1]);
+}
+
+// The order that parses the most values. Day-first and month-first tie when every day is 12
+// or less; month-first wins then, and `ambiguous` tells the caller to ask.
+export function detectDateOrder(values: string[]): { order: DateOrder; parsed: number; ambiguous: boolean } {
+  const samples = values.map((value) => value.trim()).filter(Boolean);
+  const scores = DATE_ORDERS.map((order) => ({
+    order,
+    parsed: samples.filter((value) => parseDate(value, order) != null).length,
+  }));
+  const best = Math.max(...scores.map((score) => score.parsed));
+  const winners = scores.filter((score) => score.parsed === best).map((score) => score.order);
+
+  const order: DateOrder = winners.includes('YMD') ? 'YMD' : winners.includes('MDY') ? 'MDY' : winners[0];
+  const ambiguous =
+    best > 0 &&
+    winners.includes('DMY') &&
+    winners.includes('MDY') &&
+    samples.some((value) => parseDate(value, 'DMY') !== parseDate(value, 'MDY'));
+  return { order, parsed: best, ambiguous };
+}
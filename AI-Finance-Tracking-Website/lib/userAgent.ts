@@ -0,0 +1,31 @@
+// Short "device · browser" labels for the Security page's session list, e.g.
+// "MacBook · Chrome" or "iPhone · Safari". Deliberately coarse: good enough to recognise a
+// device, not a fingerprint.
+
+const DEVICES: [RegExp, string][] = [
+  [/iPhone/i, 'iPhone'],
+  [/iPad/i, 'iPad'],
+  [/Android.*Mobile/i, 'Android phone'],
+  [/Android/i, 'Android tablet'],
+  [/Macintosh|Mac OS X/i, 'MacBook'],
+  [/Windows/i, 'Windows'],
+  [/CrOS/i, 'Chromebook'],
+  [/Linux/i, 'Linux'],
+];
+
+// Order matters: Edge and Opera also claim to be Chrome, and Chrome claims to be Safari.
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//i, 'Edge'],
+  [/OPR\//i, 'Opera'],
+  [/Firefox\/|FxiOS/i, 'Firefox'],
+  [/Chrome\/|CriOS/i, 'Chrome'],
+  [/Safari\//i, 'Safari'],
+];
+
+export function describeUserAgent(userAgent: string | null | undefined): string {
+  if (!userAgent) return 'Unknown device';
+  const device = DEVICES.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (device && browser) return `${device} · ${browser}`;
+  return device ?? browser ?? 'Unknown device';
+}
@@ -1,7 +1,9 @@
 import { useState, useEffect } from 'react';
 import { AnimatePresence, motion } from 'framer-motion';
 import { Menu, Brain } from 'lucide-react';
-import { Routes, Route, Navigate, useNavigate } from 'react-router-dom';
+import { Routes, Route, Navigate, useLocation, useNavigate } from 'react-router-dom';
+import { RequireAuth, useAuth } from './components/AuthProvider';
+import type { AuthMode } from './components/AuthForm';
 import { Sidebar } from './components/Sidebar';
 import { TopBar } from './components/TopBarMain';
 import { Dashboard } from './components/Dashboard';
@@ -12,8 +14,101 @@ import { AccountsPage } from './pages/AccountsPage';
 import { SecurityPage } from './pages/SecurityPage';
 import { AiChatPage } from './pages/AiChatPage';
 
+const AUTH_ROUTES: { path: string; mode: AuthMode }[] = [
+  { path: '/login', mode: 'sign-in' },
+  { path: '/signup', mode: 'sign-up' },
+  { path: '/magic-link', mode: 'magic-link' },
+  { path: '/forgot-password', mode: 'forgot-password' },
+  { path: '/reset-password', mode: 'reset-password' },
+];
+
+function AuthScreen({ mode }: { mode: AuthMode }) {
+  const { session } = useAuth();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const from = (location.state as { from?: { pathname?: string } } | null)?.from?.pathname ?? '/overview';
+
+  // A recovery link signs the user in, so the reset screen has to stay reachable with a session.
+  if (session && mode !== 'reset-password') {
+    return <Navigate to={from} replace />;
+  }
+
+  return (
+    <div className="min-h-screen app-bg text-slate-50 flex items-center justify-center p-4">
+      {mode === 'reset-password' && !session ? (
+        <p className="max-w-sm text-center text-sm text-slate-400">
+          This password reset link has expired or was already used. Request a new one from the{' '}
+          <a href="/forgot-password" className="text-emerald-300 hover:text-emerald-200">
+            reset page
+          </a>
+          .
+        </p>
+      ) : (
+        <LoginScreen
+          mode={mode}
+          onSuccess={mode === 'reset-password' ? () => navigate('/overview', { replace: true }) : undefined}
+        />
+      )}
+    </div>
+  );
+}
+
+function MfaScreen() {
+  const { session, needsMfa } = useAuth();
+  const location = useLocation();
+  const from = (location.state as { from?: { pathname?: string } } | null)?.from?.pathname ?? '/overview';
+  // A spent recovery code removes the authenticator, so land on Security to set up a new one.
+  const [recovered, setRecovered] = useState(false);
+
+  if (!session) {
+    return <Navigate to="/login" replace />;
+  }
+  if (!needsMfa) {
+    return recovered ? (
+      <Navigate to="/security" replace state={{ mfaRecovered: true }} />
+    ) : (
+      <Navigate to={from} replace />
+    );
+  }
+
+  return (
+    <div className="min-h-screen app-bg text-slate-50 flex items-center justify-center p-4">
+      <LoginScreen mode="mfa" onMfaVerified={(method) => setRecovered(method === 'recovery')} />
+    </div>
+  );
+}
+
 function App() {
-  const [isAuthenticated, setIsAuthenticated] = useState(true);
+  const { loading } = useAuth();
+
+  if (loading) {
+    return (
+      <div className="min-h-screen app-bg text-slate-50 flex items-center justify-center p-4">
+        <p className="text-xs uppercase tracking-[0.3em] text-emerald-200/80">Restoring your session…</p>
+      </div>
+    );
+  }
+
+  return (
+    <Routes>
+      {AUTH_ROUTES.map(({ path, mode }) => (
+        <Route key={path} path={path} element={<AuthScreen mode={mode} />} />
+      ))}
+      <Route path="/mfa" element={<MfaScreen />} />
+      <Route
+        path="*"
+        element={
+          <RequireAuth>
+            <AppShell />
+          </RequireAuth>
+        }
+      />
+    </Routes>
+  );
+}
+
+function AppShell() {
+  const { signOut } = useAuth();
   const [isSidebarOpen, setIsSidebarOpen] = useState<boolean>(() => {
     if (typeof window === 'undefined') return true;
     const stored = window.localStorage.getItem('neon-sidebar-open');
@@ -28,12 +123,9 @@ function App() {
     window.localStorage.setItem('neon-sidebar-open', String(isSidebarOpen));
   }, [isSidebarOpen]);
 
-  if (!isAuthenticated) {
-    return (
-      <div className="min-h-screen app-bg text-slate-50 flex items-center justify-center p-4">
-        <LoginScreen onLogin={() => setIsAuthenticated(true)} />
-      </div>
-    );
+  async function handleLogout() {
+    await signOut();
+    navigate('/login', { replace: true });
   }
 
   return (
@@ -109,7 +201,7 @@ function App() {
 
         {/* Main content flexes to fill remaining space and is resized when sidebar width changes on any breakpoint */}
         <div className="flex flex-1 flex-col">
-          <TopBar onLogout={() => setIsAuthenticated(false)} />
+          <TopBar onLogout={handleLogout} />
           <Routes>
             <Route path="/" element={<Navigate to="/overview" replace />} />
             <Route path="/overview" element={<Dashboard />} />
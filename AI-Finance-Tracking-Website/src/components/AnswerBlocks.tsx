@@ -0,0 +1,294 @@
+import type React from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Area,
+  AreaChart,
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { ArrowUpRight, MessageSquarePlus } from 'lucide-react';
+import { useCategories } from './CategoryProvider';
+import { useCurrency } from './CurrencyProvider';
+import type { AnswerAction, AnswerBlock } from '../../lib/aurora/blocks';
+
+interface AnswerBlocksProps {
+  blocks: AnswerBlock[];
+  onPrompt: (prompt: string) => void;
+}
+
+const axisTick = { fill: 'rgba(148,163,184,0.9)', fontSize: 10 };
+const axisLine = { stroke: 'rgba(51,65,85,0.7)' };
+const tooltipStyle = {
+  backgroundColor: '#020617',
+  borderRadius: 12,
+  border: '1px solid rgba(148,163,184,0.6)',
+  padding: '8px 10px',
+  fontSize: 11,
+  color: '#e5e7eb',
+};
+
+// **bold** and `code` are the only inline marks Aurora's answers use.
+function renderInline(text: string): React.ReactNode[] {
+  return text.split(/(\*\*[^*]+\*\*|`[^`]+`)/g).map((part, i) => {
+    if (part.startsWith('**') && part.endsWith('**') && part.length > 4) {
+      return (
+        <strong key={i} className="font-semibold text-slate-50">
+          {part.slice(2, -2)}
+        </strong>
+      );
+    }
+    if (part.startsWith('`') && part.endsWith('`') && part.length > 2) {
+      return (
+        <code key={i} className="rounded bg-slate-800/80 px-1 text-[11px] text-emerald-200">
+          {part.slice(1, -1)}
+        </code>
+      );
+    }
+    return part;
+  });
+}
+
+// Paragraphs, headings and bullet / numbered lists; anything else stays plain text.
+export function MarkdownText({ text }: { text: string }) {
+  const elements: React.ReactNode[] = [];
+  let list: { ordered: boolean; items: string[] } | null = null;
+  let paragraph: string[] = [];
+
+  function flushParagraph() {
+    if (paragraph.length) {
+      elements.push(
+        <p key={elements.length} className="whitespace-pre-line">
+          {renderInline(paragraph.join('\n'))}
+        </p>,
+      );
+      paragraph = [];
+    }
+  }
+
+  function flushList() {
+    if (list) {
+      const items = list.items.map((item, i) => <li key={i}>{renderInline(item)}</li>);
+      elements.push(
+        list.ordered ? (
+          <ol key={elements.length} className="ml-4 list-decimal space-y-0.5">
+            {items}
+          </ol>
+        ) : (
+          <ul key={elements.length} className="ml-4 list-disc space-y-0.5">
+            {items}
+          </ul>
+        ),
+      );
+      list = null;
+    }
+  }
+
+  for (const line of text.split('\n')) {
+    const heading = line.match(/^#{1,3}\s+(.*)$/);
+    const bullet = line.match(/^\s*[-*•]\s+(.*)$/);
+    const numbered = line.match(/^\s*\d+[.)]\s+(.*)$/);
+
+    if (heading) {
+      flushParagraph();
+      flushList();
+      elements.push(
+        <p key={elements.length} className="font-semibold text-slate-50">
+          {renderInline(heading[1])}
+        </p>,
+      );
+    } else if (bullet || numbered) {
+      flushParagraph();
+      const ordered = Boolean(numbered);
+      if (list && list.ordered !== ordered) flushList();
+      if (!list) list = { ordered, items: [] };
+      list.items.push((bullet ?? numbered)![1]);
+    } else if (!line.trim()) {
+      flushParagraph();
+      flushList();
+    } else {
+      flushList();
+      paragraph.push(line);
+    }
+  }
+  flushParagraph();
+  flushList();
+
+  return <div className="space-y-2 leading-relaxed">{elements}</div>;
+}
+
+function BlockCard({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="mt-3 rounded-xl border border-slate-800/80 bg-slate-950/90 px-3 py-2.5">
+      <p className="text-[10px] font-semibold uppercase tracking-[0.18em] text-slate-400">{title}</p>
+      {children}
+    </div>
+  );
+}
+
+function ActionChips({ actions, onPrompt }: { actions: AnswerAction[]; onPrompt: (prompt: string) => void }) {
+  const navigate = useNavigate();
+
+  return (
+    <div className="mt-3 flex flex-wrap gap-1.5">
+      {actions.map((action) => (
+        <button
+          key={`${action.kind}-${action.label}`}
+          type="button"
+          onClick={() => (action.kind === 'navigate' ? navigate(action.to) : onPrompt(action.prompt))}
+          className="inline-flex items-center gap-1 rounded-full border border-emerald-400/60 bg-emerald-400/10 px-2.5 py-1 text-[10px] font-semibold text-emerald-200 hover:bg-emerald-400/20"
+        >
+          {action.kind === 'navigate' ? (
+            <ArrowUpRight className="h-3 w-3" />
+          ) : (
+            <MessageSquarePlus className="h-3 w-3" />
+          )}
+          {action.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export function AnswerBlocks({ blocks, onPrompt }: AnswerBlocksProps) {
+  const { format } = useCurrency();
+  const { colorOf } = useCategories();
+
+  return (
+    <>
+      {blocks.map((block, index) => {
+        switch (block.type) {
+          case 'markdown':
+            return (
+              <div key={index} className="mt-2">
+                <MarkdownText text={block.text} />
+              </div>
+            );
+
+          case 'category-chart':
+            return (
+              <BlockCard key={index} title={block.title}>
+                <div className="mt-2 h-44 w-full">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={block.data} barSize={18}>
+                      <CartesianGrid stroke="rgba(51,65,85,0.7)" vertical={false} strokeDasharray="4 4" />
+                      <XAxis dataKey="category" tickLine={false} tickMargin={8} tick={axisTick} axisLine={axisLine} />
+                      <YAxis
+                        tickLine={false}
+                        tickMargin={6}
+                        tick={axisTick}
+                        axisLine={axisLine}
+                        tickFormatter={(value: number) =>
+                          format(value, { currency: block.currency, compact: true, maximumFractionDigits: 1 })
+                        }
+                      />
+                      <Tooltip
+                        formatter={(value: unknown) =>
+                          typeof value === 'number' ? format(value, { currency: block.currency }) : String(value)
+                        }
+                        contentStyle={tooltipStyle}
+                        labelStyle={{ fontSize: 11, color: '#a5b4fc', marginBottom: 4 }}
+                        cursor={{ fill: 'rgba(148,163,184,0.08)' }}
+                      />
+                      <Bar dataKey="amount" name="Spent" radius={[6, 6, 0, 0]}>
+                        {block.data.map((entry) => (
+                          <Cell key={entry.category} fill={colorOf(entry.category)} fillOpacity={0.85} />
+                        ))}
+                      </Bar>
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              </BlockCard>
+            );
+
+          case 'projection':
+            return (
+              <BlockCard key={index} title={block.title}>
+                <div className="mt-2 h-40 w-full">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <AreaChart data={block.points} margin={{ left: 0, right: 0, top: 8, bottom: 0 }}>
+                      <defs>
+                        <linearGradient id={`answerProjection-${index}`} x1="0" y1="0" x2="0" y2="1">
+                          <stop offset="0%" stopColor="#22c55e" stopOpacity={0.7} />
+                          <stop offset="100%" stopColor="#22c55e" stopOpacity={0} />
+                        </linearGradient>
+                      </defs>
+                      <CartesianGrid stroke="rgba(51,65,85,0.7)" vertical={false} strokeDasharray="4 4" />
+                      <XAxis dataKey="label" tickLine={false} tickMargin={8} tick={axisTick} axisLine={axisLine} />
+                      <YAxis
+                        tickLine={false}
+                        tickMargin={6}
+                        tick={axisTick}
+                        axisLine={axisLine}
+                        tickFormatter={(value: number) =>
+                          format(value, { currency: block.currency, compact: true, maximumFractionDigits: 1 })
+                        }
+                      />
+                      <Tooltip
+                        formatter={(value: unknown) =>
+                          typeof value === 'number' ? format(value, { currency: block.currency }) : String(value)
+                        }
+                        contentStyle={tooltipStyle}
+                        labelStyle={{ fontSize: 11, color: '#6ee7b7', marginBottom: 4 }}
+                      />
+                      <Area
+                        type="monotone"
+                        dataKey="value"
+                        name="Saved"
+                        stroke="#22c55e"
+                        strokeWidth={2}
+                        fill={`url(#answerProjection-${index})`}
+                      />
+                    </AreaChart>
+                  </ResponsiveContainer>
+                </div>
+              </BlockCard>
+            );
+
+          case 'transaction-table':
+            return (
+              <BlockCard key={index} title={block.title}>
+                <table className="mt-2 w-full text-left text-[11px]">
+                  <thead className="text-[10px] uppercase tracking-[0.14em] text-slate-500">
+                    <tr>
+                      <th className="py-1 pr-2 font-medium">Date</th>
+                      <th className="py-1 pr-2 font-medium">Description</th>
+                      <th className="py-1 pr-2 font-medium">Category</th>
+                      <th className="py-1 text-right font-medium">Amount</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-800/80 text-slate-300">
+                    {block.rows.map((row, i) => (
+                      <tr key={i}>
+                        <td className="py-1 pr-2 text-slate-400">{row.date}</td>
+                        <td className="max-w-[12rem] truncate py-1 pr-2">{row.description}</td>
+                        <td className="py-1 pr-2 text-slate-400">{row.category ?? '—'}</td>
+                        <td
+                          className={`py-1 text-right font-medium ${
+                            row.amount < 0 ? 'text-rose-300' : 'text-emerald-300'
+                          }`}
+                        >
+                          {format(row.amount, { currency: block.currency })}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </BlockCard>
+            );
+
+          case 'actions':
+            return <ActionChips key={index} actions={block.actions} onPrompt={onPrompt} />;
+
+          default:
+            return null;
+        }
+      })}
+    </>
+  );
+}
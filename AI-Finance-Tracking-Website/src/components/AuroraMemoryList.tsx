@@ -0,0 +1,43 @@
+import { Brain, Trash2 } from 'lucide-react';
+import type { AuroraMemory } from '../../lib/chatThreads';
+
+interface AuroraMemoryListProps {
+  memories: AuroraMemory[];
+  onForget: (memoryId: string) => void;
+}
+
+export function AuroraMemoryList({ memories, onForget }: AuroraMemoryListProps) {
+  return (
+    <aside className="card-3d flex flex-col rounded-2xl px-3 py-3 text-xs">
+      <p className="flex items-center gap-1.5 px-1 text-[10px] font-semibold uppercase tracking-[0.2em] text-slate-400">
+        <Brain className="h-3.5 w-3.5 text-violet-300" />
+        Aurora remembers
+      </p>
+
+      {memories.length === 0 ? (
+        <p className="mt-3 px-1 text-[11px] text-slate-500">
+          Tell Aurora about your goals ("I'm saving for a house in 2027") and it will recall them next time.
+        </p>
+      ) : (
+        <ul className="mt-3 max-h-48 space-y-1 overflow-y-auto scroll-soft">
+          {memories.map((memory) => (
+            <li
+              key={memory.id}
+              className="group flex items-start gap-1 rounded-xl border border-transparent px-2 py-1.5 text-slate-300 hover:border-slate-700/80 hover:bg-slate-900/70"
+            >
+              <span className="flex-1 text-[11px] leading-snug">{memory.fact}</span>
+              <button
+                type="button"
+                onClick={() => onForget(memory.id)}
+                className="shrink-0 text-slate-400 opacity-0 transition-opacity hover:text-rose-300 group-hover:opacity-100"
+                aria-label="Forget this"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </aside>
+  );
+}
@@ -1,60 +1,140 @@
 import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { evaluatePassword } from '../../lib/passwordPolicy';
+import { reportFailedSignIn } from '../../lib/security';
 import { supabase } from '../../lib/supabaseClient';
+import { PasswordStrengthMeter } from './PasswordStrengthMeter';
 
-type Mode = 'login' | 'signup';
+export type AuthMode = 'sign-in' | 'sign-up' | 'magic-link' | 'forgot-password' | 'reset-password';
 
-export default function AuthForm() {
-  const [mode, setMode] = useState<Mode>('login');
+interface AuthFormProps {
+  mode: AuthMode;
+  // Called after a password sign-in or a successful password reset.
+  onSuccess?: () => void;
+}
+
+const SUBMIT_LABELS: Record<AuthMode, string> = {
+  'sign-in': 'Enter command center',
+  'sign-up': 'Create account',
+  'magic-link': 'Email me a sign-in link',
+  'forgot-password': 'Send reset link',
+  'reset-password': 'Set new password',
+};
+
+const inputClass =
+  'h-9 w-full rounded-xl border border-slate-700/80 bg-slate-950/70 px-3 text-xs text-slate-100 placeholder:text-slate-500 focus:border-emerald-400/80 focus:outline-none focus:ring-2 focus:ring-emerald-500/40';
+
+function redirectUrl(path: string): string {
+  return `${window.location.origin}${path}`;
+}
+
+export default function AuthForm({ mode, onSuccess }: AuthFormProps) {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [message, setMessage] = useState<string | null>(null);
 
+  const needsEmail = mode !== 'reset-password';
+  const needsPassword = mode === 'sign-in' || mode === 'sign-up' || mode === 'reset-password';
+  const needsConfirmation = mode === 'sign-up' || mode === 'reset-password';
+  const evaluation = needsConfirmation ? evaluatePassword(password, email ? [email] : []) : null;
+
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
     setError(null);
     setMessage(null);
 
-    if (!email || !password) {
-      setError('Please enter both email and password.');
+    if (needsEmail && !email) {
+      setError('Please enter your email.');
+      return;
+    }
+    if (needsPassword && !password) {
+      setError('Please enter your password.');
       return;
     }
+    if (needsConfirmation) {
+      if (evaluation && !evaluation.acceptable) {
+        setError(evaluation.feedback[0] ?? 'Choose a stronger password.');
+        return;
+      }
+      if (password !== confirmPassword) {
+        setError('The two passwords do not match.');
+        return;
+      }
+    }
 
     setLoading(true);
 
     try {
-      if (mode === 'signup') {
-        const { data, error: signUpError } = await supabase.auth.signUp({
-          email,
-          password,
-        });
-
-        if (signUpError) {
-          setError(signUpError.message);
-          return;
+      switch (mode) {
+        case 'sign-in': {
+          const { error: signInError } = await supabase.auth.signInWithPassword({ email, password });
+          if (signInError) {
+            setError(signInError.message);
+            // Feeds the failed-attempt signal of the next successful sign-in's risk score.
+            reportFailedSignIn(email).catch(() => undefined);
+            return;
+          }
+          onSuccess?.();
+          break;
         }
 
-        if (data?.user) {
-          setMessage('Sign-up successful. Check your email to confirm your account if required.');
-        } else {
-          setMessage('Sign-up request sent. Please check your email to complete registration.');
+        case 'sign-up': {
+          const { data, error: signUpError } = await supabase.auth.signUp({
+            email,
+            password,
+            options: { emailRedirectTo: redirectUrl('/overview') },
+          });
+          if (signUpError) {
+            setError(signUpError.message);
+            return;
+          }
+          // With email confirmation on, Supabase returns a user but no session yet.
+          setMessage(
+            data.session
+              ? 'Account created. Welcome aboard.'
+              : 'Check your email to confirm your account, then sign in.',
+          );
+          break;
         }
-      } else {
-        const { data, error: signInError } = await supabase.auth.signInWithPassword({
-          email,
-          password,
-        });
-
-        if (signInError) {
-          setError(signInError.message);
-          return;
+
+        case 'magic-link': {
+          const { error: otpError } = await supabase.auth.signInWithOtp({
+            email,
+            options: { emailRedirectTo: redirectUrl('/overview'), shouldCreateUser: false },
+          });
+          if (otpError) {
+            setError(otpError.message);
+            return;
+          }
+          setMessage('Check your email for a sign-in link. It expires after one hour.');
+          break;
         }
 
-        if (data?.user) {
-          setMessage('Login successful.');
-        } else {
-          setMessage('Login request completed.');
+        case 'forgot-password': {
+          const { error: resetError } = await supabase.auth.resetPasswordForEmail(email, {
+            redirectTo: redirectUrl('/reset-password'),
+          });
+          if (resetError) {
+            setError(resetError.message);
+            return;
+          }
+          // Same message whether or not the address has an account, so it cannot be probed.
+          setMessage('If that email has an account, a reset link is on its way.');
+          break;
+        }
+
+        case 'reset-password': {
+          const { error: updateError } = await supabase.auth.updateUser({ password });
+          if (updateError) {
+            setError(updateError.message);
+            return;
+          }
+          setMessage('Password updated.');
+          onSuccess?.();
+          break;
         }
       }
     } catch (err: any) {
@@ -65,91 +145,103 @@ export default function AuthForm() {
   }
 
   return (
-    <div className="min-h-screen flex items-center justify-center bg-slate-950 px-4">
-      <div className="w-full max-w-md rounded-2xl border border-slate-800 bg-slate-900/80 p-6 shadow-xl">
-        <h1 className="mb-4 text-center text-xl font-semibold text-slate-50">
-          {mode === 'login' ? 'Login to your account' : 'Create a new account'}
-        </h1>
-
-        <div className="mb-4 flex justify-center gap-2 text-xs">
-          <button
-            type="button"
-            className={`rounded-full px-3 py-1 font-medium ${
-              mode === 'login'
-                ? 'bg-emerald-500 text-slate-950'
-                : 'bg-slate-800 text-slate-300 hover:bg-slate-700'
-            }`}
-            onClick={() => setMode('login')}
-            disabled={loading}
-          >
-            Login
-          </button>
-          <button
-            type="button"
-            className={`rounded-full px-3 py-1 font-medium ${
-              mode === 'signup'
-                ? 'bg-emerald-500 text-slate-950'
-                : 'bg-slate-800 text-slate-300 hover:bg-slate-700'
-            }`}
-            onClick={() => setMode('signup')}
-            disabled={loading}
-          >
-            Sign Up
-          </button>
+    <form onSubmit={handleSubmit} className="space-y-3">
+      {needsEmail && (
+        <div className="space-y-1.5">
+          <label className="block text-xs font-medium text-slate-200" htmlFor="auth-email">
+            Email
+          </label>
+          <input
+            id="auth-email"
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className={inputClass}
+            placeholder="you@finance.ai"
+            autoComplete="email"
+          />
         </div>
+      )}
 
-        <form onSubmit={handleSubmit} className="space-y-4">
-          <div className="space-y-1">
-            <label className="block text-xs font-medium text-slate-300" htmlFor="email">
-              Email
-            </label>
-            <input
-              id="email"
-              type="email"
-              value={email}
-              onChange={(e) => setEmail(e.target.value)}
-              className="w-full rounded-md border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100 placeholder:text-slate-500 focus:border-emerald-400 focus:outline-none focus:ring-1 focus:ring-emerald-500"
-              placeholder="you@example.com"
-              autoComplete="email"
-            />
-          </div>
-
-          <div className="space-y-1">
-            <label className="block text-xs font-medium text-slate-300" htmlFor="password">
-              Password
+      {needsPassword && (
+        <div className="space-y-1.5">
+          <div className="flex items-center justify-between">
+            <label className="block text-xs font-medium text-slate-200" htmlFor="auth-password">
+              {mode === 'reset-password' ? 'New password' : 'Password'}
             </label>
-            <input
-              id="password"
-              type="password"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              className="w-full rounded-md border border-slate-700 bg-slate-900 px-3 py-2 text-sm text-slate-100 placeholder:text-slate-500 focus:border-emerald-400 focus:outline-none focus:ring-1 focus:ring-emerald-500"
-              placeholder="••••••••"
-              autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
-            />
+            {mode === 'sign-in' && (
+              <Link to="/forgot-password" className="text-[11px] text-sky-300 hover:text-sky-200">
+                Forgot password?
+              </Link>
+            )}
           </div>
-
-          {error && (
-            <p className="text-xs text-rose-400" role="alert">
-              {error}
-            </p>
-          )}
-
-          {message && !error && (
-            <p className="text-xs text-emerald-300" role="status">
-              {message}
-            </p>
-          )}
-
-          <button
-            type="submit"
-            disabled={loading}
-            className="mt-2 flex w-full items-center justify-center rounded-md bg-emerald-500 px-4 py-2 text-sm font-semibold text-slate-950 hover:bg-emerald-400 disabled:opacity-60 disabled:hover:bg-emerald-500"
-          >
-            {loading ? 'Please wait…' : mode === 'login' ? 'Login' : 'Sign Up'}
-          </button>
-        </form>
+          <input
+            id="auth-password"
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className={inputClass}
+            placeholder="••••••••••••"
+            autoComplete={mode === 'sign-in' ? 'current-password' : 'new-password'}
+          />
+          {evaluation && password && <PasswordStrengthMeter evaluation={evaluation} />}
+        </div>
+      )}
+
+      {needsConfirmation && (
+        <div className="space-y-1.5">
+          <label className="block text-xs font-medium text-slate-200" htmlFor="auth-confirm-password">
+            Confirm password
+          </label>
+          <input
+            id="auth-confirm-password"
+            type="password"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            className={inputClass}
+            placeholder="••••••••••••"
+            autoComplete="new-password"
+          />
+        </div>
+      )}
+
+      {error && (
+        <p className="text-xs text-rose-400" role="alert">
+          {error}
+        </p>
+      )}
+
+      {message && !error && (
+        <p className="text-xs text-emerald-300" role="status">
+          {message}
+        </p>
+      )}
+
+      <button
+        type="submit"
+        disabled={loading}
+        className="mt-3 flex w-full items-center justify-center gap-2 rounded-xl bg-gradient-to-r from-emerald-400 via-sky-500 to-indigo-500 px-3 py-2 text-xs font-semibold uppercase tracking-[0.22em] text-slate-950 shadow-[0_0_40px_rgba(59,130,246,0.9)] transition-transform hover:-translate-y-0.5 disabled:opacity-60 disabled:hover:translate-y-0"
+      >
+        <span>{loading ? 'Please wait…' : SUBMIT_LABELS[mode]}</span>
+      </button>
+
+      <div className="flex flex-wrap justify-center gap-x-3 gap-y-1 pt-1 text-[11px] text-slate-400">
+        {mode !== 'sign-in' && (
+          <Link to="/login" className="hover:text-emerald-200">
+            Sign in with password
+          </Link>
+        )}
+        {mode !== 'sign-up' && mode !== 'reset-password' && (
+          <Link to="/signup" className="hover:text-emerald-200">
+            Create an account
+          </Link>
+        )}
+        {mode !== 'magic-link' && mode !== 'reset-password' && (
+          <Link to="/magic-link" className="hover:text-emerald-200">
+            Email me a link instead
+          </Link>
+        )}
       </div>
-    </div>
+    </form>
   );
 }
@@ -0,0 +1,113 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, type ReactNode } from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import type { Session, User } from '@supabase/supabase-js';
+import { getSessionAssurance } from '../../lib/mfa';
+import { reportSignIn } from '../../lib/security';
+import { recordCurrentSession } from '../../lib/sessions';
+import { supabase } from '../../lib/supabaseClient';
+
+interface AuthContextValue {
+  session: Session | null;
+  user: User | null;
+  // True until the stored session has been restored on load.
+  loading: boolean;
+  // Signed in with a password or link, but an authenticator code is still owed.
+  needsMfa: boolean;
+  signOut: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextValue>({
+  session: null,
+  user: null,
+  loading: true,
+  needsMfa: false,
+  signOut: async () => undefined,
+});
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const [session, setSession] = useState<Session | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    supabase.auth
+      .getSession()
+      .then(({ data }) => {
+        if (isMounted) setSession(data.session);
+      })
+      .catch(() => undefined)
+      .finally(() => {
+        if (isMounted) setLoading(false);
+      });
+
+    // Covers sign-in, sign-out, token refresh and sessions opened from magic or recovery links.
+    const { data } = supabase.auth.onAuthStateChange((event, next) => {
+      if (!isMounted) return;
+      setSession(next);
+      setLoading(false);
+      // Scored once per session server-side; deferred so it runs outside the auth callback.
+      if (event === 'SIGNED_IN' && next) {
+        setTimeout(() => {
+          reportSignIn(next.access_token).catch((err) => console.warn('Could not report sign-in', err));
+        }, 0);
+      }
+    });
+
+    return () => {
+      isMounted = false;
+      data.subscription.unsubscribe();
+    };
+  }, []);
+
+  // Runs on sign-in, on load and on every token refresh (hourly), which keeps the
+  // Security page's last-active times roughly current without polling.
+  const accessToken = session?.access_token;
+  useEffect(() => {
+    if (!accessToken) return;
+    recordCurrentSession().catch((err) => console.warn('Could not record session activity', err));
+  }, [accessToken]);
+
+  // Ends this device's session only; other devices stay signed in.
+  const signOut = useCallback(async () => {
+    const { error } = await supabase.auth.signOut({ scope: 'local' });
+    if (error) console.error('Sign out failed', error);
+    // Clear locally even if the server call failed, so the UI never shows a stale account.
+    setSession(null);
+  }, []);
+
+  const value = useMemo<AuthContextValue>(
+    () => {
+      const assurance = session ? getSessionAssurance(session) : null;
+      return {
+        session,
+        user: session?.user ?? null,
+        loading,
+        needsMfa: assurance !== null && assurance.current !== assurance.next,
+        signOut,
+      };
+    },
+    [session, loading, signOut],
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
+
+export function useAuth(): AuthContextValue {
+  return useContext(AuthContext);
+}
+
+// Sends signed-out visitors to /login and users who still owe an MFA code to /mfa,
+// remembering where they were headed.
+export function RequireAuth({ children }: { children: ReactNode }) {
+  const { session, needsMfa } = useAuth();
+  const location = useLocation();
+
+  if (!session) {
+    return <Navigate to="/login" replace state={{ from: location }} />;
+  }
+  if (needsMfa) {
+    return <Navigate to="/mfa" replace state={{ from: location }} />;
+  }
+  return <>{children}</>;
+}
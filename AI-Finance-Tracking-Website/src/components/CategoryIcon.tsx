@@ -0,0 +1,81 @@
+import {
+  ArrowLeftRight,
+  Baby,
+  Bus,
+  Car,
+  Coffee,
+  Dumbbell,
+  Film,
+  Fuel,
+  Gift,
+  GraduationCap,
+  HeartPulse,
+  Home,
+  Landmark,
+  Music,
+  PawPrint,
+  Pizza,
+  Plane,
+  Receipt,
+  Repeat,
+  Shirt,
+  ShoppingBag,
+  ShoppingCart,
+  Tag,
+  Truck,
+  Utensils,
+  Wallet,
+  Wifi,
+  Zap,
+  type LucideIcon,
+} from 'lucide-react';
+import type { CategoryIcon as CategoryIconName } from '../../lib/categories';
+import { useCategories } from './CategoryProvider';
+
+export const CATEGORY_ICON_COMPONENTS: Record<CategoryIconName, LucideIcon> = {
+  tag: Tag,
+  wallet: Wallet,
+  home: Home,
+  zap: Zap,
+  wifi: Wifi,
+  utensils: Utensils,
+  'shopping-cart': ShoppingCart,
+  coffee: Coffee,
+  pizza: Pizza,
+  truck: Truck,
+  car: Car,
+  fuel: Fuel,
+  bus: Bus,
+  'shopping-bag': ShoppingBag,
+  shirt: Shirt,
+  repeat: Repeat,
+  'heart-pulse': HeartPulse,
+  dumbbell: Dumbbell,
+  film: Film,
+  music: Music,
+  plane: Plane,
+  gift: Gift,
+  'graduation-cap': GraduationCap,
+  baby: Baby,
+  'paw-print': PawPrint,
+  receipt: Receipt,
+  landmark: Landmark,
+  'arrow-left-right': ArrowLeftRight,
+};
+
+// A category's icon in its taxonomy colour. Give `icon`/`color` to preview unsaved edits.
+export function CategoryIcon({
+  category,
+  icon,
+  color,
+  className = 'h-3.5 w-3.5',
+}: {
+  category?: string | null;
+  icon?: CategoryIconName;
+  color?: string;
+  className?: string;
+}) {
+  const { colorOf, iconOf } = useCategories();
+  const Icon = CATEGORY_ICON_COMPONENTS[icon ?? iconOf(category)] ?? Tag;
+  return <Icon className={className} style={{ color: color ?? colorOf(category) }} aria-hidden="true" />;
+}
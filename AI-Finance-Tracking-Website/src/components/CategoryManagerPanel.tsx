@@ -0,0 +1,396 @@
+import { useState, type FormEvent } from 'react';
+import { AlertTriangle, FolderTree, GitMerge, History, Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import {
+  CATEGORY_COLORS,
+  CATEGORY_ICONS,
+  deleteCategory,
+  mergeCategory,
+  orderedCategories,
+  saveCategory,
+  subCategories,
+  type Category,
+  type CategoryChange,
+  type CategoryIcon as CategoryIconName,
+  type CategoryTaxonomy,
+} from '../../lib/categories';
+import { CategoryIcon, CATEGORY_ICON_COMPONENTS } from './CategoryIcon';
+import { useCategories } from './CategoryProvider';
+
+interface CategoryDraft {
+  id: string | null;
+  name: string;
+  parentId: string;
+  color: string;
+  icon: CategoryIconName;
+}
+
+const HISTORY_SHOWN = 6;
+
+const inputClass =
+  'h-8 w-full rounded-lg border border-slate-700/80 bg-slate-950/80 px-2 text-[11px] text-slate-100 placeholder:text-slate-500 focus:border-emerald-400/80 focus:outline-none focus:ring-2 focus:ring-emerald-500/40';
+
+function toDraft(category: Category): CategoryDraft {
+  return {
+    id: category.id,
+    name: category.name,
+    parentId: category.parentId ?? '',
+    color: category.color,
+    icon: category.icon,
+  };
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+function describeChange(change: CategoryChange): string {
+  const verb = change.action === 'merge' ? 'Merged' : 'Renamed';
+  return `${verb} ${change.fromName} → ${change.toName} · ${plural(change.transactions, 'transaction')}`;
+}
+
+// The user's categories and sub-categories. Every chart, filter and picker in the app and
+// Aurora's chat read from this taxonomy; renames and merges relabel past transactions and
+// rules, and are listed underneath so the history is never lost.
+export function CategoryManagerPanel() {
+  const { categories, changes, usage, loaded, replaceTaxonomy } = useCategories();
+  const [draft, setDraft] = useState<CategoryDraft | null>(null);
+  const [merging, setMerging] = useState<{ id: string; into: string } | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const topLevel = categories.filter((category) => !category.parentId);
+  const countFor = (category: Category) => usage[category.name] ?? 0;
+
+  const run = async (key: string, action: () => Promise<{ taxonomy: CategoryTaxonomy; message: string }>) => {
+    setBusy(key);
+    setError(null);
+    setStatus(null);
+    try {
+      const { taxonomy, message } = await action();
+      replaceTaxonomy(taxonomy);
+      setStatus(message);
+    } catch (err: any) {
+      setError(err?.message ?? 'Could not update your categories.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleSave = (event: FormEvent) => {
+    event.preventDefault();
+    if (!draft) return;
+    run('save', async () => {
+      const { category, change, taxonomy } = await saveCategory(
+        { name: draft.name.trim(), parentId: draft.parentId || null, color: draft.color, icon: draft.icon },
+        draft.id,
+      );
+      setDraft(null);
+      return { taxonomy, message: change ? `${describeChange(change)} relabelled.` : `Saved ${category.name}.` };
+    });
+  };
+
+  const handleMerge = (event: FormEvent) => {
+    event.preventDefault();
+    if (!merging?.into) return;
+    run('merge', async () => {
+      const { change, taxonomy } = await mergeCategory(merging.id, merging.into);
+      setMerging(null);
+      return { taxonomy, message: `${describeChange(change)} moved.` };
+    });
+  };
+
+  const handleDelete = (category: Category) =>
+    run(`delete:${category.id}`, async () => {
+      const { change, taxonomy } = await deleteCategory(category.id);
+      return { taxonomy, message: change ? `${describeChange(change)} moved.` : `Deleted ${category.name}.` };
+    });
+
+  const startDraft = (next: CategoryDraft) => {
+    setMerging(null);
+    setDraft(next);
+  };
+
+  return (
+    <section
+      className="card-3d card-3d-hover mt-5 rounded-2xl px-4 py-4 text-sm text-slate-300 sm:px-5 sm:py-5"
+      aria-label="Categories"
+    >
+      <header className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h2 className="flex items-center gap-2 text-sm font-semibold text-slate-50">
+            <FolderTree className="h-4 w-4 text-emerald-400" />
+            Categories
+          </h2>
+          <p className="text-xs text-slate-400">
+            Group spending your way. Charts roll sub-categories up into their parent; filters on a parent include them.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() =>
+            startDraft({ id: null, name: '', parentId: '', color: CATEGORY_COLORS[0], icon: 'tag' })
+          }
+          disabled={!loaded || draft !== null}
+          className="inline-flex items-center gap-1.5 self-start rounded-full border border-emerald-500/60 bg-emerald-500/10 px-3 py-1.5 text-[11px] font-semibold uppercase tracking-[0.2em] text-emerald-300 hover:bg-emerald-500/20 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-emerald-500/70 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          <Plus className="h-3 w-3" />
+          Add category
+        </button>
+      </header>
+
+      {error && (
+        <p className="mt-3 flex items-center gap-1 text-[11px] text-rose-300" role="alert">
+          <AlertTriangle className="h-3 w-3" />
+          {error}
+        </p>
+      )}
+      {status && (
+        <p className="mt-3 text-[11px] text-emerald-300" role="status">
+          {status}
+        </p>
+      )}
+
+      {draft && (
+        <form onSubmit={handleSave} className="mt-4 rounded-xl border border-slate-800/80 bg-slate-950/60 p-3">
+          <div className="grid gap-3 sm:grid-cols-2">
+            <label className="block text-[11px] text-slate-400">
+              Name
+              <input
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="Dining"
+                maxLength={60}
+                required
+                className={`mt-1 ${inputClass}`}
+              />
+            </label>
+            <label className="block text-[11px] text-slate-400">
+              Inside
+              <select
+                value={draft.parentId}
+                onChange={(e) => setDraft({ ...draft, parentId: e.target.value })}
+                className={`mt-1 ${inputClass}`}
+              >
+                <option value="">Nothing (top-level)</option>
+                {topLevel
+                  .filter((category) => category.id !== draft.id)
+                  .map((category) => (
+                    <option key={category.id} value={category.id}>
+                      {category.name}
+                    </option>
+                  ))}
+              </select>
+            </label>
+          </div>
+          {draft.name.trim() && draft.id && draft.name.trim() !== categories.find((c) => c.id === draft.id)?.name && (
+            <p className="mt-2 text-[11px] text-amber-300">
+              Renaming relabels every transaction and rule that uses the old name.
+            </p>
+          )}
+          <fieldset className="mt-3">
+            <legend className="text-[11px] text-slate-400">Colour</legend>
+            <div className="mt-1 flex flex-wrap items-center gap-1.5">
+              {CATEGORY_COLORS.map((color) => (
+                <button
+                  key={color}
+                  type="button"
+                  onClick={() => setDraft({ ...draft, color })}
+                  aria-label={`Colour ${color}`}
+                  aria-pressed={draft.color === color}
+                  className={`h-5 w-5 rounded-full border ${
+                    draft.color === color ? 'border-slate-50 ring-2 ring-emerald-500/60' : 'border-slate-700'
+                  }`}
+                  style={{ backgroundColor: color }}
+                />
+              ))}
+              <input
+                type="color"
+                value={draft.color}
+                onChange={(e) => setDraft({ ...draft, color: e.target.value })}
+                aria-label="Custom colour"
+                className="h-5 w-8 cursor-pointer rounded border border-slate-700 bg-transparent"
+              />
+            </div>
+          </fieldset>
+          <fieldset className="mt-3">
+            <legend className="text-[11px] text-slate-400">Icon</legend>
+            <div className="mt-1 flex flex-wrap gap-1">
+              {CATEGORY_ICONS.map((icon) => {
+                const Icon = CATEGORY_ICON_COMPONENTS[icon];
+                return (
+                  <button
+                    key={icon}
+                    type="button"
+                    onClick={() => setDraft({ ...draft, icon })}
+                    aria-label={icon.replace(/-/g, ' ')}
+                    aria-pressed={draft.icon === icon}
+                    className={`flex h-7 w-7 items-center justify-center rounded-lg border ${
+                      draft.icon === icon ? 'border-emerald-400/80 bg-emerald-500/10' : 'border-slate-800 hover:border-slate-600'
+                    }`}
+                  >
+                    <Icon className="h-3.5 w-3.5" style={{ color: draft.color }} />
+                  </button>
+                );
+              })}
+            </div>
+          </fieldset>
+          <div className="mt-3 flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setDraft(null)}
+              className="rounded-full border border-slate-700/80 px-3 py-1.5 text-[11px] text-slate-300 hover:border-slate-500 hover:text-slate-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-500/60"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={busy !== null || !draft.name.trim()}
+              className="inline-flex items-center gap-1.5 rounded-full bg-emerald-500/90 px-3 py-1.5 text-[11px] font-semibold uppercase tracking-[0.18em] text-slate-950 hover:bg-emerald-400 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-emerald-500/80 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              {busy === 'save' && <Loader2 className="h-3 w-3 animate-spin" />}
+              {draft.id ? 'Save category' : 'Create category'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <ul className="mt-4 space-y-1" aria-label="Your categories">
+        {!loaded && (
+          <li className="flex items-center gap-1 text-[11px] text-slate-500">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            Loading categories…
+          </li>
+        )}
+        {loaded &&
+          orderedCategories(categories).map(({ category, depth }) => {
+            const children = subCategories(categories, category.id);
+            const count = countFor(category);
+            // Top-level categories only go once nothing uses them; sub-categories fold into their parent.
+            const blocked = !category.parentId && (children.length > 0 || count > 0);
+            return (
+              <li key={category.id} className={depth ? 'ml-5' : ''}>
+                <div className="flex items-center justify-between gap-2 rounded-xl border border-slate-800/80 px-3 py-1.5">
+                  <p className="flex min-w-0 items-center gap-2 text-[12px] text-slate-100">
+                    <CategoryIcon category={category.name} />
+                    <span className="truncate">{category.name}</span>
+                    <span className="text-[11px] text-slate-500">{plural(count, 'transaction')}</span>
+                  </p>
+                  <div className="flex shrink-0 items-center gap-1">
+                    <button
+                      type="button"
+                      onClick={() => startDraft(toDraft(category))}
+                      disabled={busy !== null}
+                      className="rounded-lg p-1 text-slate-400 hover:text-slate-50 disabled:opacity-40"
+                      aria-label={`Edit ${category.name}`}
+                    >
+                      <Pencil className="h-3 w-3" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setDraft(null);
+                        setMerging({ id: category.id, into: '' });
+                      }}
+                      disabled={busy !== null}
+                      className="rounded-lg p-1 text-slate-400 hover:text-sky-300 disabled:opacity-40"
+                      aria-label={`Merge ${category.name} into another category`}
+                    >
+                      <GitMerge className="h-3 w-3" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(category)}
+                      disabled={busy !== null || blocked}
+                      title={
+                        blocked
+                          ? 'Still in use. Merge it into another category instead.'
+                          : category.parentId
+                            ? 'Its transactions move to the parent category.'
+                            : undefined
+                      }
+                      className="rounded-lg p-1 text-slate-400 hover:text-rose-300 disabled:opacity-40"
+                      aria-label={`Delete ${category.name}`}
+                    >
+                      {busy === `delete:${category.id}` ? (
+                        <Loader2 className="h-3 w-3 animate-spin" />
+                      ) : (
+                        <Trash2 className="h-3 w-3" />
+                      )}
+                    </button>
+                  </div>
+                </div>
+                {merging?.id === category.id && (
+                  <form
+                    onSubmit={handleMerge}
+                    className="mt-1 flex flex-col gap-2 rounded-xl border border-sky-500/40 bg-slate-950/60 px-3 py-2 sm:flex-row sm:items-center"
+                  >
+                    <label className="flex flex-1 items-center gap-2 text-[11px] text-slate-400">
+                      Merge into
+                      <select
+                        value={merging.into}
+                        onChange={(e) => setMerging({ ...merging, into: e.target.value })}
+                        className={inputClass}
+                      >
+                        <option value="">Choose a category</option>
+                        {orderedCategories(categories)
+                          .filter(({ category: target }) => target.id !== category.id && target.parentId !== category.id)
+                          .map(({ category: target, depth: targetDepth }) => (
+                            <option key={target.id} value={target.id}>
+                              {targetDepth ? ` ${target.name}` : target.name}
+                            </option>
+                          ))}
+                      </select>
+                    </label>
+                    <div className="flex gap-2">
+                      <button
+                        type="button"
+                        onClick={() => setMerging(null)}
+                        className="rounded-full border border-slate-700/80 px-3 py-1 text-[11px] text-slate-300 hover:border-slate-500"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        type="submit"
+                        disabled={busy !== null || !merging.into}
+                        className="inline-flex items-center gap-1.5 rounded-full bg-sky-500/90 px-3 py-1 text-[11px] font-semibold text-slate-950 hover:bg-sky-400 disabled:cursor-not-allowed disabled:opacity-60"
+                      >
+                        {busy === 'merge' && <Loader2 className="h-3 w-3 animate-spin" />}
+                        Merge {plural(count, 'transaction')}
+                      </button>
+                    </div>
+                  </form>
+                )}
+              </li>
+            );
+          })}
+      </ul>
+
+      {changes.length > 0 && (
+        <div className="mt-4">
+          <h3 className="flex items-center gap-1.5 text-[11px] font-semibold uppercase tracking-[0.2em] text-slate-400">
+            <History className="h-3 w-3" />
+            History
+          </h3>
+          <ul className="mt-1 space-y-0.5 text-[11px] text-slate-400">
+            {changes
+              .slice(-HISTORY_SHOWN)
+              .reverse()
+              .map((change) => (
+                <li key={change.id}>
+                  {describeChange(change)}
+                  <span className="ml-1 text-slate-500">
+                    · {new Date(change.createdAt).toLocaleDateString(undefined, {
+                      day: 'numeric',
+                      month: 'short',
+                      year: 'numeric',
+                    })}
+                  </span>
+                </li>
+              ))}
+          </ul>
+        </div>
+      )}
+    </section>
+  );
+}
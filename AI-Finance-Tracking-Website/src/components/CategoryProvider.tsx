@@ -0,0 +1,104 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, type ReactNode } from 'react';
+import {
+  categoryColor,
+  categoryFamily,
+  categoryIcon,
+  defaultCategories,
+  loadCategoryTaxonomy,
+  resolveCategoryName,
+  topLevelCategory,
+  UNCATEGORISED,
+  type Category,
+  type CategoryChange,
+  type CategoryIcon,
+  type CategoryTaxonomy,
+} from '../../lib/categories';
+import { useAuth } from './AuthProvider';
+
+interface CategoryContextValue {
+  categories: Category[];
+  changes: CategoryChange[];
+  usage: Record<string, number>;
+  // False while signed out or loading; the default taxonomy stands in meanwhile.
+  loaded: boolean;
+  // After an edit, with the taxonomy the server sent back.
+  replaceTaxonomy: (taxonomy: CategoryTaxonomy) => void;
+  reload: () => void;
+  // The name a stored category goes by today, or "Uncategorised".
+  resolve: (name: string | null | undefined) => string;
+  colorOf: (name: string | null | undefined) => string;
+  iconOf: (name: string | null | undefined) => CategoryIcon;
+  // The top-level category a name rolls up to in charts.
+  topLevelOf: (name: string | null | undefined) => string;
+  // The names a filter on `name` matches: it and its sub-categories.
+  familyOf: (name: string) => string[];
+}
+
+function bindHelpers(categories: Category[], changes: CategoryChange[]) {
+  const resolve = (name: string | null | undefined) =>
+    name ? resolveCategoryName(categories, changes, name) : UNCATEGORISED;
+  return {
+    resolve,
+    colorOf: (name: string | null | undefined) => categoryColor(categories, resolve(name)),
+    iconOf: (name: string | null | undefined) => categoryIcon(categories, resolve(name)),
+    topLevelOf: (name: string | null | undefined) => topLevelCategory(categories, resolve(name))?.name ?? resolve(name),
+    familyOf: (name: string) => categoryFamily(categories, name),
+  };
+}
+
+const DEFAULTS = defaultCategories();
+
+const CategoryContext = createContext<CategoryContextValue>({
+  categories: DEFAULTS,
+  changes: [],
+  usage: {},
+  loaded: false,
+  replaceTaxonomy: () => undefined,
+  reload: () => undefined,
+  ...bindHelpers(DEFAULTS, []),
+});
+
+export function CategoryProvider({ children }: { children: ReactNode }) {
+  const [taxonomy, setTaxonomy] = useState<CategoryTaxonomy | null>(null);
+  const [reloads, setReloads] = useState(0);
+  const { user, needsMfa } = useAuth();
+  // A session still owing an MFA code cannot read the user's categories yet.
+  const userId = needsMfa ? null : user?.id ?? null;
+
+  // Reload on sign-in and sign-out so one account never sees another's categories.
+  useEffect(() => {
+    let isMounted = true;
+    setTaxonomy(null);
+    if (!userId) return undefined;
+    loadCategoryTaxonomy()
+      .then((next) => {
+        if (isMounted) setTaxonomy(next);
+      })
+      .catch((err) => console.error('Failed to load categories', err));
+    return () => {
+      isMounted = false;
+    };
+  }, [userId, reloads]);
+
+  const reload = useCallback(() => setReloads((count) => count + 1), []);
+
+  const value = useMemo<CategoryContextValue>(() => {
+    const categories = taxonomy?.categories.length ? taxonomy.categories : DEFAULTS;
+    const changes = taxonomy?.changes ?? [];
+    return {
+      categories,
+      changes,
+      usage: taxonomy?.usage ?? {},
+      loaded: Boolean(taxonomy),
+      replaceTaxonomy: setTaxonomy,
+      reload,
+      ...bindHelpers(categories, changes),
+    };
+  }, [taxonomy, reload]);
+
+  return <CategoryContext.Provider value={value}>{children}</CategoryContext.Provider>;
+}
+
+export function useCategories(): CategoryContextValue {
+  return useContext(CategoryContext);
+}
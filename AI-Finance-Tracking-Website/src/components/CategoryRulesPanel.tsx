@@ -0,0 +1,496 @@
+import { useEffect, useState, type FormEvent } from 'react';
+import {
+  AlertTriangle,
+  ArrowDown,
+  ArrowUp,
+  Brain,
+  Loader2,
+  Pencil,
+  Plus,
+  RefreshCw,
+  Tags,
+  Trash2,
+} from 'lucide-react';
+import {
+  applyCategoryRules,
+  deleteCategoryRule,
+  loadCategorisation,
+  reorderCategoryRules,
+  retrainCategoryModel,
+  saveCategoryRule,
+  type ApplyRulesResult,
+  type CategoryModelSummary,
+  type CategoryRule,
+  type CategoryRuleInput,
+  type RuleMatchType,
+} from '../../lib/categorisation';
+import { findCategory, orderedCategories } from '../../lib/categories';
+import { CategoryIcon } from './CategoryIcon';
+import { useCategories } from './CategoryProvider';
+
+export interface RuleAccountOption {
+  id: string;
+  label: string;
+}
+
+interface CategoryRulesPanelProps {
+  accounts: RuleAccountOption[];
+}
+
+interface RuleDraft {
+  id: string | null;
+  name: string;
+  category: string;
+  merchantPattern: string;
+  matchType: RuleMatchType;
+  minAmount: string;
+  maxAmount: string;
+  accountId: string;
+  enabled: boolean;
+}
+
+const EMPTY_DRAFT: RuleDraft = {
+  id: null,
+  name: '',
+  category: '',
+  merchantPattern: '',
+  matchType: 'contains',
+  minAmount: '',
+  maxAmount: '',
+  accountId: '',
+  enabled: true,
+};
+
+const inputClass =
+  'h-8 w-full rounded-lg border border-slate-700/80 bg-slate-950/80 px-2 text-[11px] text-slate-100 placeholder:text-slate-500 focus:border-emerald-400/80 focus:outline-none focus:ring-2 focus:ring-emerald-500/40';
+
+function toDraft(rule: CategoryRule): RuleDraft {
+  return {
+    id: rule.id,
+    name: rule.name,
+    category: rule.category,
+    merchantPattern: rule.merchantPattern ?? '',
+    matchType: rule.matchType,
+    minAmount: rule.minAmount == null ? '' : String(rule.minAmount),
+    maxAmount: rule.maxAmount == null ? '' : String(rule.maxAmount),
+    accountId: rule.accountId ?? '',
+    enabled: rule.enabled,
+  };
+}
+
+function toInput(draft: RuleDraft): CategoryRuleInput {
+  return {
+    name: draft.name.trim(),
+    category: draft.category.trim(),
+    merchantPattern: draft.merchantPattern.trim() || null,
+    matchType: draft.matchType,
+    minAmount: draft.minAmount.trim() ? Number(draft.minAmount) : null,
+    maxAmount: draft.maxAmount.trim() ? Number(draft.maxAmount) : null,
+    accountId: draft.accountId || null,
+    enabled: draft.enabled,
+  };
+}
+
+function describeApplied(applied: ApplyRulesResult): string {
+  const plural = (count: number, word: string, suffix = 's') => `${count} ${word}${count === 1 ? '' : suffix}`;
+  const checked = `Checked ${plural(applied.examined, 'transaction')}, recategorised ${applied.updated}.`;
+  return applied.flagged ? `${checked} ${plural(applied.flagged, 'unsure guess', 'es')} marked for review.` : checked;
+}
+
+// Rules are tried top to bottom; the first one that matches a transaction sets its category.
+// Categories picked by hand on the dashboard are never overwritten.
+export function CategoryRulesPanel({ accounts }: CategoryRulesPanelProps) {
+  const { categories, changes, reload: reloadCategories } = useCategories();
+  const [rules, setRules] = useState<CategoryRule[]>([]);
+  const [model, setModel] = useState<CategoryModelSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [draft, setDraft] = useState<RuleDraft | null>(null);
+  const [applyToExisting, setApplyToExisting] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+    loadCategorisation()
+      .then((loaded) => {
+        if (!isMounted) return;
+        setRules(loaded.rules);
+        setModel(loaded.model);
+      })
+      .catch((err) => {
+        if (isMounted) setError(err?.message ?? 'Could not load your rules.');
+      })
+      .finally(() => {
+        if (isMounted) setIsLoading(false);
+      });
+    return () => {
+      isMounted = false;
+    };
+    // Renaming or merging a category relabels rules, so they are reloaded after each change.
+  }, [changes.length]);
+
+  const accountLabel = (accountId: string | null) =>
+    accountId ? accounts.find((account) => account.id === accountId)?.label ?? 'One account' : null;
+
+  const describeConditions = (rule: CategoryRule) => {
+    const parts: string[] = [];
+    if (rule.merchantPattern) {
+      parts.push(rule.matchType === 'regex' ? `matches /${rule.merchantPattern}/` : `contains “${rule.merchantPattern}”`);
+    }
+    if (rule.minAmount != null && rule.maxAmount != null) parts.push(`${rule.minAmount}–${rule.maxAmount}`);
+    else if (rule.minAmount != null) parts.push(`at least ${rule.minAmount}`);
+    else if (rule.maxAmount != null) parts.push(`up to ${rule.maxAmount}`);
+    const account = accountLabel(rule.accountId);
+    if (account) parts.push(`in ${account}`);
+    return parts.join(' · ');
+  };
+
+  const run = async (key: string, action: () => Promise<void>) => {
+    setBusy(key);
+    setError(null);
+    setStatus(null);
+    try {
+      await action();
+    } catch (err: any) {
+      setError(err?.message ?? 'Could not update your rules.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleSave = (event: FormEvent) => {
+    event.preventDefault();
+    if (!draft) return;
+    run('save', async () => {
+      const result = await saveCategoryRule(toInput(draft), { id: draft.id, apply: applyToExisting });
+      setRules(result.rules);
+      setDraft(null);
+      if (result.applied) setStatus(describeApplied(result.applied));
+      // A new name joins the taxonomy as a top-level category.
+      if (!findCategory(categories, result.rule.category)) reloadCategories();
+    });
+  };
+
+  const handleDelete = (rule: CategoryRule) =>
+    run(`delete:${rule.id}`, async () => {
+      const result = await deleteCategoryRule(rule.id);
+      setRules(result.rules);
+      if (draft?.id === rule.id) setDraft(null);
+      if (result.applied) setStatus(describeApplied(result.applied));
+    });
+
+  const handleToggle = (rule: CategoryRule) =>
+    run(`toggle:${rule.id}`, async () => {
+      const result = await saveCategoryRule(toInput({ ...toDraft(rule), enabled: !rule.enabled }), {
+        id: rule.id,
+        apply: true,
+      });
+      setRules(result.rules);
+      if (result.applied) setStatus(describeApplied(result.applied));
+    });
+
+  const handleMove = (index: number, offset: -1 | 1) => {
+    const order = rules.map((rule) => rule.id);
+    const target = index + offset;
+    if (target < 0 || target >= order.length) return;
+    [order[index], order[target]] = [order[target], order[index]];
+    run(`move:${order[target]}`, async () => {
+      const result = await reorderCategoryRules(order);
+      setRules(result.rules);
+      if (result.applied) setStatus(describeApplied(result.applied));
+    });
+  };
+
+  const handleRetrain = () =>
+    run('train', async () => {
+      const trained = await retrainCategoryModel();
+      setModel(trained);
+      setStatus(
+        trained
+          ? 'Retrained. Re-apply rules to update existing transactions with what it learned.'
+          : 'Categorise a few more transactions by hand before Aurora can learn from them.',
+      );
+    });
+
+  const handleApplyAll = () =>
+    run('apply', async () => {
+      setStatus(describeApplied(await applyCategoryRules()));
+    });
+
+  return (
+    <section
+      className="card-3d card-3d-hover mt-5 rounded-2xl px-4 py-4 text-sm text-slate-300 sm:px-5 sm:py-5"
+      aria-label="Categorisation rules"
+    >
+      <header className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h2 className="flex items-center gap-2 text-sm font-semibold text-slate-50">
+            <Tags className="h-4 w-4 text-emerald-400" />
+            Categorisation rules
+          </h2>
+          <p className="text-xs text-slate-400">
+            Tried top to bottom on every synced or imported transaction. Categories you pick by hand always win.
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={handleApplyAll}
+            disabled={busy !== null}
+            className="inline-flex items-center gap-1.5 rounded-full border border-slate-700/80 px-3 py-1.5 text-[11px] font-semibold uppercase tracking-[0.2em] text-slate-200 hover:border-emerald-400/80 hover:text-emerald-300 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-emerald-500/70 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {busy === 'apply' ? <Loader2 className="h-3 w-3 animate-spin" /> : <RefreshCw className="h-3 w-3" />}
+            Re-apply rules
+          </button>
+          <button
+            type="button"
+            onClick={() => setDraft({ ...EMPTY_DRAFT })}
+            disabled={draft !== null}
+            className="inline-flex items-center gap-1.5 rounded-full border border-emerald-500/60 bg-emerald-500/10 px-3 py-1.5 text-[11px] font-semibold uppercase tracking-[0.2em] text-emerald-300 hover:bg-emerald-500/20 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-emerald-500/70 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            <Plus className="h-3 w-3" />
+            Add rule
+          </button>
+        </div>
+      </header>
+
+      {error && (
+        <p className="mt-3 flex items-center gap-1 text-[11px] text-rose-300" role="alert">
+          <AlertTriangle className="h-3 w-3" />
+          {error}
+        </p>
+      )}
+      {status && (
+        <p className="mt-3 text-[11px] text-emerald-300" role="status">
+          {status}
+        </p>
+      )}
+
+      {draft && (
+        <form onSubmit={handleSave} className="mt-4 rounded-xl border border-slate-800/80 bg-slate-950/60 p-3">
+          <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+            <label className="block text-[11px] text-slate-400">
+              Merchant or description
+              <input
+                value={draft.merchantPattern}
+                onChange={(e) => setDraft({ ...draft, merchantPattern: e.target.value })}
+                placeholder={draft.matchType === 'regex' ? '^uber(?! eats)' : 'starbucks'}
+                maxLength={200}
+                className={`mt-1 ${inputClass}`}
+              />
+            </label>
+            <label className="block text-[11px] text-slate-400">
+              Match
+              <select
+                value={draft.matchType}
+                onChange={(e) => setDraft({ ...draft, matchType: e.target.value as RuleMatchType })}
+                className={`mt-1 ${inputClass}`}
+              >
+                <option value="contains">Contains the text</option>
+                <option value="regex">Regular expression</option>
+              </select>
+            </label>
+            <label className="block text-[11px] text-slate-400">
+              Amount from
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={draft.minAmount}
+                onChange={(e) => setDraft({ ...draft, minAmount: e.target.value })}
+                placeholder="Any"
+                className={`mt-1 ${inputClass}`}
+              />
+            </label>
+            <label className="block text-[11px] text-slate-400">
+              Amount to
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={draft.maxAmount}
+                onChange={(e) => setDraft({ ...draft, maxAmount: e.target.value })}
+                placeholder="Any"
+                className={`mt-1 ${inputClass}`}
+              />
+            </label>
+            <label className="block text-[11px] text-slate-400">
+              Account
+              <select
+                value={draft.accountId}
+                onChange={(e) => setDraft({ ...draft, accountId: e.target.value })}
+                className={`mt-1 ${inputClass}`}
+              >
+                <option value="">All accounts</option>
+                {accounts.map((account) => (
+                  <option key={account.id} value={account.id}>
+                    {account.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="block text-[11px] text-slate-400">
+              Category
+              <input
+                value={draft.category}
+                onChange={(e) => setDraft({ ...draft, category: e.target.value })}
+                list="category-rule-options"
+                required
+                maxLength={60}
+                className={`mt-1 ${inputClass}`}
+              />
+              <datalist id="category-rule-options">
+                {orderedCategories(categories).map(({ category }) => (
+                  <option key={category.id} value={category.name} />
+                ))}
+              </datalist>
+            </label>
+            <label className="block text-[11px] text-slate-400 sm:col-span-2">
+              Name
+              <input
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="Defaults to the pattern"
+                maxLength={80}
+                className={`mt-1 ${inputClass}`}
+              />
+            </label>
+          </div>
+          <p className="mt-2 text-[11px] text-slate-500">
+            Amounts are compared by size, so 20 to 50 matches both spending and income in that range.
+          </p>
+          <div className="mt-3 flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+            <label className="flex items-center gap-2 text-[11px] text-slate-300">
+              <input
+                type="checkbox"
+                checked={applyToExisting}
+                onChange={(e) => setApplyToExisting(e.target.checked)}
+                className="h-3 w-3 accent-emerald-500"
+              />
+              Also recategorise existing transactions
+            </label>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => setDraft(null)}
+                className="rounded-full border border-slate-700/80 px-3 py-1.5 text-[11px] text-slate-300 hover:border-slate-500 hover:text-slate-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-500/60"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={busy !== null}
+                className="inline-flex items-center gap-1.5 rounded-full bg-emerald-500/90 px-3 py-1.5 text-[11px] font-semibold uppercase tracking-[0.18em] text-slate-950 hover:bg-emerald-400 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-emerald-500/80 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                {busy === 'save' && <Loader2 className="h-3 w-3 animate-spin" />}
+                {draft.id ? 'Save rule' : 'Create rule'}
+              </button>
+            </div>
+          </div>
+        </form>
+      )}
+
+      <ol className="mt-4 space-y-1" aria-label="Rules in the order they are tried">
+        {isLoading && (
+          <li className="flex items-center gap-1 text-[11px] text-slate-500">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            Loading rules…
+          </li>
+        )}
+        {!isLoading && rules.length === 0 && (
+          <li className="text-[11px] text-slate-500">
+            No rules yet. Aurora uses your bank&apos;s categories and its merchant dictionary until you add some.
+          </li>
+        )}
+        {rules.map((rule, index) => (
+          <li
+            key={rule.id}
+            className={`flex flex-col gap-2 rounded-xl border border-slate-800/80 px-3 py-2 sm:flex-row sm:items-center sm:justify-between ${
+              rule.enabled ? '' : 'opacity-60'
+            }`}
+          >
+            <div className="min-w-0">
+              <p className="truncate text-[12px] font-medium text-slate-100">
+                <span className="mr-2 text-slate-500">{index + 1}.</span>
+                {rule.name}
+                <span className="mx-1.5 text-slate-500">→</span>
+                <CategoryIcon category={rule.category} className="mr-1 inline h-3 w-3" />
+                <span className="text-emerald-300">{rule.category}</span>
+              </p>
+              <p className="truncate text-[11px] text-slate-400">{describeConditions(rule) || 'Every transaction'}</p>
+            </div>
+            <div className="flex shrink-0 items-center gap-1">
+              <button
+                type="button"
+                onClick={() => handleToggle(rule)}
+                disabled={busy !== null}
+                className="rounded-full border border-slate-700/80 px-2 py-1 text-[10px] uppercase tracking-[0.18em] text-slate-300 hover:border-slate-500 disabled:opacity-60"
+              >
+                {rule.enabled ? 'On' : 'Off'}
+              </button>
+              <button
+                type="button"
+                onClick={() => handleMove(index, -1)}
+                disabled={busy !== null || index === 0}
+                aria-label={`Try ${rule.name} earlier`}
+                className="rounded-full p-1 text-slate-400 hover:text-slate-100 disabled:opacity-40"
+              >
+                <ArrowUp className="h-3.5 w-3.5" />
+              </button>
+              <button
+                type="button"
+                onClick={() => handleMove(index, 1)}
+                disabled={busy !== null || index === rules.length - 1}
+                aria-label={`Try ${rule.name} later`}
+                className="rounded-full p-1 text-slate-400 hover:text-slate-100 disabled:opacity-40"
+              >
+                <ArrowDown className="h-3.5 w-3.5" />
+              </button>
+              <button
+                type="button"
+                onClick={() => setDraft(toDraft(rule))}
+                disabled={busy !== null}
+                aria-label={`Edit ${rule.name}`}
+                className="rounded-full p-1 text-slate-400 hover:text-slate-100 disabled:opacity-40"
+              >
+                <Pencil className="h-3.5 w-3.5" />
+              </button>
+              <button
+                type="button"
+                onClick={() => handleDelete(rule)}
+                disabled={busy !== null}
+                aria-label={`Delete ${rule.name}`}
+                className="rounded-full p-1 text-slate-400 hover:text-rose-300 disabled:opacity-40"
+              >
+                {busy === `delete:${rule.id}` ? (
+                  <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                ) : (
+                  <Trash2 className="h-3.5 w-3.5" />
+                )}
+              </button>
+            </div>
+          </li>
+        ))}
+      </ol>
+
+      <div className="mt-4 flex flex-col gap-2 rounded-xl border border-slate-800/80 px-3 py-2 sm:flex-row sm:items-center sm:justify-between">
+        <p className="flex items-center gap-2 text-[11px] text-slate-400">
+          <Brain className="h-3.5 w-3.5 text-emerald-400" />
+          {model
+            ? `Learning from ${model.examples} of your corrections across ${model.categories} categories. Unsure guesses are marked for review.`
+            : 'When no rule matches, Aurora learns from the categories you pick by hand once it has a few to go on.'}
+        </p>
+        <button
+          type="button"
+          onClick={handleRetrain}
+          disabled={busy !== null}
+          className="inline-flex shrink-0 items-center gap-1.5 rounded-full border border-slate-700/80 px-3 py-1 text-[10px] font-semibold uppercase tracking-[0.18em] text-slate-300 hover:border-emerald-400/80 hover:text-emerald-300 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {busy === 'train' ? <Loader2 className="h-3 w-3 animate-spin" /> : <RefreshCw className="h-3 w-3" />}
+          Retrain
+        </button>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,158 @@
+import { useState } from 'react';
+import { Check, MessageSquarePlus, Pencil, Pin, PinOff, Trash2, X } from 'lucide-react';
+import type { ChatThread } from '../../lib/chatThreads';
+
+interface ChatThreadListProps {
+  threads: ChatThread[];
+  activeThreadId: string | null;
+  isSignedIn: boolean;
+  disabled?: boolean;
+  onSelect: (threadId: string) => void;
+  onNewThread: () => void;
+  onRename: (threadId: string, title: string) => void;
+  onTogglePin: (thread: ChatThread) => void;
+  onDelete: (threadId: string) => void;
+}
+
+export function ChatThreadList({
+  threads,
+  activeThreadId,
+  isSignedIn,
+  disabled,
+  onSelect,
+  onNewThread,
+  onRename,
+  onTogglePin,
+  onDelete,
+}: ChatThreadListProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  function startEditing(thread: ChatThread) {
+    setEditingId(thread.id);
+    setDraftTitle(thread.title);
+  }
+
+  function commitEditing() {
+    const title = draftTitle.trim();
+    if (editingId && title) {
+      onRename(editingId, title);
+    }
+    setEditingId(null);
+  }
+
+  return (
+    <aside className="card-3d flex flex-col rounded-2xl px-3 py-3 text-xs md:max-h-[70vh]">
+      <div className="flex items-center justify-between gap-2 px-1">
+        <p className="text-[10px] font-semibold uppercase tracking-[0.2em] text-slate-400">Threads</p>
+        <button
+          type="button"
+          onClick={onNewThread}
+          disabled={disabled}
+          className="inline-flex items-center gap-1 rounded-full border border-emerald-400/70 bg-emerald-400/10 px-2 py-1 text-[10px] font-semibold uppercase tracking-[0.16em] text-emerald-200 hover:bg-emerald-400/20 disabled:opacity-60"
+        >
+          <MessageSquarePlus className="h-3.5 w-3.5" />
+          New
+        </button>
+      </div>
+
+      {!isSignedIn && (
+        <p className="mt-3 px-1 text-[11px] text-slate-400">
+          Sign in to keep your conversations with Aurora across reloads and devices.
+        </p>
+      )}
+
+      {isSignedIn && threads.length === 0 && (
+        <p className="mt-3 px-1 text-[11px] text-slate-500">No saved conversations yet.</p>
+      )}
+
+      <ul className="mt-3 flex-1 space-y-1 overflow-y-auto scroll-soft">
+        {threads.map((thread) => {
+          const isActive = thread.id === activeThreadId;
+          const isEditing = thread.id === editingId;
+
+          return (
+            <li
+              key={thread.id}
+              className={`group flex items-center gap-1 rounded-xl border px-2 py-1.5 transition-colors ${
+                isActive
+                  ? 'border-emerald-400/70 bg-emerald-400/10 text-slate-50'
+                  : 'border-transparent text-slate-300 hover:border-slate-700/80 hover:bg-slate-900/70'
+              }`}
+            >
+              {isEditing ? (
+                <form
+                  className="flex flex-1 items-center gap-1"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    commitEditing();
+                  }}
+                >
+                  <input
+                    autoFocus
+                    value={draftTitle}
+                    onChange={(e) => setDraftTitle(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="min-w-0 flex-1 rounded-md border border-slate-700/80 bg-slate-950/80 px-1.5 py-0.5 text-[11px] text-slate-100 focus:border-emerald-400/80 focus:outline-none"
+                    aria-label="Thread title"
+                  />
+                  <button type="submit" className="text-emerald-300 hover:text-emerald-200" aria-label="Save title">
+                    <Check className="h-3.5 w-3.5" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setEditingId(null)}
+                    className="text-slate-500 hover:text-slate-300"
+                    aria-label="Cancel rename"
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </button>
+                </form>
+              ) : (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => onSelect(thread.id)}
+                    disabled={disabled}
+                    className="flex min-w-0 flex-1 items-center gap-1.5 text-left"
+                  >
+                    {thread.pinned && <Pin className="h-3 w-3 shrink-0 text-emerald-300" />}
+                    <span className="truncate text-[11px]">{thread.title}</span>
+                  </button>
+                  <div className="flex shrink-0 items-center gap-1 opacity-0 transition-opacity group-hover:opacity-100">
+                    <button
+                      type="button"
+                      onClick={() => onTogglePin(thread)}
+                      className="text-slate-400 hover:text-emerald-300"
+                      aria-label={thread.pinned ? 'Unpin thread' : 'Pin thread'}
+                    >
+                      {thread.pinned ? <PinOff className="h-3.5 w-3.5" /> : <Pin className="h-3.5 w-3.5" />}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => startEditing(thread)}
+                      className="text-slate-400 hover:text-sky-300"
+                      aria-label="Rename thread"
+                    >
+                      <Pencil className="h-3.5 w-3.5" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onDelete(thread.id)}
+                      className="text-slate-400 hover:text-rose-300"
+                      aria-label="Delete thread"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </button>
+                  </div>
+                </>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </aside>
+  );
+}
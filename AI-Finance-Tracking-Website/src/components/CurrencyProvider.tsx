@@ -0,0 +1,96 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, type ReactNode } from 'react';
+import { DEFAULT_BASE_CURRENCY, formatMoney, type CurrencyCode } from '../../lib/currency';
+import { fetchFxSnapshot, loadBaseCurrency, saveBaseCurrency, type FxSnapshot } from '../../lib/preferences';
+import { useAuth } from './AuthProvider';
+
+interface CurrencyContextValue {
+  baseCurrency: CurrencyCode;
+  locale: string | undefined;
+  setBaseCurrency: (currency: CurrencyCode) => void;
+  // Formats in the base currency unless another currency is given.
+  format: (
+    amount: number,
+    options?: { currency?: string; maximumFractionDigits?: number; compact?: boolean },
+  ) => string;
+}
+
+const CurrencyContext = createContext<CurrencyContextValue>({
+  baseCurrency: DEFAULT_BASE_CURRENCY,
+  locale: undefined,
+  setBaseCurrency: () => undefined,
+  format: (amount, options) => formatMoney(amount, options?.currency ?? DEFAULT_BASE_CURRENCY, options),
+});
+
+export function CurrencyProvider({ children }: { children: ReactNode }) {
+  const [baseCurrency, setBaseCurrencyState] = useState<CurrencyCode>(DEFAULT_BASE_CURRENCY);
+  const locale = typeof navigator === 'undefined' ? undefined : navigator.language;
+  const { user, needsMfa } = useAuth();
+  // A session still owing an MFA code cannot read the user's preferences yet.
+  const userId = needsMfa ? null : user?.id ?? null;
+
+  // Reload on sign-in and sign-out so one account never sees another's base currency.
+  useEffect(() => {
+    let isMounted = true;
+    loadBaseCurrency()
+      .then((currency) => {
+        if (isMounted) setBaseCurrencyState(currency);
+      })
+      .catch(() => undefined);
+    return () => {
+      isMounted = false;
+    };
+  }, [userId]);
+
+  const setBaseCurrency = useCallback((currency: CurrencyCode) => {
+    setBaseCurrencyState(currency);
+    saveBaseCurrency(currency).catch((err) => console.error('Failed to save base currency', err));
+  }, []);
+
+  const value = useMemo<CurrencyContextValue>(
+    () => ({
+      baseCurrency,
+      locale,
+      setBaseCurrency,
+      format: (amount, options = {}) =>
+        formatMoney(amount, options.currency ?? baseCurrency, { ...options, locale }),
+    }),
+    [baseCurrency, locale, setBaseCurrency],
+  );
+
+  return <CurrencyContext.Provider value={value}>{children}</CurrencyContext.Provider>;
+}
+
+export function useCurrency(): CurrencyContextValue {
+  return useContext(CurrencyContext);
+}
+
+// Rates from the base currency into each of `currencies`; refetched when either changes.
+export function useFxRates(currencies: string[]): { snapshot: FxSnapshot | null; loading: boolean } {
+  const { baseCurrency } = useCurrency();
+  // Rates need a signed-in caller who has completed MFA, so either changing refetches them.
+  const { user, needsMfa } = useAuth();
+  const userId = needsMfa ? null : user?.id ?? null;
+  const key = Array.from(new Set(currencies.map((c) => c.toUpperCase()))).sort().join(',');
+  const [snapshot, setSnapshot] = useState<FxSnapshot | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    let isMounted = true;
+    setLoading(true);
+    fetchFxSnapshot(baseCurrency, key ? key.split(',') : [])
+      .then((next) => {
+        if (isMounted) setSnapshot(next);
+      })
+      .catch(() => {
+        if (isMounted) setSnapshot({ base: baseCurrency, rates: {}, asOf: null, stale: false });
+      })
+      .finally(() => {
+        if (isMounted) setLoading(false);
+      });
+    return () => {
+      isMounted = false;
+    };
+  }, [baseCurrency, key, userId]);
+
+  return { snapshot: snapshot?.base === baseCurrency ? snapshot : null, loading };
+}
@@ -1,5 +1,5 @@
 import type React from 'react';
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import {
   ArrowDownRight,
@@ -18,11 +18,18 @@ import {
   Bar,
   BarChart,
   CartesianGrid,
+  Cell,
   ResponsiveContainer,
   Tooltip,
   XAxis,
   YAxis,
 } from 'recharts';
+import { rollUpCategories } from '../../lib/categories';
+import { identifyMerchant, merchantDefaults } from '../../lib/merchants';
+import { CategoryIcon } from './CategoryIcon';
+import { useCategories } from './CategoryProvider';
+import { useCurrency } from './CurrencyProvider';
+import { MerchantLogo } from './MerchantLogo';
 import { HeroSection } from './HeroSection';
 
 const balanceTrend = [
@@ -34,13 +41,16 @@ const balanceTrend = [
   { month: 'Jun', current: 5380, projected: 6280 },
 ];
 
-const categorySpending = [
-  { name: 'Housing', value: 1200 },
-  { name: 'Food', value: 640 },
-  { name: 'Transport', value: 310 },
-  { name: 'Subscriptions', value: 220 },
-  { name: 'Leisure', value: 280 },
-  { name: 'Other', value: 190 },
+// Sample month of spending under the names a bank reports; the chart rolls it up to the
+// user's own top-level categories.
+const sampleSpending = [
+  { category: 'Rent', amount: 1200 },
+  { category: 'Groceries', amount: 420 },
+  { category: 'Dining', amount: 220 },
+  { category: 'Transport', amount: 310 },
+  { category: 'Subscriptions', amount: 220 },
+  { category: 'Entertainment', amount: 280 },
+  { category: 'Other', amount: 190 },
 ];
 
 const transactions = [
@@ -243,20 +253,22 @@ function CopilotPanel() {
 }
 
 function TopStats() {
+  const { format } = useCurrency();
+
   return (
     <div className="grid gap-4 md:grid-cols-3">
       <StatCard
         icon={CreditCard}
         label="Net position"
-        primary="$18,420.37"
-        delta="+$1,280.14"
+        primary={format(18420.37)}
+        delta={`+${format(1280.14)}`}
         deltaTone="positive"
         subtitle="vs last 30 days"
       />
       <StatCard
         icon={LineChart}
         label="Projected 90-day balance"
-        primary="$24,980.00"
+        primary={format(24980)}
         delta="+18.4%"
         deltaTone="positive"
         subtitle="AI forecast • medium confidence"
@@ -264,8 +276,8 @@ function TopStats() {
       <StatCard
         icon={PiggyBank}
         label="Automated savings"
-        primary="$640.00 / mo"
-        delta="+$120.00"
+        primary={`${format(640)} / mo`}
+        delta={`+${format(120)}`}
         deltaTone="neutral"
         subtitle="3 new rules suggested"
       />
@@ -618,6 +630,18 @@ function AIIntelligenceCore() {
 
 function MainGrid() {
   const navigate = useNavigate();
+  const { format } = useCurrency();
+  const { categories, resolve } = useCategories();
+  const formatAxis = (value: number) => format(value, { compact: true, maximumFractionDigits: 1 });
+  const formatTooltip = (value: unknown) => (typeof value === 'number' ? format(value) : String(value));
+  const categorySpending = useMemo(
+    () =>
+      rollUpCategories(
+        categories,
+        sampleSpending.map((entry) => ({ category: resolve(entry.category), amount: entry.amount })),
+      ),
+    [categories, resolve],
+  );
 
   return (
     <div className="grid gap-5 lg:grid-cols-3 lg:items-start">
@@ -677,8 +701,10 @@ function MainGrid() {
                   tickMargin={10}
                   tick={{ fill: 'rgba(148,163,184,0.9)', fontSize: 11 }}
                   axisLine={{ stroke: 'rgba(51,65,85,0.7)' }}
+                  tickFormatter={formatAxis}
                 />
                 <Tooltip
+                  formatter={formatTooltip}
                   contentStyle={{
                     backgroundColor: '#020617',
                     borderRadius: 12,
@@ -810,8 +836,10 @@ function MainGrid() {
                   tickMargin={8}
                   tick={{ fill: 'rgba(148,163,184,0.9)', fontSize: 11 }}
                   axisLine={{ stroke: 'rgba(51,65,85,0.7)' }}
+                  tickFormatter={formatAxis}
                 />
                 <Tooltip
+                  formatter={formatTooltip}
                   contentStyle={{
                     backgroundColor: '#020617',
                     borderRadius: 12,
@@ -823,17 +851,11 @@ function MainGrid() {
                   labelStyle={{ fontSize: 11, color: '#a5b4fc', marginBottom: 4 }}
                   cursor={{ fill: 'rgba(148,163,184,0.08)' }}
                 />
-                <Bar
-                  dataKey="value"
-                  radius={[6, 6, 0, 0]}
-                  fill="url(#categoryDrift)"
-                />
-                <defs>
-                  <linearGradient id="categoryDrift" x1="0" y1="0" x2="0" y2="1">
-                    <stop offset="0%" stopColor="#6366f1" stopOpacity={0.95} />
-                    <stop offset="100%" stopColor="#22c55e" stopOpacity={0.4} />
-                  </linearGradient>
-                </defs>
+                <Bar dataKey="value" radius={[6, 6, 0, 0]}>
+                  {categorySpending.map((entry) => (
+                    <Cell key={entry.name} fill={entry.color} fillOpacity={0.85} />
+                  ))}
+                </Bar>
               </BarChart>
             </ResponsiveContainer>
           </div>
@@ -854,29 +876,42 @@ function MainGrid() {
             </div>
           </header>
           <ul className="mt-3 space-y-2 text-xs">
-            {transactions.slice(0, 4).map((tx) => (
-              <li
-                key={tx.id}
-                className="flex items-center justify-between gap-3 rounded-xl border border-slate-800/80 bg-slate-950/50 px-3 py-2 hover:border-emerald-400/60 hover:bg-slate-900/80"
-              >
-                <div>
-                  <p className="text-sm font-medium text-slate-100">{tx.name}</p>
-                  <p className="mt-0.5 text-[11px] text-slate-400">
-                    {tx.category} · {tx.time}
-                  </p>
-                </div>
-                <div className="text-right">
-                  <p
-                    className={`text-sm font-semibold ${
-                      tx.amount < 0 ? 'text-rose-300' : 'text-emerald-300'
-                    }`}
-                  >
-                    {tx.amount < 0 ? '-' : '+'}${Math.abs(tx.amount).toFixed(2)}
-                  </p>
-                  <p className="mt-0.5 text-[11px] text-slate-400">{tx.flag}</p>
-                </div>
-              </li>
-            ))}
+            {transactions.slice(0, 4).map((tx) => {
+              const merchant = identifyMerchant(tx.name);
+              return (
+                <li
+                  key={tx.id}
+                  className="flex items-center justify-between gap-3 rounded-xl border border-slate-800/80 bg-slate-950/50 px-3 py-2 hover:border-emerald-400/60 hover:bg-slate-900/80"
+                >
+                  <div className="flex items-center gap-2.5">
+                    <MerchantLogo
+                      name={merchant?.name ?? tx.name}
+                      {...(merchant ? merchantDefaults(merchant) : {})}
+                    />
+                    <div>
+                      <p className="text-sm font-medium text-slate-100" title={tx.name}>
+                        {merchant?.name ?? tx.name}
+                      </p>
+                      <p className="mt-0.5 flex items-center gap-1 text-[11px] text-slate-400">
+                        <CategoryIcon category={tx.category} className="h-3 w-3" />
+                        {resolve(tx.category)} · {tx.time}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <p
+                      className={`text-sm font-semibold ${
+                        tx.amount < 0 ? 'text-rose-300' : 'text-emerald-300'
+                      }`}
+                    >
+                      {tx.amount < 0 ? '-' : '+'}
+                      {format(Math.abs(tx.amount))}
+                    </p>
+                    <p className="mt-0.5 text-[11px] text-slate-400">{tx.flag}</p>
+                  </div>
+                </li>
+              );
+            })}
           </ul>
           <div className="mt-3 flex justify-end">
             <button
@@ -1,11 +1,47 @@
-import type React from 'react';
 import { ShieldCheck, Sparkles } from 'lucide-react';
+import AuthForm, { type AuthMode } from './AuthForm';
+import { MfaChallengeForm } from './MfaChallengeForm';
+
+// `mfa` is the second sign-in step for accounts with an authenticator app.
+export type LoginScreenMode = AuthMode | 'mfa';
 
 interface LoginScreenProps {
-  onLogin: () => void;
+  mode: LoginScreenMode;
+  onSuccess?: () => void;
+  onMfaVerified?: (method: 'totp' | 'recovery') => void;
 }
 
-export function LoginScreen({ onLogin }: LoginScreenProps) {
+const HEADINGS: Record<LoginScreenMode, { title: string; subtitle: string }> = {
+  'sign-in': {
+    title: 'Secure sign-in',
+    subtitle:
+      'Connect to your encrypted financial graph and unlock AI-powered insights, predictive analytics, and personalized automations.',
+  },
+  'sign-up': {
+    title: 'Create your account',
+    subtitle: 'Set up NeonLedger in a minute. We will email you to confirm the address.',
+  },
+  'magic-link': {
+    title: 'Passwordless sign-in',
+    subtitle: 'We will email you a one-time link that signs you straight in.',
+  },
+  'forgot-password': {
+    title: 'Reset your password',
+    subtitle: 'Enter the email on your account and we will send a link to choose a new password.',
+  },
+  'reset-password': {
+    title: 'Choose a new password',
+    subtitle: 'Pick something long and unique; it replaces your old password everywhere.',
+  },
+  mfa: {
+    title: 'Confirm it is you',
+    subtitle: 'Enter the 6-digit code from your authenticator app to finish signing in.',
+  },
+};
+
+export function LoginScreen({ mode, onSuccess, onMfaVerified }: LoginScreenProps) {
+  const heading = HEADINGS[mode];
+
   return (
     <div className="relative flex w-full max-w-md flex-col items-center gap-6">
       <div className="absolute -inset-12 -z-10 opacity-80">
@@ -18,11 +54,8 @@ export function LoginScreen({ onLogin }: LoginScreenProps) {
         <p className="text-xs font-semibold uppercase tracking-[0.3em] text-emerald-200/80">
           NEONLEDGER AI
         </p>
-        <h1 className="mt-2 text-2xl font-semibold text-slate-50">Secure sign-in</h1>
-        <p className="mt-2 text-sm text-slate-400">
-          Connect to your encrypted financial graph and unlock AI-powered insights, predictive
-          analytics, and personalized automations.
-        </p>
+        <h1 className="mt-2 text-2xl font-semibold text-slate-50">{heading.title}</h1>
+        <p className="mt-2 text-sm text-slate-400">{heading.subtitle}</p>
       </div>
 
       <div className="card-3d card-3d-hover w-full rounded-2xl px-5 py-5 text-sm">
@@ -36,44 +69,16 @@ export function LoginScreen({ onLogin }: LoginScreenProps) {
           </span>
         </div>
 
-        <form
-          className="space-y-3"
-          onSubmit={(e: React.FormEvent<HTMLFormElement>) => {
-            e.preventDefault();
-            onLogin();
-          }}
-        >
-          <div className="space-y-1.5">
-            <label className="block text-xs font-medium text-slate-200">Email</label>
-            <input
-              type="email"
-              required
-              placeholder="you@finance.ai"
-              className="h-9 w-full rounded-xl border border-slate-700/80 bg-slate-950/70 px-3 text-xs text-slate-100 placeholder:text-slate-500 focus:border-emerald-400/80 focus:outline-none focus:ring-2 focus:ring-emerald-500/40"
-            />
-          </div>
-          <div className="space-y-1.5">
-            <label className="block text-xs font-medium text-slate-200">Master passphrase</label>
-            <input
-              type="password"
-              required
-              placeholder="••••••••••••"
-              className="h-9 w-full rounded-xl border border-slate-700/80 bg-slate-950/70 px-3 text-xs text-slate-100 placeholder:text-slate-500 focus:border-emerald-400/80 focus:outline-none focus:ring-2 focus:ring-emerald-500/40"
-            />
-          </div>
+        {mode === 'mfa' ? (
+          <MfaChallengeForm onVerified={(method) => onMfaVerified?.(method)} />
+        ) : (
+          <AuthForm mode={mode} onSuccess={onSuccess} />
+        )}
 
-          <button
-            type="submit"
-            className="mt-3 flex w-full items-center justify-center gap-2 rounded-xl bg-gradient-to-r from-emerald-400 via-sky-500 to-indigo-500 px-3 py-2 text-xs font-semibold uppercase tracking-[0.22em] text-slate-950 shadow-[0_0_40px_rgba(59,130,246,0.9)] transition-transform hover:-translate-y-0.5"
-          >
-            <span>Enter command center</span>
-          </button>
-
-          <p className="mt-2 text-[11px] text-slate-400">
-            By continuing you agree to secure, read-only connections to your institutions. Sensitive
-            credentials are never stored in plain text.
-          </p>
-        </form>
+        <p className="mt-3 text-[11px] text-slate-400">
+          By continuing you agree to secure, read-only connections to your institutions. Sensitive
+          credentials are never stored in plain text.
+        </p>
       </div>
     </div>
   );
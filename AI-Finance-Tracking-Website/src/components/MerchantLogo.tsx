@@ -0,0 +1,40 @@
+import { useState } from 'react';
+import { merchantColor, merchantMonogram } from '../../lib/merchants';
+
+// A merchant's logo, or its initials on its colour when there is no logo or it fails to load.
+export function MerchantLogo({
+  name,
+  logoUrl = null,
+  color,
+  className = 'h-6 w-6 text-[9px]',
+}: {
+  name: string;
+  logoUrl?: string | null;
+  color?: string;
+  className?: string;
+}) {
+  const [failed, setFailed] = useState<string | null>(null);
+  const background = color ?? merchantColor(name);
+
+  if (logoUrl && failed !== logoUrl) {
+    return (
+      <img
+        src={logoUrl}
+        alt=""
+        loading="lazy"
+        referrerPolicy="no-referrer"
+        onError={() => setFailed(logoUrl)}
+        className={`${className} shrink-0 rounded-full bg-slate-100 object-contain p-0.5`}
+      />
+    );
+  }
+  return (
+    <span
+      aria-hidden="true"
+      className={`${className} flex shrink-0 items-center justify-center rounded-full font-semibold text-slate-950`}
+      style={{ backgroundColor: background }}
+    >
+      {merchantMonogram(name)}
+    </span>
+  );
+}
@@ -0,0 +1,383 @@
+import { useEffect, useMemo, useState, type FormEvent } from 'react';
+import { AlertTriangle, GitMerge, Loader2, Pencil, Search, Store } from 'lucide-react';
+import { orderedCategories } from '../../lib/categories';
+import {
+  findKnownMerchant,
+  loadMerchants,
+  merchantAliasKey,
+  mergeMerchants,
+  saveMerchant,
+  type Merchant,
+} from '../../lib/merchants';
+import { CategoryIcon } from './CategoryIcon';
+import { useCategories } from './CategoryProvider';
+import { useCurrency } from './CurrencyProvider';
+import { MerchantLogo } from './MerchantLogo';
+
+interface MerchantDraft {
+  id: string;
+  name: string;
+  color: string;
+  logoUrl: string;
+  category: string;
+}
+
+const SHOWN = 12;
+
+const inputClass =
+  'h-8 w-full rounded-lg border border-slate-700/80 bg-slate-950/80 px-2 text-[11px] text-slate-100 placeholder:text-slate-500 focus:border-emerald-400/80 focus:outline-none focus:ring-2 focus:ring-emerald-500/40';
+
+function toDraft(merchant: Merchant): MerchantDraft {
+  return {
+    id: merchant.id,
+    name: merchant.name,
+    color: merchant.color,
+    logoUrl: merchant.logoUrl ?? '',
+    category: merchant.category ?? '',
+  };
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+// Who the user pays, cleaned up from the raw statement text. Spelling variants are grouped
+// under one merchant automatically; merging two merchants teaches the grouping, so later
+// transactions under either name land on the one that is kept.
+export function MerchantManagerPanel() {
+  const { categories, changes } = useCategories();
+  const { format } = useCurrency();
+  const [merchants, setMerchants] = useState<Merchant[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [showAll, setShowAll] = useState(false);
+  const [draft, setDraft] = useState<MerchantDraft | null>(null);
+  const [merging, setMerging] = useState<{ id: string; into: string } | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+    loadMerchants()
+      .then((loaded) => {
+        if (isMounted) setMerchants(loaded);
+      })
+      .catch((err) => {
+        if (isMounted) setError(err?.message ?? 'Could not load your merchants.');
+      })
+      .finally(() => {
+        if (isMounted) setIsLoading(false);
+      });
+    return () => {
+      isMounted = false;
+    };
+    // Renaming or merging a category relabels merchant defaults, so they are reloaded after each change.
+  }, [changes.length]);
+
+  const matching = useMemo(() => {
+    const key = merchantAliasKey(search);
+    if (!key) return merchants;
+    return merchants.filter(
+      (merchant) =>
+        merchantAliasKey(merchant.name).includes(key) || merchant.aliases.some((alias) => alias.includes(key)),
+    );
+  }, [merchants, search]);
+  const visible = showAll || search ? matching : matching.slice(0, SHOWN);
+
+  const run = async (key: string, action: () => Promise<{ merchants: Merchant[]; message: string }>) => {
+    setBusy(key);
+    setError(null);
+    setStatus(null);
+    try {
+      const { merchants: next, message } = await action();
+      setMerchants(next);
+      setStatus(message);
+    } catch (err: any) {
+      setError(err?.message ?? 'Could not update your merchants.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleSave = (event: FormEvent) => {
+    event.preventDefault();
+    if (!draft) return;
+    run('save', async () => {
+      const { merchant, merchants: next } = await saveMerchant(draft.id, {
+        name: draft.name.trim(),
+        color: draft.color,
+        logoUrl: draft.logoUrl.trim() || null,
+        category: draft.category || null,
+      });
+      setDraft(null);
+      return { merchants: next, message: `Saved ${merchant.name}.` };
+    });
+  };
+
+  const handleMerge = (event: FormEvent) => {
+    event.preventDefault();
+    if (!merging?.into) return;
+    const from = merchants.find((merchant) => merchant.id === merging.id);
+    run('merge', async () => {
+      const { merchant, merchants: next } = await mergeMerchants(merging.id, merging.into);
+      setMerging(null);
+      return { merchants: next, message: `Merged ${from?.name ?? 'merchant'} into ${merchant.name}.` };
+    });
+  };
+
+  const editing = draft ? merchants.find((merchant) => merchant.id === draft.id) : undefined;
+  const suggestedCategory = editing ? findKnownMerchant(merchantAliasKey(editing.name))?.category ?? null : null;
+
+  return (
+    <section
+      className="card-3d card-3d-hover mt-5 rounded-2xl px-4 py-4 text-sm text-slate-300 sm:px-5 sm:py-5"
+      aria-label="Merchants"
+    >
+      <header className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h2 className="flex items-center gap-2 text-sm font-semibold text-slate-50">
+            <Store className="h-4 w-4 text-emerald-400" />
+            Merchants
+          </h2>
+          <p className="text-xs text-slate-400">
+            Statement text is cleaned into one merchant per business. Merge duplicates and set a default category.
+          </p>
+        </div>
+        <label className="relative block sm:w-56">
+          <span className="sr-only">Search merchants</span>
+          <Search className="pointer-events-none absolute left-2 top-2 h-3.5 w-3.5 text-slate-500" />
+          <input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search merchants"
+            className={`${inputClass} pl-7`}
+          />
+        </label>
+      </header>
+
+      {error && (
+        <p className="mt-3 flex items-center gap-1 text-[11px] text-rose-300" role="alert">
+          <AlertTriangle className="h-3 w-3" />
+          {error}
+        </p>
+      )}
+      {status && (
+        <p className="mt-3 text-[11px] text-emerald-300" role="status">
+          {status}
+        </p>
+      )}
+
+      {draft && (
+        <form onSubmit={handleSave} className="mt-4 rounded-xl border border-slate-800/80 bg-slate-950/60 p-3">
+          <div className="grid gap-3 sm:grid-cols-2">
+            <label className="block text-[11px] text-slate-400">
+              Name
+              <input
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                maxLength={80}
+                required
+                className={`mt-1 ${inputClass}`}
+              />
+            </label>
+            <label className="block text-[11px] text-slate-400">
+              Default category
+              <select
+                value={draft.category}
+                onChange={(e) => setDraft({ ...draft, category: e.target.value })}
+                className={`mt-1 ${inputClass}`}
+              >
+                <option value="">Let rules and Aurora decide</option>
+                {orderedCategories(categories).map(({ category, depth }) => (
+                  <option key={category.id} value={category.name}>
+                    {depth ? ` ${category.name}` : category.name}
+                  </option>
+                ))}
+                {draft.category && !categories.some((category) => category.name === draft.category) && (
+                  <option value={draft.category}>{draft.category}</option>
+                )}
+              </select>
+              {!draft.category && suggestedCategory && (
+                <button
+                  type="button"
+                  onClick={() => setDraft({ ...draft, category: suggestedCategory })}
+                  className="mt-1 text-[11px] text-emerald-300 hover:text-emerald-200"
+                >
+                  Use {suggestedCategory}
+                </button>
+              )}
+            </label>
+            <label className="block text-[11px] text-slate-400">
+              Logo link
+              <input
+                type="url"
+                value={draft.logoUrl}
+                onChange={(e) => setDraft({ ...draft, logoUrl: e.target.value })}
+                placeholder="https://example.com/logo.png"
+                className={`mt-1 ${inputClass}`}
+              />
+            </label>
+            <label className="block text-[11px] text-slate-400">
+              Colour
+              <span className="mt-1 flex items-center gap-2">
+                <input
+                  type="color"
+                  value={draft.color}
+                  onChange={(e) => setDraft({ ...draft, color: e.target.value })}
+                  aria-label="Merchant colour"
+                  className="h-8 w-10 cursor-pointer rounded border border-slate-700 bg-transparent"
+                />
+                <MerchantLogo
+                  name={draft.name || '?'}
+                  logoUrl={draft.logoUrl.trim() || null}
+                  color={draft.color}
+                  className="h-8 w-8 text-[11px]"
+                />
+              </span>
+            </label>
+          </div>
+          {draft.category !== (editing?.category ?? '') && (
+            <p className="mt-2 text-[11px] text-amber-300">
+              Saving re-categorises this merchant's transactions, except those you categorised by hand.
+            </p>
+          )}
+          <div className="mt-3 flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setDraft(null)}
+              className="rounded-full border border-slate-700/80 px-3 py-1.5 text-[11px] text-slate-300 hover:border-slate-500 hover:text-slate-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-500/60"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={busy !== null || !draft.name.trim()}
+              className="inline-flex items-center gap-1.5 rounded-full bg-emerald-500/90 px-3 py-1.5 text-[11px] font-semibold uppercase tracking-[0.18em] text-slate-950 hover:bg-emerald-400 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-emerald-500/80 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              {busy === 'save' && <Loader2 className="h-3 w-3 animate-spin" />}
+              Save merchant
+            </button>
+          </div>
+        </form>
+      )}
+
+      <ul className="mt-4 space-y-1" aria-label="Your merchants">
+        {isLoading && (
+          <li className="flex items-center gap-1 text-[11px] text-slate-500">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            Grouping your transactions by merchant…
+          </li>
+        )}
+        {!isLoading && !matching.length && (
+          <li className="text-[11px] text-slate-500">
+            {search ? 'No merchant matches that search.' : 'Merchants appear once your transactions sync or import.'}
+          </li>
+        )}
+        {visible.map((merchant) => (
+          <li key={merchant.id}>
+            <div className="flex items-center justify-between gap-2 rounded-xl border border-slate-800/80 px-3 py-1.5">
+              <div className="flex min-w-0 items-center gap-2">
+                <MerchantLogo name={merchant.name} logoUrl={merchant.logoUrl} color={merchant.color} />
+                <div className="min-w-0">
+                  <p className="flex items-center gap-1.5 truncate text-[12px] text-slate-100">
+                    {merchant.name}
+                    {merchant.category && (
+                      <span className="inline-flex items-center gap-1 text-[11px] text-slate-400">
+                        <CategoryIcon category={merchant.category} className="h-3 w-3" />
+                        {merchant.category}
+                      </span>
+                    )}
+                  </p>
+                  <p className="truncate text-[11px] text-slate-500" title={merchant.aliases.join('\n')}>
+                    {plural(merchant.transactions, 'transaction')} · {format(merchant.spent)} out
+                    {merchant.aliases.length > 1 && ` · ${plural(merchant.aliases.length, 'spelling')}`}
+                  </p>
+                </div>
+              </div>
+              <div className="flex shrink-0 items-center gap-1">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setMerging(null);
+                    setDraft(toDraft(merchant));
+                  }}
+                  disabled={busy !== null}
+                  className="rounded-lg p-1 text-slate-400 hover:text-slate-50 disabled:opacity-40"
+                  aria-label={`Edit ${merchant.name}`}
+                >
+                  <Pencil className="h-3 w-3" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setDraft(null);
+                    setMerging({ id: merchant.id, into: '' });
+                  }}
+                  disabled={busy !== null || merchants.length < 2}
+                  className="rounded-lg p-1 text-slate-400 hover:text-sky-300 disabled:opacity-40"
+                  aria-label={`Merge ${merchant.name} into another merchant`}
+                >
+                  <GitMerge className="h-3 w-3" />
+                </button>
+              </div>
+            </div>
+            {merging?.id === merchant.id && (
+              <form
+                onSubmit={handleMerge}
+                className="mt-1 flex flex-col gap-2 rounded-xl border border-sky-500/40 bg-slate-950/60 px-3 py-2 sm:flex-row sm:items-center"
+              >
+                <label className="flex flex-1 items-center gap-2 text-[11px] text-slate-400">
+                  Merge into
+                  <select
+                    value={merging.into}
+                    onChange={(e) => setMerging({ ...merging, into: e.target.value })}
+                    className={inputClass}
+                  >
+                    <option value="">Choose a merchant</option>
+                    {merchants
+                      .filter((target) => target.id !== merchant.id)
+                      .slice()
+                      .sort((a, b) => a.name.localeCompare(b.name))
+                      .map((target) => (
+                        <option key={target.id} value={target.id}>
+                          {target.name}
+                        </option>
+                      ))}
+                  </select>
+                </label>
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => setMerging(null)}
+                    className="rounded-full border border-slate-700/80 px-3 py-1 text-[11px] text-slate-300 hover:border-slate-500"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={busy !== null || !merging.into}
+                    className="inline-flex items-center gap-1.5 rounded-full bg-sky-500/90 px-3 py-1 text-[11px] font-semibold text-slate-950 hover:bg-sky-400 disabled:cursor-not-allowed disabled:opacity-60"
+                  >
+                    {busy === 'merge' && <Loader2 className="h-3 w-3 animate-spin" />}
+                    Merge {plural(merchant.transactions, 'transaction')}
+                  </button>
+                </div>
+              </form>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {!search && matching.length > SHOWN && (
+        <button
+          type="button"
+          onClick={() => setShowAll(!showAll)}
+          className="mt-2 text-[11px] text-slate-400 hover:text-slate-50"
+        >
+          {showAll ? 'Show fewer' : `Show all ${matching.length} merchants`}
+        </button>
+      )}
+    </section>
+  );
+}
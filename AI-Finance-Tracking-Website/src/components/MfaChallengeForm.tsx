@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import { redeemRecoveryCode, refreshAssurance, verifySignInChallenge } from '../../lib/mfa';
+import { useAuth } from './AuthProvider';
+
+interface MfaChallengeFormProps {
+  // Called once the code is accepted. For recovery codes this is before the session refresh,
+  // so the caller can choose where to land.
+  onVerified: (method: 'totp' | 'recovery') => void;
+}
+
+const inputClass =
+  'h-9 w-full rounded-xl border border-slate-700/80 bg-slate-950/70 px-3 text-center font-mono text-sm tracking-[0.3em] text-slate-100 placeholder:text-slate-600 focus:border-emerald-400/80 focus:outline-none focus:ring-2 focus:ring-emerald-500/40';
+
+export function MfaChallengeForm({ onVerified }: MfaChallengeFormProps) {
+  const { signOut } = useAuth();
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null);
+
+    if (!code.trim()) {
+      setError(useRecoveryCode ? 'Enter one of your recovery codes.' : 'Enter the 6-digit code from your app.');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      if (useRecoveryCode) {
+        await redeemRecoveryCode(code);
+        onVerified('recovery');
+        await refreshAssurance();
+      } else {
+        await verifySignInChallenge(code);
+        onVerified('totp');
+      }
+    } catch (err: any) {
+      setError(err?.message ?? 'That code did not work. Please try again.');
+      setCode('');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function toggleMode() {
+    setUseRecoveryCode((value) => !value);
+    setCode('');
+    setError(null);
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="space-y-1.5">
+        <label className="block text-xs font-medium text-slate-200" htmlFor="mfa-code">
+          {useRecoveryCode ? 'Recovery code' : 'Authenticator code'}
+        </label>
+        <input
+          id="mfa-code"
+          type="text"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          className={inputClass}
+          placeholder={useRecoveryCode ? 'XXXXX-XXXXX' : '123456'}
+          inputMode={useRecoveryCode ? 'text' : 'numeric'}
+          autoComplete="one-time-code"
+          autoFocus
+        />
+        {useRecoveryCode && (
+          <p className="text-[11px] text-slate-500">
+            Using a recovery code removes your authenticator app, so you can set up a new one.
+          </p>
+        )}
+      </div>
+
+      {error && (
+        <p className="text-xs text-rose-400" role="alert">
+          {error}
+        </p>
+      )}
+
+      <button
+        type="submit"
+        disabled={loading}
+        className="mt-3 flex w-full items-center justify-center gap-2 rounded-xl bg-gradient-to-r from-emerald-400 via-sky-500 to-indigo-500 px-3 py-2 text-xs font-semibold uppercase tracking-[0.22em] text-slate-950 shadow-[0_0_40px_rgba(59,130,246,0.9)] transition-transform hover:-translate-y-0.5 disabled:opacity-60 disabled:hover:translate-y-0"
+      >
+        <span>{loading ? 'Checking…' : 'Verify'}</span>
+      </button>
+
+      <div className="flex flex-wrap justify-center gap-x-3 gap-y-1 pt-1 text-[11px] text-slate-400">
+        <button type="button" onClick={toggleMode} className="hover:text-emerald-200">
+          {useRecoveryCode ? 'Use my authenticator app' : 'Lost your device? Use a recovery code'}
+        </button>
+        <button type="button" onClick={() => void signOut()} className="hover:text-emerald-200">
+          Sign out
+        </button>
+      </div>
+    </form>
+  );
+}
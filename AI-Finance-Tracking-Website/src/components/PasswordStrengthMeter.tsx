@@ -0,0 +1,36 @@
+import type { PasswordEvaluation } from '../../lib/passwordPolicy';
+
+interface PasswordStrengthMeterProps {
+  evaluation: PasswordEvaluation;
+}
+
+const LEVELS = [
+  { label: 'Very weak', bar: 'bg-rose-500', text: 'text-rose-300' },
+  { label: 'Weak', bar: 'bg-orange-400', text: 'text-orange-300' },
+  { label: 'Fair', bar: 'bg-amber-300', text: 'text-amber-300' },
+  { label: 'Strong', bar: 'bg-emerald-400', text: 'text-emerald-300' },
+  { label: 'Very strong', bar: 'bg-sky-400', text: 'text-sky-300' },
+];
+
+export function PasswordStrengthMeter({ evaluation }: PasswordStrengthMeterProps) {
+  const level = LEVELS[evaluation.score];
+
+  return (
+    <div className="space-y-1" aria-live="polite">
+      <div className="flex gap-1" aria-hidden="true">
+        {LEVELS.slice(1).map((_, index) => (
+          <span
+            key={index}
+            className={`h-1 flex-1 rounded-full ${index < evaluation.score ? level.bar : 'bg-slate-800'}`}
+          />
+        ))}
+      </div>
+      <p className={`text-[10px] font-semibold ${level.text}`}>
+        {evaluation.common ? 'Too common' : level.label}
+        {evaluation.feedback[0] && (
+          <span className="ml-1 font-normal text-slate-400">{evaluation.feedback[0]}</span>
+        )}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,617 @@
+import { useEffect, useMemo, useState, type ChangeEvent } from 'react';
+import { AlertTriangle, CheckCircle2, FileUp, Loader2, Upload } from 'lucide-react';
+import { motion } from 'framer-motion';
+import {
+  applyCsvOptions,
+  commitImport,
+  detectCsvOptions,
+  detectFormat,
+  loadExistingTransactions,
+  markDuplicates,
+  parseCsv,
+  parseOfx,
+  parseQif,
+  STATEMENT_FILE_TYPES,
+  type ColumnMapping,
+  type CsvOptions,
+  type CsvTable,
+  type DateOrder,
+  type ExistingTransaction,
+  type ParsedRows,
+  type StatementFormat,
+} from '../../lib/statementImport';
+import {
+  loadCategoryModel,
+  predictCategory,
+  REVIEW_THRESHOLD,
+  type CategoryModel,
+  type CategoryPrediction,
+} from '../../lib/categorisation';
+import { useCurrency } from './CurrencyProvider';
+
+export interface ImportTargetAccount {
+  id: string;
+  label: string;
+  currency: string;
+}
+
+interface StatementImportWizardProps {
+  accounts: ImportTargetAccount[];
+  defaultAccountId: string | null;
+  onClose: () => void;
+}
+
+type Step = 'upload' | 'mapping' | 'preview' | 'done';
+
+interface LoadedFile {
+  name: string;
+  format: StatementFormat;
+  text: string;
+}
+
+// Statements bigger than this are almost certainly not statements (or need splitting).
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+const PREVIEW_ROWS = 100;
+const SAMPLE_ROWS = 5;
+
+const FORMAT_LABELS: Record<StatementFormat, string> = { csv: 'CSV', ofx: 'OFX / QFX', qif: 'QIF' };
+
+const FIELD_LABELS: Record<keyof ColumnMapping, string> = {
+  timestamp: 'Date',
+  description: 'Description',
+  amount: 'Amount',
+  category: 'Category',
+  debit: 'Money out',
+  credit: 'Money in',
+};
+
+const DATE_ORDER_LABELS: Record<DateOrder, string> = {
+  YMD: 'Year-month-day (2024-01-31)',
+  DMY: 'Day-month-year (31/01/2024)',
+  MDY: 'Month-day-year (01/31/2024)',
+};
+
+const SIGN_LABELS: Record<CsvOptions['sign'], string> = {
+  signed: 'Negative amounts are spending',
+  inverted: 'Positive amounts are spending',
+  split: 'Separate money out / in columns',
+};
+
+function PredictedCategory({ prediction }: { prediction: CategoryPrediction | null }) {
+  if (!prediction) return <>—</>;
+  return (
+    <span
+      title="Guessed from the categories you have picked before"
+      className={prediction.confidence < REVIEW_THRESHOLD ? 'text-amber-300' : 'text-slate-300'}
+    >
+      {prediction.category} <span className="text-slate-500">{Math.round(prediction.confidence * 100)}%</span>
+    </span>
+  );
+}
+
+const selectClass =
+  'h-8 w-full rounded-lg border border-slate-700/80 bg-slate-950/80 px-2 text-[11px] text-slate-100 focus:border-emerald-400/80 focus:outline-none focus:ring-2 focus:ring-emerald-500/40';
+
+export function StatementImportWizard({ accounts, defaultAccountId, onClose }: StatementImportWizardProps) {
+  const [step, setStep] = useState<Step>('upload');
+  const [file, setFile] = useState<LoadedFile | null>(null);
+  const [table, setTable] = useState<(CsvTable & { hasHeader: boolean }) | null>(null);
+  const [csvOptions, setCsvOptions] = useState<CsvOptions | null>(null);
+  const [dateOrderAmbiguous, setDateOrderAmbiguous] = useState(false);
+  const [accountId, setAccountId] = useState(defaultAccountId ?? accounts[0]?.id ?? '');
+  const [existing, setExisting] = useState<ExistingTransaction[] | null>(null);
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const [imported, setImported] = useState(0);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [model, setModel] = useState<CategoryModel | null>(null);
+  const { format } = useCurrency();
+
+  // The preview guesses categories for rows the file leaves blank. Without a model (or if it
+  // cannot be read) the rows simply show as uncategorised.
+  useEffect(() => {
+    let isCurrent = true;
+    loadCategoryModel()
+      .then((loaded) => {
+        if (isCurrent) setModel(loaded);
+      })
+      .catch(() => undefined);
+    return () => {
+      isCurrent = false;
+    };
+  }, []);
+
+  const account = accounts.find((entry) => entry.id === accountId) ?? null;
+
+  const parsed: ParsedRows | null = useMemo(() => {
+    if (!file) return null;
+    if (file.format === 'ofx') return parseOfx(file.text);
+    if (file.format === 'qif') return parseQif(file.text);
+    return table && csvOptions ? applyCsvOptions(table, csvOptions) : null;
+  }, [file, table, csvOptions]);
+
+  const dateRange = useMemo(() => {
+    const dates = (parsed?.rows ?? []).map((row) => row.date).sort();
+    return dates.length ? { from: dates[0], to: dates[dates.length - 1] } : null;
+  }, [parsed]);
+
+  useEffect(() => {
+    setExisting(null);
+    if (step !== 'preview' || !accountId || !dateRange) return;
+    let isCurrent = true;
+    loadExistingTransactions(accountId, dateRange.from, dateRange.to)
+      .then((rows) => {
+        if (isCurrent) setExisting(rows);
+      })
+      .catch((err) => {
+        if (isCurrent) setError(err?.message ?? 'Could not check for duplicates.');
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [step, accountId, dateRange]);
+
+  const preview = useMemo(
+    () => (parsed && existing ? markDuplicates(parsed.rows, existing) : []),
+    [parsed, existing],
+  );
+  // Rows already in the account under the same statement id can never be imported twice.
+  const toImport = preview.filter(
+    (row) => !row.duplicate || (includeDuplicates && row.duplicate === 'same-details'),
+  );
+  const duplicateCount = preview.filter((row) => row.duplicate).length;
+  const predictions = useMemo(
+    () =>
+      preview.map((row): CategoryPrediction | null =>
+        model && !row.category
+          ? predictCategory(model, {
+              description: row.description,
+              merchant: null,
+              amount: row.amount,
+              timestamp: `${row.date}T12:00:00.000Z`,
+            })
+          : null,
+      ),
+    [preview, model],
+  );
+  const unsureCount = predictions.filter(
+    (prediction, index) => prediction && prediction.confidence < REVIEW_THRESHOLD && toImport.includes(preview[index]),
+  ).length;
+  const currency = parsed?.currency ?? account?.currency ?? null;
+
+  const loadTable = (nextTable: CsvTable & { hasHeader: boolean }) => {
+    const { dateOrderAmbiguous: ambiguous, ...detected } = detectCsvOptions(nextTable);
+    setTable(nextTable);
+    setCsvOptions(detected);
+    setDateOrderAmbiguous(ambiguous);
+  };
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const picked = event.target.files?.[0];
+    event.target.value = '';
+    if (!picked) return;
+    setError(null);
+    if (picked.size > MAX_FILE_BYTES) {
+      setError('That file is larger than 5 MB. Export a shorter date range and try again.');
+      return;
+    }
+
+    const text = await picked.text();
+    const statementFormat = detectFormat(picked.name, text);
+    setFile({ name: picked.name, format: statementFormat, text });
+    if (statementFormat !== 'csv') {
+      setTable(null);
+      setCsvOptions(null);
+      setStep('preview');
+      return;
+    }
+
+    const nextTable = parseCsv(text);
+    if (!nextTable.rows.length) {
+      setError('No rows found in this file.');
+      return;
+    }
+    loadTable(nextTable);
+    setStep('mapping');
+  };
+
+  const handleToggleHeader = (hasHeader: boolean) => {
+    if (!file) return;
+    loadTable(parseCsv(file.text, hasHeader));
+  };
+
+  const updateMapping = (field: keyof ColumnMapping, value: string) => {
+    setCsvOptions((prev) =>
+      prev ? { ...prev, mapping: { ...prev.mapping, [field]: value === '' ? null : Number(value) } } : prev,
+    );
+  };
+
+  const mappingProblem = (() => {
+    if (!csvOptions) return null;
+    const { mapping, sign } = csvOptions;
+    if (mapping.timestamp == null) return 'Choose the date column.';
+    if (sign === 'split' ? mapping.debit == null && mapping.credit == null : mapping.amount == null) {
+      return 'Choose the amount column.';
+    }
+    return null;
+  })();
+
+  const handleCommit = async () => {
+    if (!accountId || !toImport.length) return;
+    setIsWorking(true);
+    setError(null);
+    try {
+      setImported(await commitImport(accountId, toImport, currency));
+      setStep('done');
+    } catch (err: any) {
+      setError(err?.message ?? 'Could not import these transactions.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleStartOver = () => {
+    setFile(null);
+    setTable(null);
+    setCsvOptions(null);
+    setIncludeDuplicates(false);
+    setError(null);
+    setStep('upload');
+  };
+
+  const mappedFields: (keyof ColumnMapping)[] =
+    csvOptions?.sign === 'split'
+      ? ['timestamp', 'description', 'debit', 'credit', 'category']
+      : ['timestamp', 'description', 'amount', 'category'];
+
+  return (
+    <motion.section
+      layout
+      initial={{ opacity: 0, y: -8, scale: 0.98 }}
+      animate={{ opacity: 1, y: 0, scale: 1 }}
+      exit={{ opacity: 0, y: -6, scale: 0.98 }}
+      transition={{ duration: 0.18, ease: 'easeOut' }}
+      className="card-3d card-3d-hover rounded-2xl border border-emerald-500/40 bg-slate-950/80 px-4 py-4 text-xs text-slate-200 sm:px-5 sm:py-5"
+      role="dialog"
+      aria-modal="false"
+      aria-label="Import a statement"
+    >
+      <div className="flex items-start justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <div className="flex h-8 w-8 items-center justify-center rounded-xl bg-emerald-400/15 text-emerald-300">
+            <FileUp className="h-4 w-4" />
+          </div>
+          <div>
+            <p className="text-xs font-semibold text-slate-50">Import a statement</p>
+            <p className="mt-0.5 text-[11px] text-slate-400">
+              {file
+                ? `${file.name} · ${FORMAT_LABELS[file.format]}`
+                : 'CSV, OFX / QFX or QIF exported from your bank’s website.'}
+            </p>
+          </div>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="rounded-full border border-slate-700/80 px-2 py-1 text-[11px] text-slate-400 hover:border-slate-500 hover:text-slate-200 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-emerald-500/70"
+        >
+          Close
+        </button>
+      </div>
+
+      {accounts.length === 0 ? (
+        <p className="mt-4 rounded-xl border border-dashed border-slate-800/80 bg-slate-950/80 px-3 py-2 text-[11px] text-slate-400">
+          Imported transactions go into one of your accounts. Connect an account first, then import
+          its older statements here.
+        </p>
+      ) : step === 'upload' ? (
+        <label className="mt-4 flex cursor-pointer flex-col items-center gap-2 rounded-xl border border-dashed border-slate-700/80 bg-slate-950/80 px-4 py-8 text-center text-[11px] text-slate-400 hover:border-emerald-400/70 focus-within:ring-2 focus-within:ring-emerald-500/40">
+          <Upload className="h-5 w-5 text-emerald-300" aria-hidden="true" />
+          <span className="font-medium text-slate-100">Choose a statement file</span>
+          <span>Delimiter, date format and sign convention are detected for you.</span>
+          <input type="file" accept={STATEMENT_FILE_TYPES} onChange={handleFile} className="sr-only" />
+        </label>
+      ) : step === 'mapping' && table && csvOptions ? (
+        <div className="mt-4 space-y-4">
+          <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+            {mappedFields.map((field) => (
+              <label key={field} className="space-y-1">
+                <span className="text-[11px] text-slate-400">
+                  {FIELD_LABELS[field]}
+                  {field === 'category' || field === 'description' ? ' (optional)' : ''}
+                </span>
+                <select
+                  value={csvOptions.mapping[field] ?? ''}
+                  onChange={(event) => updateMapping(field, event.target.value)}
+                  className={selectClass}
+                >
+                  <option value="" className="bg-slate-900 text-slate-100">
+                    Not in this file
+                  </option>
+                  {table.headers.map((header, index) => (
+                    <option key={index} value={index} className="bg-slate-900 text-slate-100">
+                      {header}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+            <label className="space-y-1">
+              <span className="text-[11px] text-slate-400">Date format</span>
+              <select
+                value={csvOptions.dateOrder}
+                onChange={(event) => {
+                  setCsvOptions({ ...csvOptions, dateOrder: event.target.value as DateOrder });
+                  setDateOrderAmbiguous(false);
+                }}
+                className={selectClass}
+              >
+                {(Object.keys(DATE_ORDER_LABELS) as DateOrder[]).map((order) => (
+                  <option key={order} value={order} className="bg-slate-900 text-slate-100">
+                    {DATE_ORDER_LABELS[order]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="space-y-1">
+              <span className="text-[11px] text-slate-400">Amounts</span>
+              <select
+                value={csvOptions.sign}
+                onChange={(event) => setCsvOptions({ ...csvOptions, sign: event.target.value as CsvOptions['sign'] })}
+                className={selectClass}
+              >
+                {(Object.keys(SIGN_LABELS) as CsvOptions['sign'][]).map((sign) => (
+                  <option key={sign} value={sign} className="bg-slate-900 text-slate-100">
+                    {SIGN_LABELS[sign]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="space-y-1">
+              <span className="text-[11px] text-slate-400">Decimal separator</span>
+              <select
+                value={csvOptions.decimal}
+                onChange={(event) => setCsvOptions({ ...csvOptions, decimal: event.target.value as CsvOptions['decimal'] })}
+                className={selectClass}
+              >
+                <option value="." className="bg-slate-900 text-slate-100">
+                  Point (1,234.56)
+                </option>
+                <option value="," className="bg-slate-900 text-slate-100">
+                  Comma (1.234,56)
+                </option>
+              </select>
+            </label>
+          </div>
+
+          <label className="flex items-center gap-2 text-[11px] text-slate-300">
+            <input
+              type="checkbox"
+              checked={table.hasHeader}
+              onChange={(event) => handleToggleHeader(event.target.checked)}
+              className="h-3.5 w-3.5 rounded border-slate-600 bg-slate-900 text-emerald-500 focus:ring-emerald-500/60"
+            />
+            First row is a header
+          </label>
+
+          {dateOrderAmbiguous && (
+            <p className="flex items-center gap-1 text-[11px] text-amber-300">
+              <AlertTriangle className="h-3 w-3" />
+              Every date in this file works as both day-first and month-first. Check the date format.
+            </p>
+          )}
+
+          <div className="overflow-x-auto rounded-xl border border-slate-800/80">
+            <table className="w-full text-left text-[11px]">
+              <thead className="bg-slate-900/80 text-slate-400">
+                <tr>
+                  {table.headers.map((header, index) => (
+                    <th key={index} className="whitespace-nowrap px-3 py-2 font-medium">
+                      {header}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {table.rows.slice(0, SAMPLE_ROWS).map((row, rowIndex) => (
+                  <tr key={rowIndex} className="border-t border-slate-800/80 text-slate-300">
+                    {table.headers.map((_, index) => (
+                      <td key={index} className="max-w-[14rem] truncate whitespace-nowrap px-3 py-1.5">
+                        {row[index]}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ) : step === 'preview' && parsed ? (
+        <div className="mt-4 space-y-3">
+          <div className="flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
+            <label className="space-y-1 sm:w-64">
+              <span className="text-[11px] text-slate-400">Import into</span>
+              <select value={accountId} onChange={(event) => setAccountId(event.target.value)} className={selectClass}>
+                {accounts.map((entry) => (
+                  <option key={entry.id} value={entry.id} className="bg-slate-900 text-slate-100">
+                    {entry.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <p className="text-[11px] text-slate-400">
+              {parsed.rows.length} transaction{parsed.rows.length === 1 ? '' : 's'}
+              {dateRange && ` from ${dateRange.from} to ${dateRange.to}`}
+              {existing && (
+                <>
+                  <span className="mx-1 text-slate-600">·</span>
+                  {duplicateCount} already in this account
+                </>
+              )}
+              {parsed.issues.length > 0 && (
+                <>
+                  <span className="mx-1 text-slate-600">·</span>
+                  <span className="text-amber-300">{parsed.issues.length} skipped</span>
+                </>
+              )}
+              {unsureCount > 0 && (
+                <>
+                  <span className="mx-1 text-slate-600">·</span>
+                  <span className="text-amber-300">{unsureCount} unsure categories to review</span>
+                </>
+              )}
+            </p>
+          </div>
+
+          {parsed.currency && account && parsed.currency !== account.currency && (
+            <p className="flex items-center gap-1 text-[11px] text-amber-300">
+              <AlertTriangle className="h-3 w-3" />
+              This statement is in {parsed.currency} but the account is in {account.currency}.
+            </p>
+          )}
+
+          {parsed.issues.length > 0 && (
+            <ul className="space-y-0.5 text-[11px] text-amber-300">
+              {parsed.issues.slice(0, 3).map((issue) => (
+                <li key={issue.line}>
+                  Line {issue.line}: {issue.message}
+                </li>
+              ))}
+              {parsed.issues.length > 3 && <li>…and {parsed.issues.length - 3} more</li>}
+            </ul>
+          )}
+
+          {!existing ? (
+            <p className="flex items-center gap-2 text-[11px] text-slate-400">
+              <Loader2 className="h-3.5 w-3.5 animate-spin" />
+              Checking for transactions already in this account…
+            </p>
+          ) : (
+            <div className="max-h-72 overflow-auto rounded-xl border border-slate-800/80">
+              <table className="w-full text-left text-[11px]">
+                <thead className="sticky top-0 bg-slate-900 text-slate-400">
+                  <tr>
+                    <th className="px-3 py-2 font-medium">Date</th>
+                    <th className="px-3 py-2 font-medium">Description</th>
+                    <th className="px-3 py-2 font-medium">Category</th>
+                    <th className="px-3 py-2 text-right font-medium">Amount</th>
+                    <th className="px-3 py-2 font-medium">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.slice(0, PREVIEW_ROWS).map((row, index) => (
+                    <tr
+                      key={`${row.line}:${index}`}
+                      className={`border-t border-slate-800/80 ${row.duplicate ? 'text-slate-500' : 'text-slate-200'}`}
+                    >
+                      <td className="whitespace-nowrap px-3 py-1.5">{row.date}</td>
+                      <td className="max-w-[18rem] truncate px-3 py-1.5">{row.description || '—'}</td>
+                      <td className="whitespace-nowrap px-3 py-1.5">
+                        {row.category ?? <PredictedCategory prediction={predictions[index]} />}
+                      </td>
+                      <td
+                        className={`whitespace-nowrap px-3 py-1.5 text-right ${
+                          row.amount < 0 ? 'text-rose-300' : 'text-emerald-300'
+                        }`}
+                      >
+                        {format(row.amount, { currency: currency ?? undefined })}
+                      </td>
+                      <td className="whitespace-nowrap px-3 py-1.5">
+                        {row.duplicate === 'same-id'
+                          ? 'Already imported'
+                          : row.duplicate
+                            ? 'Possible duplicate'
+                            : 'New'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {preview.length > PREVIEW_ROWS && (
+                <p className="border-t border-slate-800/80 px-3 py-2 text-[11px] text-slate-500">
+                  Showing the first {PREVIEW_ROWS} of {preview.length} rows.
+                </p>
+              )}
+            </div>
+          )}
+
+          {preview.some((row) => row.duplicate === 'same-details') && (
+            <label className="flex items-center gap-2 text-[11px] text-slate-300">
+              <input
+                type="checkbox"
+                checked={includeDuplicates}
+                onChange={(event) => setIncludeDuplicates(event.target.checked)}
+                className="h-3.5 w-3.5 rounded border-slate-600 bg-slate-900 text-emerald-500 focus:ring-emerald-500/60"
+              />
+              Import possible duplicates anyway
+            </label>
+          )}
+        </div>
+      ) : step === 'done' ? (
+        <p className="mt-4 flex items-center gap-2 rounded-xl border border-emerald-500/40 bg-emerald-500/10 px-3 py-2 text-[11px] text-emerald-200">
+          <CheckCircle2 className="h-4 w-4" />
+          Imported {imported} transaction{imported === 1 ? '' : 's'} into {account?.label ?? 'your account'}.
+        </p>
+      ) : null}
+
+      {error && (
+        <p className="mt-3 flex items-center gap-1 text-[11px] text-rose-300" role="alert">
+          <AlertTriangle className="h-3 w-3" />
+          {error}
+        </p>
+      )}
+
+      {accounts.length > 0 && step !== 'upload' && (
+        <div className="mt-4 flex flex-wrap justify-end gap-2">
+          <button
+            type="button"
+            onClick={handleStartOver}
+            className="rounded-full border border-slate-700/80 px-3 py-1.5 text-[11px] text-slate-300 hover:border-slate-500 hover:text-slate-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-500/60"
+          >
+            {step === 'done' ? 'Import another file' : 'Choose another file'}
+          </button>
+          {step === 'preview' && file?.format === 'csv' && (
+            <button
+              type="button"
+              onClick={() => setStep('mapping')}
+              className="rounded-full border border-slate-700/80 px-3 py-1.5 text-[11px] text-slate-300 hover:border-slate-500 hover:text-slate-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-500/60"
+            >
+              Back to columns
+            </button>
+          )}
+          {step === 'mapping' && (
+            <button
+              type="button"
+              onClick={() => setStep('preview')}
+              disabled={Boolean(mappingProblem)}
+              title={mappingProblem ?? undefined}
+              className="rounded-full bg-emerald-500/90 px-3 py-1.5 text-[11px] font-semibold uppercase tracking-[0.18em] text-slate-950 hover:bg-emerald-400 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-emerald-500/80 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              Preview
+            </button>
+          )}
+          {step === 'preview' && (
+            <button
+              type="button"
+              onClick={handleCommit}
+              disabled={!existing || !toImport.length || isWorking}
+              className="inline-flex items-center gap-1.5 rounded-full bg-emerald-500/90 px-3 py-1.5 text-[11px] font-semibold uppercase tracking-[0.18em] text-slate-950 shadow-[0_0_35px_rgba(16,185,129,0.75)] hover:bg-emerald-400 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-emerald-500/80 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              {isWorking ? <Loader2 className="h-3 w-3 animate-spin" /> : <Upload className="h-3 w-3" />}
+              {toImport.length ? `Import ${toImport.length}` : 'Nothing new to import'}
+            </button>
+          )}
+          {step === 'done' && (
+            <button
+              type="button"
+              onClick={onClose}
+              className="rounded-full bg-emerald-500/90 px-3 py-1.5 text-[11px] font-semibold uppercase tracking-[0.18em] text-slate-950 hover:bg-emerald-400 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-emerald-500/80"
+            >
+              Done
+            </button>
+          )}
+        </div>
+      )}
+    </motion.section>
+  );
+}
@@ -1,6 +1,10 @@
 import { useEffect, useRef, useState } from 'react';
 import { NavLink } from 'react-router-dom';
 import { Bell, Search, Lock, User } from 'lucide-react';
+import { normalizeCurrency, SUPPORTED_CURRENCIES } from '../../lib/currency';
+import { getRiskOverview, type SecurityAlert } from '../../lib/security';
+import { useAuth } from './AuthProvider';
+import { useCurrency } from './CurrencyProvider';
 
 interface TopBarProps {
   onLogout: () => void;
@@ -33,9 +37,42 @@ const NOTIFICATIONS = [
   },
 ];
 
+type Notification = (typeof NOTIFICATIONS)[number] & { tone?: 'security' };
+
+function formatAlertTime(at: string): string {
+  const hours = Math.floor((Date.now() - new Date(at).getTime()) / 3_600_000);
+  if (hours < 1) return 'Just now';
+  if (hours < 24) return `${hours}h ago`;
+  return hours < 48 ? 'Yesterday' : `${Math.floor(hours / 24)}d ago`;
+}
+
+function toNotification(alert: SecurityAlert): Notification {
+  return { id: alert.id, title: alert.title, time: formatAlertTime(alert.at), description: alert.description, tone: 'security' };
+}
+
 export function TopBar({ onLogout }: TopBarProps) {
+  const { user } = useAuth();
   const [isNotificationsOpen, setIsNotificationsOpen] = useState(false);
+  const [securityAlerts, setSecurityAlerts] = useState<SecurityAlert[]>([]);
   const notificationsRef = useRef<HTMLDivElement | null>(null);
+  const { baseCurrency, setBaseCurrency } = useCurrency();
+
+  // Risky sign-ins from the last week go above the spending alerts.
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId) return undefined;
+    let isMounted = true;
+    getRiskOverview()
+      .then((overview) => {
+        if (isMounted) setSecurityAlerts(overview.alerts);
+      })
+      .catch(() => undefined);
+    return () => {
+      isMounted = false;
+    };
+  }, [userId]);
+
+  const notifications: Notification[] = [...securityAlerts.map(toNotification), ...NOTIFICATIONS];
 
   useEffect(() => {
     if (!isNotificationsOpen) return undefined;
@@ -121,6 +158,23 @@ export function TopBar({ onLogout }: TopBarProps) {
             />
           </div>
 
+          <select
+            value={baseCurrency}
+            onChange={(e) => {
+              const next = normalizeCurrency(e.target.value);
+              if (next) setBaseCurrency(next);
+            }}
+            aria-label="Base currency"
+            title="Base currency for balances, charts and Aurora's answers"
+            className="h-9 rounded-full border border-slate-700/80 bg-slate-900/80 px-3 text-xs font-semibold text-slate-100 transition-colors hover:border-emerald-400/80 focus:border-emerald-400/80 focus:outline-none focus:ring-2 focus:ring-emerald-500/40"
+          >
+            {SUPPORTED_CURRENCIES.map((currency) => (
+              <option key={currency.code} value={currency.code} title={currency.label}>
+                {currency.code}
+              </option>
+            ))}
+          </select>
+
           <div className="relative z-30" ref={notificationsRef}>
             <button
               type="button"
@@ -133,7 +187,7 @@ export function TopBar({ onLogout }: TopBarProps) {
             >
               <Bell className="h-4 w-4" />
               <span className="absolute -right-0.5 -top-0.5 inline-flex h-3.5 w-3.5 items-center justify-center rounded-full bg-emerald-400 text-[9px] font-semibold text-slate-950 shadow-[0_0_14px_rgba(52,211,153,0.95)]">
-                {NOTIFICATIONS.length}
+                {notifications.length}
               </span>
             </button>
 
@@ -157,15 +211,19 @@ export function TopBar({ onLogout }: TopBarProps) {
                 </p>
               </div>
               <ul className="max-h-72 space-y-1 overflow-y-auto px-2.5 py-2 text-xs text-slate-100 scroll-soft">
-                {NOTIFICATIONS.map((item) => (
+                {notifications.map((item) => (
                   <li
                     key={item.id}
                     role="menuitem"
                     tabIndex={-1}
-                    className="group rounded-xl border border-slate-800/80 bg-slate-950/80 px-2.5 py-2 transition-colors hover:border-emerald-400/70 hover:bg-slate-900/90"
+                    className={`group rounded-xl border bg-slate-950/80 px-2.5 py-2 transition-colors hover:bg-slate-900/90 ${
+                      item.tone === 'security'
+                        ? 'border-amber-400/50 hover:border-amber-300/80'
+                        : 'border-slate-800/80 hover:border-emerald-400/70'
+                    }`}
                   >
                     <div className="flex items-start justify-between gap-2">
-                      <p className="text-[11px] font-semibold text-slate-50">
+                      <p className={`text-[11px] font-semibold ${item.tone === 'security' ? 'text-amber-200' : 'text-slate-50'}`}>
                         {item.title}
                       </p>
                       <span className="shrink-0 text-[10px] text-slate-500">{item.time}</span>
@@ -189,7 +247,7 @@ export function TopBar({ onLogout }: TopBarProps) {
               </div>
               <div className="min-w-0 leading-tight">
                 <p className="truncate text-[11px] font-semibold text-slate-100">
-                  AI-Guarded Profile
+                  {user?.email ?? 'AI-Guarded Profile'}
                 </p>
                 <p className="mt-0.5 flex items-center gap-1 text-[10px] text-emerald-200/90">
                   <Lock className="h-3 w-3 shrink-0" />
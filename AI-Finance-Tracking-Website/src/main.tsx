@@ -2,12 +2,21 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import { BrowserRouter } from 'react-router-dom';
 import App from './App';
+import { AuthProvider } from './components/AuthProvider';
+import { CategoryProvider } from './components/CategoryProvider';
+import { CurrencyProvider } from './components/CurrencyProvider';
 import './index.css';
 
 ReactDOM.createRoot(document.getElementById('root') as HTMLElement).render(
   <React.StrictMode>
     <BrowserRouter>
-      <App />
+      <AuthProvider>
+        <CurrencyProvider>
+          <CategoryProvider>
+            <App />
+          </CategoryProvider>
+        </CurrencyProvider>
+      </AuthProvider>
     </BrowserRouter>
   </React.StrictMode>,
 );
@@ -1,20 +1,51 @@
-import { useMemo, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import {
   AlertTriangle,
   Banknote,
   Bell,
   BellOff,
   CreditCard,
+  Download,
   Eye,
   EyeOff,
+  FileUp,
   Globe2,
+  Loader2,
   Plus,
   RefreshCcw,
+  Search,
   ShieldCheck,
   Wallet,
   WifiOff,
 } from 'lucide-react';
 import { AnimatePresence, motion } from 'framer-motion';
+import {
+  linkInstitution,
+  loadLinkedAccounts,
+  loadSyncHistory,
+  retrySync,
+  searchInstitutions,
+  unlinkConnection,
+  updateAccountSettings,
+  type AccountSettings,
+  type BankConnectorInfo,
+  type Institution,
+  type LinkedAccount,
+  type SyncAttempt,
+} from '../../lib/banking';
+import { convertToBase } from '../../lib/currency';
+import {
+  downloadLedgerExport,
+  downloadMonthlyStatement,
+  LEDGER_EXPORT_FORMATS,
+  recentStatementMonths,
+  type LedgerExportFormat,
+} from '../../lib/exports';
+import { useCurrency, useFxRates } from '../components/CurrencyProvider';
+import { StatementImportWizard } from '../components/StatementImportWizard';
+import { CategoryManagerPanel } from '../components/CategoryManagerPanel';
+import { CategoryRulesPanel } from '../components/CategoryRulesPanel';
+import { MerchantManagerPanel } from '../components/MerchantManagerPanel';
 
 type SyncStatus = 'healthy' | 'degraded' | 'error';
 type AccountType = 'Bank' | 'Card' | 'Vault';
@@ -22,6 +53,7 @@ type NotificationPreference = 'all' | 'important' | 'none';
 
 interface Account {
   id: string;
+  connectionId: string | null;
   institution: string;
   type: AccountType;
   name: string;
@@ -30,6 +62,8 @@ interface Account {
   currency: string;
   status: SyncStatus;
   lastSync: string;
+  lastSyncedAt: string | null;
+  syncError: string | null;
   nickname: string;
   visible: boolean;
   notifications: NotificationPreference;
@@ -37,54 +71,63 @@ interface Account {
   country?: string;
 }
 
-const INITIAL_ACCOUNTS: Account[] = [
-  {
-    id: 'acc-01',
-    institution: 'Aurora Bank US',
-    type: 'Bank',
-    name: 'Operating Checking',
-    mask: '1024',
-    balance: 128500,
-    currency: 'USD',
-    status: 'healthy',
-    lastSync: '2 min ago',
-    nickname: 'Primary operating',
-    visible: true,
-    notifications: 'all',
-    primary: true,
-    country: 'US',
-  },
-  {
-    id: 'acc-02',
-    institution: 'Atlas Corporate Card',
-    type: 'Card',
-    name: 'Team Spend Card',
-    mask: '7780',
-    balance: -13240,
-    currency: 'USD',
-    status: 'degraded',
-    lastSync: '24 min ago',
-    nickname: 'Corporate card',
-    visible: true,
-    notifications: 'important',
-    country: 'US',
-  },
-  {
-    id: 'acc-03',
-    institution: 'Northern Vault',
-    type: 'Vault',
-    name: 'Runway Reserve',
-    mask: '9931',
-    balance: 420000,
-    currency: 'USD',
-    status: 'healthy',
-    lastSync: 'Today, 08:12',
-    nickname: 'Runway vault',
-    visible: true,
-    notifications: 'none',
-    country: 'EU',
-  },
-];
+const INSTITUTION_SEARCH_DEBOUNCE_MS = 250;
+
+const SYNC_TRIGGER_LABELS: Record<SyncAttempt['trigger'], string> = {
+  link: 'First sync',
+  scheduled: 'Scheduled sync',
+  manual: 'Retry sync',
+};
+
+function describeSyncAttempt(attempt: SyncAttempt): string {
+  if (attempt.outcome === 'failed') return attempt.message ?? 'Sync failed.';
+  if (!attempt.added && !attempt.modified && !attempt.removed) return 'Up to date, no new transactions.';
+  const parts = [
+    attempt.added && `${attempt.added} new`,
+    attempt.modified && `${attempt.modified} updated`,
+    attempt.removed && `${attempt.removed} removed`,
+  ].filter(Boolean);
+  return `${parts.join(' · ')} transaction${attempt.added + attempt.modified + attempt.removed === 1 ? '' : 's'}`;
+}
+
+function accountTypeFor(kind: string): AccountType {
+  if (kind === 'credit' || kind === 'loan') return 'Card';
+  if (kind === 'savings' || kind === 'investment') return 'Vault';
+  return 'Bank';
+}
+
+function formatLastSync(lastSyncedAt: string | null): string {
+  if (!lastSyncedAt) return 'Not synced yet';
+  const minutes = Math.floor((Date.now() - new Date(lastSyncedAt).getTime()) / 60_000);
+  if (minutes < 1) return 'Just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  const days = Math.floor(hours / 24);
+  return days === 1 ? 'Yesterday' : `${days} days ago`;
+}
+
+function toAccount(linked: LinkedAccount): Account {
+  return {
+    id: linked.id,
+    connectionId: linked.connectionId,
+    institution: linked.institution,
+    type: accountTypeFor(linked.kind),
+    name: linked.name,
+    mask: linked.mask ?? '----',
+    balance: linked.balance,
+    currency: linked.currency,
+    status: linked.status,
+    lastSync: linked.connectionId ? formatLastSync(linked.lastSyncedAt) : 'Manual account',
+    lastSyncedAt: linked.lastSyncedAt,
+    syncError: linked.syncError,
+    nickname: linked.nickname ?? '',
+    visible: linked.visible,
+    notifications: linked.notifications,
+    primary: linked.primary,
+    country: linked.country ?? undefined,
+  };
+}
 
 const statusConfig: Record<
   SyncStatus,
@@ -118,29 +161,49 @@ const statusConfig: Record<
   },
 };
 
-function formatCurrency(amount: number, currency: string) {
-  try {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency,
-      maximumFractionDigits: 0,
-    }).format(amount);
-  } catch {
-    return `${currency} ${amount.toLocaleString('en-US', { maximumFractionDigits: 0 })}`;
-  }
-}
-
 export function AccountsPage() {
-  const [accounts, setAccounts] = useState<Account[]>(INITIAL_ACCOUNTS);
-  const [selectedAccountId, setSelectedAccountId] = useState<string | null>(
-    INITIAL_ACCOUNTS[0]?.id ?? null,
-  );
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [selectedAccountId, setSelectedAccountId] = useState<string | null>(null);
+  const [isLoadingAccounts, setIsLoadingAccounts] = useState(true);
+  const [accountsError, setAccountsError] = useState<string | null>(null);
+  const [connectors, setConnectors] = useState<BankConnectorInfo[]>([]);
   const [showOnboarding, setShowOnboarding] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [institutionQuery, setInstitutionQuery] = useState('');
+  const [institutions, setInstitutions] = useState<Institution[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [selectedInstitution, setSelectedInstitution] = useState<Institution | null>(null);
+  const [isLinking, setIsLinking] = useState(false);
+  const [onboardingError, setOnboardingError] = useState<string | null>(null);
+  const [syncingConnectionId, setSyncingConnectionId] = useState<string | null>(null);
+  const [syncHistory, setSyncHistory] = useState<SyncAttempt[]>([]);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+  const [statementMonth, setStatementMonth] = useState(() => recentStatementMonths()[1]);
+  const [exportingKey, setExportingKey] = useState<string | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const { baseCurrency, format } = useCurrency();
+  const { snapshot: fx, loading: fxLoading } = useFxRates(accounts.map((account) => account.currency));
 
-  const totalBalance = useMemo(
-    () => accounts.reduce((sum, account) => sum + account.balance, 0),
-    [accounts],
-  );
+  // Balances are converted into the base currency before summing; accounts without a known
+  // rate are left out of the total and called out rather than summed in the wrong unit.
+  const { totalBalance, unconvertedCurrencies } = useMemo(() => {
+    let total = 0;
+    const missing = new Set<string>();
+    for (const account of accounts) {
+      const converted = convertToBase(account.balance, account.currency, baseCurrency, fx?.rates ?? {});
+      if (converted == null) missing.add(account.currency);
+      else total += converted;
+    }
+    return { totalBalance: total, unconvertedCurrencies: Array.from(missing) };
+  }, [accounts, baseCurrency, fx]);
+
+  const formatWhole = (amount: number, currency?: string) =>
+    format(amount, { currency, maximumFractionDigits: 0 });
+
+  const describeInBase = (account: Account) => {
+    const converted = convertToBase(account.balance, account.currency, baseCurrency, fx?.rates ?? {});
+    return converted == null ? `${baseCurrency} rate pending` : `≈ ${formatWhole(converted)}`;
+  };
 
   const healthCounts = useMemo(
     () => ({
@@ -158,55 +221,181 @@ export function AccountsPage() {
   }, [healthCounts]);
 
   const lastGlobalSync = useMemo(() => {
-    if (!accounts.length) return 'Not synced yet';
-    return accounts[0]?.lastSync ?? 'Just now';
+    const latest = accounts
+      .map((account) => account.lastSyncedAt)
+      .filter((value): value is string => Boolean(value))
+      .sort()
+      .pop();
+    return formatLastSync(latest ?? null);
   }, [accounts]);
 
+  useEffect(() => {
+    let isMounted = true;
+    loadLinkedAccounts()
+      .then((loaded) => {
+        if (!isMounted) return;
+        setConnectors(loaded.connectors);
+        setAccounts(loaded.accounts.map(toAccount));
+        setSelectedAccountId(loaded.accounts[0]?.id ?? null);
+      })
+      .catch((err) => {
+        if (isMounted) setAccountsError(err?.message ?? 'Could not load your accounts.');
+      })
+      .finally(() => {
+        if (isMounted) setIsLoadingAccounts(false);
+      });
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!showOnboarding) return;
+    let isCurrent = true;
+    setIsSearching(true);
+    const timer = setTimeout(() => {
+      searchInstitutions(institutionQuery)
+        .then((found) => {
+          if (isCurrent) setInstitutions(found);
+        })
+        .catch((err) => {
+          if (isCurrent) setOnboardingError(err?.message ?? 'Could not search institutions.');
+        })
+        .finally(() => {
+          if (isCurrent) setIsSearching(false);
+        });
+    }, INSTITUTION_SEARCH_DEBOUNCE_MS);
+    return () => {
+      isCurrent = false;
+      clearTimeout(timer);
+    };
+  }, [showOnboarding, institutionQuery]);
+
   const selectedAccount =
     accounts.find((account) => account.id === selectedAccountId) ?? accounts[0] ?? null;
+  const selectedConnectionId = selectedAccount?.connectionId ?? null;
+
+  useEffect(() => {
+    setSyncHistory([]);
+    if (!selectedConnectionId) return;
+    let isCurrent = true;
+    setIsLoadingHistory(true);
+    loadSyncHistory(selectedConnectionId)
+      .then((attempts) => {
+        if (isCurrent) setSyncHistory(attempts);
+      })
+      .catch(() => undefined)
+      .finally(() => {
+        if (isCurrent) setIsLoadingHistory(false);
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [selectedConnectionId]);
 
   const updateAccount = (id: string, updater: (account: Account) => Account) => {
     setAccounts((prev) => prev.map((account) => (account.id === id ? updater(account) : account)));
   };
 
+  const saveAccountSettings = (id: string, settings: AccountSettings) => {
+    updateAccountSettings(id, settings).catch((err) => {
+      setAccountsError(err?.message ?? 'Could not save the account settings.');
+    });
+  };
+
   const handleStartOnboarding = () => {
+    setOnboardingError(null);
+    setSelectedInstitution(null);
+    setShowImport(false);
     setShowOnboarding(true);
   };
 
-  const handleCancelOnboarding = () => {
+  const handleStartImport = () => {
     setShowOnboarding(false);
+    setShowImport(true);
   };
 
-  const handleCompleteOnboarding = () => {
-    const newAccount: Account = {
-      id: `acc-${Date.now()}`,
-      institution: 'Aurora Test Bank',
-      type: 'Bank',
-      name: 'Aurora Checking',
-      mask: '4820',
-      balance: 12400,
-      currency: 'USD',
-      status: 'degraded',
-      lastSync: 'Just now',
-      nickname: 'New onboarding account',
-      visible: true,
-      notifications: 'important',
-      country: 'US',
-    };
-
-    setAccounts((prev) => [newAccount, ...prev]);
-    setSelectedAccountId(newAccount.id);
+  const handleCancelOnboarding = () => {
     setShowOnboarding(false);
   };
 
-  const handleDisconnect = (id: string) => {
-    setAccounts((prev) => {
-      const next = prev.filter((account) => account.id !== id);
-      if (selectedAccountId === id) {
-        setSelectedAccountId(next[0]?.id ?? null);
+  const handleCompleteOnboarding = async () => {
+    if (!selectedInstitution) return;
+    setIsLinking(true);
+    setOnboardingError(null);
+    try {
+      const linked = await linkInstitution(selectedInstitution);
+      if (!linked) return;
+      const known = new Set(accounts.map((account) => account.id));
+      const next = linked.map(toAccount);
+      setAccounts(next);
+      setSelectedAccountId(next.find((account) => !known.has(account.id))?.id ?? next[0]?.id ?? null);
+      setShowOnboarding(false);
+    } catch (err: any) {
+      setOnboardingError(err?.message ?? 'Could not connect this institution.');
+    } finally {
+      setIsLinking(false);
+    }
+  };
+
+  const handleRetrySync = async (account: Account) => {
+    if (!account.connectionId) return;
+    setSyncingConnectionId(account.connectionId);
+    try {
+      const attempt = await retrySync(account.connectionId);
+      const loaded = await loadLinkedAccounts();
+      setAccounts(loaded.accounts.map(toAccount));
+      setAccountsError(null);
+      if (account.connectionId === selectedConnectionId) {
+        setSyncHistory((prev) => [attempt, ...prev]);
       }
-      return next;
-    });
+    } catch (err: any) {
+      setAccountsError(err?.message ?? 'Could not sync this account.');
+    } finally {
+      setSyncingConnectionId(null);
+    }
+  };
+
+  const runExport = async (key: string, action: () => Promise<void>) => {
+    setExportingKey(key);
+    setExportError(null);
+    try {
+      await action();
+    } catch (err: any) {
+      setExportError(err?.message ?? 'Could not export this account.');
+    } finally {
+      setExportingKey(null);
+    }
+  };
+
+  const handleExportAccount = (account: Account, format: LedgerExportFormat) =>
+    runExport(format, () => downloadLedgerExport(format, { accountId: account.id }));
+
+  const handleDownloadStatement = (account: Account) =>
+    runExport('pdf', () => downloadMonthlyStatement(account.id, statementMonth));
+
+  const handleDisconnect = async (account: Account) => {
+    if (!account.connectionId) return;
+    const siblings = accounts.filter((entry) => entry.connectionId === account.connectionId);
+    const prompt =
+      siblings.length > 1
+        ? `Disconnect ${account.institution}? This removes all ${siblings.length} of its accounts from Aurora.`
+        : `Disconnect ${account.institution}? Aurora will stop syncing this account.`;
+    if (!window.confirm(prompt)) return;
+
+    try {
+      await unlinkConnection(account.connectionId);
+      setAccountsError(null);
+      setAccounts((prev) => {
+        const next = prev.filter((entry) => entry.connectionId !== account.connectionId);
+        if (!next.some((entry) => entry.id === selectedAccountId)) {
+          setSelectedAccountId(next[0]?.id ?? null);
+        }
+        return next;
+      });
+    } catch (err: any) {
+      setAccountsError(err?.message ?? 'Could not disconnect this institution.');
+    }
   };
 
   return (
@@ -236,8 +425,19 @@ export function AccountsPage() {
               <p className="mt-1 text-xs text-slate-200">
                 {accounts.length || 'No'} connected
                 <span className="mx-1 text-slate-500">·</span>
-                {accounts.length ? formatCurrency(totalBalance, 'USD') : 'Connect to see balances'}
+                {accounts.length ? formatWhole(totalBalance) : 'Connect to see balances'}
               </p>
+              {accounts.length > 0 && !fxLoading && unconvertedCurrencies.length > 0 && (
+                <p className="mt-1 flex items-center gap-1 text-[11px] text-amber-300">
+                  <AlertTriangle className="h-3 w-3" />
+                  Excludes {unconvertedCurrencies.join(', ')} balances (no {baseCurrency} rate yet)
+                </p>
+              )}
+              {fx?.stale && fx.asOf && (
+                <p className="mt-1 text-[11px] text-slate-500">
+                  Using cached FX rates from {new Date(fx.asOf).toLocaleString()}
+                </p>
+              )}
               <p className="mt-1 flex items-center gap-1 text-[11px] text-slate-400">
                 <RefreshCcw className="h-3 w-3 text-emerald-400" />
                 Last sync {lastGlobalSync}
@@ -257,6 +457,7 @@ export function AccountsPage() {
         <AnimatePresence initial={false}>
           {showOnboarding && (
             <motion.section
+              key="onboarding"
               layout
               initial={{ opacity: 0, y: -8, scale: 0.98 }}
               animate={{ opacity: 1, y: 0, scale: 1 }}
@@ -275,8 +476,8 @@ export function AccountsPage() {
                   <div>
                     <p className="text-xs font-semibold text-slate-50">Connect a new bank or card</p>
                     <p className="mt-0.5 text-[11px] text-slate-400">
-                      This is a placeholder for your onboarding and KYC flow. Plug in Plaid, Tink, or
-                      your internal aggregator here.
+                      Pick your institution. You sign in with the bank or its aggregator, never with
+                      Aurora.
                     </p>
                   </div>
                 </div>
@@ -288,27 +489,90 @@ export function AccountsPage() {
                   Close
                 </button>
               </div>
-              <div className="mt-4 grid gap-3 text-[11px] sm:grid-cols-3">
-                <div className="rounded-xl border border-slate-800/80 bg-slate-950/80 p-3">
-                  <p className="font-medium text-slate-100">Step 1 · Institution</p>
-                  <p className="mt-1 text-slate-400">User selects a bank, card, or vault provider.</p>
+              <div className="mt-4">
+                <label htmlFor="institution-search" className="sr-only">
+                  Search institutions
+                </label>
+                <div className="flex h-9 items-center gap-2 rounded-lg border border-slate-700/80 bg-slate-950/80 px-3 focus-within:border-emerald-400/80 focus-within:ring-2 focus-within:ring-emerald-500/40">
+                  <Search className="h-3.5 w-3.5 text-slate-500" aria-hidden="true" />
+                  <input
+                    id="institution-search"
+                    type="search"
+                    value={institutionQuery}
+                    onChange={(event) => setInstitutionQuery(event.target.value)}
+                    className="h-full flex-1 bg-transparent text-xs text-slate-100 placeholder:text-slate-500 focus:outline-none"
+                    placeholder="Search banks, cards and vaults"
+                    autoComplete="off"
+                  />
+                  {isSearching && <Loader2 className="h-3.5 w-3.5 animate-spin text-slate-500" aria-hidden="true" />}
                 </div>
-                <div className="rounded-xl border border-slate-800/80 bg-slate-950/80 p-3">
-                  <p className="font-medium text-slate-100">Step 2 · Credentials &amp; KYC</p>
-                  <p className="mt-1 text-slate-400">
-                    Redirect to secure hosted flow for credential input and identity verification.
+                {connectors.length === 0 ? (
+                  <p className="mt-3 rounded-xl border border-dashed border-slate-800/80 bg-slate-950/80 px-3 py-2 text-[11px] text-slate-400">
+                    No bank connectors are configured on this deployment. Set BANK_CONNECTORS (and
+                    Plaid keys) to enable linking.
                   </p>
-                </div>
-                <div className="rounded-xl border border-slate-800/80 bg-slate-950/80 p-3">
-                  <p className="font-medium text-slate-100">Step 3 · Live sync</p>
-                  <p className="mt-1 text-slate-400">
-                    Aurora ingests accounts and transactions for monitoring &amp; AI insights.
-                  </p>
-                </div>
+                ) : (
+                  <ul
+                    className="mt-3 grid max-h-64 gap-2 overflow-y-auto text-[11px] sm:grid-cols-2"
+                    role="listbox"
+                    aria-label="Institutions"
+                  >
+                    {institutions.map((institution) => {
+                      const isSelected =
+                        selectedInstitution?.id === institution.id &&
+                        selectedInstitution.connector === institution.connector;
+                      return (
+                        <li key={`${institution.connector}:${institution.id}`}>
+                          <button
+                            type="button"
+                            role="option"
+                            aria-selected={isSelected}
+                            onClick={() => setSelectedInstitution(institution)}
+                            className={`flex w-full items-center gap-3 rounded-xl border px-3 py-2 text-left transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-emerald-500/70 ${
+                              isSelected
+                                ? 'border-emerald-400/80 bg-emerald-500/10'
+                                : 'border-slate-800/80 bg-slate-950/80 hover:border-slate-600'
+                            }`}
+                          >
+                            {institution.logoUrl ? (
+                              <img src={institution.logoUrl} alt="" className="h-7 w-7 rounded-lg" />
+                            ) : (
+                              <span
+                                className="flex h-7 w-7 items-center justify-center rounded-lg text-[11px] font-semibold text-slate-950"
+                                style={{ backgroundColor: institution.primaryColor ?? '#64748b' }}
+                                aria-hidden="true"
+                              >
+                                {institution.name.charAt(0)}
+                              </span>
+                            )}
+                            <span className="flex-1">
+                              <span className="block font-medium text-slate-100">{institution.name}</span>
+                              <span className="text-slate-500">
+                                {institution.country}
+                                <span className="mx-1 text-slate-600">·</span>
+                                {connectors.find((connector) => connector.name === institution.connector)?.label ??
+                                  institution.connector}
+                              </span>
+                            </span>
+                          </button>
+                        </li>
+                      );
+                    })}
+                    {!isSearching && institutions.length === 0 && (
+                      <li className="text-slate-500 sm:col-span-2">No institutions match “{institutionQuery}”.</li>
+                    )}
+                  </ul>
+                )}
               </div>
+              {onboardingError && (
+                <p className="mt-3 flex items-center gap-1 text-[11px] text-rose-300" role="alert">
+                  <AlertTriangle className="h-3 w-3" />
+                  {onboardingError}
+                </p>
+              )}
               <div className="mt-4 flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
                 <p className="text-[11px] text-slate-400">
-                  Use this flow to ensure least-privilege access and transparent consent copy.
+                  Aurora gets read-only access to balances and transactions. Disconnect at any time.
                 </p>
                 <div className="flex gap-2">
                   <button
@@ -321,15 +585,28 @@ export function AccountsPage() {
                   <button
                     type="button"
                     onClick={handleCompleteOnboarding}
-                    className="inline-flex items-center gap-1.5 rounded-full bg-emerald-500/90 px-3 py-1.5 text-[11px] font-semibold uppercase tracking-[0.18em] text-slate-950 shadow-[0_0_35px_rgba(16,185,129,0.75)] hover:bg-emerald-400 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-emerald-500/80"
+                    disabled={!selectedInstitution || isLinking}
+                    className="inline-flex items-center gap-1.5 rounded-full bg-emerald-500/90 px-3 py-1.5 text-[11px] font-semibold uppercase tracking-[0.18em] text-slate-950 shadow-[0_0_35px_rgba(16,185,129,0.75)] hover:bg-emerald-400 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-emerald-500/80 disabled:cursor-not-allowed disabled:opacity-60"
                   >
-                    <Plus className="h-3 w-3" />
-                    Simulate connect
+                    {isLinking ? <Loader2 className="h-3 w-3 animate-spin" /> : <Plus className="h-3 w-3" />}
+                    {selectedInstitution ? `Connect ${selectedInstitution.name}` : 'Choose an institution'}
                   </button>
                 </div>
               </div>
             </motion.section>
           )}
+          {showImport && (
+            <StatementImportWizard
+              key="statement-import"
+              accounts={accounts.map((account) => ({
+                id: account.id,
+                label: `${account.nickname || account.name} · ••••${account.mask}`,
+                currency: account.currency,
+              }))}
+              defaultAccountId={selectedAccount?.id ?? null}
+              onClose={() => setShowImport(false)}
+            />
+          )}
         </AnimatePresence>
 
         <div className="grid gap-5 lg:grid-cols-3">
@@ -344,16 +621,33 @@ export function AccountsPage() {
                   Banks, cards, and vaults connected to your Aurora workspace.
                 </p>
               </div>
-              <button
-                type="button"
-                onClick={handleStartOnboarding}
-                className="inline-flex items-center gap-1.5 rounded-full border border-emerald-500/60 bg-emerald-500/10 px-3 py-1.5 text-[11px] font-semibold uppercase tracking-[0.2em] text-emerald-300 hover:bg-emerald-500/20 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-emerald-500/70"
-              >
-                <Plus className="h-3 w-3" />
-                Add account
-              </button>
+              <div className="flex flex-wrap gap-2">
+                <button
+                  type="button"
+                  onClick={handleStartImport}
+                  className="inline-flex items-center gap-1.5 rounded-full border border-slate-700/80 px-3 py-1.5 text-[11px] font-semibold uppercase tracking-[0.2em] text-slate-200 hover:border-emerald-400/80 hover:text-emerald-300 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-emerald-500/70"
+                >
+                  <FileUp className="h-3 w-3" />
+                  Import statement
+                </button>
+                <button
+                  type="button"
+                  onClick={handleStartOnboarding}
+                  className="inline-flex items-center gap-1.5 rounded-full border border-emerald-500/60 bg-emerald-500/10 px-3 py-1.5 text-[11px] font-semibold uppercase tracking-[0.2em] text-emerald-300 hover:bg-emerald-500/20 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-emerald-500/70"
+                >
+                  <Plus className="h-3 w-3" />
+                  Add account
+                </button>
+              </div>
             </header>
 
+            {accountsError && (
+              <p className="mt-3 flex items-center gap-1 text-[11px] text-rose-300" role="alert">
+                <AlertTriangle className="h-3 w-3" />
+                {accountsError}
+              </p>
+            )}
+
             <div className="mt-4 space-y-1" role="list" aria-label="Linked accounts list">
               <AnimatePresence initial={false}>
                 {accounts.map((account) => {
@@ -406,14 +700,28 @@ export function AccountsPage() {
                             <RefreshCcw className="h-3 w-3" />
                             Last sync {account.lastSync}
                           </p>
+                          {account.status !== 'healthy' && account.syncError && (
+                            <p
+                              className={`mt-0.5 text-[11px] ${
+                                account.status === 'error' ? 'text-rose-300' : 'text-amber-300'
+                              }`}
+                            >
+                              {account.syncError}
+                            </p>
+                          )}
                         </div>
                       </div>
 
                       <div className="flex flex-wrap items-center gap-3">
                         <div className="text-right">
                           <p className="text-sm font-semibold text-emerald-300">
-                            {formatCurrency(account.balance, account.currency)}
+                            {formatWhole(account.balance, account.currency)}
                           </p>
+                          {account.currency !== baseCurrency && (
+                            <p className="text-[11px] text-slate-500">
+                              {describeInBase(account)}
+                            </p>
+                          )}
                           <p className="text-[11px] text-slate-400">{account.type}</p>
                         </div>
                         <span
@@ -433,21 +741,43 @@ export function AccountsPage() {
                         >
                           Settings
                         </button>
-                        <button
-                          type="button"
-                          onClick={() => handleDisconnect(account.id)}
-                          className="inline-flex items-center gap-1 rounded-full border border-rose-500/40 bg-rose-500/5 px-3 py-1 text-[11px] text-rose-200 hover:border-rose-400 hover:bg-rose-500/15 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-rose-500/70"
-                          aria-label={`Disconnect ${account.institution} ${account.type} account ending in ${account.mask}`}
-                        >
-                          <WifiOff className="h-3 w-3" />
-                          Disconnect
-                        </button>
+                        {account.connectionId && (
+                          <button
+                            type="button"
+                            onClick={() => handleRetrySync(account)}
+                            disabled={syncingConnectionId === account.connectionId}
+                            className="inline-flex items-center gap-1 rounded-full border border-slate-700/80 px-3 py-1 text-[11px] text-slate-200 hover:border-emerald-400/80 hover:text-emerald-300 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-emerald-500/70 disabled:opacity-60"
+                            aria-label={`Retry sync for ${account.institution} ${account.type} account ending in ${account.mask}`}
+                          >
+                            <RefreshCcw
+                              className={`h-3 w-3 ${syncingConnectionId === account.connectionId ? 'animate-spin' : ''}`}
+                            />
+                            {syncingConnectionId === account.connectionId ? 'Syncing…' : 'Retry sync'}
+                          </button>
+                        )}
+                        {account.connectionId && (
+                          <button
+                            type="button"
+                            onClick={() => handleDisconnect(account)}
+                            className="inline-flex items-center gap-1 rounded-full border border-rose-500/40 bg-rose-500/5 px-3 py-1 text-[11px] text-rose-200 hover:border-rose-400 hover:bg-rose-500/15 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-rose-500/70"
+                            aria-label={`Disconnect ${account.institution} ${account.type} account ending in ${account.mask}`}
+                          >
+                            <WifiOff className="h-3 w-3" />
+                            Disconnect
+                          </button>
+                        )}
                       </div>
                     </motion.article>
                   );
                 })}
               </AnimatePresence>
-              {accounts.length === 0 && (
+              {isLoadingAccounts && (
+                <p className="mt-2 flex items-center gap-2 px-1 text-xs text-slate-400">
+                  <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                  Loading linked accounts…
+                </p>
+              )}
+              {!isLoadingAccounts && accounts.length === 0 && (
                 <div className="mt-2 rounded-xl border border-dashed border-slate-800/80 bg-slate-950/80 px-4 py-3 text-xs text-slate-400">
                   No accounts connected yet. Connect a bank or card to start real-time monitoring and
                   AI insights.
@@ -557,6 +887,9 @@ export function AccountsPage() {
                             nickname: event.target.value,
                           }))
                         }
+                        onBlur={(event) =>
+                          saveAccountSettings(selectedAccount.id, { nickname: event.target.value.trim() || null })
+                        }
                         className="h-8 w-full rounded-lg border border-slate-700/80 bg-slate-950/80 px-2 text-xs text-slate-100 placeholder:text-slate-500 focus:border-emerald-400/80 focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
                         placeholder="How this account should appear in dashboards"
                       />
@@ -573,12 +906,13 @@ export function AccountsPage() {
                         type="button"
                         role="switch"
                         aria-checked={selectedAccount.visible}
-                        onClick={() =>
+                        onClick={() => {
                           updateAccount(selectedAccount.id, (account) => ({
                             ...account,
                             visible: !account.visible,
-                          }))
-                        }
+                          }));
+                          saveAccountSettings(selectedAccount.id, { visible: !selectedAccount.visible });
+                        }}
                         className={`inline-flex items-center rounded-full border px-1 py-0.5 text-[11px] transition-colors ${
                           selectedAccount.visible
                             ? 'border-emerald-500/70 bg-emerald-500/10 text-emerald-200'
@@ -618,12 +952,13 @@ export function AccountsPage() {
                             <button
                               key={value}
                               type="button"
-                              onClick={() =>
+                              onClick={() => {
                                 updateAccount(selectedAccount.id, (account) => ({
                                   ...account,
                                   notifications: value,
-                                }))
-                              }
+                                }));
+                                saveAccountSettings(selectedAccount.id, { notifications: value });
+                              }}
                               className={`inline-flex items-center gap-1 rounded-full px-2.5 py-1 transition-colors ${
                                 isActive
                                   ? 'bg-emerald-500/90 text-slate-950 shadow-[0_0_16px_rgba(16,185,129,0.7)]'
@@ -642,6 +977,128 @@ export function AccountsPage() {
                         })}
                       </div>
                     </div>
+
+                    <div>
+                      <p className="text-xs font-medium text-slate-200">Statements &amp; exports</p>
+                      <p className="text-[11px] text-slate-400">
+                        A monthly PDF statement with balances and category totals, or every
+                        transaction in this account.
+                      </p>
+                      <div className="mt-2 flex flex-wrap items-center gap-2">
+                        <label htmlFor="statement-month" className="sr-only">
+                          Statement month
+                        </label>
+                        <select
+                          id="statement-month"
+                          value={statementMonth}
+                          onChange={(event) => setStatementMonth(event.target.value)}
+                          className="h-7 rounded-full border border-slate-700/80 bg-slate-950/80 px-2 text-[11px] text-slate-100 focus:border-emerald-400/80 focus:outline-none focus:ring-2 focus:ring-emerald-500/40"
+                        >
+                          {recentStatementMonths().map((month) => (
+                            <option key={month} value={month} className="bg-slate-900 text-slate-100">
+                              {new Date(`${month}-01T00:00:00`).toLocaleDateString(undefined, {
+                                month: 'long',
+                                year: 'numeric',
+                              })}
+                            </option>
+                          ))}
+                        </select>
+                        <button
+                          type="button"
+                          onClick={() => handleDownloadStatement(selectedAccount)}
+                          disabled={exportingKey !== null}
+                          className="inline-flex items-center gap-1 rounded-full border border-emerald-500/60 bg-emerald-500/10 px-2.5 py-1 text-[11px] text-emerald-200 hover:bg-emerald-500/20 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-emerald-500/70 disabled:opacity-60"
+                        >
+                          {exportingKey === 'pdf' ? (
+                            <Loader2 className="h-3 w-3 animate-spin" />
+                          ) : (
+                            <Download className="h-3 w-3" />
+                          )}
+                          PDF statement
+                        </button>
+                      </div>
+                      <div className="mt-2 flex flex-wrap gap-2" role="group" aria-label="Export transactions">
+                        {LEDGER_EXPORT_FORMATS.map(({ format, label }) => (
+                          <button
+                            key={format}
+                            type="button"
+                            onClick={() => handleExportAccount(selectedAccount, format)}
+                            disabled={exportingKey !== null}
+                            className="inline-flex items-center gap-1 rounded-full border border-slate-700/80 px-2.5 py-1 text-[11px] text-slate-200 hover:border-emerald-400/80 hover:text-emerald-300 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-emerald-500/70 disabled:opacity-60"
+                          >
+                            {exportingKey === format ? (
+                              <Loader2 className="h-3 w-3 animate-spin" />
+                            ) : (
+                              <Download className="h-3 w-3" />
+                            )}
+                            {label}
+                          </button>
+                        ))}
+                      </div>
+                      {exportError && (
+                        <p className="mt-2 flex items-center gap-1 text-[11px] text-rose-300" role="alert">
+                          <AlertTriangle className="h-3 w-3" />
+                          {exportError}
+                        </p>
+                      )}
+                    </div>
+
+                    {selectedAccount.connectionId && (
+                      <div>
+                        <div className="flex items-center justify-between gap-3">
+                          <div>
+                            <p className="text-xs font-medium text-slate-200">Sync history</p>
+                            <p className="text-[11px] text-slate-400">
+                              {statusConfig[selectedAccount.status].description}
+                            </p>
+                          </div>
+                          <button
+                            type="button"
+                            onClick={() => handleRetrySync(selectedAccount)}
+                            disabled={syncingConnectionId === selectedAccount.connectionId}
+                            className="inline-flex items-center gap-1 rounded-full border border-slate-700/80 px-2.5 py-1 text-[11px] text-slate-200 hover:border-emerald-400/80 hover:text-emerald-300 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-emerald-500/70 disabled:opacity-60"
+                          >
+                            <RefreshCcw
+                              className={`h-3 w-3 ${
+                                syncingConnectionId === selectedAccount.connectionId ? 'animate-spin' : ''
+                              }`}
+                            />
+                            Retry sync
+                          </button>
+                        </div>
+                        <ol className="mt-3 space-y-2 border-l border-slate-800/80 pl-3" aria-label="Sync attempts">
+                          {syncHistory.map((attempt) => (
+                            <li key={attempt.id} className="relative">
+                              <span
+                                className={`absolute -left-[17px] top-1 h-2 w-2 rounded-full ${statusConfig[attempt.status].dotClass}`}
+                                aria-hidden="true"
+                              />
+                              <p className="text-[11px] text-slate-200">
+                                {SYNC_TRIGGER_LABELS[attempt.trigger]}
+                                <span className="mx-1 text-slate-600">·</span>
+                                <span className="text-slate-500">{new Date(attempt.startedAt).toLocaleString()}</span>
+                              </p>
+                              <p
+                                className={`text-[11px] ${
+                                  attempt.outcome === 'failed' ? 'text-amber-300' : 'text-slate-400'
+                                }`}
+                              >
+                                {describeSyncAttempt(attempt)}
+                              </p>
+                            </li>
+                          ))}
+                          {isLoadingHistory && (
+                            <li className="flex items-center gap-1 text-[11px] text-slate-500">
+                              <Loader2 className="h-3 w-3 animate-spin" />
+                              Loading sync history…
+                            </li>
+                          )}
+                          {!isLoadingHistory && syncHistory.length === 0 && (
+                            <li className="text-[11px] text-slate-500">No sync attempts recorded yet.</li>
+                          )}
+                        </ol>
+                      </div>
+                    )}
                   </div>
                 </>
               ) : (
@@ -658,13 +1115,24 @@ export function AccountsPage() {
                 Aurora never stores banking credentials.
               </p>
               <p className="mt-2">
-                Use a trusted aggregator for credential handling and tokenised access. This panel is
-                a good place to describe your security posture, data retention policy, and how account
-                links power AI monitoring and automated workflows.
+                You sign in with your bank through its aggregator. Aurora only keeps the read-only
+                access token it hands back, server-side, and revokes it when you disconnect.
+                Disconnecting also removes that institution&apos;s accounts from your dashboards.
               </p>
             </div>
           </section>
         </div>
+
+        <CategoryManagerPanel />
+
+        <MerchantManagerPanel />
+
+        <CategoryRulesPanel
+          accounts={accounts.map((account) => ({
+            id: account.id,
+            label: `${account.nickname || account.name} · ••••${account.mask}`,
+          }))}
+        />
       </div>
     </main>
   );
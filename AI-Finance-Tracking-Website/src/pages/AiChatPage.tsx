@@ -1,11 +1,34 @@
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { motion } from 'framer-motion';
-import { MessageCircle, Send, Sparkles } from 'lucide-react';
+import { MessageCircle, Send, Sparkles, StopCircle } from 'lucide-react';
+import { AnswerBlocks } from '../components/AnswerBlocks';
+import { AuroraMemoryList } from '../components/AuroraMemoryList';
+import { ChatThreadList } from '../components/ChatThreadList';
+import { useCurrency } from '../components/CurrencyProvider';
+import { parseAnswerBlocks, type AnswerBlock } from '../../lib/aurora/blocks';
+import {
+  deleteMemory,
+  deleteThread,
+  getAccessToken,
+  listMemories,
+  listThreadMessages,
+  listThreads,
+  renameThread,
+  setThreadPinned,
+  type AuroraMemory,
+  type ChatThread,
+} from '../../lib/chatThreads';
 
-interface ChatSource {
-  title: string;
-  url: string;
-  snippet?: string;
+type ChatSource =
+  | { kind: 'web'; title: string; url: string; snippet?: string }
+  | { kind: 'knowledge'; title: string; slug: string; heading?: string; snippet?: string };
+
+interface LiveQuote {
+  symbol: string;
+  price: number;
+  currency: string;
+  asOf: string;
+  stale: boolean;
 }
 
 interface ChatMessage {
@@ -16,6 +39,37 @@ interface ChatMessage {
   confidence?: number;
   sources?: ChatSource[];
   usedSearch?: boolean;
+  liveQuotes?: LiveQuote[];
+  remembered?: string[];
+  blocks?: AnswerBlock[];
+  isStreaming?: boolean;
+  wasCancelled?: boolean;
+}
+
+interface AuroraReply {
+  text: string;
+  confidence?: number;
+  sources?: ChatSource[];
+  usedSearch?: boolean;
+  liveQuotes?: LiveQuote[];
+  remembered?: string[];
+  blocks?: AnswerBlock[];
+  threadId?: string;
+  limited?: UsageLimit;
+}
+
+// Set when /api/chat answers 429; `retryAt` is a Date.now()-style timestamp.
+interface UsageLimit {
+  reason: 'rate' | 'daily-budget';
+  retryAt: number;
+}
+
+interface StreamOptions {
+  onToken?: (token: string) => void;
+  signal?: AbortSignal;
+  threadId?: string | null;
+  accessToken?: string | null;
+  baseCurrency?: string;
 }
 
 const initialMessages: ChatMessage[] = [
@@ -64,50 +118,168 @@ async function mockFinanceAiResponse(question: string): Promise<{
   });
 }
 
+// Accepts both live replies and stored messages; untagged sources predate knowledge-base citations.
+function parseSources(raw: unknown): ChatSource[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap((item: any): ChatSource[] => {
+    const snippet = typeof item?.snippet === 'string' ? item.snippet : undefined;
+    if (item?.kind === 'knowledge') {
+      if (typeof item.slug !== 'string') return [];
+      return [
+        {
+          kind: 'knowledge',
+          title: typeof item.title === 'string' ? item.title : 'Aurora guide',
+          slug: item.slug,
+          heading: typeof item.heading === 'string' ? item.heading : undefined,
+          snippet,
+        },
+      ];
+    }
+    if (typeof item?.url !== 'string' || !item.url) return [];
+    return [{ kind: 'web', title: typeof item.title === 'string' ? item.title : item.url, url: item.url, snippet }];
+  });
+}
+
+function parseAuroraReply(data: any): AuroraReply {
+  const text: string =
+    data?.text ??
+    'I had trouble generating a detailed answer, but I can still help you reason about your finances.';
+  const confidence: number = typeof data?.confidence === 'number' ? data.confidence : 0.9;
+  const parsedSources = parseSources(data?.sources);
+  const usedSearch: boolean = Boolean(data?.usedSearch && parsedSources.some((s) => s.kind === 'web'));
+  const rawQuotes: unknown = data?.usedLiveData?.quotes;
+  const liveQuotes: LiveQuote[] = Array.isArray(rawQuotes)
+    ? rawQuotes
+        .filter((q: any) => typeof q?.symbol === 'string' && typeof q?.price === 'number')
+        .map((q: any) => ({
+          symbol: q.symbol,
+          price: q.price,
+          currency: typeof q.currency === 'string' ? q.currency : '',
+          asOf: typeof q.asOf === 'string' ? q.asOf : '',
+          stale: Boolean(q.stale),
+        }))
+    : [];
+  const remembered: string[] = Array.isArray(data?.remembered)
+    ? data.remembered.filter((fact: unknown): fact is string => typeof fact === 'string')
+    : [];
+  const threadId = typeof data?.threadId === 'string' ? data.threadId : undefined;
+  const blocks = parseAnswerBlocks(data?.blocks);
+  return { text, confidence, sources: parsedSources, usedSearch, liveQuotes, remembered, blocks, threadId };
+}
+
+function formatAsOf(asOf: string): string {
+  const date = new Date(asOf);
+  if (Number.isNaN(date.getTime())) return 'unknown time';
+  const sameDay = date.toDateString() === new Date().toDateString();
+  return sameDay ? formatTime(date) : date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
+
+// Reads the `token` / `meta` / `done` server-sent events emitted by /api/chat.
+async function readAuroraStream(
+  res: Response,
+  onToken?: (token: string) => void,
+): Promise<AuroraReply> {
+  const reader = res.body?.getReader();
+  if (!reader) throw new Error('Aurora API error: empty stream');
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let streamedText = '';
+  let meta: any = null;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const frame = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+
+      let event = 'message';
+      let data = '';
+      for (const line of frame.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) data += line.slice(5).trim();
+      }
+      if (!data) continue;
+
+      const payload = JSON.parse(data);
+      if (event === 'token' && typeof payload.text === 'string') {
+        streamedText += payload.text;
+        onToken?.(payload.text);
+      } else if (event === 'meta') {
+        meta = payload;
+      }
+    }
+  }
+
+  return parseAuroraReply(meta ?? { text: streamedText || undefined });
+}
+
 async function callAuroraChatApi(
   conversation: ChatMessage[],
   question: string,
-): Promise<{
-  text: string;
-  confidence?: number;
-  sources?: ChatSource[];
-  usedSearch?: boolean;
-}> {
+  { onToken, signal, threadId, accessToken, baseCurrency }: StreamOptions = {},
+): Promise<AuroraReply> {
   try {
+    // Signed-in users only send the new question: the server replays the thread from
+    // Supabase. Anonymous sessions still carry the whole conversation.
     const res = await fetch('/api/chat', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        Accept: 'text/event-stream',
+        ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
       },
-      body: JSON.stringify({
-        // In a real app, derive userId from auth; here we send a placeholder.
-        userId: 'demo-user',
-        messages: conversation.map((m) => ({ role: m.role, text: m.text })),
-      }),
+      body: JSON.stringify(
+        accessToken
+          ? { stream: true, threadId: threadId ?? undefined, message: question, baseCurrency }
+          : {
+              stream: true,
+              baseCurrency,
+              messages: conversation.map((m) => ({ role: m.role, text: m.text })),
+            },
+      ),
+      signal,
     });
 
+    // The server derives the user from the token; a rejected token needs a fresh sign-in,
+    // not the offline mock answer.
+    if (res.status === 401 || res.status === 403) {
+      return {
+        text: 'Your session has expired or is not valid any more. Sign in again to keep chatting with Aurora.',
+        sources: [],
+        usedSearch: false,
+      };
+    }
+
+    if (res.status === 429) {
+      const body: any = await res.json().catch(() => null);
+      const retryAfter = Number(res.headers.get('Retry-After') ?? body?.retryAfterSeconds);
+      return {
+        text: '',
+        limited: {
+          reason: body?.reason === 'daily-budget' ? 'daily-budget' : 'rate',
+          retryAt: Date.now() + (Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : 60) * 1000,
+        },
+      };
+    }
+
     if (!res.ok) {
       throw new Error(`Aurora API error: ${res.status}`);
     }
 
-    const data: any = await res.json();
-    const text: string =
-      data.text ??
-      'I had trouble generating a detailed answer, but I can still help you reason about your finances.';
-    const confidence: number = typeof data.confidence === 'number' ? data.confidence : 0.9;
-    const rawSources: unknown = data.sources;
-    const parsedSources: ChatSource[] = Array.isArray(rawSources)
-      ? rawSources
-          .map((item: any) => ({
-            title: typeof item?.title === 'string' ? item.title : item?.url ?? 'Source',
-            url: typeof item?.url === 'string' ? item.url : '#',
-            snippet: typeof item?.snippet === 'string' ? item.snippet : undefined,
-          }))
-          .filter((s) => typeof s.url === 'string' && s.url !== '#')
-      : [];
-    const usedSearch: boolean = Boolean(data.usedSearch && parsedSources.length);
-    return { text, confidence, sources: parsedSources, usedSearch };
+    // Older deployments (or proxies that strip SSE) still answer with a single JSON blob.
+    if (!res.headers.get('Content-Type')?.includes('text/event-stream')) {
+      return parseAuroraReply(await res.json());
+    }
+
+    return await readAuroraStream(res, onToken);
   } catch (error) {
+    if (signal?.aborted) throw error;
     console.error('Falling back to mock Aurora response', error);
     const fallback = await mockFinanceAiResponse(question);
     return { ...fallback, sources: undefined, usedSearch: false };
@@ -118,14 +290,136 @@ export function AiChatPage() {
   const [messages, setMessages] = useState<ChatMessage[]>(initialMessages);
   const [input, setInput] = useState('');
   const [isSending, setIsSending] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const [accessToken, setAccessToken] = useState<string | null>(null);
+  const [threads, setThreads] = useState<ChatThread[]>([]);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const [threadError, setThreadError] = useState<string | null>(null);
+  const [memories, setMemories] = useState<AuroraMemory[]>([]);
+  const [usageLimit, setUsageLimit] = useState<UsageLimit | null>(null);
+  const { baseCurrency, format } = useCurrency();
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const token = await getAccessToken();
+        if (cancelled || !token) return;
+        setAccessToken(token);
+        const [loaded, remembered] = await Promise.all([listThreads(), listMemories()]);
+        if (!cancelled) {
+          setThreads(loaded);
+          setMemories(remembered);
+        }
+      } catch (error: any) {
+        if (!cancelled) setThreadError(error?.message ?? 'Could not load your conversations.');
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!usageLimit) return;
+    const timer = window.setTimeout(() => setUsageLimit(null), Math.max(0, usageLimit.retryAt - Date.now()));
+    return () => window.clearTimeout(timer);
+  }, [usageLimit]);
+
+  async function refreshThreads() {
+    try {
+      setThreads(await listThreads());
+    } catch (error: any) {
+      setThreadError(error?.message ?? 'Could not load your conversations.');
+    }
+  }
+
+  async function handleForgetMemory(memoryId: string) {
+    setMemories((prev) => prev.filter((m) => m.id !== memoryId));
+    try {
+      await deleteMemory(memoryId);
+    } catch (error: any) {
+      setThreadError(error?.message ?? 'Could not forget that.');
+      setMemories(await listMemories().catch(() => []));
+    }
+  }
+
+  async function handleSelectThread(threadId: string) {
+    if (isSending || threadId === activeThreadId) return;
+    setThreadError(null);
+    try {
+      const stored = await listThreadMessages(threadId);
+      setActiveThreadId(threadId);
+      setMessages(
+        stored.map((m) => ({
+          id: m.id,
+          role: m.role,
+          text: m.text,
+          timestamp: formatTime(new Date(m.createdAt)),
+          confidence: m.confidence,
+          sources: parseSources(m.sources),
+          usedSearch: m.usedSearch,
+          blocks: parseAnswerBlocks(m.blocks),
+        })),
+      );
+    } catch (error: any) {
+      setThreadError(error?.message ?? 'Could not open that conversation.');
+    }
+  }
+
+  function handleNewThread() {
+    if (isSending) return;
+    setActiveThreadId(null);
+    setMessages(initialMessages);
+  }
+
+  async function handleRenameThread(threadId: string, title: string) {
+    setThreads((prev) => prev.map((t) => (t.id === threadId ? { ...t, title } : t)));
+    try {
+      await renameThread(threadId, title);
+    } catch (error: any) {
+      setThreadError(error?.message ?? 'Could not rename that conversation.');
+      await refreshThreads();
+    }
+  }
+
+  async function handleTogglePin(thread: ChatThread) {
+    try {
+      await setThreadPinned(thread.id, !thread.pinned);
+      await refreshThreads();
+    } catch (error: any) {
+      setThreadError(error?.message ?? 'Could not update that conversation.');
+    }
+  }
+
+  async function handleDeleteThread(threadId: string) {
+    if (!window.confirm('Delete this conversation? This cannot be undone.')) return;
+    try {
+      await deleteThread(threadId);
+      setThreads((prev) => prev.filter((t) => t.id !== threadId));
+      if (threadId === activeThreadId) handleNewThread();
+    } catch (error: any) {
+      setThreadError(error?.message ?? 'Could not delete that conversation.');
+    }
+  }
 
   const lastAiMessage = [...messages].reverse().find((m) => m.role === 'ai');
   const searchUsed = Boolean(lastAiMessage?.usedSearch);
 
+  function updateMessage(id: string, patch: (msg: ChatMessage) => Partial<ChatMessage>) {
+    setMessages((prev) => prev.map((m) => (m.id === id ? { ...m, ...patch(m) } : m)));
+  }
+
+  function handleCancel() {
+    abortRef.current?.abort();
+  }
+
   async function handleSend(e: React.FormEvent) {
     e.preventDefault();
     const trimmed = input.trim();
-    if (!trimmed || isSending) return;
+    if (!trimmed || isSending || usageLimit) return;
 
     const now = new Date();
     const userMessage: ChatMessage = {
@@ -136,24 +430,64 @@ export function AiChatPage() {
     };
 
     const conversation = [...messages, userMessage];
+    const aiId = `a-${now.getTime()}`;
+    const placeholder: ChatMessage = {
+      id: aiId,
+      role: 'ai',
+      text: '',
+      timestamp: formatTime(now),
+      isStreaming: true,
+    };
 
-    setMessages((prev) => [...prev, userMessage]);
+    setMessages((prev) => [...prev, userMessage, placeholder]);
     setInput('');
     setIsSending(true);
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     try {
-      const ai = await callAuroraChatApi(conversation, trimmed);
-      const aiMessage: ChatMessage = {
-        id: `a-${Date.now()}`,
-        role: 'ai',
+      // Supabase refreshes the session in the background; the one read on mount may have expired.
+      const currentToken = accessToken ? await getAccessToken() : null;
+      const ai = await callAuroraChatApi(conversation, trimmed, {
+        signal: controller.signal,
+        threadId: activeThreadId,
+        accessToken: currentToken,
+        baseCurrency,
+        onToken: (token) => updateMessage(aiId, (m) => ({ text: m.text + token })),
+      });
+      if (ai.limited) {
+        // Nothing was asked; put the question back so it can be sent once the limit lifts.
+        setMessages((prev) => prev.filter((m) => m.id !== userMessage.id && m.id !== aiId));
+        setInput(trimmed);
+        setUsageLimit(ai.limited);
+        return;
+      }
+      updateMessage(aiId, () => ({
         text: ai.text,
         confidence: ai.confidence,
         timestamp: formatTime(new Date()),
         sources: ai.sources,
         usedSearch: ai.usedSearch,
-      };
-      setMessages((prev) => [...prev, aiMessage]);
+        liveQuotes: ai.liveQuotes,
+        remembered: ai.remembered,
+        blocks: ai.blocks,
+        isStreaming: false,
+      }));
+      if (accessToken) {
+        if (ai.threadId) setActiveThreadId(ai.threadId);
+        await refreshThreads();
+        if (ai.remembered?.length) setMemories(await listMemories().catch(() => memories));
+      }
+    } catch {
+      // Only an abort reaches here; keep whatever streamed in before the user stopped it.
+      updateMessage(aiId, (m) => ({
+        text: m.text || 'Stopped before Aurora could answer.',
+        isStreaming: false,
+        wasCancelled: true,
+      }));
     } finally {
+      abortRef.current = null;
       setIsSending(false);
     }
   }
@@ -192,103 +526,231 @@ export function AiChatPage() {
           </div>
         </header>
 
-        <section className="card-3d card-3d-hover flex min-h-[60vh] flex-col rounded-2xl px-4 py-4 sm:px-5 sm:py-5">
-          <div className="flex-1 space-y-3 overflow-y-auto pr-1 text-sm scroll-soft">
-            {messages.map((msg) => (
-              <motion.div
-                key={msg.id}
-                initial={{ opacity: 0, y: 8 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ duration: 0.25, ease: 'easeOut' }}
-                className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}
-              >
-                <div
-                  className={`max-w-[80%] rounded-2xl border px-3 py-2.5 text-xs sm:text-[13px] shadow-[0_0_22px_rgba(15,23,42,0.9)] ${
-                    msg.role === 'user'
-                      ? 'border-indigo-400/70 bg-indigo-500/20 text-slate-50'
-                      : 'border-emerald-400/60 bg-slate-950/90 text-slate-100'
-                  }`}
+        {threadError && (
+          <p className="rounded-xl border border-rose-500/60 bg-rose-500/10 px-3 py-2 text-xs text-rose-200" role="alert">
+            {threadError}
+          </p>
+        )}
+
+        <div className="grid gap-4 md:grid-cols-[220px_minmax(0,1fr)]">
+          <div className="flex flex-col gap-4">
+            <ChatThreadList
+              threads={threads}
+              activeThreadId={activeThreadId}
+              isSignedIn={Boolean(accessToken)}
+              disabled={isSending}
+              onSelect={handleSelectThread}
+              onNewThread={handleNewThread}
+              onRename={handleRenameThread}
+              onTogglePin={handleTogglePin}
+              onDelete={handleDeleteThread}
+            />
+            {accessToken && <AuroraMemoryList memories={memories} onForget={handleForgetMemory} />}
+          </div>
+
+          <section className="card-3d card-3d-hover flex min-h-[60vh] flex-col rounded-2xl px-4 py-4 sm:px-5 sm:py-5">
+            <div className="flex-1 space-y-3 overflow-y-auto pr-1 text-sm scroll-soft">
+              {messages.map((msg) => (
+                <motion.div
+                  key={msg.id}
+                  initial={{ opacity: 0, y: 8 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ duration: 0.25, ease: 'easeOut' }}
+                  className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}
                 >
-                  <div className="flex items-center justify-between gap-2">
-                    <p className="text-[10px] font-semibold uppercase tracking-[0.2em] text-slate-400">
-                      {msg.role === 'user' ? 'YOU' : 'AURORA · AI CO-PILOT'}
-                    </p>
-                    <span className="text-[10px] text-slate-500">{msg.timestamp}</span>
-                  </div>
-                  <p className="mt-2 whitespace-pre-line leading-relaxed">{msg.text}</p>
-                  {msg.role === 'ai' && msg.confidence != null && (
-                    <p className="mt-2 text-[10px] text-emerald-300/90">
-                      Confidence: {(msg.confidence * 100).toFixed(0)}%
-                      {msg.usedSearch && (
-                        <span className="ml-2 inline-flex items-center gap-1 rounded-full border border-sky-500/80 bg-sky-500/10 px-2 py-0.5 text-[9px] font-semibold uppercase tracking-[0.18em] text-sky-200">
-                          Live web search
-                        </span>
-                      )}
-                    </p>
-                  )}
-                  {msg.role === 'ai' && msg.sources && msg.sources.length > 0 && (
-                    <div className="mt-2 rounded-xl border border-slate-800/80 bg-slate-950/90 px-2.5 py-2">
-                      <p className="text-[10px] font-semibold uppercase tracking-[0.18em] text-slate-400">
-                        Sources
+                  <div
+                    className={`max-w-[80%] rounded-2xl border px-3 py-2.5 text-xs sm:text-[13px] shadow-[0_0_22px_rgba(15,23,42,0.9)] ${
+                      msg.role === 'user'
+                        ? 'border-indigo-400/70 bg-indigo-500/20 text-slate-50'
+                        : 'border-emerald-400/60 bg-slate-950/90 text-slate-100'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="text-[10px] font-semibold uppercase tracking-[0.2em] text-slate-400">
+                        {msg.role === 'user' ? 'YOU' : 'AURORA · AI CO-PILOT'}
+                      </p>
+                      <span className="text-[10px] text-slate-500">{msg.timestamp}</span>
+                    </div>
+                    {msg.blocks && msg.blocks.length > 0 ? (
+                      <AnswerBlocks blocks={msg.blocks} onPrompt={setInput} />
+                    ) : (
+                      <p className="mt-2 whitespace-pre-line leading-relaxed">
+                        {msg.text || (msg.isStreaming ? 'Aurora is thinking…' : '')}
+                        {msg.isStreaming && (
+                          <span className="ml-0.5 inline-block h-3 w-1.5 animate-pulse rounded-sm bg-emerald-300/80 align-middle" />
+                        )}
+                      </p>
+                    )}
+                    {msg.wasCancelled && (
+                      <p className="mt-2 text-[10px] uppercase tracking-[0.18em] text-slate-500">Stopped</p>
+                    )}
+                    {msg.role === 'ai' && msg.confidence != null && (
+                      <p className="mt-2 text-[10px] text-emerald-300/90">
+                        Confidence: {(msg.confidence * 100).toFixed(0)}%
+                        {msg.usedSearch && (
+                          <span className="ml-2 inline-flex items-center gap-1 rounded-full border border-sky-500/80 bg-sky-500/10 px-2 py-0.5 text-[9px] font-semibold uppercase tracking-[0.18em] text-sky-200">
+                            Live web search
+                          </span>
+                        )}
                       </p>
-                      <ul className="mt-1 space-y-1.5 text-[10px] text-slate-300">
-                        {msg.sources.slice(0, 4).map((source, index) => {
-                          const url = source.url;
-                          let host: string | undefined;
-                          try {
-                            host = new URL(url).hostname.replace(/^www\./, '');
-                          } catch {
-                            host = undefined;
-                          }
-                          return (
-                            <li key={`${source.url}-${index}`} className="leading-snug">
-                              <a
-                                href={url}
-                                target="_blank"
-                                rel="noreferrer"
-                                className="inline-flex items-center gap-1 text-[10px] text-sky-300 hover:text-sky-200 hover:underline"
-                              >
-                                <span className="rounded-full bg-sky-500/20 px-1.5 py-0.5 text-[9px] text-sky-200">
-                                  {index + 1}
+                    )}
+                    {msg.role === 'ai' && msg.sources && msg.sources.length > 0 && (
+                      <div className="mt-2 rounded-xl border border-slate-800/80 bg-slate-950/90 px-2.5 py-2">
+                        <p className="text-[10px] font-semibold uppercase tracking-[0.18em] text-slate-400">
+                          Sources
+                        </p>
+                        <ul className="mt-1 space-y-1.5 text-[10px] text-slate-300">
+                          {msg.sources
+                            .flatMap((source) => (source.kind === 'knowledge' ? [source] : []))
+                            .map((source, index) => (
+                              <li key={`${source.slug}-${index}`} className="leading-snug">
+                                <span className="inline-flex items-center gap-1 text-[10px] text-emerald-200">
+                                  <span className="rounded-full bg-emerald-500/20 px-1.5 py-0.5 text-[9px] text-emerald-200">
+                                    G{index + 1}
+                                  </span>
+                                  <span className="truncate">{source.title}</span>
+                                  {source.heading && (
+                                    <span className="text-[9px] text-slate-500">· {source.heading}</span>
+                                  )}
+                                  <span className="rounded-full border border-emerald-400/50 px-1.5 py-0.5 text-[8px] font-semibold uppercase tracking-[0.16em] text-emerald-300">
+                                    Aurora guide
+                                  </span>
                                 </span>
-                                <span className="truncate">{source.title}</span>
-                                {host && (
-                                  <span className="text-[9px] text-slate-500">· {host}</span>
+                                {source.snippet && (
+                                  <p className="ml-6 mt-0.5 text-[10px] text-slate-400">{source.snippet}</p>
                                 )}
-                              </a>
-                              {source.snippet && (
-                                <p className="ml-6 mt-0.5 text-[10px] text-slate-400">
-                                  {source.snippet}
-                                </p>
-                              )}
-                            </li>
-                          );
-                        })}
-                      </ul>
-                    </div>
-                  )}
-                </div>
-              </motion.div>
-            ))}
-          </div>
+                              </li>
+                            ))}
+                          {msg.sources
+                            .flatMap((source) => (source.kind === 'web' ? [source] : []))
+                            .slice(0, 4)
+                            .map((source, index) => {
+                              const url = source.url;
+                              let host: string | undefined;
+                              try {
+                                host = new URL(url).hostname.replace(/^www\./, '');
+                              } catch {
+                                host = undefined;
+                              }
+                              return (
+                                <li key={`${source.url}-${index}`} className="leading-snug">
+                                  <a
+                                    href={url}
+                                    target="_blank"
+                                    rel="noreferrer"
+                                    className="inline-flex items-center gap-1 text-[10px] text-sky-300 hover:text-sky-200 hover:underline"
+                                  >
+                                    <span className="rounded-full bg-sky-500/20 px-1.5 py-0.5 text-[9px] text-sky-200">
+                                      {index + 1}
+                                    </span>
+                                    <span className="truncate">{source.title}</span>
+                                    {host && (
+                                      <span className="text-[9px] text-slate-500">· {host}</span>
+                                    )}
+                                    <span className="rounded-full border border-sky-400/50 px-1.5 py-0.5 text-[8px] font-semibold uppercase tracking-[0.16em] text-sky-300">
+                                      Web
+                                    </span>
+                                  </a>
+                                  {source.snippet && (
+                                    <p className="ml-6 mt-0.5 text-[10px] text-slate-400">
+                                      {source.snippet}
+                                    </p>
+                                  )}
+                                </li>
+                              );
+                            })}
+                        </ul>
+                      </div>
+                    )}
+                    {msg.role === 'ai' && msg.liveQuotes && msg.liveQuotes.length > 0 && (
+                      <div className="mt-2 flex flex-wrap gap-1.5">
+                        {msg.liveQuotes.map((quote) => (
+                          <span
+                            key={quote.symbol}
+                            title={quote.stale ? 'Served from cache; a fresh quote was not available' : undefined}
+                            className={`inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-[9px] ${
+                              quote.stale
+                                ? 'border-amber-400/60 bg-amber-400/10 text-amber-200'
+                                : 'border-slate-700/80 bg-slate-900/80 text-slate-300'
+                            }`}
+                          >
+                            <span className="font-semibold">{quote.symbol}</span>
+                            <span>
+                              {format(quote.price, { currency: quote.currency, maximumFractionDigits: 4 })}
+                            </span>
+                            <span className="text-slate-500">
+                              · as of {formatAsOf(quote.asOf)}
+                              {quote.stale ? ' (cached)' : ''}
+                            </span>
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                    {msg.role === 'ai' && msg.remembered && msg.remembered.length > 0 && (
+                      <p className="mt-2 text-[10px] text-violet-200/90">
+                        Remembered for next time: {msg.remembered.join('; ')}
+                      </p>
+                    )}
+                  </div>
+                </motion.div>
+              ))}
+            </div>
 
-          <form onSubmit={handleSend} className="mt-4 flex items-center gap-2 rounded-2xl border border-slate-700/80 bg-slate-900/70 px-3 py-2">
-            <input
-              value={input}
-              onChange={(e) => setInput(e.target.value)}
-              placeholder="Type your question…"
-              className="flex-1 bg-transparent text-xs text-slate-100 placeholder:text-slate-500 focus:outline-none sm:text-sm"
-            />
-            <button
-              type="submit"
-              disabled={isSending}
-              className="inline-flex items-center gap-1 rounded-full border border-emerald-400/80 bg-emerald-400/10 px-3 py-1.5 text-[11px] font-semibold uppercase tracking-[0.2em] text-emerald-200 hover:bg-emerald-400/20 hover:text-emerald-50 disabled:opacity-60"
-            >
-              <span>Send</span>
-              <Send className="h-3.5 w-3.5" />
-            </button>
-          </form>
-        </section>
+            {usageLimit && (
+              <div
+                className="mt-4 rounded-xl border border-amber-400/60 bg-amber-400/10 px-3 py-2 text-xs text-amber-100"
+                role="status"
+              >
+                {usageLimit.reason === 'daily-budget' ? (
+                  <>
+                    <p className="font-semibold">You've hit today's limit with Aurora.</p>
+                    <p className="mt-0.5 text-[11px] text-amber-200/80">
+                      Your allowance resets at{' '}
+                      {new Date(usageLimit.retryAt).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })}
+                      . Your question is still in the box below.
+                    </p>
+                  </>
+                ) : (
+                  <>
+                    <p className="font-semibold">That's a lot of questions in a short time.</p>
+                    <p className="mt-0.5 text-[11px] text-amber-200/80">
+                      Give Aurora about {Math.max(1, Math.ceil((usageLimit.retryAt - Date.now()) / 1000))} seconds,
+                      then send again.
+                    </p>
+                  </>
+                )}
+              </div>
+            )}
+
+            <form onSubmit={handleSend} className="mt-4 flex items-center gap-2 rounded-2xl border border-slate-700/80 bg-slate-900/70 px-3 py-2">
+              <input
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                placeholder="Type your question…"
+                className="flex-1 bg-transparent text-xs text-slate-100 placeholder:text-slate-500 focus:outline-none sm:text-sm"
+              />
+              {isSending ? (
+                <button
+                  type="button"
+                  onClick={handleCancel}
+                  className="inline-flex items-center gap-1 rounded-full border border-rose-400/80 bg-rose-400/10 px-3 py-1.5 text-[11px] font-semibold uppercase tracking-[0.2em] text-rose-200 hover:bg-rose-400/20 hover:text-rose-50"
+                >
+                  <span>Stop</span>
+                  <StopCircle className="h-3.5 w-3.5" />
+                </button>
+              ) : (
+                <button
+                  type="submit"
+                  disabled={Boolean(usageLimit)}
+                  className="inline-flex items-center gap-1 rounded-full border border-emerald-400/80 bg-emerald-400/10 px-3 py-1.5 text-[11px] font-semibold uppercase tracking-[0.2em] text-emerald-200 hover:bg-emerald-400/20 hover:text-emerald-50 disabled:opacity-60"
+                >
+                  <span>Send</span>
+                  <Send className="h-3.5 w-3.5" />
+                </button>
+              )}
+            </form>
+          </section>
+        </div>
       </div>
     </main>
   );
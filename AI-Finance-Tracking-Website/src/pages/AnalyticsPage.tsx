@@ -1,4 +1,4 @@
-import { Fragment, useMemo, useState } from 'react';
+import { Fragment, useEffect, useMemo, useState } from 'react';
 import { Link } from 'react-router-dom';
 import {
   Activity,
@@ -23,10 +23,22 @@ import {
   YAxis,
 } from 'recharts';
 import { motion } from 'framer-motion';
+import { rollUpCategories, type Category } from '../../lib/categories';
+import { loadMerchants, type Merchant } from '../../lib/merchants';
+import { supabase } from '../../lib/supabaseClient';
+import { useAuth } from '../components/AuthProvider';
+import { useCategories } from '../components/CategoryProvider';
+import { useCurrency } from '../components/CurrencyProvider';
 
 type CohortDimension = 'category' | 'merchant' | 'time';
 type TimeSeriesMetric = 'savings' | 'volume';
 
+interface CohortSeries {
+  dataKey: string;
+  name: string;
+  fill: string;
+}
+
 interface DrilldownInsight {
   source: 'overview' | 'cohort' | 'correlation' | 'timeseries' | 'anomaly';
   title: string;
@@ -34,13 +46,6 @@ interface DrilldownInsight {
   bullets: string[];
 }
 
-const cohortByCategoryData = [
-  { cohort: 'Essentials', avgSpend: 3200, avgSavings: 540, users: 120 },
-  { cohort: 'Growth', avgSpend: 4800, avgSavings: 910, users: 75 },
-  { cohort: 'Lean', avgSpend: 2100, avgSavings: 780, users: 54 },
-  { cohort: 'Premium', avgSpend: 7200, avgSavings: 1350, users: 31 },
-];
-
 const cohortByMerchantData = [
   { cohort: 'SaaS-heavy', avgSpend: 1800, avgSavings: 260, users: 64 },
   { cohort: 'Ops-heavy', avgSpend: 3900, avgSavings: 620, users: 42 },
@@ -48,6 +53,52 @@ const cohortByMerchantData = [
   { cohort: 'Hybrid', avgSpend: 3400, avgSavings: 710, users: 58 },
 ];
 
+const DEMO_COHORT_SERIES: CohortSeries[] = [
+  { dataKey: 'avgSpend', name: 'Avg spend', fill: '#22c55e' },
+  { dataKey: 'avgSavings', name: 'Avg savings', fill: '#38bdf8' },
+];
+
+// Signed-in users see their own spending: by top-level category in their taxonomy, or by
+// merchant with statement spellings grouped under one name.
+const LEDGER_COHORT_SERIES: CohortSeries[] = [
+  { dataKey: 'totalSpend', name: 'Total spend', fill: '#22c55e' },
+  { dataKey: 'avgSpend', name: 'Avg per transaction', fill: '#38bdf8' },
+];
+
+const LEDGER_COHORTS = 6;
+
+interface CategorySpend {
+  category: string | null;
+  amount: number;
+}
+
+function categoryCohorts(categories: Category[], spending: CategorySpend[]) {
+  const counts = new Map(
+    rollUpCategories(
+      categories,
+      spending.map((entry) => ({ category: entry.category, amount: 1 })),
+    ).map((entry) => [entry.name, entry.value]),
+  );
+  return rollUpCategories(categories, spending)
+    .slice(0, LEDGER_COHORTS)
+    .map((entry) => ({
+      cohort: entry.name,
+      totalSpend: entry.value,
+      avgSpend: Math.round((entry.value / Math.max(1, counts.get(entry.name) ?? 0)) * 100) / 100,
+    }));
+}
+
+function merchantCohorts(merchants: Merchant[]) {
+  return merchants
+    .filter((merchant) => merchant.spent > 0)
+    .slice(0, LEDGER_COHORTS)
+    .map((merchant) => ({
+      cohort: merchant.name,
+      totalSpend: merchant.spent,
+      avgSpend: Math.round((merchant.spent / Math.max(1, merchant.transactions)) * 100) / 100,
+    }));
+}
+
 const cohortByTimeData = [
   { cohort: 'Morning spenders', avgSpend: 2400, avgSavings: 690, users: 38 },
   { cohort: 'Evening spenders', avgSpend: 4100, avgSavings: 530, users: 52 },
@@ -188,6 +239,14 @@ function severityBadgeConfig(severity: AnomalySeverity) {
 export function AnalyticsPage() {
   const [cohortDimension, setCohortDimension] = useState<CohortDimension>('category');
   const [timeMetric, setTimeMetric] = useState<TimeSeriesMetric>('savings');
+  const [merchants, setMerchants] = useState<Merchant[] | null>(null);
+  const [categorySpending, setCategorySpending] = useState<CategorySpend[] | null>(null);
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const { categories, resolve } = useCategories();
+  const { format } = useCurrency();
+  const formatMoneyAxis = (value: number) => format(value, { compact: true, maximumFractionDigits: 1 });
+  const formatMoneyTooltip = (value: unknown) => (typeof value === 'number' ? format(value) : String(value));
   const [drilldown, setDrilldown] = useState<DrilldownInsight>({
     source: 'overview',
     title: 'AI-assisted analytics overview',
@@ -201,11 +260,69 @@ export function AnalyticsPage() {
     ],
   });
 
+  const wantsMerchants = cohortDimension === 'merchant';
+  const wantsCategories = cohortDimension === 'category';
+
+  // Spending rows for the category cohorts, loaded like the merchants below. RLS limits the
+  // query to the user's own transactions.
+  useEffect(() => {
+    let isMounted = true;
+    setCategorySpending(null);
+    if (!userId || !wantsCategories) return undefined;
+    supabase
+      .from('transactions')
+      .select('category, amount')
+      .eq('user_id', userId)
+      .lt('amount', 0)
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Failed to load category spending', error);
+          return;
+        }
+        if (!isMounted) return;
+        setCategorySpending(
+          (data ?? []).map((row) => ({ category: row.category ?? null, amount: Math.abs(Number(row.amount) || 0) })),
+        );
+      });
+    return () => {
+      isMounted = false;
+    };
+  }, [userId, wantsCategories]);
+
+  // Loaded the first time the merchant cohorts are opened, and again for another account.
+  useEffect(() => {
+    let isMounted = true;
+    setMerchants(null);
+    if (!userId || !wantsMerchants) return undefined;
+    loadMerchants()
+      .then((loaded) => {
+        if (isMounted) setMerchants(loaded);
+      })
+      .catch((err) => console.error('Failed to load merchants', err));
+    return () => {
+      isMounted = false;
+    };
+  }, [userId, wantsMerchants]);
+
+  const ownMerchantCohorts = useMemo(() => merchantCohorts(merchants ?? []), [merchants]);
+  const showsOwnMerchants = wantsMerchants && ownMerchantCohorts.length > 0;
+  // Old category names are resolved first so renamed and merged categories add up together.
+  const ownCategoryCohorts = useMemo(
+    () =>
+      categoryCohorts(
+        categories,
+        (categorySpending ?? []).map((entry) => ({ category: resolve(entry.category), amount: entry.amount })),
+      ),
+    [categories, resolve, categorySpending],
+  );
+  const showsOwnCategories = wantsCategories && ownCategoryCohorts.length > 0;
+
   const cohortData = useMemo(() => {
-    if (cohortDimension === 'merchant') return cohortByMerchantData;
+    if (cohortDimension === 'merchant') return showsOwnMerchants ? ownMerchantCohorts : cohortByMerchantData;
     if (cohortDimension === 'time') return cohortByTimeData;
-    return cohortByCategoryData;
-  }, [cohortDimension]);
+    return ownCategoryCohorts;
+  }, [cohortDimension, showsOwnMerchants, ownMerchantCohorts, ownCategoryCohorts]);
+  const cohortSeries = showsOwnMerchants || showsOwnCategories ? LEDGER_COHORT_SERIES : DEMO_COHORT_SERIES;
 
   const timeSeriesMetricLabel = timeMetric === 'savings' ? 'Monthly savings' : 'Transaction volume';
 
@@ -333,7 +450,9 @@ export function AnalyticsPage() {
                   Cohort charts
                 </p>
                 <p className="mt-1 text-xs text-slate-400">
-                  Compare spend and savings behaviour across user-defined groups.
+                  {showsOwnMerchants
+                    ? 'Your top merchants by spend, with every statement spelling grouped under one name.'
+                    : 'Compare spend and savings behaviour across user-defined groups.'}
                 </p>
               </div>
               <div
@@ -343,7 +462,7 @@ export function AnalyticsPage() {
               >
                 {[
                   ['category', 'By category'],
-                  ['merchant', 'By merchant mix'],
+                  ['merchant', userId ? 'By merchant' : 'By merchant mix'],
                   ['time', 'By time window'],
                 ].map(([value, label]) => {
                   const isActive = cohortDimension === value;
@@ -375,55 +494,63 @@ export function AnalyticsPage() {
             </header>
 
             <div className="mt-4 h-64 w-full">
-              <ResponsiveContainer width="100%" height="100%">
-                <BarChart
-                  data={cohortData}
-                  margin={{ top: 8, right: 12, left: -18, bottom: 4 }}
-                  barSize={24}
-                >
-                  <CartesianGrid strokeDasharray="3 3" stroke="#1f2937" vertical={false} />
-                  <XAxis
-                    dataKey="cohort"
-                    tickLine={false}
-                    axisLine={false}
-                    tick={{ fill: '#9CA3AF', fontSize: 11 }}
-                  />
-                  <YAxis
-                    tickLine={false}
-                    axisLine={false}
-                    tick={{ fill: '#6B7280', fontSize: 10 }}
-                  />
-                  <Tooltip
-                    contentStyle={{
-                      backgroundColor: '#020617',
-                      borderColor: '#1f2937',
-                      borderRadius: 12,
-                      fontSize: 11,
-                      color: '#E5E7EB',
-                    }}
-                  />
-                  <Legend
-                    wrapperStyle={{ fontSize: 11 }}
-                    formatter={(value) => (
-                      <span style={{ color: '#9CA3AF' }}>{value}</span>
-                    )}
-                  />
-                  <Bar
-                    dataKey="avgSpend"
-                    name="Avg spend"
-                    fill="#22c55e"
-                    radius={[6, 6, 0, 0]}
-                    onClick={(data) => handleCohortDrilldown((data as { cohort?: string }).cohort ?? '')}
-                  />
-                  <Bar
-                    dataKey="avgSavings"
-                    name="Avg savings"
-                    fill="#38bdf8"
-                    radius={[6, 6, 0, 0]}
-                    onClick={(data) => handleCohortDrilldown((data as { cohort?: string }).cohort ?? '')}
-                  />
-                </BarChart>
-              </ResponsiveContainer>
+              {wantsCategories && !showsOwnCategories ? (
+                <p className="flex h-full items-center justify-center text-center text-xs text-slate-400">
+                  {!userId
+                    ? 'Sign in to see your spending by category.'
+                    : categorySpending
+                      ? 'No spending to group by category yet.'
+                      : 'Loading your categories…'}
+                </p>
+              ) : (
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart
+                    data={cohortData}
+                    margin={{ top: 8, right: 12, left: -18, bottom: 4 }}
+                    barSize={24}
+                  >
+                    <CartesianGrid strokeDasharray="3 3" stroke="#1f2937" vertical={false} />
+                    <XAxis
+                      dataKey="cohort"
+                      tickLine={false}
+                      axisLine={false}
+                      tick={{ fill: '#9CA3AF', fontSize: 11 }}
+                    />
+                    <YAxis
+                      tickLine={false}
+                      axisLine={false}
+                      tick={{ fill: '#6B7280', fontSize: 10 }}
+                      tickFormatter={formatMoneyAxis}
+                    />
+                    <Tooltip
+                      formatter={formatMoneyTooltip}
+                      contentStyle={{
+                        backgroundColor: '#020617',
+                        borderColor: '#1f2937',
+                        borderRadius: 12,
+                        fontSize: 11,
+                        color: '#E5E7EB',
+                      }}
+                    />
+                    <Legend
+                      wrapperStyle={{ fontSize: 11 }}
+                      formatter={(value) => (
+                        <span style={{ color: '#9CA3AF' }}>{value}</span>
+                      )}
+                    />
+                    {cohortSeries.map((series) => (
+                      <Bar
+                        key={series.dataKey}
+                        dataKey={series.dataKey}
+                        name={series.name}
+                        fill={series.fill}
+                        radius={[6, 6, 0, 0]}
+                        onClick={(data) => handleCohortDrilldown((data as { cohort?: string }).cohort ?? '')}
+                      />
+                    ))}
+                  </BarChart>
+                </ResponsiveContainer>
+              )}
             </div>
             <div className="mt-3 flex items-center justify-between gap-3 text-[11px] text-slate-400">
               <p>
@@ -596,8 +723,12 @@ export function AnalyticsPage() {
                       tickLine={false}
                       axisLine={false}
                       tick={{ fill: '#6B7280', fontSize: 10 }}
+                      tickFormatter={timeMetric === 'savings' ? formatMoneyAxis : undefined}
                     />
                     <Tooltip
+                      formatter={(value, _name, item) =>
+                        item?.dataKey === 'volume' ? String(value) : formatMoneyTooltip(value)
+                      }
                       contentStyle={{
                         backgroundColor: '#020617',
                         borderColor: '#1f2937',
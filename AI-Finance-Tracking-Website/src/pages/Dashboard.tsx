@@ -1,5 +1,16 @@
 import { useEffect, useMemo, useState } from 'react';
 import { supabase } from '../../lib/supabaseClient';
+import { useCategories } from '../components/CategoryProvider';
+import { useCurrency } from '../components/CurrencyProvider';
+import { downloadLedgerExport, LEDGER_EXPORT_FORMATS, type LedgerExportFormat } from '../../lib/exports';
+import {
+  categoriseSimilar,
+  recategoriseTransaction,
+  type SimilarTransaction,
+} from '../../lib/categorisation';
+import { findCategory, orderedCategories, rollUpCategories } from '../../lib/categories';
+import { cleanMerchantName } from '../../lib/merchants';
+import { MerchantLogo } from '../components/MerchantLogo';
 import {
   PieChart,
   Pie,
@@ -15,22 +26,32 @@ interface Account {
   balance?: number | null;
   type?: string | null;
   institution?: string | null;
+  currency?: string | null;
 }
 
 interface Transaction {
   id?: string | number;
   timestamp?: string;
   description?: string | null;
+  // The canonical merchant the description was grouped under, embedded from `merchants`.
+  merchant_info?: { name: string; color: string; logo_url: string | null } | null;
   amount?: number | null;
   category?: string | null;
+  category_source?: string | null;
+  category_confidence?: number | null;
+  needs_review?: boolean | null;
 }
 
-interface SpendingCategoryDatum {
-  name: string;
-  value: number;
+interface SimilarSuggestion {
+  category: string;
+  pattern: string | null;
+  similar: SimilarTransaction[];
 }
 
-const CATEGORY_COLORS = ['#22c55e', '#38bdf8', '#f97316', '#eab308', '#f97373', '#a855f7'];
+// Rows synced before they were grouped under a merchant still read cleanly.
+function merchantName(tx: Transaction): string {
+  return tx.merchant_info?.name ?? cleanMerchantName(tx.description) ?? tx.description ?? '';
+}
 
 export default function Dashboard() {
   const [user, setUser] = useState<any>(null);
@@ -38,6 +59,14 @@ export default function Dashboard() {
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [exporting, setExporting] = useState<LedgerExportFormat | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const { categories } = useCategories();
+  const [savingCategoryId, setSavingCategoryId] = useState<string | null>(null);
+  const [categoryError, setCategoryError] = useState<string | null>(null);
+  const [suggestion, setSuggestion] = useState<SimilarSuggestion | null>(null);
+  const [applyingSuggestion, setApplyingSuggestion] = useState(false);
+  const { format } = useCurrency();
 
   useEffect(() => {
     let isMounted = true;
@@ -72,7 +101,7 @@ export default function Dashboard() {
           .order('name', { ascending: true }),
         supabase
           .from('transactions')
-          .select('*')
+          .select('*, merchant_info:merchants(name, color, logo_url)')
           .eq('user_id', currentUser.id)
           .order('timestamp', { ascending: false }),
       ]);
@@ -98,19 +127,88 @@ export default function Dashboard() {
     };
   }, []);
 
-  const spendingByCategory: SpendingCategoryDatum[] = useMemo(() => {
-    const map = new Map<string, number>();
+  // Rolled up to the user's top-level categories, in their colours.
+  const spendingByCategory = useMemo(
+    () =>
+      rollUpCategories(
+        categories,
+        transactions
+          .filter((tx) => tx.amount != null && tx.amount < 0) // treat negatives as spending
+          .map((tx) => ({ category: tx.category ?? null, amount: Math.abs(tx.amount as number) })),
+      ),
+    [categories, transactions],
+  );
+
+  // The taxonomy in order, plus any name a transaction uses that it does not know yet.
+  const categoryOptions = useMemo(() => {
+    const options = orderedCategories(categories).map(({ category, depth }) => ({ name: category.name, depth }));
+    const unknown = transactions
+      .map((tx) => tx.category)
+      .filter((cat): cat is string => Boolean(cat) && !findCategory(categories, cat));
+    return [...options, ...Array.from(new Set(unknown), (name) => ({ name, depth: 0 }))];
+  }, [categories, transactions]);
+
+  const reviewCount = transactions.filter((tx) => tx.needs_review).length;
 
-    for (const tx of transactions) {
-      if (tx.amount == null) continue;
-      if (tx.amount >= 0) continue; // treat negatives as spending
-      const cat = tx.category ?? 'Other';
-      const prev = map.get(cat) ?? 0;
-      map.set(cat, prev + Math.abs(tx.amount));
+  const setCategoryLocally = (ids: string[], category: string, source: string) => {
+    const changed = new Set(ids);
+    setTransactions((prev) =>
+      prev.map((tx) =>
+        changed.has(String(tx.id))
+          ? { ...tx, category, category_source: source, category_confidence: null, needs_review: false }
+          : tx,
+      ),
+    );
+  };
+
+  // Picking the category a row already has confirms an unsure guess.
+  const handleRecategorise = async (tx: Transaction, category: string) => {
+    if (tx.id == null || !category || (category === tx.category && !tx.needs_review)) return;
+    const id = String(tx.id);
+    setSavingCategoryId(id);
+    setCategoryError(null);
+    setSuggestion(null);
+    try {
+      const result = await recategoriseTransaction(id, category);
+      setCategoryLocally([id], category, 'user');
+      if (result.similar.length) {
+        setSuggestion({ category, pattern: result.pattern, similar: result.similar });
+      }
+    } catch (err: any) {
+      setCategoryError(err?.message ?? 'Could not change the category.');
+    } finally {
+      setSavingCategoryId(null);
     }
+  };
 
-    return Array.from(map.entries()).map(([name, value]) => ({ name, value }));
-  }, [transactions]);
+  // `always` also saves a rule, so future transactions from the merchant follow.
+  const handleApplySuggestion = async (always: boolean) => {
+    if (!suggestion) return;
+    const ids = suggestion.similar.map((similar) => similar.id);
+    setApplyingSuggestion(true);
+    setCategoryError(null);
+    try {
+      await categoriseSimilar(ids, suggestion.category, always ? suggestion.pattern : null);
+      setCategoryLocally(ids, suggestion.category, always ? 'rule' : 'user');
+      setSuggestion(null);
+    } catch (err: any) {
+      setCategoryError(err?.message ?? 'Could not categorise the similar transactions.');
+    } finally {
+      setApplyingSuggestion(false);
+    }
+  };
+
+  const handleExport = async (exportFormat: LedgerExportFormat) => {
+    setExporting(exportFormat);
+    setExportError(null);
+    try {
+      await downloadLedgerExport(exportFormat);
+    } catch (err: any) {
+      setExportError(err?.message ?? 'Could not export your transactions.');
+    } finally {
+      setExporting(null);
+    }
+  };
 
   const formatDate = (value?: string) => {
     if (!value) return '';
@@ -123,12 +221,9 @@ export default function Dashboard() {
     });
   };
 
-  const formatAmount = (value?: number | null) => {
+  const formatAmount = (value?: number | null, currency?: string | null) => {
     if (value == null) return '';
-    return value.toLocaleString(undefined, {
-      style: 'currency',
-      currency: 'USD',
-    });
+    return format(value, { currency: currency ?? undefined });
   };
 
   return (
@@ -227,7 +322,7 @@ export default function Dashboard() {
                         </span>
                       </div>
                       <div style={{ fontWeight: 600, fontSize: '1rem' }}>
-                        {formatAmount(acct.balance ?? null)}
+                        {formatAmount(acct.balance ?? null, acct.currency)}
                       </div>
                       <div
                         style={{
@@ -289,11 +384,8 @@ export default function Dashboard() {
                           outerRadius={70}
                           label={({ name }) => name}
                         >
-                          {spendingByCategory.map((entry, index) => (
-                            <Cell
-                              key={entry.name}
-                              fill={CATEGORY_COLORS[index % CATEGORY_COLORS.length]}
-                            />
+                          {spendingByCategory.map((entry) => (
+                            <Cell key={entry.name} fill={entry.color} />
                           ))}
                         </Pie>
                         <Tooltip
@@ -318,15 +410,140 @@ export default function Dashboard() {
                   overflowX: 'auto',
                 }}
               >
-                <h2
+                <div
                   style={{
-                    fontSize: '0.95rem',
-                    fontWeight: 600,
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'space-between',
+                    gap: '8px',
                     marginBottom: '8px',
                   }}
                 >
-                  Recent transactions
-                </h2>
+                  <h2
+                    style={{
+                      fontSize: '0.95rem',
+                      fontWeight: 600,
+                    }}
+                  >
+                    Recent transactions
+                    {reviewCount > 0 && (
+                      <span
+                        style={{
+                          marginLeft: '8px',
+                          fontSize: '0.75rem',
+                          fontWeight: 500,
+                          color: '#fcd34d',
+                        }}
+                      >
+                        {reviewCount} to review
+                      </span>
+                    )}
+                  </h2>
+                  <div style={{ display: 'flex', gap: '6px' }} role="group" aria-label="Export transactions">
+                    {LEDGER_EXPORT_FORMATS.map(({ format: exportFormat, label }) => (
+                      <button
+                        key={exportFormat}
+                        type="button"
+                        onClick={() => handleExport(exportFormat)}
+                        disabled={exporting !== null || transactions.length === 0}
+                        style={{
+                          borderRadius: '999px',
+                          border: '1px solid rgba(51,65,85,0.9)',
+                          backgroundColor: 'transparent',
+                          color: '#cbd5f5',
+                          fontSize: '0.75rem',
+                          padding: '3px 10px',
+                          cursor: exporting !== null ? 'wait' : 'pointer',
+                          opacity: transactions.length === 0 ? 0.5 : 1,
+                        }}
+                      >
+                        {exporting === exportFormat ? 'Exporting…' : label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                {exportError && (
+                  <p style={{ color: '#f97373', fontSize: '0.8rem', marginBottom: '8px' }} role="alert">
+                    {exportError}
+                  </p>
+                )}
+                {categoryError && (
+                  <p style={{ color: '#f97373', fontSize: '0.8rem', marginBottom: '8px' }} role="alert">
+                    {categoryError}
+                  </p>
+                )}
+                {suggestion && (
+                  <div
+                    role="status"
+                    style={{
+                      display: 'flex',
+                      flexWrap: 'wrap',
+                      alignItems: 'center',
+                      gap: '8px',
+                      marginBottom: '8px',
+                      padding: '8px 10px',
+                      borderRadius: '10px',
+                      border: '1px solid rgba(34,197,94,0.4)',
+                      backgroundColor: 'rgba(34,197,94,0.08)',
+                      fontSize: '0.8rem',
+                    }}
+                  >
+                    <span style={{ flex: '1 1 220px' }}>
+                      {suggestion.similar.length} similar transaction{suggestion.similar.length === 1 ? '' : 's'}
+                      {suggestion.pattern ? ` from “${suggestion.pattern}”` : ''} could move to{' '}
+                      <strong>{suggestion.category}</strong> too.
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => handleApplySuggestion(false)}
+                      disabled={applyingSuggestion}
+                      style={{
+                        borderRadius: '999px',
+                        border: '1px solid rgba(34,197,94,0.6)',
+                        backgroundColor: 'transparent',
+                        color: '#bbf7d0',
+                        fontSize: '0.75rem',
+                        padding: '3px 10px',
+                        cursor: applyingSuggestion ? 'wait' : 'pointer',
+                      }}
+                    >
+                      Categorise similar
+                    </button>
+                    {suggestion.pattern && (
+                      <button
+                        type="button"
+                        onClick={() => handleApplySuggestion(true)}
+                        disabled={applyingSuggestion}
+                        style={{
+                          borderRadius: '999px',
+                          border: '1px solid rgba(34,197,94,0.6)',
+                          backgroundColor: 'rgba(34,197,94,0.15)',
+                          color: '#bbf7d0',
+                          fontSize: '0.75rem',
+                          padding: '3px 10px',
+                          cursor: applyingSuggestion ? 'wait' : 'pointer',
+                        }}
+                      >
+                        Always do this
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => setSuggestion(null)}
+                      disabled={applyingSuggestion}
+                      style={{
+                        border: 'none',
+                        backgroundColor: 'transparent',
+                        color: '#9ca3af',
+                        fontSize: '0.75rem',
+                        padding: '3px 6px',
+                        cursor: 'pointer',
+                      }}
+                    >
+                      Dismiss
+                    </button>
+                  </div>
+                )}
                 <table
                   style={{
                     width: '100%',
@@ -352,7 +569,7 @@ export default function Dashboard() {
                           padding: '6px 8px',
                         }}
                       >
-                        Description
+                        Merchant
                       </th>
                       <th
                         style={{
@@ -406,7 +623,15 @@ export default function Dashboard() {
                               padding: '6px 8px',
                             }}
                           >
-                            {tx.description ?? ''}
+                            <span className="flex items-center gap-2" title={tx.description ?? undefined}>
+                              <MerchantLogo
+                                name={merchantName(tx)}
+                                logoUrl={tx.merchant_info?.logo_url ?? null}
+                                color={tx.merchant_info?.color}
+                                className="h-5 w-5 text-[8px]"
+                              />
+                              {merchantName(tx)}
+                            </span>
                           </td>
                           <td
                             style={{
@@ -427,7 +652,60 @@ export default function Dashboard() {
                               padding: '6px 8px',
                             }}
                           >
-                            {tx.category ?? ''}
+                            {tx.id == null ? (
+                              tx.category ?? ''
+                            ) : (
+                              <select
+                                value={tx.category ?? ''}
+                                onChange={(e) => handleRecategorise(tx, e.target.value)}
+                                disabled={savingCategoryId === String(tx.id)}
+                                aria-label={`Category for ${merchantName(tx) || 'transaction'}`}
+                                title={
+                                  tx.category_source === 'user'
+                                    ? 'Set by you'
+                                    : tx.category_confidence != null
+                                      ? `Learned from your corrections (${Math.round(tx.category_confidence * 100)}% sure)`
+                                      : undefined
+                                }
+                                style={{
+                                  backgroundColor: 'transparent',
+                                  color: '#e5e7eb',
+                                  border: '1px solid rgba(51,65,85,0.9)',
+                                  borderRadius: '6px',
+                                  fontSize: '0.8rem',
+                                  padding: '2px 4px',
+                                  maxWidth: '140px',
+                                  ...(tx.needs_review ? { borderColor: 'rgba(251,191,36,0.8)' } : {}),
+                                }}
+                              >
+                                {!tx.category && <option value="">Uncategorised</option>}
+                                {categoryOptions.map(({ name, depth }) => (
+                                  <option key={name} value={name} style={{ backgroundColor: '#020617' }}>
+                                    {depth ? `\u2003${name}` : name}
+                                  </option>
+                                ))}
+                              </select>
+                            )}
+                            {tx.needs_review && tx.category && (
+                              <button
+                                type="button"
+                                onClick={() => handleRecategorise(tx, tx.category as string)}
+                                disabled={savingCategoryId === String(tx.id)}
+                                title="Aurora was unsure about this one. Keep its guess, or pick another category."
+                                style={{
+                                  marginLeft: '6px',
+                                  borderRadius: '999px',
+                                  border: '1px solid rgba(251,191,36,0.6)',
+                                  backgroundColor: 'transparent',
+                                  color: '#fcd34d',
+                                  fontSize: '0.7rem',
+                                  padding: '1px 8px',
+                                  cursor: 'pointer',
+                                }}
+                              >
+                                Confirm
+                              </button>
+                            )}
                           </td>
                         </tr>
                       ))
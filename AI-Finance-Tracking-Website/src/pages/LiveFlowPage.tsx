@@ -1,6 +1,6 @@
 import { useEffect, useMemo, useRef, useState } from 'react';
 import { motion } from 'framer-motion';
-import { Activity, ArchiveRestore, ChevronDown, Sparkles, X } from 'lucide-react';
+import { Activity, ArchiveRestore, ChevronDown, Download, Sparkles, X } from 'lucide-react';
 import {
   CartesianGrid,
   Legend,
@@ -11,15 +11,24 @@ import {
   XAxis,
   YAxis,
 } from 'recharts';
+import { orderedCategories } from '../../lib/categories';
+import { downloadLedgerExport, LEDGER_EXPORT_FORMATS, type LedgerExportFormat } from '../../lib/exports';
+import { identifyMerchant, merchantColor, merchantDefaults } from '../../lib/merchants';
+import { CategoryIcon } from '../components/CategoryIcon';
+import { useCategories } from '../components/CategoryProvider';
+import { MerchantLogo } from '../components/MerchantLogo';
 
-type LiveCategory = 'All' | 'Groceries' | 'Housing' | 'Income' | 'Transport' | 'Subscriptions' | 'Other';
+// The filter's "everything" option; any other value is a category from the user's taxonomy.
+const ALL_CATEGORIES = 'All';
 
-type LiveSort = 'newest' | 'amount-desc' | 'category';
+type LiveSort = 'newest' | 'amount-desc' | 'category' | 'merchant';
 
 interface LiveTransaction {
   id: number;
+  // The raw statement text; the feed shows the merchant it is cleaned into.
   name: string;
-  category: Exclude<LiveCategory, 'All'>;
+  // As the bank reported it; shown under the name it has in the user's taxonomy.
+  category: string;
   amount: number;
   time: string;
   note: string;
@@ -29,7 +38,7 @@ interface LiveTransaction {
 const LIVE_TRANSACTIONS: LiveTransaction[] = [
   {
     id: 1,
-    name: 'Whole Foods Market',
+    name: 'WHOLEFDS MKT #10234 AUSTIN TX',
     category: 'Groceries',
     amount: -82.35,
     time: '2h ago',
@@ -65,7 +74,7 @@ const LIVE_TRANSACTIONS: LiveTransaction[] = [
   },
   {
     id: 5,
-    name: 'Netflix',
+    name: 'NETFLIX.COM 866-579-7172',
     category: 'Subscriptions',
     amount: -15.99,
     time: '4d ago',
@@ -74,7 +83,7 @@ const LIVE_TRANSACTIONS: LiveTransaction[] = [
   },
   {
     id: 6,
-    name: 'Uber',
+    name: 'UBER *TRIP HELP.UBER.COM',
     category: 'Transport',
     amount: -18.4,
     time: '4d ago',
@@ -92,6 +101,18 @@ const LIVE_TRANSACTIONS: LiveTransaction[] = [
   },
 ];
 
+interface LiveMerchant {
+  name: string;
+  logoUrl: string | null;
+  color: string;
+}
+
+function liveMerchant(tx: LiveTransaction): LiveMerchant {
+  const identity = identifyMerchant(tx.name);
+  if (!identity) return { name: tx.name, logoUrl: null, color: merchantColor(tx.name) };
+  return { name: identity.name, ...merchantDefaults(identity) };
+}
+
 function getLiveTransactionInsight(tx: LiveTransaction): string {
   if (tx.category === 'Groceries') {
     return 'Groceries are trending above your recent baseline. Dialing this back slightly would keep you on target.';
@@ -226,7 +247,8 @@ function PulseGraph({ riskScore }: { riskScore: number }) {
 }
 
 export function LiveFlowPage() {
-  const [category, setCategory] = useState<LiveCategory>('All');
+  const { categories, resolve, familyOf } = useCategories();
+  const [category, setCategory] = useState<string>(ALL_CATEGORIES);
   const [sortBy, setSortBy] = useState<LiveSort>('newest');
   const [isLoading, setIsLoading] = useState(true);
   const [expandedId, setExpandedId] = useState<number | null>(null);
@@ -241,6 +263,8 @@ export function LiveFlowPage() {
   const [riskScore, setRiskScore] = useState(18);
   const [isArchiveOpen, setIsArchiveOpen] = useState(false);
   const [archiveSelection, setArchiveSelection] = useState<string[]>([]);
+  const [exporting, setExporting] = useState<LedgerExportFormat | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
 
   useEffect(() => {
     const timeout = setTimeout(() => setIsLoading(false), 700);
@@ -276,10 +300,19 @@ export function LiveFlowPage() {
     setRiskScore(score);
   }, [flowSeries]);
 
+  // A renamed or merged category drops out of the taxonomy, so the filter falls back to all.
+  useEffect(() => {
+    if (category !== ALL_CATEGORIES && !categories.some((candidate) => candidate.name === category)) {
+      setCategory(ALL_CATEGORIES);
+    }
+  }, [categories, category]);
+
   const filteredAndSorted = useMemo(() => {
     let items = liveTransactions;
-    if (category !== 'All') {
-      items = items.filter((tx) => tx.category === category);
+    if (category !== ALL_CATEGORIES) {
+      // A top-level category also shows its sub-categories.
+      const names = familyOf(category);
+      items = items.filter((tx) => names.includes(resolve(tx.category)));
     }
 
     const sorted = [...items];
@@ -288,10 +321,28 @@ export function LiveFlowPage() {
     } else if (sortBy === 'amount-desc') {
       sorted.sort((a, b) => Math.abs(b.amount) - Math.abs(a.amount));
     } else if (sortBy === 'category') {
-      sorted.sort((a, b) => a.category.localeCompare(b.category));
+      sorted.sort((a, b) => resolve(a.category).localeCompare(resolve(b.category)));
+    } else if (sortBy === 'merchant') {
+      // Grouped by merchant, newest first within each.
+      sorted.sort(
+        (a, b) => liveMerchant(a).name.localeCompare(liveMerchant(b).name) || b.sortIndex - a.sortIndex,
+      );
     }
     return sorted;
-  }, [category, sortBy, liveTransactions]);
+  }, [category, sortBy, liveTransactions, familyOf, resolve]);
+
+  // Exports the stored ledger (not the simulated feed) under the feed's category filter.
+  const handleExport = async (format: LedgerExportFormat) => {
+    setExporting(format);
+    setExportError(null);
+    try {
+      await downloadLedgerExport(format, { category: category === ALL_CATEGORIES ? null : category });
+    } catch (err: any) {
+      setExportError(err?.message ?? 'Could not export your transactions.');
+    } finally {
+      setExporting(null);
+    }
+  };
 
   const handleDismissSuggestion = (id: string, mode: 'dismiss' | 'archive' = 'dismiss') => {
     setSuggestions((previous) => {
@@ -479,12 +530,15 @@ export function LiveFlowPage() {
                   <span className="text-slate-400">Category</span>
                   <select
                     value={category}
-                    onChange={(e) => setCategory(e.target.value as LiveCategory)}
+                    onChange={(e) => setCategory(e.target.value)}
                     className="bg-transparent text-emerald-200 focus:outline-none"
                   >
-                    {['All', 'Groceries', 'Housing', 'Income', 'Transport', 'Subscriptions', 'Other'].map((opt) => (
-                      <option key={opt} value={opt} className="bg-slate-900 text-slate-100">
-                        {opt}
+                    <option value={ALL_CATEGORIES} className="bg-slate-900 text-slate-100">
+                      All
+                    </option>
+                    {orderedCategories(categories).map(({ category: option, depth }) => (
+                      <option key={option.id} value={option.name} className="bg-slate-900 text-slate-100">
+                        {depth ? `\u2003${option.name}` : option.name}
                       </option>
                     ))}
                   </select>
@@ -505,6 +559,9 @@ export function LiveFlowPage() {
                     <option value="category" className="bg-slate-900 text-slate-100">
                       Category
                     </option>
+                    <option value="merchant" className="bg-slate-900 text-slate-100">
+                      Merchant
+                    </option>
                   </select>
                 </div>
                 <button
@@ -517,8 +574,31 @@ export function LiveFlowPage() {
                   <ArchiveRestore className="h-3.5 w-3.5" />
                   Unarchive Items
                 </button>
+                <div
+                  className="flex items-center gap-1 rounded-full border border-slate-700/80 bg-slate-900/80 px-2 py-1"
+                  role="group"
+                  aria-label="Export ledger"
+                >
+                  <Download className="h-3.5 w-3.5 text-slate-400" aria-hidden="true" />
+                  {LEDGER_EXPORT_FORMATS.map(({ format, label }) => (
+                    <button
+                      key={format}
+                      type="button"
+                      onClick={() => handleExport(format)}
+                      disabled={exporting !== null}
+                      className="rounded-full px-1.5 text-emerald-200 hover:text-emerald-100 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-emerald-500/70 disabled:opacity-60"
+                    >
+                      {exporting === format ? '…' : label}
+                    </button>
+                  ))}
+                </div>
               </div>
             </div>
+            {exportError && (
+              <p className="mt-2 text-[11px] text-rose-300" role="alert">
+                {exportError}
+              </p>
+            )}
 
             {isArchiveOpen && (
               <div
@@ -562,11 +642,11 @@ export function LiveFlowPage() {
                             className="mt-0.5 h-3 w-3 rounded border-slate-600 bg-slate-950 text-emerald-400 focus:ring-emerald-500"
                             checked={archiveSelection.includes(selectionId)}
                             onChange={() => handleToggleArchiveSelection(selectionId)}
-                            aria-label={`Select ${tx.name} to restore`}
+                            aria-label={`Select ${liveMerchant(tx).name} to restore`}
                           />
                           <div className="flex-1">
                             <p className="flex items-center justify-between gap-2 text-[11px] text-slate-100">
-                              <span className="truncate">{tx.name}</span>
+                              <span className="truncate">{liveMerchant(tx).name}</span>
                               <span
                                 className={`whitespace-nowrap ${
                                   tx.amount < 0 ? 'text-rose-300' : 'text-emerald-300'
@@ -576,7 +656,7 @@ export function LiveFlowPage() {
                               </span>
                             </p>
                             <p className="mt-0.5 text-[10px] text-slate-400">
-                              {tx.category} · {tx.time}
+                              {resolve(tx.category)} · {tx.time}
                             </p>
                           </div>
                         </label>
@@ -655,6 +735,7 @@ export function LiveFlowPage() {
                   ))
                 : filteredAndSorted.map((tx) => {
                     const isExpanded = expandedId === tx.id;
+                    const merchant = liveMerchant(tx);
                     return (
                       <motion.div
                         key={tx.id}
@@ -667,11 +748,15 @@ export function LiveFlowPage() {
                         className="cursor-pointer rounded-xl border border-slate-800/80 bg-slate-950/60 px-3 py-3 text-xs hover:border-emerald-400/60 hover:bg-slate-900/80 card-3d-hover"
                       >
                         <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
-                          <div>
-                            <p className="text-sm font-medium text-slate-100">{tx.name}</p>
-                            <p className="mt-0.5 text-[11px] text-slate-400">
-                              {tx.category} · {tx.time}
-                            </p>
+                          <div className="flex items-center gap-2.5">
+                            <MerchantLogo name={merchant.name} logoUrl={merchant.logoUrl} color={merchant.color} />
+                            <div>
+                              <p className="text-sm font-medium text-slate-100">{merchant.name}</p>
+                              <p className="mt-0.5 flex items-center gap-1 text-[11px] text-slate-400">
+                                <CategoryIcon category={tx.category} className="h-3 w-3" />
+                                {resolve(tx.category)} · {tx.time}
+                              </p>
+                            </div>
                           </div>
                           <div className="text-right">
                             <div className="flex items-center justify-end gap-2">
@@ -720,11 +805,17 @@ export function LiveFlowPage() {
                           <div className="border-t border-slate-800/80 pt-2">
                             <p className="text-slate-300">
                               <span className="font-semibold text-slate-100">Merchant:</span>{' '}
-                              {tx.name}
+                              {merchant.name}
                             </p>
+                            {merchant.name !== tx.name && (
+                              <p className="mt-1 text-slate-300">
+                                <span className="font-semibold text-slate-100">Statement text:</span>{' '}
+                                <span className="font-mono text-[10px] text-slate-400">{tx.name}</span>
+                              </p>
+                            )}
                             <p className="mt-1 text-slate-300">
                               <span className="font-semibold text-slate-100">Category:</span>{' '}
-                              {tx.category}
+                              {resolve(tx.category)}
                             </p>
                             <p className="mt-1 text-slate-300">
                               <span className="font-semibold text-slate-100">Amount:</span>{' '}
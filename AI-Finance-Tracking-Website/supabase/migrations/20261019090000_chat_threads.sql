@@ -0,0 +1,52 @@
+-- Persistent Aurora chat threads.
+-- Every row is owned by the authenticated user; row-level security keeps one user's
+-- conversations invisible to everyone else, including the /api/chat function, which
+-- queries with the caller's access token rather than the service-role key.
+
+create table if not exists public.chat_threads (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  title text not null default 'New conversation',
+  pinned boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists chat_threads_user_recent_idx
+  on public.chat_threads (user_id, pinned desc, updated_at desc);
+
+create table if not exists public.chat_messages (
+  id uuid primary key default gen_random_uuid(),
+  thread_id uuid not null references public.chat_threads (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  role text not null check (role in ('user', 'ai')),
+  text text not null,
+  confidence real,
+  sources jsonb not null default '[]'::jsonb,
+  used_search boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists chat_messages_thread_created_idx
+  on public.chat_messages (thread_id, created_at);
+
+alter table public.chat_threads enable row level security;
+alter table public.chat_messages enable row level security;
+
+create policy "Users manage their own chat threads"
+  on public.chat_threads
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users manage messages in their own threads"
+  on public.chat_messages
+  for all
+  using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and exists (
+      select 1 from public.chat_threads t
+      where t.id = thread_id and t.user_id = auth.uid()
+    )
+  );
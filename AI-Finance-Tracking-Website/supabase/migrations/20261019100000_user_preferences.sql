@@ -0,0 +1,16 @@
+-- Per-user display preferences. `base_currency` drives FX conversion of account balances,
+-- dashboard totals and the figures Aurora quotes back in chat.
+
+create table if not exists public.user_preferences (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  base_currency text not null default 'USD' check (base_currency ~ '^[A-Z]{3}$'),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.user_preferences enable row level security;
+
+create policy "Users manage their own preferences"
+  on public.user_preferences
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
@@ -0,0 +1,28 @@
+-- Conversation memory for Aurora.
+-- Long threads keep a running summary of the turns that no longer fit the prompt, plus the
+-- timestamp of the last message folded into it, so each turn is summarised once.
+-- `user_memories` holds facts the user told Aurora ("I'm saving for a house in 2027") that
+-- are recalled in every thread; users can review and delete them from the chat page.
+
+alter table public.chat_threads
+  add column if not exists summary text,
+  add column if not exists summarized_through timestamptz;
+
+create table if not exists public.user_memories (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  fact text not null,
+  source_thread_id uuid references public.chat_threads (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists user_memories_user_fact_idx
+  on public.user_memories (user_id, fact);
+
+alter table public.user_memories enable row level security;
+
+create policy "Users manage their own memories"
+  on public.user_memories
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
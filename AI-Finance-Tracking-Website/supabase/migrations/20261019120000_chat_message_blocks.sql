@@ -0,0 +1,5 @@
+-- Structured answer blocks (charts, tables, action chips) stored alongside each Aurora reply,
+-- so reopening a thread renders the same cards. Shape is defined in lib/aurora/blocks.ts.
+
+alter table public.chat_messages
+  add column if not exists blocks jsonb not null default '[]'::jsonb;
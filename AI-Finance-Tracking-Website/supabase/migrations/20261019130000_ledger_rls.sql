@@ -0,0 +1,22 @@
+-- Row-level security for the ledger tables /api/chat reads on the user's behalf.
+-- The function now queries with the caller's access token instead of the service-role key,
+-- so these policies are what keeps one user's figures away from another.
+-- The tables predate these migrations; each block is skipped if its table does not exist.
+
+do $$
+declare
+  ledger_table text;
+begin
+  foreach ledger_table in array array['financial_overview', 'transactions', 'accounts'] loop
+    if to_regclass('public.' || ledger_table) is not null then
+      execute format('alter table public.%I enable row level security', ledger_table);
+      execute format('drop policy if exists "Users read their own %s" on public.%I', ledger_table, ledger_table);
+      execute format(
+        'create policy "Users read their own %s" on public.%I for select using (auth.uid() = user_id)',
+        ledger_table,
+        ledger_table
+      );
+    end if;
+  end loop;
+end
+$$;
@@ -0,0 +1,74 @@
+-- Shared state for /api/chat rate limits when RATE_LIMIT_STORE=supabase (see lib/aurora/limits).
+-- Token buckets and daily usage counters are updated by two functions that lock the row, so
+-- concurrent function instances cannot both spend the last token. Only the service role may
+-- call them; RLS with no policies keeps the tables unreadable to users.
+
+create table if not exists public.rate_limit_buckets (
+  key text primary key,
+  tokens double precision not null,
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.rate_limit_counters (
+  key text primary key,
+  value bigint not null default 0,
+  expires_at timestamptz not null
+);
+
+alter table public.rate_limit_buckets enable row level security;
+alter table public.rate_limit_counters enable row level security;
+
+create or replace function public.take_rate_limit_token(
+  p_key text,
+  p_capacity double precision,
+  p_refill_per_second double precision
+)
+returns table (allowed boolean, tokens double precision)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_now timestamptz := clock_timestamp();
+  v_tokens double precision;
+  v_updated timestamptz;
+begin
+  insert into rate_limit_buckets (key, tokens, updated_at)
+  values (p_key, p_capacity, v_now)
+  on conflict (key) do nothing;
+
+  select b.tokens, b.updated_at into v_tokens, v_updated
+  from rate_limit_buckets b
+  where b.key = p_key
+  for update;
+
+  v_tokens := least(p_capacity, v_tokens + greatest(0, extract(epoch from (v_now - v_updated))) * p_refill_per_second);
+  allowed := v_tokens >= 1;
+  if allowed then
+    v_tokens := v_tokens - 1;
+  end if;
+
+  update rate_limit_buckets set tokens = v_tokens, updated_at = v_now where key = p_key;
+  tokens := v_tokens;
+  return next;
+end;
+$$;
+
+create or replace function public.add_rate_limit_usage(p_key text, p_amount bigint, p_ttl_seconds integer)
+returns bigint
+language sql
+security definer
+set search_path = public
+as $$
+  insert into rate_limit_counters as c (key, value, expires_at)
+  values (p_key, p_amount, now() + make_interval(secs => p_ttl_seconds))
+  on conflict (key) do update set
+    value = case when c.expires_at <= now() then excluded.value else c.value + excluded.value end,
+    expires_at = case when c.expires_at <= now() then excluded.expires_at else c.expires_at end
+  returning value;
+$$;
+
+revoke all on function public.take_rate_limit_token(text, double precision, double precision) from public, anon, authenticated;
+revoke all on function public.add_rate_limit_usage(text, bigint, integer) from public, anon, authenticated;
+grant execute on function public.take_rate_limit_token(text, double precision, double precision) to service_role;
+grant execute on function public.add_rate_limit_usage(text, bigint, integer) to service_role;
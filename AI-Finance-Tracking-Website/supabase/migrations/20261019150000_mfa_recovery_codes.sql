@@ -0,0 +1,30 @@
+-- One-time recovery codes for users who lose their authenticator app. Only SHA-256 hashes of
+-- the codes are stored. Users can list and replace their own codes, but only from a session
+-- that already passed MFA (aal2), so a stolen password alone cannot mint new codes.
+-- Redemption happens in /api/mfa-recovery with the service role.
+
+create table if not exists public.mfa_recovery_codes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  code_hash text not null,
+  used_at timestamptz,
+  created_at timestamptz not null default now(),
+  unique (user_id, code_hash)
+);
+
+alter table public.mfa_recovery_codes enable row level security;
+
+create policy "Users read their own recovery codes"
+  on public.mfa_recovery_codes
+  for select
+  using (auth.uid() = user_id);
+
+create policy "Users manage their own recovery codes after MFA"
+  on public.mfa_recovery_codes
+  for insert
+  with check (auth.uid() = user_id and (auth.jwt() ->> 'aal') = 'aal2');
+
+create policy "Users delete their own recovery codes after MFA"
+  on public.mfa_recovery_codes
+  for delete
+  using (auth.uid() = user_id and (auth.jwt() ->> 'aal') = 'aal2');
@@ -0,0 +1,132 @@
+-- Device details for each Supabase Auth session, shown on the Security page. Rows hang off
+-- auth.sessions, so revoking a session (which also deletes its refresh tokens) removes the row.
+-- /api/sessions records the current session only: the insert and update policies pin
+-- session_id to the `session_id` claim of the caller's token.
+
+create table if not exists public.user_sessions (
+  session_id uuid primary key references auth.sessions (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  device text not null,
+  user_agent text,
+  ip text,
+  location text,
+  created_at timestamptz not null default now(),
+  last_active_at timestamptz not null default now()
+);
+
+create index if not exists user_sessions_user_idx on public.user_sessions (user_id, last_active_at desc);
+
+alter table public.user_sessions enable row level security;
+
+create policy "Users read their own sessions"
+  on public.user_sessions
+  for select
+  using (auth.uid() = user_id);
+
+create policy "Users record their current session"
+  on public.user_sessions
+  for insert
+  with check (auth.uid() = user_id and session_id = (auth.jwt() ->> 'session_id')::uuid);
+
+create policy "Users refresh their current session"
+  on public.user_sessions
+  for update
+  using (auth.uid() = user_id and session_id = (auth.jwt() ->> 'session_id')::uuid)
+  with check (auth.uid() = user_id and session_id = (auth.jwt() ->> 'session_id')::uuid);
+
+-- Live sessions for the caller, newest activity first. Sessions from before device details
+-- were recorded fall back to what Supabase Auth itself stored.
+create or replace function public.list_my_sessions()
+returns table (
+  session_id uuid,
+  device text,
+  user_agent text,
+  ip text,
+  location text,
+  created_at timestamptz,
+  last_active_at timestamptz,
+  is_current boolean
+)
+language sql
+stable
+security definer
+set search_path = public, auth
+as $$
+  select
+    s.id,
+    u.device,
+    coalesce(u.user_agent, s.user_agent),
+    coalesce(u.ip, host(s.ip)),
+    u.location,
+    s.created_at,
+    greatest(u.last_active_at, s.refreshed_at, s.updated_at, s.created_at),
+    s.id = (auth.jwt() ->> 'session_id')::uuid
+  from auth.sessions s
+  left join public.user_sessions u on u.session_id = s.id
+  where s.user_id = auth.uid()
+    and (s.not_after is null or s.not_after > now())
+  order by 7 desc;
+$$;
+
+-- Whether the caller's token is as strong as their account requires: once they have a
+-- verified factor, only an aal2 session may sign other devices out, as the app itself asks.
+create or replace function public.my_session_meets_mfa()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public, auth
+as $$
+  select (auth.jwt() ->> 'aal') = 'aal2'
+    or not exists (
+      select 1 from auth.mfa_factors f where f.user_id = auth.uid() and f.status = 'verified'
+    );
+$$;
+
+-- Deleting the auth.sessions row is what Supabase's own sign-out does: its refresh tokens go
+-- with it, so the device is signed out once its current access token expires.
+create or replace function public.revoke_my_session(p_session_id uuid)
+returns boolean
+language plpgsql
+security definer
+set search_path = public, auth
+as $$
+begin
+  if not public.my_session_meets_mfa() then
+    raise exception 'session has not completed MFA' using errcode = 'insufficient_privilege';
+  end if;
+  delete from auth.sessions where id = p_session_id and user_id = auth.uid();
+  return found;
+end;
+$$;
+
+create or replace function public.revoke_my_other_sessions()
+returns integer
+language plpgsql
+security definer
+set search_path = public, auth
+as $$
+declare
+  v_current uuid := (auth.jwt() ->> 'session_id')::uuid;
+  v_count integer;
+begin
+  -- Without a session claim there is no way to tell which session to keep.
+  if v_current is null then
+    raise exception 'token has no session_id claim';
+  end if;
+  if not public.my_session_meets_mfa() then
+    raise exception 'session has not completed MFA' using errcode = 'insufficient_privilege';
+  end if;
+  delete from auth.sessions where user_id = auth.uid() and id <> v_current;
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+revoke all on function public.my_session_meets_mfa() from public, anon, authenticated;
+revoke all on function public.list_my_sessions() from public, anon;
+revoke all on function public.revoke_my_session(uuid) from public, anon;
+revoke all on function public.revoke_my_other_sessions() from public, anon;
+grant execute on function public.list_my_sessions() to authenticated;
+grant execute on function public.revoke_my_session(uuid) to authenticated;
+grant execute on function public.revoke_my_other_sessions() to authenticated;
@@ -0,0 +1,44 @@
+-- Security event log behind the Security page's risk card (see lib/aurora/risk). Each
+-- sign-in is stored once per auth session with the risk score and the signals behind it.
+-- Only /api/security-events writes here, with the service role, so users can read their
+-- log but cannot rewrite the history their future sign-ins are compared against.
+
+create table if not exists public.security_events (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  session_id uuid unique,
+  kind text not null default 'sign-in' check (kind in ('sign-in')),
+  risk_score smallint not null default 0 check (risk_score between 0 and 100),
+  risk_level text not null default 'low' check (risk_level in ('low', 'elevated', 'high')),
+  signals jsonb not null default '[]'::jsonb,
+  device text not null,
+  user_agent text,
+  ip text,
+  city text,
+  country text,
+  latitude double precision,
+  longitude double precision,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists security_events_user_idx on public.security_events (user_id, created_at desc);
+
+alter table public.security_events enable row level security;
+
+create policy "Users read their own security events"
+  on public.security_events
+  for select
+  using (auth.uid() = user_id);
+
+-- Failed password attempts, keyed by a SHA-256 of the lowercased email so addresses without
+-- an account are never stored in the clear. No policies: service role only.
+create table if not exists public.login_failures (
+  id bigint generated always as identity primary key,
+  email_hash text not null,
+  ip text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists login_failures_email_idx on public.login_failures (email_hash, created_at desc);
+
+alter table public.login_failures enable row level security;
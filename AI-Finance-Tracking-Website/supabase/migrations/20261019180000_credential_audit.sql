@@ -0,0 +1,12 @@
+-- Credential changes join the security event log: each password change, email change request
+-- and failed current-password check gets a row, written by /api/credentials with the
+-- service role. `details` holds what changed (e.g. the requested address), never secrets.
+
+alter table public.security_events drop constraint if exists security_events_kind_check;
+alter table public.security_events
+  add constraint security_events_kind_check
+  check (kind in ('sign-in', 'password-changed', 'email-change-requested', 'reauth-failed'));
+
+alter table public.security_events add column if not exists details jsonb not null default '{}'::jsonb;
+
+create index if not exists security_events_user_kind_idx on public.security_events (user_id, kind, created_at desc);
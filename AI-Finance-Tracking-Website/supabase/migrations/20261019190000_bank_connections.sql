@@ -0,0 +1,84 @@
+-- Institutions linked through a bank connector (lib/aurora/banking) and the accounts they
+-- bring in. Connector access tokens live in their own table with no policies, so only the
+-- service role used by /api/bank-connections can read them. Linked accounts are ordinary
+-- rows of `accounts` (which the dashboard and chat already read) tagged with their connection.
+
+create table if not exists public.bank_connections (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  connector text not null,
+  item_id text not null,
+  institution_id text not null,
+  institution_name text not null,
+  institution_country text,
+  status text not null default 'healthy' check (status in ('healthy', 'degraded', 'error')),
+  transactions_cursor text,
+  last_synced_at timestamptz,
+  created_at timestamptz not null default now(),
+  unique (connector, item_id)
+);
+
+create index if not exists bank_connections_user_idx on public.bank_connections (user_id, created_at desc);
+
+alter table public.bank_connections enable row level security;
+
+create policy "Users read their own bank connections"
+  on public.bank_connections
+  for select
+  using (auth.uid() = user_id);
+
+create table if not exists public.bank_connection_tokens (
+  connection_id uuid primary key references public.bank_connections (id) on delete cascade,
+  access_token text not null,
+  created_at timestamptz not null default now()
+);
+
+alter table public.bank_connection_tokens enable row level security;
+
+-- `accounts` predates these migrations; create it for fresh projects.
+create table if not exists public.accounts (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  institution text,
+  type text,
+  balance numeric not null default 0,
+  currency text not null default 'USD',
+  created_at timestamptz not null default now()
+);
+
+alter table public.accounts
+  add column if not exists connection_id uuid references public.bank_connections (id) on delete cascade,
+  add column if not exists external_id text,
+  add column if not exists mask text,
+  add column if not exists available_balance numeric,
+  add column if not exists country text,
+  add column if not exists nickname text,
+  add column if not exists visible boolean not null default true,
+  add column if not exists notifications text not null default 'important'
+    check (notifications in ('all', 'important', 'none')),
+  add column if not exists is_primary boolean not null default false,
+  add column if not exists updated_at timestamptz not null default now();
+
+create unique index if not exists accounts_connection_external_idx
+  on public.accounts (connection_id, external_id)
+  where connection_id is not null;
+
+alter table public.accounts enable row level security;
+
+drop policy if exists "Users read their own accounts" on public.accounts;
+create policy "Users read their own accounts"
+  on public.accounts
+  for select
+  using (auth.uid() = user_id);
+
+-- Balances and institution details come from the connector; users only edit how an account
+-- is presented.
+create policy "Users update their own account settings"
+  on public.accounts
+  for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+revoke update on public.accounts from authenticated;
+grant update (nickname, visible, notifications, updated_at) on public.accounts to authenticated;
@@ -0,0 +1,78 @@
+-- Scheduled syncing of bank connections (lib/aurora/banking/sync.ts). Each connection tracks
+-- when it is next due, how many attempts in a row failed and why, plus a short lease so two
+-- syncs never run at once. Every attempt is kept in `bank_sync_attempts` for the Accounts page
+-- timeline. Synced transactions land in `transactions`, keyed by the connector's id so
+-- re-syncs update rows instead of duplicating them.
+
+alter table public.bank_connections
+  add column if not exists next_sync_at timestamptz not null default now(),
+  add column if not exists consecutive_failures integer not null default 0,
+  add column if not exists last_error_code text,
+  add column if not exists last_error_message text,
+  add column if not exists sync_lease_until timestamptz;
+
+create index if not exists bank_connections_due_idx on public.bank_connections (next_sync_at);
+
+create table if not exists public.bank_sync_attempts (
+  id uuid primary key default gen_random_uuid(),
+  connection_id uuid not null references public.bank_connections (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  trigger text not null check (trigger in ('link', 'scheduled', 'manual')),
+  outcome text not null check (outcome in ('success', 'failed')),
+  status text not null check (status in ('healthy', 'degraded', 'error')),
+  error_code text,
+  message text,
+  added integer not null default 0,
+  modified integer not null default 0,
+  removed integer not null default 0,
+  started_at timestamptz not null,
+  finished_at timestamptz not null default now()
+);
+
+create index if not exists bank_sync_attempts_connection_idx
+  on public.bank_sync_attempts (connection_id, started_at desc);
+
+alter table public.bank_sync_attempts enable row level security;
+
+create policy "Users read their own sync attempts"
+  on public.bank_sync_attempts
+  for select
+  using (auth.uid() = user_id);
+
+-- Upserts need a plain unique index to resolve ON CONFLICT; NULLs never collide, so manual
+-- accounts and hand-entered transactions are unaffected.
+drop index if exists public.accounts_connection_external_idx;
+create unique index if not exists accounts_connection_external_idx
+  on public.accounts (connection_id, external_id);
+
+-- `transactions` predates these migrations; create it for fresh projects.
+create table if not exists public.transactions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  "timestamp" timestamptz not null default now(),
+  description text,
+  amount numeric not null,
+  category text,
+  created_at timestamptz not null default now()
+);
+
+alter table public.transactions
+  add column if not exists account_id uuid references public.accounts (id) on delete cascade,
+  add column if not exists external_id text,
+  add column if not exists merchant text,
+  add column if not exists currency text,
+  add column if not exists pending boolean not null default false;
+
+create unique index if not exists transactions_account_external_idx
+  on public.transactions (account_id, external_id);
+
+create index if not exists transactions_user_timestamp_idx
+  on public.transactions (user_id, "timestamp" desc);
+
+alter table public.transactions enable row level security;
+
+drop policy if exists "Users read their own transactions" on public.transactions;
+create policy "Users read their own transactions"
+  on public.transactions
+  for select
+  using (auth.uid() = user_id);
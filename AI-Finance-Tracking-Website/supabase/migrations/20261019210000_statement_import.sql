@@ -0,0 +1,18 @@
+-- Statement imports (lib/statementImport) insert into `transactions` from the browser with the
+-- user's session. Rows must belong to the user and land in one of the user's own accounts.
+
+drop policy if exists "Users insert their own transactions" on public.transactions;
+create policy "Users insert their own transactions"
+  on public.transactions
+  for insert
+  with check (
+    auth.uid() = user_id
+    and (
+      account_id is null
+      or exists (
+        select 1 from public.accounts
+        where accounts.id = transactions.account_id
+          and accounts.user_id = auth.uid()
+      )
+    )
+  );
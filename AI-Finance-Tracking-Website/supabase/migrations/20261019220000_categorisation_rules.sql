@@ -0,0 +1,98 @@
+-- Rules-based categorisation (lib/aurora/categorisation). Users keep an ordered list of rules;
+-- each transaction records where its category came from, so re-applying rules never
+-- overwrites a category the user picked by hand, and the category the bank or statement
+-- supplied is kept in `provider_category` to fall back on when no rule matches.
+
+create table if not exists public.categorisation_rules (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  priority integer not null default 0,
+  category text not null check (char_length(category) between 1 and 60),
+  merchant_pattern text check (char_length(merchant_pattern) <= 200),
+  match_type text not null default 'contains' check (match_type in ('contains', 'regex')),
+  min_amount numeric check (min_amount >= 0),
+  max_amount numeric check (max_amount >= 0),
+  account_id uuid references public.accounts (id) on delete cascade,
+  enabled boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists categorisation_rules_user_idx
+  on public.categorisation_rules (user_id, priority, created_at);
+
+alter table public.categorisation_rules enable row level security;
+
+drop policy if exists "Users read their own categorisation rules" on public.categorisation_rules;
+create policy "Users read their own categorisation rules"
+  on public.categorisation_rules
+  for select
+  using (auth.uid() = user_id);
+
+drop policy if exists "Users insert their own categorisation rules" on public.categorisation_rules;
+create policy "Users insert their own categorisation rules"
+  on public.categorisation_rules
+  for insert
+  with check (
+    auth.uid() = user_id
+    and (
+      account_id is null
+      or exists (
+        select 1 from public.accounts
+        where accounts.id = categorisation_rules.account_id
+          and accounts.user_id = auth.uid()
+      )
+    )
+  );
+
+drop policy if exists "Users update their own categorisation rules" on public.categorisation_rules;
+create policy "Users update their own categorisation rules"
+  on public.categorisation_rules
+  for update
+  using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and (
+      account_id is null
+      or exists (
+        select 1 from public.accounts
+        where accounts.id = categorisation_rules.account_id
+          and accounts.user_id = auth.uid()
+      )
+    )
+  );
+
+drop policy if exists "Users delete their own categorisation rules" on public.categorisation_rules;
+create policy "Users delete their own categorisation rules"
+  on public.categorisation_rules
+  for delete
+  using (auth.uid() = user_id);
+
+alter table public.transactions
+  add column if not exists provider_category text,
+  add column if not exists category_source text
+    check (category_source in ('user', 'rule', 'provider', 'dictionary')),
+  add column if not exists category_rule_id uuid references public.categorisation_rules (id) on delete set null;
+
+-- Categories already on the ledger came from the bank, a statement or the seed data.
+update public.transactions
+  set provider_category = category,
+      category_source = 'provider'
+  where category is not null
+    and category_source is null;
+
+create index if not exists transactions_user_category_source_idx
+  on public.transactions (user_id, category_source);
+
+-- Users may recategorise their own transactions, but amounts, dates and descriptions stay as
+-- the bank or statement reported them.
+drop policy if exists "Users update their own transaction categories" on public.transactions;
+create policy "Users update their own transaction categories"
+  on public.transactions
+  for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+revoke update on public.transactions from authenticated;
+grant update (category, category_source, category_rule_id) on public.transactions to authenticated;
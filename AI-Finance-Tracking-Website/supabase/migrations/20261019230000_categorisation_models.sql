@@ -0,0 +1,52 @@
+-- Learned categorisation (lib/aurora/categorisation/classifier.ts). Each user has one naive
+-- Bayes model, retrained from the categories they pick by hand and stored as JSON so the
+-- statement import preview can run it in the browser. Predictions record how confident the
+-- model was; unsure ones are flagged for the user to review.
+
+create table if not exists public.categorisation_models (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  model jsonb not null,
+  examples integer not null,
+  trained_at timestamptz not null default now()
+);
+
+alter table public.categorisation_models enable row level security;
+
+drop policy if exists "Users read their own categorisation model" on public.categorisation_models;
+create policy "Users read their own categorisation model"
+  on public.categorisation_models
+  for select
+  using (auth.uid() = user_id);
+
+drop policy if exists "Users insert their own categorisation model" on public.categorisation_models;
+create policy "Users insert their own categorisation model"
+  on public.categorisation_models
+  for insert
+  with check (auth.uid() = user_id);
+
+drop policy if exists "Users update their own categorisation model" on public.categorisation_models;
+create policy "Users update their own categorisation model"
+  on public.categorisation_models
+  for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+drop policy if exists "Users delete their own categorisation model" on public.categorisation_models;
+create policy "Users delete their own categorisation model"
+  on public.categorisation_models
+  for delete
+  using (auth.uid() = user_id);
+
+alter table public.transactions
+  drop constraint if exists transactions_category_source_check;
+alter table public.transactions
+  add constraint transactions_category_source_check
+    check (category_source in ('user', 'rule', 'learned', 'provider', 'dictionary')),
+  add column if not exists category_confidence numeric check (category_confidence between 0 and 1),
+  add column if not exists needs_review boolean not null default false;
+
+create index if not exists transactions_user_needs_review_idx
+  on public.transactions (user_id, "timestamp" desc)
+  where needs_review;
+
+grant update (category_confidence, needs_review) on public.transactions to authenticated;
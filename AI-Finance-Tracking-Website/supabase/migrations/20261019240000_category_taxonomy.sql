@@ -0,0 +1,108 @@
+-- User-defined category taxonomy (lib/aurora/categorisation/taxonomy.ts). Each user keeps
+-- their own categories, one level of sub-categories under them, with a colour and an icon.
+-- Transactions and rules still store the category by name; renames and merges relabel them
+-- and are kept in `category_changes`, so the history survives and old names still resolve.
+
+create table if not exists public.categories (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (char_length(name) between 1 and 60),
+  name_key text generated always as (lower(name)) stored,
+  parent_id uuid references public.categories (id) on delete set null,
+  color text not null check (color ~ '^#[0-9a-f]{6}$'),
+  icon text not null default 'tag',
+  position integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (user_id, name_key)
+);
+
+create index if not exists categories_user_idx
+  on public.categories (user_id, position);
+
+alter table public.categories enable row level security;
+
+drop policy if exists "Users read their own categories" on public.categories;
+create policy "Users read their own categories"
+  on public.categories
+  for select
+  using (auth.uid() = user_id);
+
+drop policy if exists "Users insert their own categories" on public.categories;
+create policy "Users insert their own categories"
+  on public.categories
+  for insert
+  with check (
+    auth.uid() = user_id
+    and (
+      parent_id is null
+      or exists (
+        select 1 from public.categories as parent
+        where parent.id = categories.parent_id
+          and parent.user_id = auth.uid()
+      )
+    )
+  );
+
+drop policy if exists "Users update their own categories" on public.categories;
+create policy "Users update their own categories"
+  on public.categories
+  for update
+  using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and (
+      parent_id is null
+      or exists (
+        select 1 from public.categories as parent
+        where parent.id = categories.parent_id
+          and parent.user_id = auth.uid()
+      )
+    )
+  );
+
+drop policy if exists "Users delete their own categories" on public.categories;
+create policy "Users delete their own categories"
+  on public.categories
+  for delete
+  using (auth.uid() = user_id);
+
+create table if not exists public.category_changes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  action text not null check (action in ('rename', 'merge')),
+  from_name text not null,
+  to_name text not null,
+  transactions integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists category_changes_user_idx
+  on public.category_changes (user_id, created_at);
+
+alter table public.category_changes enable row level security;
+
+drop policy if exists "Users read their own category changes" on public.category_changes;
+create policy "Users read their own category changes"
+  on public.category_changes
+  for select
+  using (auth.uid() = user_id);
+
+-- History is append-only: no update or delete policies.
+drop policy if exists "Users insert their own category changes" on public.category_changes;
+create policy "Users insert their own category changes"
+  on public.category_changes
+  for insert
+  with check (auth.uid() = user_id);
+
+-- How many transactions use each category name. Runs as the caller, so RLS on
+-- `transactions` limits it to their rows.
+create or replace view public.transaction_category_usage
+  with (security_invoker = true)
+  as
+  select user_id, category, count(*)::integer as transactions
+  from public.transactions
+  where category is not null
+  group by user_id, category;
+
+grant select on public.transaction_category_usage to authenticated;
@@ -0,0 +1,143 @@
+-- Canonical merchants (lib/aurora/merchants). Statement texts are cleaned into an alias key
+-- ("SQ *BLUE BOTTLE #0423" → "blue bottle") and each alias points at one of the user's
+-- merchants, which carries the name, colour, logo and default category shown in the app.
+-- Merging merchants moves the aliases too, so later transactions follow the merge.
+
+create table if not exists public.merchants (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (char_length(name) between 1 and 80),
+  name_key text generated always as (lower(name)) stored,
+  color text not null check (color ~ '^#[0-9a-f]{6}$'),
+  logo_url text check (logo_url ~ '^https://' and char_length(logo_url) <= 500),
+  category text check (char_length(category) between 1 and 60),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (user_id, name_key)
+);
+
+alter table public.merchants enable row level security;
+
+drop policy if exists "Users read their own merchants" on public.merchants;
+create policy "Users read their own merchants"
+  on public.merchants
+  for select
+  using (auth.uid() = user_id);
+
+drop policy if exists "Users insert their own merchants" on public.merchants;
+create policy "Users insert their own merchants"
+  on public.merchants
+  for insert
+  with check (auth.uid() = user_id);
+
+drop policy if exists "Users update their own merchants" on public.merchants;
+create policy "Users update their own merchants"
+  on public.merchants
+  for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+drop policy if exists "Users delete their own merchants" on public.merchants;
+create policy "Users delete their own merchants"
+  on public.merchants
+  for delete
+  using (auth.uid() = user_id);
+
+create table if not exists public.merchant_aliases (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  alias text not null check (char_length(alias) between 1 and 200),
+  merchant_id uuid not null references public.merchants (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (user_id, alias)
+);
+
+create index if not exists merchant_aliases_merchant_idx
+  on public.merchant_aliases (merchant_id);
+
+alter table public.merchant_aliases enable row level security;
+
+drop policy if exists "Users read their own merchant aliases" on public.merchant_aliases;
+create policy "Users read their own merchant aliases"
+  on public.merchant_aliases
+  for select
+  using (auth.uid() = user_id);
+
+drop policy if exists "Users insert their own merchant aliases" on public.merchant_aliases;
+create policy "Users insert their own merchant aliases"
+  on public.merchant_aliases
+  for insert
+  with check (
+    auth.uid() = user_id
+    and exists (
+      select 1 from public.merchants
+      where merchants.id = merchant_aliases.merchant_id
+        and merchants.user_id = auth.uid()
+    )
+  );
+
+drop policy if exists "Users update their own merchant aliases" on public.merchant_aliases;
+create policy "Users update their own merchant aliases"
+  on public.merchant_aliases
+  for update
+  using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and exists (
+      select 1 from public.merchants
+      where merchants.id = merchant_aliases.merchant_id
+        and merchants.user_id = auth.uid()
+    )
+  );
+
+drop policy if exists "Users delete their own merchant aliases" on public.merchant_aliases;
+create policy "Users delete their own merchant aliases"
+  on public.merchant_aliases
+  for delete
+  using (auth.uid() = user_id);
+
+alter table public.transactions
+  drop constraint if exists transactions_category_source_check;
+alter table public.transactions
+  add constraint transactions_category_source_check
+    check (category_source in ('user', 'rule', 'merchant', 'learned', 'provider', 'dictionary')),
+  add column if not exists merchant_id uuid references public.merchants (id) on delete set null;
+
+create index if not exists transactions_user_merchant_idx
+  on public.transactions (user_id, merchant_id);
+
+-- Users may point their transactions at their own merchants only.
+drop policy if exists "Users update their own transaction categories" on public.transactions;
+create policy "Users update their own transaction categories"
+  on public.transactions
+  for update
+  using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and (
+      merchant_id is null
+      or exists (
+        select 1 from public.merchants
+        where merchants.id = transactions.merchant_id
+          and merchants.user_id = auth.uid()
+      )
+    )
+  );
+
+grant update (merchant_id) on public.transactions to authenticated;
+
+-- Transactions and money out per merchant. Runs as the caller, so RLS on `transactions`
+-- limits it to their rows.
+create or replace view public.merchant_usage
+  with (security_invoker = true)
+  as
+  select
+    user_id,
+    merchant_id,
+    count(*)::integer as transactions,
+    coalesce(sum(-amount) filter (where amount < 0), 0) as spent,
+    max("timestamp") as last_seen
+  from public.transactions
+  where merchant_id is not null
+  group by user_id, merchant_id;
+
+grant select on public.merchant_usage to authenticated;
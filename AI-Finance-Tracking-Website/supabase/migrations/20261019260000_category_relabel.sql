@@ -0,0 +1,122 @@
+-- Category renames and merges (lib/aurora/categorisation/taxonomyStore.ts) in one transaction
+-- each: the category edit, relabelling the user's transactions, rules and merchant defaults,
+-- and the `category_changes` entry either all land or none do. The functions act on the
+-- caller's own rows only (auth.uid()) and return null when a category is not theirs.
+
+-- Moves everything labelled `p_from` (any case) to `p_to` and records the change. Only called
+-- from the two functions below, after they have checked ownership.
+create or replace function public.relabel_category(p_user_id uuid, p_action text, p_from text, p_to text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_transactions integer;
+  v_change public.category_changes;
+begin
+  update public.transactions
+    set category = p_to
+    where user_id = p_user_id and lower(category) = lower(p_from);
+  get diagnostics v_transactions = row_count;
+
+  update public.categorisation_rules
+    set category = p_to, updated_at = now()
+    where user_id = p_user_id and lower(category) = lower(p_from);
+
+  update public.merchants
+    set category = p_to, updated_at = now()
+    where user_id = p_user_id and lower(category) = lower(p_from);
+
+  insert into public.category_changes (user_id, action, from_name, to_name, transactions)
+    values (p_user_id, p_action, p_from, p_to, v_transactions)
+    returning * into v_change;
+  return to_jsonb(v_change);
+end;
+$$;
+
+-- Saves a category's name, parent, colour and icon. Resolves to { category, change }, where
+-- change is null unless the name changed.
+create or replace function public.update_my_category(
+  p_category_id uuid,
+  p_name text,
+  p_parent_id uuid,
+  p_color text,
+  p_icon text
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user uuid := auth.uid();
+  v_previous text;
+  v_category public.categories;
+begin
+  select name into v_previous
+    from public.categories
+    where id = p_category_id and user_id = v_user
+    for update;
+  if not found then
+    return null;
+  end if;
+  if p_parent_id is not null
+    and not exists (select 1 from public.categories where id = p_parent_id and user_id = v_user) then
+    raise exception 'parent category not found' using errcode = 'foreign_key_violation';
+  end if;
+
+  update public.categories
+    set name = p_name, parent_id = p_parent_id, color = p_color, icon = p_icon, updated_at = now()
+    where id = p_category_id
+    returning * into v_category;
+
+  return jsonb_build_object(
+    'category', to_jsonb(v_category),
+    'change', case
+      when v_previous = p_name then null
+      else public.relabel_category(v_user, 'rename', v_previous, p_name)
+    end
+  );
+end;
+$$;
+
+-- Folds one category into another: sub-categories move under the survivor (or its parent),
+-- everything labelled with the old name is relabelled and the old category is removed.
+-- Resolves to the change entry.
+create or replace function public.merge_my_category(p_from_id uuid, p_into_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user uuid := auth.uid();
+  v_from public.categories;
+  v_into public.categories;
+begin
+  if p_from_id = p_into_id then
+    raise exception 'cannot merge a category into itself' using errcode = 'check_violation';
+  end if;
+  select * into v_from from public.categories where id = p_from_id and user_id = v_user for update;
+  select * into v_into from public.categories where id = p_into_id and user_id = v_user for update;
+  if v_from.id is null or v_into.id is null then
+    return null;
+  end if;
+  if v_into.parent_id = v_from.id then
+    raise exception 'cannot merge a category into its own sub-category' using errcode = 'check_violation';
+  end if;
+
+  update public.categories
+    set parent_id = coalesce(v_into.parent_id, v_into.id), updated_at = now()
+    where user_id = v_user and parent_id = v_from.id;
+  delete from public.categories where id = v_from.id;
+  return public.relabel_category(v_user, 'merge', v_from.name, v_into.name);
+end;
+$$;
+
+revoke all on function public.relabel_category(uuid, text, text, text) from public, anon, authenticated;
+revoke all on function public.update_my_category(uuid, text, uuid, text, text) from public, anon;
+revoke all on function public.merge_my_category(uuid, uuid) from public, anon;
+grant execute on function public.update_my_category(uuid, text, uuid, text, text) to authenticated;
+grant execute on function public.merge_my_category(uuid, uuid) to authenticated;
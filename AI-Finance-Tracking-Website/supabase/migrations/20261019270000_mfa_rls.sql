@@ -0,0 +1,167 @@
+-- MFA for the data itself, not just the app's routes. Once a user has a verified factor, a
+-- token that has not completed MFA (aal1, i.e. a password alone) reads and writes nothing of
+-- theirs: each table gets a restrictive policy, which Postgres ANDs with the permissive
+-- "Users … their own …" policies. Views over `transactions` run as the caller and follow.
+--
+-- user_sessions is left out: /api/sessions records the device right after the password
+-- step, so that a sign-in still owing MFA shows up on the Security page. The list itself
+-- comes from list_my_sessions(), which now returns nothing to such a token. Redeeming a
+-- recovery code goes through /api/mfa-recovery with the service role, which bypasses RLS.
+-- Tables that predate these migrations are skipped if they do not exist.
+
+-- Restrictive policies run as the caller, so they need to be able to call this.
+grant execute on function public.my_session_meets_mfa() to authenticated;
+
+do $$
+declare
+  user_table text;
+begin
+  foreach user_table in array array[
+    'financial_overview',
+    'transactions',
+    'accounts',
+    'bank_connections',
+    'bank_sync_attempts',
+    'chat_threads',
+    'chat_messages',
+    'user_memories',
+    'user_preferences',
+    'mfa_recovery_codes',
+    'security_events',
+    'categorisation_rules',
+    'categorisation_models',
+    'categories',
+    'category_changes',
+    'merchants',
+    'merchant_aliases'
+  ] loop
+    if to_regclass('public.' || user_table) is not null then
+      execute format('drop policy if exists "Users reach their own %s only after MFA" on public.%I', user_table, user_table);
+      -- Wrapped in a select so Postgres evaluates it once per query rather than per row.
+      execute format(
+        'create policy "Users reach their own %s only after MFA" on public.%I as restrictive for all to authenticated '
+          || 'using ((select public.my_session_meets_mfa())) with check ((select public.my_session_meets_mfa()))',
+        user_table,
+        user_table
+      );
+    end if;
+  end loop;
+end
+$$;
+
+-- As in 20261019160000_user_sessions.sql, plus the MFA check.
+create or replace function public.list_my_sessions()
+returns table (
+  session_id uuid,
+  device text,
+  user_agent text,
+  ip text,
+  location text,
+  created_at timestamptz,
+  last_active_at timestamptz,
+  is_current boolean
+)
+language sql
+stable
+security definer
+set search_path = public, auth
+as $$
+  select
+    s.id,
+    u.device,
+    coalesce(u.user_agent, s.user_agent),
+    coalesce(u.ip, host(s.ip)),
+    u.location,
+    s.created_at,
+    greatest(u.last_active_at, s.refreshed_at, s.updated_at, s.created_at),
+    s.id = (auth.jwt() ->> 'session_id')::uuid
+  from auth.sessions s
+  left join public.user_sessions u on u.session_id = s.id
+  where s.user_id = auth.uid()
+    and (s.not_after is null or s.not_after > now())
+    and public.my_session_meets_mfa()
+  order by 7 desc;
+$$;
+
+-- The category functions run as their owner, past RLS, so they check for themselves. As in
+-- 20261019260000_category_relabel.sql otherwise.
+create or replace function public.update_my_category(
+  p_category_id uuid,
+  p_name text,
+  p_parent_id uuid,
+  p_color text,
+  p_icon text
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user uuid := auth.uid();
+  v_previous text;
+  v_category public.categories;
+begin
+  if not public.my_session_meets_mfa() then
+    raise exception 'session has not completed MFA' using errcode = 'insufficient_privilege';
+  end if;
+  select name into v_previous
+    from public.categories
+    where id = p_category_id and user_id = v_user
+    for update;
+  if not found then
+    return null;
+  end if;
+  if p_parent_id is not null
+    and not exists (select 1 from public.categories where id = p_parent_id and user_id = v_user) then
+    raise exception 'parent category not found' using errcode = 'foreign_key_violation';
+  end if;
+
+  update public.categories
+    set name = p_name, parent_id = p_parent_id, color = p_color, icon = p_icon, updated_at = now()
+    where id = p_category_id
+    returning * into v_category;
+
+  return jsonb_build_object(
+    'category', to_jsonb(v_category),
+    'change', case
+      when v_previous = p_name then null
+      else public.relabel_category(v_user, 'rename', v_previous, p_name)
+    end
+  );
+end;
+$$;
+
+create or replace function public.merge_my_category(p_from_id uuid, p_into_id uuid)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user uuid := auth.uid();
+  v_from public.categories;
+  v_into public.categories;
+begin
+  if not public.my_session_meets_mfa() then
+    raise exception 'session has not completed MFA' using errcode = 'insufficient_privilege';
+  end if;
+  if p_from_id = p_into_id then
+    raise exception 'cannot merge a category into itself' using errcode = 'check_violation';
+  end if;
+  select * into v_from from public.categories where id = p_from_id and user_id = v_user for update;
+  select * into v_into from public.categories where id = p_into_id and user_id = v_user for update;
+  if v_from.id is null or v_into.id is null then
+    return null;
+  end if;
+  if v_into.parent_id = v_from.id then
+    raise exception 'cannot merge a category into its own sub-category' using errcode = 'check_violation';
+  end if;
+
+  update public.categories
+    set parent_id = coalesce(v_into.parent_id, v_into.id), updated_at = now()
+    where user_id = v_user and parent_id = v_from.id;
+  delete from public.categories where id = v_from.id;
+  return public.relabel_category(v_user, 'merge', v_from.name, v_into.name);
+end;
+$$;